@@ -11,11 +11,11 @@
  *   npm run test:batch -- --scenario=1 --prompt=v1  # Run specific combo
  */
 
-import Anthropic from "@anthropic-ai/sdk";
 import * as fs from "fs";
 import * as path from "path";
 import { buildPrompt, promptVersions } from "../prompts/system-prompt.js";
 import { allScenarios, type TestScenario } from "../prompts/user-contexts.js";
+import { getCompanionProvider, type CompanionProvider } from "./server/services/llm-provider.js";
 
 interface Message {
   role: "user" | "assistant";
@@ -49,7 +49,7 @@ function parseArgs(): {
 }
 
 async function runConversation(
-  anthropic: Anthropic,
+  provider: CompanionProvider,
   systemPrompt: string,
   testQuestions: string[]
 ): Promise<Message[]> {
@@ -58,16 +58,13 @@ async function runConversation(
   for (const question of testQuestions) {
     conversation.push({ role: "user", content: question });
 
-    const response = await anthropic.messages.create({
-      model: "claude-sonnet-4-20250514",
-      max_tokens: 1024,
+    const response = await provider.generate({
       system: systemPrompt,
       messages: conversation,
+      maxTokens: 1024,
     });
 
-    const assistantMessage = response.content[0].type === "text" ? response.content[0].text : "";
-
-    conversation.push({ role: "assistant", content: assistantMessage });
+    conversation.push({ role: "assistant", content: response.text });
 
     // Small delay to avoid rate limiting
     await new Promise((r) => setTimeout(r, 300));
@@ -185,14 +182,16 @@ async function main() {
     return;
   }
 
-  // Check for API key
-  if (!process.env.ANTHROPIC_API_KEY) {
+  const provider = getCompanionProvider();
+
+  // Check for API key (not needed with COMPANION_PROVIDER=mock)
+  if (provider.id === "anthropic" && !process.env.ANTHROPIC_API_KEY) {
     console.error("\n❌ ANTHROPIC_API_KEY not set.");
-    console.error("   Use --dry-run to preview prompts without API calls.\n");
+    console.error("   Use --dry-run to preview prompts without API calls,");
+    console.error("   or set COMPANION_PROVIDER=mock to run offline.\n");
     process.exit(1);
   }
 
-  const anthropic = new Anthropic();
   const timestamp = new Date().toISOString();
 
   console.log("\n🚀 Running batch prompt tests...\n");
@@ -208,7 +207,7 @@ async function main() {
 
       console.log(`⏳ ${scenario.name} + ${name}...`);
 
-      const conversation = await runConversation(anthropic, systemPrompt, scenario.testQuestions);
+      const conversation = await runConversation(provider, systemPrompt, scenario.testQuestions);
 
       const result: ConversationResult = {
         promptVersion: version,
@@ -9,19 +9,19 @@
  *   npm run demo:chat
  */
 
-import Anthropic from "@anthropic-ai/sdk";
 import { buildPrompt, promptVersions } from "../prompts/system-prompt.js";
 import { allScenarios, type TestScenario } from "../prompts/user-contexts.js";
+import { getCompanionProvider } from "./server/services/llm-provider.js";
 
-// Check for API key
-if (!process.env.ANTHROPIC_API_KEY) {
+const provider = getCompanionProvider();
+
+// Check for API key (not needed with COMPANION_PROVIDER=mock)
+if (provider.id === "anthropic" && !process.env.ANTHROPIC_API_KEY) {
   console.log("⚠️  ANTHROPIC_API_KEY not set - skipping chat demo");
   console.log("   Set the secret in GitHub to enable chat demos.\n");
   process.exit(0);
 }
 
-const anthropic = new Anthropic();
-
 interface Message {
   role: "user" | "assistant";
   content: string;
@@ -49,14 +49,13 @@ async function runScenarioDemo(scenario: TestScenario): Promise<void> {
     conversationHistory.push({ role: "user", content: question });
 
     try {
-      const response = await anthropic.messages.create({
-        model: "claude-sonnet-4-20250514",
-        max_tokens: 512,
+      const response = await provider.generate({
         system: systemPrompt,
         messages: conversationHistory,
+        maxTokens: 512,
       });
 
-      const assistantMessage = response.content[0].type === "text" ? response.content[0].text : "";
+      const assistantMessage = response.text;
 
       console.log(`🤖 COMPANION: ${assistantMessage}\n`);
       console.log("─".repeat(70) + "\n");
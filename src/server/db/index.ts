@@ -5,7 +5,7 @@
  */
 
 import Database from "better-sqlite3";
-import { schema } from "./schema.js";
+import { migrateUp } from "./migrator.js";
 import * as path from "path";
 import * as fs from "fs";
 import { fileURLToPath } from "url";
@@ -36,9 +36,15 @@ export function getDb(): Database.Database {
   return db;
 }
 
+/**
+ * Bring the database up to date by applying any pending migrations
+ */
 export function initializeDb(): void {
   const database = getDb();
-  database.exec(schema);
+  const { migrations } = migrateUp(database);
+  for (const migration of migrations) {
+    console.log(`Applied migration ${migration.version}: ${migration.name}`);
+  }
   console.log(`Database initialized at ${DB_PATH}`);
 }
 
@@ -0,0 +1,65 @@
+#!/usr/bin/env node
+/**
+ * Database Migration Script
+ *
+ * Run with:
+ *   npm run db:migrate                      Apply pending migrations
+ *   npm run db:migrate -- --to 3            Apply migrations up to version 3
+ *   npm run db:migrate -- down              Revert the latest migration
+ *   npm run db:migrate -- down --steps 2    Revert the latest two
+ *   npm run db:migrate -- down --to 1       Revert everything after version 1
+ *   npm run db:migrate -- status            List migrations and when they ran
+ *
+ * Add --dry-run to see what up or down would do without changing anything.
+ */
+
+import { getDb, closeDb, DB_PATH } from "./index.js";
+import { getMigrationStatus, migrateDown, migrateUp } from "./migrator.js";
+
+const args = process.argv.slice(2);
+const command = args.find((arg) => !arg.startsWith("--") && !/^\d+$/.test(arg)) || "up";
+const dryRun = args.includes("--dry-run");
+
+function numberOption(name: string): number | undefined {
+  const index = args.indexOf(name);
+  if (index < 0) return undefined;
+  const value = parseInt(args[index + 1], 10);
+  if (Number.isNaN(value)) {
+    console.error(`${name} needs a number`);
+    process.exit(1);
+  }
+  return value;
+}
+
+console.log(`Database: ${DB_PATH}\n`);
+const db = getDb();
+
+try {
+  if (command === "status") {
+    for (const migration of getMigrationStatus(db)) {
+      const state = migration.appliedAt ? `applied ${migration.appliedAt}` : "pending";
+      console.log(`  ${String(migration.version).padStart(3, "0")}  ${migration.name}  (${state})`);
+    }
+  } else if (command === "up" || command === "down") {
+    const run =
+      command === "up"
+        ? migrateUp(db, { to: numberOption("--to"), dryRun })
+        : migrateDown(db, { steps: numberOption("--steps"), to: numberOption("--to"), dryRun });
+
+    const [verb, done] = command === "up" ? ["apply", "Applied"] : ["revert", "Reverted"];
+    if (run.migrations.length === 0) {
+      console.log(`Nothing to ${verb}.`);
+    }
+    for (const migration of run.migrations) {
+      console.log(`${dryRun ? `Would ${verb}` : done} ${migration.version}: ${migration.name}`);
+    }
+    if (dryRun && run.migrations.length > 0) {
+      console.log("\nDry run - nothing was changed.");
+    }
+  } else {
+    console.error(`Unknown command: ${command} (expected "up", "down" or "status")`);
+    process.exitCode = 1;
+  }
+} finally {
+  closeDb();
+}
@@ -0,0 +1,342 @@
+/**
+ * Migration 001: Initial Schema
+ *
+ * The schema as it stood before migrations were introduced. Every statement
+ * is IF NOT EXISTS, so on a database created back then this only records the
+ * migration.
+ */
+
+import type { Migration } from "../migrator.js";
+
+const schema = `
+-- Users table
+CREATE TABLE IF NOT EXISTS users (
+  id TEXT PRIMARY KEY,
+  email TEXT UNIQUE NOT NULL,
+  name TEXT NOT NULL,
+  created_at TEXT DEFAULT (datetime('now')),
+
+  -- User context for AI companion
+  work_context TEXT,
+  interests TEXT,  -- JSON array
+
+  -- Preferences
+  preferences TEXT DEFAULT '{}'  -- JSON object
+);
+
+-- Magic links for passwordless auth
+CREATE TABLE IF NOT EXISTS magic_links (
+  id TEXT PRIMARY KEY,
+  user_id TEXT REFERENCES users(id),
+  email TEXT NOT NULL,
+  token TEXT UNIQUE NOT NULL,
+  expires_at TEXT NOT NULL,
+  used_at TEXT,
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+-- Auth sessions (login sessions, not focus sessions)
+CREATE TABLE IF NOT EXISTS auth_sessions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id),
+  token TEXT UNIQUE NOT NULL,
+  expires_at TEXT NOT NULL,
+  created_at TEXT DEFAULT (datetime('now')),
+  last_active_at TEXT DEFAULT (datetime('now'))
+);
+
+-- Focus sessions table (renamed from sessions for clarity)
+CREATE TABLE IF NOT EXISTS sessions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id),
+  started_at TEXT DEFAULT (datetime('now')),
+  ended_at TEXT,
+
+  -- Session details
+  declared_task TEXT,
+  outcome TEXT,  -- Post-session reflection
+  duration_planned INTEGER,  -- in minutes
+  duration_actual INTEGER,   -- in minutes
+  check_in_frequency INTEGER DEFAULT 15,  -- in minutes
+
+  -- Status: 'active', 'completed', 'abandoned'
+  status TEXT DEFAULT 'active'
+);
+
+-- Messages table
+CREATE TABLE IF NOT EXISTS messages (
+  id TEXT PRIMARY KEY,
+  session_id TEXT NOT NULL REFERENCES sessions(id),
+  role TEXT NOT NULL,  -- 'user' or 'assistant'
+  content TEXT NOT NULL,
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+-- User context items - things worth remembering
+CREATE TABLE IF NOT EXISTS user_context_items (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id),
+  category TEXT NOT NULL,  -- 'project', 'interest', 'challenge', 'insight'
+  content TEXT NOT NULL,
+  last_referenced TEXT DEFAULT (datetime('now')),
+  importance INTEGER DEFAULT 1,  -- 1-5 scale
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+-- Notion integration
+CREATE TABLE IF NOT EXISTS notion_connections (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id),
+  access_token TEXT NOT NULL,
+  workspace_id TEXT NOT NULL,
+  workspace_name TEXT,
+  workspace_icon TEXT,
+  bot_id TEXT NOT NULL,
+  connected_at TEXT DEFAULT (datetime('now')),
+  last_synced_at TEXT,
+
+  -- User-configured database mappings
+  tasks_database_id TEXT,
+  calendar_database_id TEXT,
+  notes_database_id TEXT,
+  assistant_db_id TEXT,
+
+  UNIQUE(user_id)
+);
+
+-- Notion API call logs for full transparency
+CREATE TABLE IF NOT EXISTS notion_api_logs (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id),
+  timestamp TEXT DEFAULT (datetime('now')),
+
+  -- Request details
+  method TEXT NOT NULL,           -- GET, POST, PATCH, DELETE
+  endpoint TEXT NOT NULL,         -- /v1/pages, /v1/databases/{id}/query, etc.
+  request_body TEXT,              -- JSON stringified request body (if any)
+
+  -- Response details
+  status_code INTEGER NOT NULL,   -- HTTP status code
+  response_body TEXT,             -- JSON stringified response (truncated if large)
+
+  -- Context
+  operation TEXT NOT NULL,        -- Human readable: "Create task", "Query tasks", "Search", etc.
+  triggered_by TEXT,              -- "user_request", "proactive_check", "assistant_action"
+  duration_ms INTEGER,            -- How long the request took
+
+  -- Error tracking
+  error_message TEXT,             -- If request failed
+
+  -- Related entities
+  notion_object_id TEXT,          -- ID of the page/database involved (if applicable)
+  notion_object_type TEXT         -- "page", "database", "block", etc.
+);
+
+-- Google OAuth connections (Gmail, Calendar)
+CREATE TABLE IF NOT EXISTS google_connections (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id),
+  access_token TEXT NOT NULL,
+  refresh_token TEXT NOT NULL,
+  token_expires_at TEXT NOT NULL,
+  email TEXT NOT NULL,            -- Google account email
+  connected_at TEXT DEFAULT (datetime('now')),
+  last_synced_at TEXT,
+
+  -- Granted scopes (stored as JSON array)
+  scopes TEXT NOT NULL,
+
+  UNIQUE(user_id)
+);
+
+-- Google API call logs for transparency (similar to Notion)
+CREATE TABLE IF NOT EXISTS google_api_logs (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id),
+  timestamp TEXT DEFAULT (datetime('now')),
+
+  -- Request details
+  method TEXT NOT NULL,
+  endpoint TEXT NOT NULL,
+  request_body TEXT,
+
+  -- Response details
+  status_code INTEGER NOT NULL,
+  response_body TEXT,
+
+  -- Context
+  operation TEXT NOT NULL,
+  service TEXT NOT NULL,          -- 'gmail', 'calendar', 'people'
+  triggered_by TEXT,
+  duration_ms INTEGER,
+
+  -- Error tracking
+  error_message TEXT
+);
+
+-- Side chats for organized topic-based conversations
+CREATE TABLE IF NOT EXISTS side_chats (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id),
+  title TEXT NOT NULL,
+  topic TEXT,                           -- Brief topic description
+  created_at TEXT DEFAULT (datetime('now')),
+  last_message_at TEXT DEFAULT (datetime('now')),
+  status TEXT DEFAULT 'active',         -- 'active', 'archived'
+  pinned INTEGER DEFAULT 0,             -- Boolean: 1 = pinned
+  notion_page_id TEXT,                  -- Optional link to Notion page
+
+  -- Context for the conversation
+  context TEXT                          -- JSON: any context data for this chat
+);
+
+-- Messages in side chats (separate from session messages)
+CREATE TABLE IF NOT EXISTS side_chat_messages (
+  id TEXT PRIMARY KEY,
+  side_chat_id TEXT NOT NULL REFERENCES side_chats(id),
+  role TEXT NOT NULL,                   -- 'user', 'assistant', 'system'
+  content TEXT NOT NULL,
+  created_at TEXT DEFAULT (datetime('now')),
+
+  -- Optional metadata
+  metadata TEXT                         -- JSON: tool calls, suggestions, etc.
+);
+
+-- Main chat messages (persistent chat not tied to sessions)
+CREATE TABLE IF NOT EXISTS main_chat_messages (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id),
+  role TEXT NOT NULL,                   -- 'user', 'assistant', 'system'
+  content TEXT NOT NULL,
+  created_at TEXT DEFAULT (datetime('now')),
+
+  -- Link to side chat if message spawned one
+  spawned_side_chat_id TEXT REFERENCES side_chats(id),
+
+  -- Optional metadata
+  metadata TEXT                         -- JSON: tool calls, context, etc.
+);
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_sessions_status ON sessions(status);
+CREATE INDEX IF NOT EXISTS idx_messages_session_id ON messages(session_id);
+CREATE INDEX IF NOT EXISTS idx_context_items_user_id ON user_context_items(user_id);
+CREATE INDEX IF NOT EXISTS idx_context_items_category ON user_context_items(category);
+CREATE INDEX IF NOT EXISTS idx_magic_links_token ON magic_links(token);
+CREATE INDEX IF NOT EXISTS idx_magic_links_email ON magic_links(email);
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_token ON auth_sessions(token);
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_user_id ON auth_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_notion_connections_user_id ON notion_connections(user_id);
+CREATE INDEX IF NOT EXISTS idx_notion_api_logs_user_id ON notion_api_logs(user_id);
+CREATE INDEX IF NOT EXISTS idx_notion_api_logs_timestamp ON notion_api_logs(timestamp);
+CREATE INDEX IF NOT EXISTS idx_notion_api_logs_operation ON notion_api_logs(operation);
+CREATE INDEX IF NOT EXISTS idx_side_chats_user_id ON side_chats(user_id);
+CREATE INDEX IF NOT EXISTS idx_side_chats_status ON side_chats(status);
+CREATE INDEX IF NOT EXISTS idx_side_chat_messages_chat_id ON side_chat_messages(side_chat_id);
+CREATE INDEX IF NOT EXISTS idx_main_chat_messages_user_id ON main_chat_messages(user_id);
+CREATE INDEX IF NOT EXISTS idx_google_connections_user_id ON google_connections(user_id);
+CREATE INDEX IF NOT EXISTS idx_google_api_logs_user_id ON google_api_logs(user_id);
+CREATE INDEX IF NOT EXISTS idx_google_api_logs_timestamp ON google_api_logs(timestamp);
+
+-- Alerts/notifications from the assistant
+CREATE TABLE IF NOT EXISTS alerts (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id),
+  created_at TEXT DEFAULT (datetime('now')),
+
+  -- Alert details
+  type TEXT NOT NULL,              -- 'email', 'calendar', 'task', 'briefing', 'reminder', 'insight'
+  title TEXT NOT NULL,
+  content TEXT NOT NULL,
+  priority TEXT DEFAULT 'normal',  -- 'low', 'normal', 'high', 'urgent'
+
+  -- Status
+  status TEXT DEFAULT 'unread',    -- 'unread', 'read', 'dismissed', 'actioned'
+  read_at TEXT,
+  dismissed_at TEXT,
+
+  -- Source information
+  source_type TEXT,                -- 'gmail', 'calendar', 'notion', 'system'
+  source_id TEXT,                  -- ID of the source item (email ID, event ID, etc.)
+
+  -- Optional action
+  action_type TEXT,                -- 'open_email', 'open_event', 'open_task', 'spawn_chat', etc.
+  action_data TEXT                 -- JSON with action-specific data
+);
+
+-- Daily briefings
+CREATE TABLE IF NOT EXISTS briefings (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id),
+  created_at TEXT DEFAULT (datetime('now')),
+
+  -- Briefing details
+  date TEXT NOT NULL,              -- The date this briefing is for (YYYY-MM-DD)
+  type TEXT DEFAULT 'morning',     -- 'morning', 'evening', 'weekly'
+
+  -- Content
+  summary TEXT NOT NULL,           -- AI-generated summary
+
+  -- Raw data used to generate briefing (for transparency)
+  calendar_events TEXT,            -- JSON array of events
+  emails TEXT,                     -- JSON array of email summaries
+  tasks TEXT,                      -- JSON array of tasks
+
+  -- Status
+  viewed_at TEXT,
+
+  UNIQUE(user_id, date, type)
+);
+
+-- Background job tracking
+CREATE TABLE IF NOT EXISTS background_checks (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id),
+  check_type TEXT NOT NULL,        -- 'email', 'calendar', 'tasks'
+  last_checked_at TEXT,
+  last_item_id TEXT,               -- Last seen item ID (for incremental checks)
+  check_interval_minutes INTEGER DEFAULT 15,
+  enabled INTEGER DEFAULT 1
+);
+
+CREATE INDEX IF NOT EXISTS idx_alerts_user_id ON alerts(user_id);
+CREATE INDEX IF NOT EXISTS idx_alerts_status ON alerts(status);
+CREATE INDEX IF NOT EXISTS idx_alerts_created_at ON alerts(created_at);
+CREATE INDEX IF NOT EXISTS idx_briefings_user_id ON briefings(user_id);
+CREATE INDEX IF NOT EXISTS idx_briefings_date ON briefings(date);
+CREATE INDEX IF NOT EXISTS idx_background_checks_user_id ON background_checks(user_id);
+`;
+
+// Children before parents, so foreign keys don't block the drops
+const tables = [
+  "background_checks",
+  "briefings",
+  "alerts",
+  "main_chat_messages",
+  "side_chat_messages",
+  "side_chats",
+  "google_api_logs",
+  "google_connections",
+  "notion_api_logs",
+  "notion_connections",
+  "user_context_items",
+  "messages",
+  "sessions",
+  "auth_sessions",
+  "magic_links",
+  "users",
+];
+
+export const migration: Migration = {
+  version: 1,
+  name: "initial_schema",
+  up(db) {
+    db.exec(schema);
+  },
+  down(db) {
+    for (const table of tables) {
+      db.exec(`DROP TABLE IF EXISTS ${table}`);
+    }
+  },
+};
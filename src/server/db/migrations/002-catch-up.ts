@@ -0,0 +1,165 @@
+/**
+ * Migration 002: Catch Up
+ *
+ * Tables, columns and indexes added to schema.ts before migrations existed,
+ * which CREATE TABLE IF NOT EXISTS never applied to older databases. Columns
+ * are only added where missing, since a database may have been created at
+ * any point along the way.
+ */
+
+import type { Migration } from "../migrator.js";
+import { addColumn, dropColumn } from "./helpers.js";
+
+// [table, column, definition]
+const columns: Array<[string, string, string]> = [
+  ["users", "monthly_budget_usd", "REAL"],
+  ["magic_links", "delivery_status", "TEXT DEFAULT 'pending'"],
+  ["magic_links", "delivery_error", "TEXT"],
+  ["magic_links", "delivered_at", "TEXT"],
+  ["sessions", "last_check_in_at", "TEXT"],
+  ["sessions", "mode", "TEXT DEFAULT 'simple_task'"],
+  ["messages", "metadata", "TEXT"],
+  ["user_context_items", "source", "TEXT"],
+  ["user_context_items", "embedding", "TEXT"],
+  ["user_context_items", "embedding_model", "TEXT"],
+  ["user_context_items", "last_decayed_at", "TEXT"],
+  ["user_context_items", "archived_at", "TEXT"],
+  ["notion_connections", "tasks_property_map", "TEXT"],
+  ["notion_connections", "notes_property_map", "TEXT"],
+  ["notion_connections", "calendar_property_map", "TEXT"],
+  ["notion_connections", "export_session_notes", "INTEGER DEFAULT 0"],
+];
+
+const schema = `
+-- Implementation intentions ("when/where" and "if-then" plans) made for a session
+CREATE TABLE IF NOT EXISTS session_intentions (
+  id TEXT PRIMARY KEY,
+  session_id TEXT NOT NULL REFERENCES sessions(id),
+  type TEXT NOT NULL,              -- 'when_where' or 'if_then'
+  cue TEXT NOT NULL,               -- when_where: when | if_then: the distraction/situation
+  response TEXT NOT NULL,          -- when_where: where | if_then: what they'll do instead
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+-- Rolling summary of the older turns of a long session (one per session)
+CREATE TABLE IF NOT EXISTS session_summaries (
+  id TEXT PRIMARY KEY,
+  session_id TEXT NOT NULL UNIQUE REFERENCES sessions(id),
+  summary TEXT NOT NULL,
+  messages_summarized INTEGER NOT NULL,  -- how many of the session's oldest messages it covers
+  created_at TEXT DEFAULT (datetime('now')),
+  updated_at TEXT DEFAULT (datetime('now'))
+);
+
+-- Tokens, cost and latency of every model call
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id),
+  session_id TEXT REFERENCES sessions(id),
+  request_type TEXT NOT NULL,   -- 'chat', 'greeting', 'check_in', 'memory_extraction', 'session_summary'
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  cache_read_tokens INTEGER NOT NULL DEFAULT 0,
+  cache_write_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd REAL NOT NULL DEFAULT 0,
+  latency_ms INTEGER NOT NULL,
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+-- Pairs of memories that appear to contradict each other
+CREATE TABLE IF NOT EXISTS memory_conflicts (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id),
+  memory_a_id TEXT NOT NULL REFERENCES user_context_items(id),
+  memory_b_id TEXT NOT NULL REFERENCES user_context_items(id),
+  reason TEXT NOT NULL,
+  status TEXT DEFAULT 'open',    -- 'open', 'resolved'
+  created_at TEXT DEFAULT (datetime('now')),
+  resolved_at TEXT
+);
+
+-- Memories extracted from a session, waiting for the user to accept or reject them
+CREATE TABLE IF NOT EXISTS pending_memories (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id),
+  session_id TEXT NOT NULL REFERENCES sessions(id),
+  category TEXT NOT NULL,
+  content TEXT NOT NULL,
+  importance INTEGER DEFAULT 1,  -- 1-5 scale
+  status TEXT DEFAULT 'pending', -- 'pending', 'accepted', 'rejected'
+  created_at TEXT DEFAULT (datetime('now')),
+  reviewed_at TEXT
+);
+
+-- Session pages written to Notion notes databases, one per session so a
+-- retried export never creates a duplicate page
+CREATE TABLE IF NOT EXISTS notion_session_exports (
+  session_id TEXT PRIMARY KEY REFERENCES sessions(id),
+  user_id TEXT NOT NULL REFERENCES users(id),
+  status TEXT DEFAULT 'pending', -- 'pending', 'exported', 'failed'
+  attempts INTEGER DEFAULT 0,
+  notion_page_id TEXT,
+  notion_page_url TEXT,
+  created_at TEXT DEFAULT (datetime('now')),
+  exported_at TEXT
+);
+
+-- Emails the email check has already handled, so none alerts twice
+CREATE TABLE IF NOT EXISTS gmail_seen_messages (
+  user_id TEXT NOT NULL REFERENCES users(id),
+  message_id TEXT NOT NULL,
+  outcome TEXT NOT NULL,           -- 'alert', 'mute', 'digest'
+  seen_at TEXT DEFAULT (datetime('now')),
+  PRIMARY KEY (user_id, message_id)
+);
+
+-- Per-user rules for triaging new email into alerts
+CREATE TABLE IF NOT EXISTS email_rules (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id),
+  created_at TEXT DEFAULT (datetime('now')),
+  field TEXT NOT NULL,             -- 'sender', 'domain', 'subject', 'body', 'label'
+  pattern TEXT NOT NULL,           -- Address, domain, regex (subject/body) or Gmail label ID
+  action TEXT NOT NULL,            -- 'vip', 'allow', 'mute', 'digest', 'high', 'low'
+  enabled INTEGER DEFAULT 1
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_intentions_session_id ON session_intentions(session_id);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_user_created ON llm_usage(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_session_id ON llm_usage(session_id);
+CREATE INDEX IF NOT EXISTS idx_pending_memories_user_status ON pending_memories(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_memory_conflicts_user_status ON memory_conflicts(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_email_rules_user_id ON email_rules(user_id);
+`;
+
+// Children before parents, so foreign keys don't block the drops
+const newTables = [
+  "email_rules",
+  "gmail_seen_messages",
+  "notion_session_exports",
+  "pending_memories",
+  "memory_conflicts",
+  "llm_usage",
+  "session_summaries",
+  "session_intentions",
+];
+
+export const migration: Migration = {
+  version: 2,
+  name: "catch_up",
+  up(db) {
+    for (const [table, column, definition] of columns) {
+      addColumn(db, table, column, definition);
+    }
+    db.exec(schema);
+  },
+  down(db) {
+    for (const table of newTables) {
+      db.exec(`DROP TABLE IF EXISTS ${table}`);
+    }
+    for (const [table, column] of [...columns].reverse()) {
+      dropColumn(db, table, column);
+    }
+  },
+};
@@ -0,0 +1,29 @@
+/**
+ * Migration 003: Token Encryption Keys
+ *
+ * Per-row key columns for encrypted OAuth tokens (see
+ * services/token-encryption.ts). Existing rows keep their plaintext tokens
+ * with a null key id until the server encrypts them at startup.
+ */
+
+import type { Migration } from "../migrator.js";
+import { addColumn, dropColumn } from "./helpers.js";
+
+const tables = ["notion_connections", "google_connections"];
+
+export const migration: Migration = {
+  version: 3,
+  name: "token_encryption_keys",
+  up(db) {
+    for (const table of tables) {
+      addColumn(db, table, "token_key_id", "TEXT");
+      addColumn(db, table, "token_data_key", "TEXT");
+    }
+  },
+  down(db) {
+    for (const table of tables) {
+      dropColumn(db, table, "token_data_key");
+      dropColumn(db, table, "token_key_id");
+    }
+  },
+};
@@ -0,0 +1,32 @@
+/**
+ * Migration 004: OAuth States
+ *
+ * Moves OAuth state tokens from per-process memory into the database (see
+ * services/oauth-state.ts). Flows in progress during the upgrade have to be
+ * restarted.
+ */
+
+import type { Migration } from "../migrator.js";
+
+export const migration: Migration = {
+  version: 4,
+  name: "oauth_states",
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS oauth_states (
+        state TEXT PRIMARY KEY,
+        provider TEXT NOT NULL,          -- 'google', 'notion'
+        user_id TEXT NOT NULL REFERENCES users(id),
+        code_verifier TEXT,              -- PKCE verifier (Google)
+        redirect_to TEXT,                -- App path to return to after connecting
+        created_at TEXT DEFAULT (datetime('now')),
+        expires_at TEXT NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_oauth_states_expires_at ON oauth_states(expires_at);
+    `);
+  },
+  down(db) {
+    db.exec(`DROP TABLE IF EXISTS oauth_states`);
+  },
+};
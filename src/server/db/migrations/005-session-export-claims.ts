@@ -0,0 +1,21 @@
+/**
+ * Migration 005: Session Export Claims
+ *
+ * When a session export was claimed (see services/notion-session-export.ts),
+ * so an export left pending by a process that died mid-export can be picked
+ * up again. Rows pending from before the upgrade count as stale.
+ */
+
+import type { Migration } from "../migrator.js";
+import { addColumn, dropColumn } from "./helpers.js";
+
+export const migration: Migration = {
+  version: 5,
+  name: "session_export_claims",
+  up(db) {
+    addColumn(db, "notion_session_exports", "claimed_at", "TEXT");
+  },
+  down(db) {
+    dropColumn(db, "notion_session_exports", "claimed_at");
+  },
+};
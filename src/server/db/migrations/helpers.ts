@@ -0,0 +1,36 @@
+/**
+ * Migration Helpers
+ *
+ * Column changes that check the table first. Databases created before
+ * migrations existed already have some of the columns later migrations add.
+ */
+
+import type Database from "better-sqlite3";
+
+export function hasColumn(db: Database.Database, table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  return columns.some((c) => c.name === column);
+}
+
+/**
+ * Add a column unless the table already has it
+ */
+export function addColumn(
+  db: Database.Database,
+  table: string,
+  column: string,
+  definition: string
+): void {
+  if (!hasColumn(db, table, column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/**
+ * Drop a column if the table has it
+ */
+export function dropColumn(db: Database.Database, table: string, column: string): void {
+  if (hasColumn(db, table, column)) {
+    db.exec(`ALTER TABLE ${table} DROP COLUMN ${column}`);
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Migrations, in order
+ *
+ * To change the schema, add a file here with the next version number and
+ * list it below. Never edit a migration that has shipped - databases that
+ * already ran it won't run it again.
+ */
+
+import type { Migration } from "../migrator.js";
+import { migration as initialSchema } from "./001-initial-schema.js";
+import { migration as catchUp } from "./002-catch-up.js";
+import { migration as tokenEncryptionKeys } from "./003-token-encryption-keys.js";
+import { migration as oauthStates } from "./004-oauth-states.js";
+import { migration as sessionExportClaims } from "./005-session-export-claims.js";
+
+export const migrations: Migration[] = [
+  initialSchema,
+  catchUp,
+  tokenEncryptionKeys,
+  oauthStates,
+  sessionExportClaims,
+];
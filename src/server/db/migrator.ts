@@ -0,0 +1,165 @@
+/**
+ * Schema Migrations
+ *
+ * Applies the versioned migrations in ./migrations in order and records each
+ * one in schema_migrations, so a deployed database picks up new tables and
+ * columns on the next start. Each migration runs in its own transaction, so a
+ * failing one leaves the database at the last migration that succeeded.
+ *
+ * A dry run applies the same migrations inside a transaction and then rolls
+ * it back, so it reports what would change and catches SQL errors without
+ * touching the database.
+ */
+
+import type Database from "better-sqlite3";
+import { migrations as allMigrations } from "./migrations/index.js";
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: Database.Database): void;
+  down(db: Database.Database): void;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: string | null;
+}
+
+export interface MigrationRun {
+  direction: "up" | "down";
+  dryRun: boolean;
+  /** Migrations applied (up) or reverted (down), in the order they ran */
+  migrations: Array<{ version: number; name: string }>;
+}
+
+function ensureMigrationsTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT DEFAULT (datetime('now'))
+    )
+  `);
+}
+
+function getAppliedVersions(db: Database.Database): Set<number> {
+  ensureMigrationsTable(db);
+  const rows = db.prepare(`SELECT version FROM schema_migrations`).all() as { version: number }[];
+  return new Set(rows.map((row) => row.version));
+}
+
+/**
+ * Run each step in its own transaction, or for a dry run all of them in one
+ * transaction that's always rolled back
+ */
+function runSteps(db: Database.Database, steps: Array<() => void>, dryRun: boolean): void {
+  if (!dryRun) {
+    for (const step of steps) {
+      db.transaction(step)();
+    }
+    return;
+  }
+
+  db.exec("BEGIN");
+  try {
+    for (const step of steps) {
+      step();
+    }
+  } finally {
+    db.exec("ROLLBACK");
+  }
+}
+
+/**
+ * Every known migration and when it was applied (null if pending)
+ */
+export function getMigrationStatus(
+  db: Database.Database,
+  migrations: Migration[] = allMigrations
+): MigrationStatus[] {
+  ensureMigrationsTable(db);
+  const applied = new Map(
+    (
+      db.prepare(`SELECT version, applied_at FROM schema_migrations`).all() as {
+        version: number;
+        applied_at: string;
+      }[]
+    ).map((row) => [row.version, row.applied_at])
+  );
+
+  return migrations.map((m) => ({
+    version: m.version,
+    name: m.name,
+    appliedAt: applied.get(m.version) ?? null,
+  }));
+}
+
+/**
+ * Apply pending migrations in version order, up to and including `to` if given
+ */
+export function migrateUp(
+  db: Database.Database,
+  options: { to?: number; dryRun?: boolean } = {},
+  migrations: Migration[] = allMigrations
+): MigrationRun {
+  const { to = Infinity, dryRun = false } = options;
+  const applied = getAppliedVersions(db);
+  const pending = [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .filter((m) => !applied.has(m.version) && m.version <= to);
+
+  runSteps(
+    db,
+    pending.map((migration) => () => {
+      migration.up(db);
+      db.prepare(`INSERT INTO schema_migrations (version, name) VALUES (?, ?)`).run(
+        migration.version,
+        migration.name
+      );
+    }),
+    dryRun
+  );
+
+  return {
+    direction: "up",
+    dryRun,
+    migrations: pending.map(({ version, name }) => ({ version, name })),
+  };
+}
+
+/**
+ * Revert applied migrations, newest first: the last `steps` of them (default
+ * 1), or every one above version `to`
+ */
+export function migrateDown(
+  db: Database.Database,
+  options: { steps?: number; to?: number; dryRun?: boolean } = {},
+  migrations: Migration[] = allMigrations
+): MigrationRun {
+  const { steps = 1, to, dryRun = false } = options;
+  const applied = getAppliedVersions(db);
+  const appliedMigrations = [...migrations]
+    .sort((a, b) => b.version - a.version)
+    .filter((m) => applied.has(m.version));
+  const reverting =
+    to === undefined
+      ? appliedMigrations.slice(0, steps)
+      : appliedMigrations.filter((m) => m.version > to);
+
+  runSteps(
+    db,
+    reverting.map((migration) => () => {
+      migration.down(db);
+      db.prepare(`DELETE FROM schema_migrations WHERE version = ?`).run(migration.version);
+    }),
+    dryRun
+  );
+
+  return {
+    direction: "down",
+    dryRun,
+    migrations: reverting.map(({ version, name }) => ({ version, name })),
+  };
+}
@@ -0,0 +1,26 @@
+#!/usr/bin/env node
+/**
+ * Token Key Rotation Script
+ *
+ * Re-encrypts every stored OAuth token under the first key in
+ * TOKEN_ENCRYPTION_KEYS. Put the new key first, run this, then remove the
+ * old key.
+ *
+ * Run with: npm run db:rotate-keys
+ */
+
+import { initializeDb, closeDb } from "./index.js";
+import { isTokenEncryptionEnabled, rotateTokenKeys } from "../services/token-encryption.js";
+
+if (!isTokenEncryptionEnabled()) {
+  console.error("TOKEN_ENCRYPTION_KEYS is not set - there's no key to rotate to.");
+  process.exit(1);
+}
+
+try {
+  initializeDb();
+  const count = rotateTokenKeys();
+  console.log(`\nRe-encrypted OAuth tokens for ${count} connections.`);
+} finally {
+  closeDb();
+}
@@ -1,310 +1,10 @@
 /**
  * Database Schema
  *
- * SQLite schema for local development.
- * Can be migrated to PostgreSQL for production.
+ * TypeScript types for the SQLite tables. The tables themselves are created
+ * and changed by the versioned migrations in ./migrations.
  */
 
-export const schema = `
--- Users table
-CREATE TABLE IF NOT EXISTS users (
-  id TEXT PRIMARY KEY,
-  email TEXT UNIQUE NOT NULL,
-  name TEXT NOT NULL,
-  created_at TEXT DEFAULT (datetime('now')),
-
-  -- User context for AI companion
-  work_context TEXT,
-  interests TEXT,  -- JSON array
-
-  -- Preferences
-  preferences TEXT DEFAULT '{}'  -- JSON object
-);
-
--- Magic links for passwordless auth
-CREATE TABLE IF NOT EXISTS magic_links (
-  id TEXT PRIMARY KEY,
-  user_id TEXT REFERENCES users(id),
-  email TEXT NOT NULL,
-  token TEXT UNIQUE NOT NULL,
-  expires_at TEXT NOT NULL,
-  used_at TEXT,
-  created_at TEXT DEFAULT (datetime('now'))
-);
-
--- Auth sessions (login sessions, not focus sessions)
-CREATE TABLE IF NOT EXISTS auth_sessions (
-  id TEXT PRIMARY KEY,
-  user_id TEXT NOT NULL REFERENCES users(id),
-  token TEXT UNIQUE NOT NULL,
-  expires_at TEXT NOT NULL,
-  created_at TEXT DEFAULT (datetime('now')),
-  last_active_at TEXT DEFAULT (datetime('now'))
-);
-
--- Focus sessions table (renamed from sessions for clarity)
-CREATE TABLE IF NOT EXISTS sessions (
-  id TEXT PRIMARY KEY,
-  user_id TEXT NOT NULL REFERENCES users(id),
-  started_at TEXT DEFAULT (datetime('now')),
-  ended_at TEXT,
-
-  -- Session details
-  declared_task TEXT,
-  outcome TEXT,  -- Post-session reflection
-  duration_planned INTEGER,  -- in minutes
-  duration_actual INTEGER,   -- in minutes
-  check_in_frequency INTEGER DEFAULT 15,  -- in minutes
-
-  -- Status: 'active', 'completed', 'abandoned'
-  status TEXT DEFAULT 'active'
-);
-
--- Messages table
-CREATE TABLE IF NOT EXISTS messages (
-  id TEXT PRIMARY KEY,
-  session_id TEXT NOT NULL REFERENCES sessions(id),
-  role TEXT NOT NULL,  -- 'user' or 'assistant'
-  content TEXT NOT NULL,
-  created_at TEXT DEFAULT (datetime('now'))
-);
-
--- User context items - things worth remembering
-CREATE TABLE IF NOT EXISTS user_context_items (
-  id TEXT PRIMARY KEY,
-  user_id TEXT NOT NULL REFERENCES users(id),
-  category TEXT NOT NULL,  -- 'project', 'interest', 'challenge', 'insight'
-  content TEXT NOT NULL,
-  last_referenced TEXT DEFAULT (datetime('now')),
-  importance INTEGER DEFAULT 1,  -- 1-5 scale
-  created_at TEXT DEFAULT (datetime('now'))
-);
-
--- Notion integration
-CREATE TABLE IF NOT EXISTS notion_connections (
-  id TEXT PRIMARY KEY,
-  user_id TEXT NOT NULL REFERENCES users(id),
-  access_token TEXT NOT NULL,
-  workspace_id TEXT NOT NULL,
-  workspace_name TEXT,
-  workspace_icon TEXT,
-  bot_id TEXT NOT NULL,
-  connected_at TEXT DEFAULT (datetime('now')),
-  last_synced_at TEXT,
-
-  -- User-configured database mappings
-  tasks_database_id TEXT,
-  calendar_database_id TEXT,
-  notes_database_id TEXT,
-  assistant_db_id TEXT,
-
-  UNIQUE(user_id)
-);
-
--- Notion API call logs for full transparency
-CREATE TABLE IF NOT EXISTS notion_api_logs (
-  id TEXT PRIMARY KEY,
-  user_id TEXT NOT NULL REFERENCES users(id),
-  timestamp TEXT DEFAULT (datetime('now')),
-
-  -- Request details
-  method TEXT NOT NULL,           -- GET, POST, PATCH, DELETE
-  endpoint TEXT NOT NULL,         -- /v1/pages, /v1/databases/{id}/query, etc.
-  request_body TEXT,              -- JSON stringified request body (if any)
-
-  -- Response details
-  status_code INTEGER NOT NULL,   -- HTTP status code
-  response_body TEXT,             -- JSON stringified response (truncated if large)
-
-  -- Context
-  operation TEXT NOT NULL,        -- Human readable: "Create task", "Query tasks", "Search", etc.
-  triggered_by TEXT,              -- "user_request", "proactive_check", "assistant_action"
-  duration_ms INTEGER,            -- How long the request took
-
-  -- Error tracking
-  error_message TEXT,             -- If request failed
-
-  -- Related entities
-  notion_object_id TEXT,          -- ID of the page/database involved (if applicable)
-  notion_object_type TEXT         -- "page", "database", "block", etc.
-);
-
--- Google OAuth connections (Gmail, Calendar)
-CREATE TABLE IF NOT EXISTS google_connections (
-  id TEXT PRIMARY KEY,
-  user_id TEXT NOT NULL REFERENCES users(id),
-  access_token TEXT NOT NULL,
-  refresh_token TEXT NOT NULL,
-  token_expires_at TEXT NOT NULL,
-  email TEXT NOT NULL,            -- Google account email
-  connected_at TEXT DEFAULT (datetime('now')),
-  last_synced_at TEXT,
-
-  -- Granted scopes (stored as JSON array)
-  scopes TEXT NOT NULL,
-
-  UNIQUE(user_id)
-);
-
--- Google API call logs for transparency (similar to Notion)
-CREATE TABLE IF NOT EXISTS google_api_logs (
-  id TEXT PRIMARY KEY,
-  user_id TEXT NOT NULL REFERENCES users(id),
-  timestamp TEXT DEFAULT (datetime('now')),
-
-  -- Request details
-  method TEXT NOT NULL,
-  endpoint TEXT NOT NULL,
-  request_body TEXT,
-
-  -- Response details
-  status_code INTEGER NOT NULL,
-  response_body TEXT,
-
-  -- Context
-  operation TEXT NOT NULL,
-  service TEXT NOT NULL,          -- 'gmail', 'calendar', 'people'
-  triggered_by TEXT,
-  duration_ms INTEGER,
-
-  -- Error tracking
-  error_message TEXT
-);
-
--- Side chats for organized topic-based conversations
-CREATE TABLE IF NOT EXISTS side_chats (
-  id TEXT PRIMARY KEY,
-  user_id TEXT NOT NULL REFERENCES users(id),
-  title TEXT NOT NULL,
-  topic TEXT,                           -- Brief topic description
-  created_at TEXT DEFAULT (datetime('now')),
-  last_message_at TEXT DEFAULT (datetime('now')),
-  status TEXT DEFAULT 'active',         -- 'active', 'archived'
-  pinned INTEGER DEFAULT 0,             -- Boolean: 1 = pinned
-  notion_page_id TEXT,                  -- Optional link to Notion page
-
-  -- Context for the conversation
-  context TEXT                          -- JSON: any context data for this chat
-);
-
--- Messages in side chats (separate from session messages)
-CREATE TABLE IF NOT EXISTS side_chat_messages (
-  id TEXT PRIMARY KEY,
-  side_chat_id TEXT NOT NULL REFERENCES side_chats(id),
-  role TEXT NOT NULL,                   -- 'user', 'assistant', 'system'
-  content TEXT NOT NULL,
-  created_at TEXT DEFAULT (datetime('now')),
-
-  -- Optional metadata
-  metadata TEXT                         -- JSON: tool calls, suggestions, etc.
-);
-
--- Main chat messages (persistent chat not tied to sessions)
-CREATE TABLE IF NOT EXISTS main_chat_messages (
-  id TEXT PRIMARY KEY,
-  user_id TEXT NOT NULL REFERENCES users(id),
-  role TEXT NOT NULL,                   -- 'user', 'assistant', 'system'
-  content TEXT NOT NULL,
-  created_at TEXT DEFAULT (datetime('now')),
-
-  -- Link to side chat if message spawned one
-  spawned_side_chat_id TEXT REFERENCES side_chats(id),
-
-  -- Optional metadata
-  metadata TEXT                         -- JSON: tool calls, context, etc.
-);
-
--- Indexes for performance
-CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id);
-CREATE INDEX IF NOT EXISTS idx_sessions_status ON sessions(status);
-CREATE INDEX IF NOT EXISTS idx_messages_session_id ON messages(session_id);
-CREATE INDEX IF NOT EXISTS idx_context_items_user_id ON user_context_items(user_id);
-CREATE INDEX IF NOT EXISTS idx_context_items_category ON user_context_items(category);
-CREATE INDEX IF NOT EXISTS idx_magic_links_token ON magic_links(token);
-CREATE INDEX IF NOT EXISTS idx_magic_links_email ON magic_links(email);
-CREATE INDEX IF NOT EXISTS idx_auth_sessions_token ON auth_sessions(token);
-CREATE INDEX IF NOT EXISTS idx_auth_sessions_user_id ON auth_sessions(user_id);
-CREATE INDEX IF NOT EXISTS idx_notion_connections_user_id ON notion_connections(user_id);
-CREATE INDEX IF NOT EXISTS idx_notion_api_logs_user_id ON notion_api_logs(user_id);
-CREATE INDEX IF NOT EXISTS idx_notion_api_logs_timestamp ON notion_api_logs(timestamp);
-CREATE INDEX IF NOT EXISTS idx_notion_api_logs_operation ON notion_api_logs(operation);
-CREATE INDEX IF NOT EXISTS idx_side_chats_user_id ON side_chats(user_id);
-CREATE INDEX IF NOT EXISTS idx_side_chats_status ON side_chats(status);
-CREATE INDEX IF NOT EXISTS idx_side_chat_messages_chat_id ON side_chat_messages(side_chat_id);
-CREATE INDEX IF NOT EXISTS idx_main_chat_messages_user_id ON main_chat_messages(user_id);
-CREATE INDEX IF NOT EXISTS idx_google_connections_user_id ON google_connections(user_id);
-CREATE INDEX IF NOT EXISTS idx_google_api_logs_user_id ON google_api_logs(user_id);
-CREATE INDEX IF NOT EXISTS idx_google_api_logs_timestamp ON google_api_logs(timestamp);
-
--- Alerts/notifications from the assistant
-CREATE TABLE IF NOT EXISTS alerts (
-  id TEXT PRIMARY KEY,
-  user_id TEXT NOT NULL REFERENCES users(id),
-  created_at TEXT DEFAULT (datetime('now')),
-
-  -- Alert details
-  type TEXT NOT NULL,              -- 'email', 'calendar', 'task', 'briefing', 'reminder', 'insight'
-  title TEXT NOT NULL,
-  content TEXT NOT NULL,
-  priority TEXT DEFAULT 'normal',  -- 'low', 'normal', 'high', 'urgent'
-
-  -- Status
-  status TEXT DEFAULT 'unread',    -- 'unread', 'read', 'dismissed', 'actioned'
-  read_at TEXT,
-  dismissed_at TEXT,
-
-  -- Source information
-  source_type TEXT,                -- 'gmail', 'calendar', 'notion', 'system'
-  source_id TEXT,                  -- ID of the source item (email ID, event ID, etc.)
-
-  -- Optional action
-  action_type TEXT,                -- 'open_email', 'open_event', 'open_task', 'spawn_chat', etc.
-  action_data TEXT                 -- JSON with action-specific data
-);
-
--- Daily briefings
-CREATE TABLE IF NOT EXISTS briefings (
-  id TEXT PRIMARY KEY,
-  user_id TEXT NOT NULL REFERENCES users(id),
-  created_at TEXT DEFAULT (datetime('now')),
-
-  -- Briefing details
-  date TEXT NOT NULL,              -- The date this briefing is for (YYYY-MM-DD)
-  type TEXT DEFAULT 'morning',     -- 'morning', 'evening', 'weekly'
-
-  -- Content
-  summary TEXT NOT NULL,           -- AI-generated summary
-
-  -- Raw data used to generate briefing (for transparency)
-  calendar_events TEXT,            -- JSON array of events
-  emails TEXT,                     -- JSON array of email summaries
-  tasks TEXT,                      -- JSON array of tasks
-
-  -- Status
-  viewed_at TEXT,
-
-  UNIQUE(user_id, date, type)
-);
-
--- Background job tracking
-CREATE TABLE IF NOT EXISTS background_checks (
-  id TEXT PRIMARY KEY,
-  user_id TEXT NOT NULL REFERENCES users(id),
-  check_type TEXT NOT NULL,        -- 'email', 'calendar', 'tasks'
-  last_checked_at TEXT,
-  last_item_id TEXT,               -- Last seen item ID (for incremental checks)
-  check_interval_minutes INTEGER DEFAULT 15,
-  enabled INTEGER DEFAULT 1
-);
-
-CREATE INDEX IF NOT EXISTS idx_alerts_user_id ON alerts(user_id);
-CREATE INDEX IF NOT EXISTS idx_alerts_status ON alerts(status);
-CREATE INDEX IF NOT EXISTS idx_alerts_created_at ON alerts(created_at);
-CREATE INDEX IF NOT EXISTS idx_briefings_user_id ON briefings(user_id);
-CREATE INDEX IF NOT EXISTS idx_briefings_date ON briefings(date);
-CREATE INDEX IF NOT EXISTS idx_background_checks_user_id ON background_checks(user_id);
-`;
-
 // TypeScript types matching the schema
 export interface User {
   id: string;
@@ -314,8 +14,11 @@ export interface User {
   work_context: string | null;
   interests: string | null; // JSON string
   preferences: string; // JSON string
+  monthly_budget_usd: number | null;
 }
 
+export type SessionMode = "deep_work" | "simple_task" | "presence";
+
 export interface Session {
   id: string;
   user_id: string;
@@ -326,6 +29,8 @@ export interface Session {
   duration_planned: number | null;
   duration_actual: number | null;
   check_in_frequency: number;
+  last_check_in_at: string | null;
+  mode: SessionMode;
   status: "active" | "completed" | "abandoned";
 }
 
@@ -334,6 +39,42 @@ export interface Message {
   session_id: string;
   role: "user" | "assistant";
   content: string;
+  metadata: string | null; // JSON string
+  created_at: string;
+}
+
+export type SessionIntentionType = "when_where" | "if_then";
+
+export interface SessionIntention {
+  id: string;
+  session_id: string;
+  type: SessionIntentionType;
+  cue: string;
+  response: string;
+  created_at: string;
+}
+
+export interface SessionConversationSummary {
+  id: string;
+  session_id: string;
+  summary: string;
+  messages_summarized: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LlmUsage {
+  id: string;
+  user_id: string;
+  session_id: string | null;
+  request_type: string;
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+  cost_usd: number;
+  latency_ms: number;
   created_at: string;
 }
 
@@ -346,6 +87,35 @@ export interface UserContextItem {
   importance: number;
   created_at: string;
   source?: string; // Where this memory came from (session id, manual, etc.)
+  embedding?: string | null; // JSON-encoded vector
+  embedding_model?: string | null;
+  last_decayed_at?: string | null;
+  archived_at?: string | null;
+}
+
+export interface MemoryConflict {
+  id: string;
+  user_id: string;
+  memory_a_id: string;
+  memory_b_id: string;
+  reason: string;
+  status: "open" | "resolved";
+  created_at: string;
+  resolved_at: string | null;
+}
+
+export type PendingMemoryStatus = "pending" | "accepted" | "rejected";
+
+export interface PendingMemory {
+  id: string;
+  user_id: string;
+  session_id: string;
+  category: MemoryCategory;
+  content: string;
+  importance: number;
+  status: PendingMemoryStatus;
+  created_at: string;
+  reviewed_at: string | null;
 }
 
 // Memory categories for the companion to remember
@@ -367,10 +137,13 @@ export interface UserWithParsedFields extends Omit<User, "interests" | "preferen
     defaultSessionDuration?: number;
     defaultCheckInFrequency?: number;
     theme?: "light" | "dark";
+    timeZone?: string; // IANA zone their days start and end in (default UTC)
   };
 }
 
 // Auth types
+export type MagicLinkDeliveryStatus = "pending" | "sent" | "failed";
+
 export interface MagicLink {
   id: string;
   user_id: string | null;
@@ -379,6 +152,9 @@ export interface MagicLink {
   expires_at: string;
   used_at: string | null;
   created_at: string;
+  delivery_status: MagicLinkDeliveryStatus;
+  delivery_error: string | null;
+  delivered_at: string | null;
 }
 
 export interface AuthSession {
@@ -405,6 +181,50 @@ export interface NotionConnection {
   calendar_database_id: string | null;
   notes_database_id: string | null;
   assistant_db_id: string | null;
+  tasks_property_map: string | null; // JSON string
+  notes_property_map: string | null; // JSON string
+  calendar_property_map: string | null; // JSON string
+  export_session_notes: number; // SQLite boolean
+  token_key_id: string | null; // Master key that wrapped token_data_key (null = plaintext)
+  token_data_key: string | null; // Encrypted per-row key for access_token
+}
+
+// What a mapped Notion database is used for
+export type NotionDatabaseUse = "tasks" | "notes" | "calendar";
+
+// Which properties of a user's tasks database hold each task field
+export interface NotionTaskPropertyMap {
+  title: string;
+  status: string;
+  /** Notion's built-in "status" property type, or a plain select */
+  statusType: "select" | "status";
+  dueDate: string;
+  priority: string | null;
+  /** Select recording whether the user or the assistant made the task */
+  createdBy: string | null;
+  notes: string | null;
+  /** Status values for a new task / a finished one / one being worked on */
+  todoStatus: string;
+  doneStatus: string;
+  inProgressStatus: string;
+  /** Status value for a blocked task, if the database has one */
+  blockedStatus: string | null;
+}
+
+// Which properties of a user's notes database hold each note field
+export interface NotionNotesPropertyMap {
+  title: string;
+  date: string | null;
+  tags: string | null;
+  source: string | null;
+}
+
+// Which properties of a user's calendar/reminders database hold each field
+export interface NotionCalendarPropertyMap {
+  title: string;
+  date: string;
+  type: string | null;
+  context: string | null;
 }
 
 export interface NotionConnectionPublic {
@@ -418,6 +238,23 @@ export interface NotionConnectionPublic {
   calendar_database_id: string | null;
   notes_database_id: string | null;
   assistant_db_id: string | null;
+  tasks_property_map: NotionTaskPropertyMap;
+  notes_property_map: NotionNotesPropertyMap;
+  calendar_property_map: NotionCalendarPropertyMap;
+  export_session_notes: boolean;
+}
+
+// A session's page in the user's Notion notes database
+export interface NotionSessionExport {
+  session_id: string;
+  user_id: string;
+  status: "pending" | "exported" | "failed";
+  attempts: number;
+  notion_page_id: string | null;
+  notion_page_url: string | null;
+  created_at: string;
+  claimed_at: string | null; // When the latest attempt started
+  exported_at: string | null;
 }
 
 // Notion API call log for transparency/auditing
@@ -474,6 +311,8 @@ export interface GoogleConnection {
   connected_at: string;
   last_synced_at: string | null;
   scopes: string; // JSON array
+  token_key_id: string | null; // Master key that wrapped token_data_key (null = plaintext)
+  token_data_key: string | null; // Encrypted per-row key for both tokens
 }
 
 export interface GoogleConnectionPublic {
@@ -554,6 +393,16 @@ export interface SideChatInput {
   notion_page_id?: string;
 }
 
+/**
+ * Parsed side_chats.context. Keys other than the main chat excerpt are
+ * free-form notes shown to the companion.
+ */
+export interface SideChatContext {
+  /** Main chat messages leading up to a spawned side chat */
+  mainChatExcerpt?: Array<{ role: "user" | "assistant"; content: string }>;
+  [key: string]: unknown;
+}
+
 export interface SideChatMessageInput {
   role: "user" | "assistant" | "system";
   content: string;
@@ -639,3 +488,24 @@ export interface BackgroundCheck {
   check_interval_minutes: number;
   enabled: number; // 0 or 1
 }
+
+// What part of an email a rule looks at
+export type EmailRuleField = "sender" | "domain" | "subject" | "body" | "label";
+
+// What happens to matching email:
+// vip - urgent alert, never muted or batched
+// allow - always its own alert, even if a mute or digest rule also matches
+// mute - no alert
+// digest - batched into one digest alert per check
+// high / low - alert with that priority
+export type EmailRuleAction = "vip" | "allow" | "mute" | "digest" | "high" | "low";
+
+export interface EmailRule {
+  id: string;
+  user_id: string;
+  created_at: string;
+  field: EmailRuleField;
+  pattern: string;
+  action: EmailRuleAction;
+  enabled: number; // 0 or 1
+}
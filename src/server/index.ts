@@ -22,6 +22,10 @@ import googleRouter from "./routes/google.js";
 import { cleanupExpiredAuth } from "./services/auth.js";
 import { startScheduler, stopScheduler } from "./services/scheduler.js";
 import briefingRouter from "./routes/briefing.js";
+import usageRouter from "./routes/usage.js";
+import analyticsRouter from "./routes/analytics.js";
+import { stopAllCheckIns } from "./services/checkins.js";
+import { encryptPlaintextTokens, isTokenEncryptionEnabled } from "./services/token-encryption.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const PORT = process.env.PORT || 3001;
@@ -60,6 +64,8 @@ app.use("/api/notion", notionRouter);
 app.use("/api/chats", chatsRouter);
 app.use("/api/google", googleRouter);
 app.use("/api/briefing", briefingRouter);
+app.use("/api/usage", usageRouter);
+app.use("/api/analytics", analyticsRouter);
 
 // Error handling
 app.use((err: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
@@ -86,6 +92,16 @@ const wss = setupWebSocket(server);
 // Initialize database
 initializeDb();
 
+// Encrypt OAuth tokens saved before an encryption key was configured
+if (isTokenEncryptionEnabled()) {
+  const encrypted = encryptPlaintextTokens();
+  if (encrypted > 0) {
+    console.log(`Encrypted OAuth tokens for ${encrypted} existing connections`);
+  }
+} else {
+  console.warn("TOKEN_ENCRYPTION_KEYS is not set - OAuth tokens are stored unencrypted");
+}
+
 // Start background scheduler
 startScheduler();
 
@@ -93,9 +109,9 @@ startScheduler();
 setInterval(
   () => {
     const cleaned = cleanupExpiredAuth();
-    if (cleaned.magicLinks > 0 || cleaned.sessions > 0) {
+    if (cleaned.magicLinks > 0 || cleaned.sessions > 0 || cleaned.oauthStates > 0) {
       console.log(
-        `Auth cleanup: removed ${cleaned.magicLinks} magic links, ${cleaned.sessions} sessions`
+        `Auth cleanup: removed ${cleaned.magicLinks} magic links, ${cleaned.sessions} sessions, ${cleaned.oauthStates} OAuth states`
       );
     }
   },
@@ -134,8 +150,12 @@ API Endpoints (auth required):
   GET    /api/users/me/context   Get user context for AI
 
   POST   /api/sessions/start     Start focus session
+  GET    /api/sessions/suggest   Suggest sessions around today's calendar
   POST   /api/sessions/:id/end   End session with reflection
   GET    /api/sessions/:id       Get session
+  POST   /api/sessions/:id/intentions  Record if-then plans
+  GET    /api/sessions/:id/intentions  Get if-then plans
+  GET    /api/sessions/:id/context     Debug companion context budget
   GET    /api/sessions/history   Session history
 
   POST   /api/chat               Send message (non-streaming)
@@ -149,6 +169,21 @@ Memory Endpoints (auth required):
   PUT    /api/memory/:id         Update a memory
   DELETE /api/memory/:id         Delete a memory
   POST   /api/memory/bulk        Create multiple memories
+  GET    /api/memory/pending     Memories extracted from sessions, awaiting review
+  POST   /api/memory/pending/:id/accept  Accept (optionally edit) a pending memory
+  POST   /api/memory/pending/:id/reject  Reject a pending memory
+  POST   /api/memory/:id/archive         Archive a memory
+  GET    /api/memory/archived            List archived memories
+  POST   /api/memory/archived/:id/restore  Restore an archived memory
+  GET    /api/memory/conflicts           Memories flagged as contradicting each other
+  POST   /api/memory/conflicts/:id/resolve  Resolve a conflict (optionally keep one)
+
+Usage Endpoints (auth required):
+  GET    /api/usage              Token usage and cost by day, session and type
+  PUT    /api/usage/budget       Set or clear the monthly budget
+
+Analytics Endpoints (auth required):
+  GET    /api/analytics          Focus stats, streaks and distractions (from, to, tz)
 
 Notion Endpoints:
   GET    /api/notion/status      Check Notion connection status
@@ -156,7 +191,11 @@ Notion Endpoints:
   GET    /api/notion/callback    OAuth callback (internal)
   DELETE /api/notion/disconnect  Disconnect Notion
   GET    /api/notion/databases   List available databases
+  GET    /api/notion/pages       List pages (to place the Assistant Workspace)
+  POST   /api/notion/assistant-workspace  Create the Assistant Workspace database
   PUT    /api/notion/configure   Configure database mappings
+  GET    /api/notion/databases/:id/schema  Database properties and a suggested property map
+  PUT    /api/notion/property-maps/:use    Check and save the tasks/notes/calendar property map
 
 Chat Endpoints (auth required):
   GET    /api/chats/main              Get main chat messages
@@ -196,6 +235,10 @@ Briefing & Alerts (auth required):
   POST   /api/briefing/alerts/:id/read     Mark alert read
   POST   /api/briefing/alerts/read-all     Mark all alerts read
   POST   /api/briefing/alerts/:id/dismiss  Dismiss alert
+  GET    /api/briefing/rules          List email triage rules
+  POST   /api/briefing/rules          Create an email rule
+  PUT    /api/briefing/rules/:id      Update an email rule
+  DELETE /api/briefing/rules/:id      Delete an email rule
   POST   /api/briefing/check          Trigger background checks
 
 WebSocket:
@@ -203,6 +246,17 @@ WebSocket:
   Send: { "type": "join", "sessionId": "..." }
         { "type": "message", "content": "..." }
         { "type": "leave" }
+        { "type": "join_side_chat", "sideChatId": "..." }
+        { "type": "side_chat_message", "content": "..." }
+        { "type": "leave_side_chat" }
+        { "type": "main_chat_message", "content": "..." }  (no session needed)
+        { "type": "tool_confirmation", "toolCallId": "...", "approved": true }
+  Receive: stream_start / stream_chunk / stream_end for replies and
+           proactive check-ins (sent every check_in_frequency minutes);
+           side chat replies carry sideChatId, main chat replies chat: "main";
+           side_chat_spawned when the assistant starts a side chat;
+           tool_call / tool_result around Notion actions in a session, and
+           tool_confirmation_required before ones that change existing tasks
   `);
 });
 
@@ -210,6 +264,7 @@ WebSocket:
 process.on("SIGINT", () => {
   console.log("\nShutting down...");
   stopScheduler();
+  stopAllCheckIns();
   wss.close();
   server.close();
   closeDb();
@@ -219,6 +274,7 @@ process.on("SIGINT", () => {
 process.on("SIGTERM", () => {
   console.log("\nShutting down...");
   stopScheduler();
+  stopAllCheckIns();
   wss.close();
   server.close();
   closeDb();
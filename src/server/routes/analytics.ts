@@ -0,0 +1,70 @@
+/**
+ * Analytics Routes
+ *
+ * API endpoints for focus session analytics and streaks.
+ * All routes require authentication.
+ */
+
+import { Router } from "express";
+import { requireAuth } from "../middleware/auth.js";
+import {
+  MAX_RANGE_DAYS,
+  addDays,
+  daysBetween,
+  getFocusAnalytics,
+  getLocalDate,
+  isValidDate,
+  isValidTimeZone,
+} from "../services/analytics.js";
+
+const router = Router();
+
+// All routes require authentication
+router.use(requireAuth);
+
+/**
+ * GET /api/analytics
+ * Focus analytics for the current user: completion and abandonment,
+ * planned-vs-actual duration, focus minutes per day and week, streaks,
+ * best time of day, common distractions and check-in frequency
+ * Query params:
+ *   - tz: IANA time zone for days and hours (default UTC)
+ *   - to: Last day to include, YYYY-MM-DD (default today in tz)
+ *   - from: First day to include, YYYY-MM-DD (default 29 days before `to`)
+ */
+router.get("/", (req, res) => {
+  const user = req.user!;
+  const { from, to, tz } = req.query;
+
+  const timeZone = tz === undefined ? "UTC" : tz;
+  if (typeof timeZone !== "string" || !isValidTimeZone(timeZone)) {
+    res.status(400).json({ error: "tz must be an IANA time zone, e.g. Europe/London" });
+    return;
+  }
+
+  for (const value of [from, to]) {
+    if (value !== undefined && (typeof value !== "string" || !isValidDate(value))) {
+      res.status(400).json({ error: "from and to must be dates in YYYY-MM-DD format" });
+      return;
+    }
+  }
+
+  const end = (to as string | undefined) ?? getLocalDate(timeZone);
+  const start = (from as string | undefined) ?? addDays(end, -29);
+  const days = daysBetween(start, end) + 1;
+  if (days < 1 || days > MAX_RANGE_DAYS) {
+    res
+      .status(400)
+      .json({ error: `from must be on or before to, at most ${MAX_RANGE_DAYS} days apart` });
+    return;
+  }
+
+  try {
+    res.json(getFocusAnalytics(user.id, { from: start, to: end, timeZone }));
+  } catch (error) {
+    console.error("Error computing analytics:", error);
+    res.status(500).json({ error: "Failed to compute analytics" });
+  }
+});
+
+export default router;
@@ -11,6 +11,7 @@ import {
   invalidateSession,
   sendMagicLink,
   getMagicLinkUrl,
+  getMagicLinkRetryAfter,
 } from "../services/auth.js";
 import { requireAuth } from "../middleware/auth.js";
 
@@ -18,9 +19,10 @@ const router = Router();
 
 /**
  * POST /api/auth/request
- * Request a magic link to be sent to email
+ * Request a magic link to be sent to email.
+ * Each address can request a few links per 15 minutes.
  */
-router.post("/request", (req, res) => {
+router.post("/request", async (req, res) => {
   const { email } = req.body;
 
   if (!email) {
@@ -35,10 +37,24 @@ router.post("/request", (req, res) => {
     return;
   }
 
+  const retryAfter = getMagicLinkRetryAfter(email);
+  if (retryAfter > 0) {
+    res.setHeader("Retry-After", String(retryAfter));
+    res.status(429).json({
+      error: "Too many sign-in links requested. Please try again later.",
+      retryAfter,
+    });
+    return;
+  }
+
   const { token, isNewUser } = createMagicLink(email);
 
-  // Send the magic link (logs to console in dev)
-  sendMagicLink(email, token);
+  // Send the magic link (written to data/outbox unless SMTP is configured)
+  const sent = await sendMagicLink(email, token, isNewUser);
+  if (!sent) {
+    res.status(503).json({ error: "Couldn't send the sign-in email. Please try again." });
+    return;
+  }
 
   // In development, also return the URL directly for easier testing
   const isDev = process.env.NODE_ENV !== "production";
@@ -1,7 +1,7 @@
 /**
  * Briefing Routes
  *
- * API endpoints for briefings and alerts.
+ * API endpoints for briefings, alerts and the email rules that triage them.
  */
 
 import { Router } from "express";
@@ -18,6 +18,14 @@ import {
   dismissAlert,
   gatherBriefingData,
 } from "../services/briefing.js";
+import {
+  createEmailRule,
+  deleteEmailRule,
+  getEmailRule,
+  getEmailRules,
+  updateEmailRule,
+  validateEmailRule,
+} from "../services/email-rules.js";
 import { triggerUserCheck, initializeBackgroundChecks } from "../services/scheduler.js";
 
 const router = Router();
@@ -164,6 +172,79 @@ router.post("/alerts/:id/dismiss", requireAuth, (req, res) => {
   res.json({ success: true });
 });
 
+// ============================================
+// Email Rule Endpoints
+// ============================================
+
+/**
+ * GET /api/briefing/rules
+ * Get the current user's email triage rules
+ */
+router.get("/rules", requireAuth, (req, res) => {
+  res.json({ rules: getEmailRules(req.user!.id) });
+});
+
+/**
+ * POST /api/briefing/rules
+ * Create an email rule: { field, pattern, action, enabled? }
+ * field is sender, domain, subject, body (regexes for those two) or label;
+ * action is vip, allow, mute, digest, high or low.
+ */
+router.post("/rules", requireAuth, (req, res) => {
+  const { field, pattern, action, enabled } = req.body;
+
+  const error = validateEmailRule({ field, pattern, action, enabled });
+  if (error) {
+    res.status(400).json({ error });
+    return;
+  }
+
+  const rule = createEmailRule(req.user!.id, { field, pattern, action, enabled });
+  res.status(201).json({ rule });
+});
+
+/**
+ * PUT /api/briefing/rules/:id
+ * Update an email rule
+ */
+router.put("/rules/:id", requireAuth, (req, res) => {
+  const existing = getEmailRule(req.user!.id, req.params.id);
+  if (!existing) {
+    res.status(404).json({ error: "Rule not found" });
+    return;
+  }
+
+  const { field, pattern, action, enabled } = req.body;
+  const error = validateEmailRule({
+    field: field ?? existing.field,
+    pattern: pattern ?? existing.pattern,
+    action: action ?? existing.action,
+    enabled,
+  });
+  if (error) {
+    res.status(400).json({ error });
+    return;
+  }
+
+  const rule = updateEmailRule(req.user!.id, req.params.id, { field, pattern, action, enabled });
+  res.json({ rule });
+});
+
+/**
+ * DELETE /api/briefing/rules/:id
+ * Delete an email rule
+ */
+router.delete("/rules/:id", requireAuth, (req, res) => {
+  const success = deleteEmailRule(req.user!.id, req.params.id);
+
+  if (!success) {
+    res.status(404).json({ error: "Rule not found" });
+    return;
+  }
+
+  res.json({ success: true });
+});
+
 // ============================================
 // Background Check Endpoints
 // ============================================
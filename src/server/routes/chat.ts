@@ -9,6 +9,7 @@
 import { Router } from "express";
 import { getDb } from "../db/index.js";
 import { generateResponse, saveMessage } from "../services/companion.js";
+import { updateSessionSummary } from "../services/session-summaries.js";
 import { requireAuth } from "../middleware/auth.js";
 import type { Session, Message } from "../db/schema.js";
 
@@ -61,6 +62,11 @@ router.post("/", async (req, res) => {
     // Save assistant message
     const assistantMsg = saveMessage(sessionId, "assistant", response);
 
+    // Fold older turns into the rolling summary once the session gets long
+    updateSessionSummary(user.id, sessionId).catch((error) => {
+      console.error("Failed to update session summary:", error);
+    });
+
     res.json({
       userMessage: userMsg,
       assistantMessage: assistantMsg,
@@ -101,7 +107,7 @@ router.get("/:sessionId/history", (req, res) => {
       `
     SELECT * FROM messages
     WHERE session_id = ?
-    ORDER BY created_at ASC
+    ORDER BY created_at ASC, rowid ASC
   `
     )
     .all(req.params.sessionId) as Message[];
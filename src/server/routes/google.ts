@@ -22,6 +22,7 @@ import {
   listCalendarEvents,
   getTodayEvents,
 } from "../services/google.js";
+import { isSafeRedirectPath, withQueryParam } from "../services/oauth-state.js";
 
 const router = Router();
 
@@ -33,6 +34,8 @@ const router = Router();
  * GET /api/google/connect
  * Start the Google OAuth flow
  * Returns the authorization URL to redirect the user to
+ * Query params:
+ *   - redirect: App path to return to after connecting (default /app/settings)
  */
 router.get("/connect", requireAuth, (req, res) => {
   if (!isGoogleConfigured()) {
@@ -43,7 +46,13 @@ router.get("/connect", requireAuth, (req, res) => {
     return;
   }
 
-  const authUrl = getGoogleAuthUrl(req.user!.id);
+  const { redirect } = req.query;
+  if (redirect !== undefined && (typeof redirect !== "string" || !isSafeRedirectPath(redirect))) {
+    res.status(400).json({ error: "redirect must be a path within the app" });
+    return;
+  }
+
+  const authUrl = getGoogleAuthUrl(req.user!.id, { redirectTo: redirect });
   res.json({ authUrl });
 });
 
@@ -66,23 +75,24 @@ router.get("/callback", async (req, res) => {
   }
 
   // Validate state token
-  const userId = validateOAuthState(state as string);
-  if (!userId) {
+  const oauthState = validateOAuthState(state as string);
+  if (!oauthState) {
     res.redirect("/app/settings?google_error=invalid_state");
     return;
   }
+  const { userId, codeVerifier, redirectTo } = oauthState;
 
   // Exchange code for tokens
-  const tokens = await exchangeCodeForTokens(code as string);
+  const tokens = await exchangeCodeForTokens(code as string, codeVerifier);
   if (!tokens) {
-    res.redirect("/app/settings?google_error=token_exchange_failed");
+    res.redirect(withQueryParam(redirectTo, "google_error", "token_exchange_failed"));
     return;
   }
 
   // Get user's email
   const email = await getGoogleUserEmail(tokens.access_token);
   if (!email) {
-    res.redirect("/app/settings?google_error=failed_to_get_email");
+    res.redirect(withQueryParam(redirectTo, "google_error", "failed_to_get_email"));
     return;
   }
 
@@ -96,7 +106,7 @@ router.get("/callback", async (req, res) => {
     JSON.stringify(tokens.scope.split(" "))
   );
 
-  res.redirect("/app/settings?google_connected=true");
+  res.redirect(withQueryParam(redirectTo, "google_connected", "true"));
 });
 
 /**
@@ -17,8 +17,21 @@ import {
   searchMemories,
   getMemorySummary,
   getMemoryStats,
+  getArchivedMemories,
+  archiveMemory,
+  restoreMemory,
   MEMORY_CATEGORIES,
 } from "../services/memory.js";
+import {
+  getMemoryConflict,
+  getMemoryConflicts,
+  resolveMemoryConflict,
+} from "../services/memory-maintenance.js";
+import {
+  getPendingMemories,
+  acceptPendingMemory,
+  rejectPendingMemory,
+} from "../services/memory-extraction.js";
 import type { MemoryCategory } from "../db/schema.js";
 
 const router = Router();
@@ -31,7 +44,7 @@ router.use(requireAuth);
  * Get all memories for the current user
  * Query params:
  *   - category: Filter by category
- *   - search: Search by content
+ *   - search: Search by meaning, ranked by relevance
  */
 router.get("/", (req, res) => {
   const user = req.user!;
@@ -116,6 +129,167 @@ router.get("/categories", (_req, res) => {
   });
 });
 
+/**
+ * GET /api/memory/pending
+ * Get memories extracted from sessions that are waiting for review
+ */
+router.get("/pending", (req, res) => {
+  const user = req.user!;
+
+  try {
+    res.json(getPendingMemories(user.id));
+  } catch (error) {
+    console.error("Error fetching pending memories:", error);
+    res.status(500).json({ error: "Failed to fetch pending memories" });
+  }
+});
+
+/**
+ * POST /api/memory/pending/:id/accept
+ * Accept a pending memory, optionally editing it first
+ * Body (optional): content, category, importance
+ */
+router.post("/pending/:id/accept", (req, res) => {
+  const user = req.user!;
+  const { id } = req.params;
+  const { content, importance, category } = req.body;
+
+  if (category && !MEMORY_CATEGORIES.includes(category)) {
+    res.status(400).json({
+      error: `Invalid category. Must be one of: ${MEMORY_CATEGORIES.join(", ")}`,
+    });
+    return;
+  }
+
+  if (importance !== undefined && (importance < 1 || importance > 5)) {
+    res.status(400).json({ error: "importance must be between 1 and 5" });
+    return;
+  }
+
+  try {
+    const memory = acceptPendingMemory(user.id, id, { content, importance, category });
+
+    if (!memory) {
+      res.status(404).json({ error: "Pending memory not found" });
+      return;
+    }
+
+    res.status(201).json(memory);
+  } catch (error) {
+    console.error("Error accepting pending memory:", error);
+    res.status(500).json({ error: "Failed to accept pending memory" });
+  }
+});
+
+/**
+ * POST /api/memory/pending/:id/reject
+ * Reject a pending memory so it never goes live
+ */
+router.post("/pending/:id/reject", (req, res) => {
+  const user = req.user!;
+  const { id } = req.params;
+
+  try {
+    const rejected = rejectPendingMemory(user.id, id);
+
+    if (!rejected) {
+      res.status(404).json({ error: "Pending memory not found" });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Error rejecting pending memory:", error);
+    res.status(500).json({ error: "Failed to reject pending memory" });
+  }
+});
+
+/**
+ * GET /api/memory/archived
+ * Get archived memories (excluded from AI context until restored)
+ */
+router.get("/archived", (req, res) => {
+  const user = req.user!;
+
+  try {
+    res.json(getArchivedMemories(user.id));
+  } catch (error) {
+    console.error("Error fetching archived memories:", error);
+    res.status(500).json({ error: "Failed to fetch archived memories" });
+  }
+});
+
+/**
+ * POST /api/memory/archived/:id/restore
+ * Restore an archived memory
+ */
+router.post("/archived/:id/restore", (req, res) => {
+  const user = req.user!;
+  const { id } = req.params;
+
+  try {
+    const memory = restoreMemory(user.id, id);
+
+    if (!memory) {
+      res.status(404).json({ error: "Archived memory not found" });
+      return;
+    }
+
+    res.json(memory);
+  } catch (error) {
+    console.error("Error restoring memory:", error);
+    res.status(500).json({ error: "Failed to restore memory" });
+  }
+});
+
+/**
+ * GET /api/memory/conflicts
+ * Get pairs of memories flagged as contradicting each other
+ */
+router.get("/conflicts", (req, res) => {
+  const user = req.user!;
+
+  try {
+    res.json(getMemoryConflicts(user.id));
+  } catch (error) {
+    console.error("Error fetching memory conflicts:", error);
+    res.status(500).json({ error: "Failed to fetch memory conflicts" });
+  }
+});
+
+/**
+ * POST /api/memory/conflicts/:id/resolve
+ * Resolve a conflict
+ * Body (optional):
+ *   - keep: ID of the memory to keep; the other one is archived.
+ *           Omit to keep both.
+ */
+router.post("/conflicts/:id/resolve", (req, res) => {
+  const user = req.user!;
+  const { id } = req.params;
+  const { keep } = req.body;
+
+  try {
+    const conflict = getMemoryConflict(user.id, id);
+
+    if (!conflict || conflict.status !== "open") {
+      res.status(404).json({ error: "Conflict not found" });
+      return;
+    }
+
+    if (keep && keep !== conflict.memory_a_id && keep !== conflict.memory_b_id) {
+      res.status(400).json({ error: "keep must be one of the conflicting memories" });
+      return;
+    }
+
+    resolveMemoryConflict(user.id, id, keep);
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Error resolving memory conflict:", error);
+    res.status(500).json({ error: "Failed to resolve memory conflict" });
+  }
+});
+
 /**
  * GET /api/memory/:id
  * Get a specific memory
@@ -215,6 +389,29 @@ router.put("/:id", (req, res) => {
   }
 });
 
+/**
+ * POST /api/memory/:id/archive
+ * Archive a memory so it's no longer used in AI context
+ */
+router.post("/:id/archive", (req, res) => {
+  const user = req.user!;
+  const { id } = req.params;
+
+  try {
+    const archived = archiveMemory(user.id, id);
+
+    if (!archived) {
+      res.status(404).json({ error: "Memory not found" });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Error archiving memory:", error);
+    res.status(500).json({ error: "Failed to archive memory" });
+  }
+});
+
 /**
  * DELETE /api/memory/:id
  * Delete a memory
@@ -14,13 +14,27 @@ import {
   getNotionConnectionPublic,
   disconnectNotion,
   updateNotionDatabaseMappings,
+  validatePropertyMap,
+  DATABASE_USES,
   searchDatabases,
+  searchPages,
   verifyNotionConnection,
   isNotionConfigured,
   getNotionApiLogs,
   getNotionApiLogOperations,
   getNotionApiStats,
+  getNotionConnection,
+  getPropertyMap,
 } from "../services/notion.js";
+import {
+  checkPropertyMap,
+  getDatabaseSchema,
+  samplePropertyMap,
+  suggestPropertyMap,
+} from "../services/notion-schema.js";
+import { createAssistantWorkspace } from "../services/notion-workspace.js";
+import { isSafeRedirectPath, withQueryParam } from "../services/oauth-state.js";
+import type { NotionDatabaseUse } from "../db/schema.js";
 
 const router = Router();
 
@@ -66,6 +80,8 @@ router.get("/status", requireAuth, async (req, res) => {
 /**
  * GET /api/notion/connect
  * Redirect to Notion OAuth authorization page
+ * Query params:
+ *   - redirect: App path to return to after connecting (default /app/settings)
  */
 router.get("/connect", requireAuth, (req, res) => {
   const userId = req.user!.id;
@@ -77,7 +93,13 @@ router.get("/connect", requireAuth, (req, res) => {
     return;
   }
 
-  const authUrl = getNotionAuthUrl(userId);
+  const { redirect } = req.query;
+  if (redirect !== undefined && (typeof redirect !== "string" || !isSafeRedirectPath(redirect))) {
+    res.status(400).json({ error: "redirect must be a path within the app" });
+    return;
+  }
+
+  const authUrl = getNotionAuthUrl(userId, { redirectTo: redirect });
   res.redirect(authUrl);
 });
 
@@ -105,24 +127,25 @@ router.get("/callback", async (req, res) => {
   }
 
   // Validate state and get user ID
-  const userId = validateOAuthState(state);
-  if (!userId) {
+  const oauthState = validateOAuthState(state);
+  if (!oauthState) {
     res.redirect(`${appUrl}/app/settings?notion_error=invalid_state`);
     return;
   }
+  const { userId, redirectTo } = oauthState;
 
   // Exchange code for token
   const tokenData = await exchangeCodeForToken(code);
   if (!tokenData) {
-    res.redirect(`${appUrl}/app/settings?notion_error=token_exchange_failed`);
+    res.redirect(`${appUrl}${withQueryParam(redirectTo, "notion_error", "token_exchange_failed")}`);
     return;
   }
 
   // Save the connection
   saveNotionConnection(userId, tokenData);
 
-  // Redirect to settings with success
-  res.redirect(`${appUrl}/app/settings?notion_connected=true`);
+  // Redirect back to where the flow started (settings by default) with success
+  res.redirect(`${appUrl}${withQueryParam(redirectTo, "notion_connected", "true")}`);
 });
 
 /**
@@ -155,19 +178,104 @@ router.get("/databases", requireAuth, async (req, res) => {
   });
 });
 
+/**
+ * GET /api/notion/pages
+ * List pages in the user's Notion workspace (e.g. to pick where the
+ * Assistant Workspace goes)
+ */
+router.get("/pages", requireAuth, async (req, res) => {
+  const userId = req.user!.id;
+
+  const pages = await searchPages(userId);
+
+  res.json({
+    pages,
+  });
+});
+
+/**
+ * POST /api/notion/assistant-workspace
+ * Create the private Assistant Workspace database under a page the user
+ * picked. Body: { parent_page_id }
+ */
+router.post("/assistant-workspace", requireAuth, async (req, res) => {
+  const userId = req.user!.id;
+  const { parent_page_id } = req.body;
+
+  if (!parent_page_id || typeof parent_page_id !== "string") {
+    res.status(400).json({ error: "parent_page_id is required" });
+    return;
+  }
+
+  const existing = getNotionConnection(userId);
+  if (!existing) {
+    res.status(404).json({ error: "No Notion connection found" });
+    return;
+  }
+
+  if (existing.assistant_db_id) {
+    res.status(409).json({ error: "The Assistant Workspace already exists" });
+    return;
+  }
+
+  const connection = await createAssistantWorkspace(userId, parent_page_id);
+  if (!connection) {
+    res.status(503).json({ error: "Failed to create the Assistant Workspace in Notion" });
+    return;
+  }
+
+  res.status(201).json({
+    success: true,
+    connection,
+  });
+});
+
 /**
  * PUT /api/notion/configure
  * Configure which Notion databases to use for tasks, calendar, etc.
+ * tasks_property_map (and notes_/calendar_property_map) optionally rename
+ * the properties used (e.g. { "title": "Task", "dueDate": "Deadline" });
+ * null resets to the defaults. PUT /api/notion/property-maps/:use also checks
+ * the map against the database.
+ * export_session_notes turns on writing a page to the notes database when a
+ * session ends.
  */
 router.put("/configure", requireAuth, (req, res) => {
   const userId = req.user!.id;
-  const { tasks_database_id, calendar_database_id, notes_database_id, assistant_db_id } = req.body;
+  const {
+    tasks_database_id,
+    calendar_database_id,
+    notes_database_id,
+    assistant_db_id,
+    tasks_property_map,
+    notes_property_map,
+    calendar_property_map,
+    export_session_notes,
+  } = req.body;
+
+  if (export_session_notes !== undefined && typeof export_session_notes !== "boolean") {
+    res.status(400).json({ error: "export_session_notes must be true or false" });
+    return;
+  }
+
+  for (const use of DATABASE_USES) {
+    const map = req.body[`${use}_property_map`];
+    const error = map != null ? validatePropertyMap(use, map) : null;
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+  }
 
   const connection = updateNotionDatabaseMappings(userId, {
     tasks_database_id,
     calendar_database_id,
     notes_database_id,
     assistant_db_id,
+    tasks_property_map,
+    notes_property_map,
+    calendar_property_map,
+    export_session_notes,
   });
 
   if (!connection) {
@@ -181,6 +289,106 @@ router.put("/configure", requireAuth, (req, res) => {
   });
 });
 
+// ============================================
+// Database Schema Endpoints
+// ============================================
+
+function isDatabaseUse(value: unknown): value is NotionDatabaseUse {
+  return DATABASE_USES.includes(value as NotionDatabaseUse);
+}
+
+/**
+ * GET /api/notion/databases/:databaseId/schema
+ * Get a database's properties with a guessed role for each. With
+ * ?use=tasks|notes|calendar, also suggests a property map for that use.
+ */
+router.get("/databases/:databaseId/schema", requireAuth, async (req, res) => {
+  const userId = req.user!.id;
+  const { use } = req.query;
+
+  if (use !== undefined && !isDatabaseUse(use)) {
+    res.status(400).json({ error: `use must be one of: ${DATABASE_USES.join(", ")}` });
+    return;
+  }
+
+  if (!getNotionConnection(userId)) {
+    res.status(404).json({ error: "No Notion connection found" });
+    return;
+  }
+
+  const schema = await getDatabaseSchema(userId, req.params.databaseId);
+  if (!schema) {
+    res.status(503).json({ error: "Failed to read the database from Notion" });
+    return;
+  }
+
+  res.json({
+    schema,
+    suggested: use ? suggestPropertyMap(use, schema) : null,
+  });
+});
+
+/**
+ * PUT /api/notion/property-maps/:use
+ * Save the property map for the tasks, notes or calendar database.
+ * Body: { map } - fields to change; the rest keep their current values.
+ * The map is checked against the database's schema and a sample query
+ * before it's saved.
+ */
+router.put("/property-maps/:use", requireAuth, async (req, res) => {
+  const userId = req.user!.id;
+  const { use } = req.params;
+  const { map } = req.body;
+
+  if (!isDatabaseUse(use)) {
+    res.status(400).json({ error: `use must be one of: ${DATABASE_USES.join(", ")}` });
+    return;
+  }
+
+  const error = validatePropertyMap(use, map);
+  if (error) {
+    res.status(400).json({ error });
+    return;
+  }
+
+  const connection = getNotionConnection(userId);
+  if (!connection) {
+    res.status(404).json({ error: "No Notion connection found" });
+    return;
+  }
+
+  const databaseId = connection[`${use}_database_id`];
+  if (!databaseId) {
+    res.status(400).json({ error: `Choose a ${use} database first` });
+    return;
+  }
+
+  const schema = await getDatabaseSchema(userId, databaseId);
+  if (!schema) {
+    res.status(503).json({ error: "Failed to read the database from Notion" });
+    return;
+  }
+
+  const merged = { ...getPropertyMap(connection, use), ...map };
+  const problems = checkPropertyMap(use, merged, schema);
+  if (problems.length > 0) {
+    res.status(400).json({ error: "Property map doesn't match the database", problems });
+    return;
+  }
+
+  const sample = await samplePropertyMap(userId, databaseId, use, merged);
+  if (!sample) {
+    res.status(503).json({ error: "Failed to query the database with this property map" });
+    return;
+  }
+
+  res.json({
+    success: true,
+    connection: updateNotionDatabaseMappings(userId, { [`${use}_property_map`]: merged }),
+    sample,
+  });
+});
+
 // ============================================
 // API Logs Endpoints
 // ============================================
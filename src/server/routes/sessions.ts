@@ -10,7 +10,27 @@ import { Router } from "express";
 import { getDb } from "../db/index.js";
 import { getSessionGreeting, saveMessage } from "../services/companion.js";
 import { requireAuth } from "../middleware/auth.js";
-import type { Session, Message } from "../db/schema.js";
+import { stopCheckIns } from "../services/checkins.js";
+import { getSessionIntentions, saveSessionIntentions } from "../services/intentions.js";
+import { assembleSessionContext, DEFAULT_CONTEXT_POLICY } from "../services/context-assembler.js";
+import { extractSessionMemories } from "../services/memory-extraction.js";
+import { addSessionSummaryEntry } from "../services/notion-workspace.js";
+import { exportSessionToNotes } from "../services/notion-session-export.js";
+import { getGoogleConnection, getTodayEvents } from "../services/google.js";
+import { isValidTimeZone } from "../services/analytics.js";
+import {
+  checkSessionAgainstCalendar,
+  endOfWorkday,
+  findFreeBlocks,
+  findNextEvent,
+  suggestSessions,
+} from "../services/planner.js";
+import {
+  DEFAULT_SESSION_MODE,
+  getSessionModeConfig,
+  isSessionMode,
+} from "../services/session-modes.js";
+import type { Session, Message, UserWithParsedFields } from "../db/schema.js";
 
 const router = Router();
 
@@ -20,12 +40,25 @@ router.use(requireAuth);
 /**
  * POST /api/sessions/start
  * Begin a new focus session
+ * Body:
+ *   - declaredTask, durationPlanned
+ *   - mode: 'simple_task' (default), 'deep_work' or 'presence'
+ *   - checkInFrequency: Minutes between check-ins (defaults per mode)
+ * The response includes a warning if the session would run into the next
+ * event on the user's Google Calendar.
  */
 router.post("/start", async (req, res) => {
-  const { declaredTask, durationPlanned, checkInFrequency } = req.body;
+  const { declaredTask, durationPlanned, checkInFrequency, mode = DEFAULT_SESSION_MODE } = req.body;
   const user = req.user!;
   const db = getDb();
 
+  if (!isSessionMode(mode)) {
+    res.status(400).json({ error: "mode must be one of: simple_task, deep_work, presence" });
+    return;
+  }
+
+  const modeConfig = getSessionModeConfig(mode);
+
   // Check for existing active session
   const activeSession = db
     .prepare(
@@ -47,12 +80,30 @@ router.post("/start", async (req, res) => {
   const sessionId = crypto.randomUUID();
   db.prepare(
     `
-    INSERT INTO sessions (id, user_id, declared_task, duration_planned, check_in_frequency, status)
-    VALUES (?, ?, ?, ?, ?, 'active')
+    INSERT INTO sessions (id, user_id, declared_task, duration_planned, check_in_frequency, mode, status)
+    VALUES (?, ?, ?, ?, ?, ?, 'active')
   `
-  ).run(sessionId, user.id, declaredTask || null, durationPlanned || 25, checkInFrequency || 15);
+  ).run(
+    sessionId,
+    user.id,
+    declaredTask || null,
+    durationPlanned || 25,
+    checkInFrequency || modeConfig.defaultCheckInFrequency,
+    mode
+  );
 
   const session = db.prepare(`SELECT * FROM sessions WHERE id = ?`).get(sessionId) as Session;
+  const warning = checkSessionAgainstCalendar(user.id, session.duration_planned ?? 25);
+
+  // Presence mode waits for the user to speak first
+  if (!modeConfig.unpromptedMessages) {
+    res.status(201).json({
+      session,
+      greeting: null,
+      warning,
+    });
+    return;
+  }
 
   // Generate greeting from companion
   try {
@@ -62,6 +113,7 @@ router.post("/start", async (req, res) => {
     res.status(201).json({
       session,
       greeting,
+      warning,
     });
   } catch (error) {
     // Return session even if greeting fails
@@ -69,6 +121,7 @@ router.post("/start", async (req, res) => {
     res.status(201).json({
       session,
       greeting: null,
+      warning,
     });
   }
 });
@@ -135,6 +188,46 @@ router.get("/history", (req, res) => {
   });
 });
 
+/**
+ * GET /api/sessions/suggest
+ * Suggest focus sessions for the rest of the working day, fitted into the
+ * free blocks between events on the user's Google Calendar and sized by
+ * their defaultSessionDuration preference
+ * Query params:
+ *   - tz: IANA time zone the working day ends in (default UTC)
+ */
+router.get("/suggest", async (req, res) => {
+  const user = req.user!;
+
+  const timeZone = req.query.tz === undefined ? "UTC" : req.query.tz;
+  if (typeof timeZone !== "string" || !isValidTimeZone(timeZone)) {
+    res.status(400).json({ error: "tz must be an IANA time zone, e.g. Europe/London" });
+    return;
+  }
+
+  if (!getGoogleConnection(user.id)) {
+    res.json({ calendarConnected: false, freeBlocks: [], suggestions: [], nextEvent: null });
+    return;
+  }
+
+  const events = await getTodayEvents(user.id);
+  if (!events) {
+    res.status(503).json({ error: "Failed to fetch today's events" });
+    return;
+  }
+
+  const now = new Date();
+  const freeBlocks = findFreeBlocks(events, now, endOfWorkday(now, timeZone));
+  const preferences = JSON.parse(user.preferences) as UserWithParsedFields["preferences"];
+
+  res.json({
+    calendarConnected: true,
+    freeBlocks,
+    suggestions: suggestSessions(freeBlocks, preferences.defaultSessionDuration || 25),
+    nextEvent: findNextEvent(events, now),
+  });
+});
+
 /**
  * GET /api/sessions/:id
  * Get a session by ID (must belong to current user)
@@ -185,7 +278,7 @@ router.get("/:id/messages", (req, res) => {
       `
     SELECT * FROM messages
     WHERE session_id = ?
-    ORDER BY created_at ASC
+    ORDER BY created_at ASC, rowid ASC
   `
     )
     .all(req.params.id) as Message[];
@@ -193,9 +286,118 @@ router.get("/:id/messages", (req, res) => {
   res.json(messages);
 });
 
+/**
+ * GET /api/sessions/:id/context
+ * Debug view of the context the companion would send for this session:
+ * the token allocation per section, the system prompt and the history kept
+ * Query:
+ *   - budget: Total token budget to try (defaults to the standard policy)
+ */
+router.get("/:id/context", (req, res) => {
+  const user = req.user!;
+  const db = getDb();
+
+  const session = db
+    .prepare(
+      `
+    SELECT id FROM sessions WHERE id = ? AND user_id = ?
+  `
+    )
+    .get(req.params.id, user.id);
+
+  if (!session) {
+    res.status(404).json({ error: "Session not found" });
+    return;
+  }
+
+  let policy = DEFAULT_CONTEXT_POLICY;
+  if (req.query.budget !== undefined) {
+    const budget = Number(req.query.budget);
+    if (!Number.isInteger(budget) || budget <= 0) {
+      res.status(400).json({ error: "budget must be a positive integer" });
+      return;
+    }
+    policy = { ...DEFAULT_CONTEXT_POLICY, totalTokens: budget };
+  }
+
+  res.json(assembleSessionContext(user.id, req.params.id, policy));
+});
+
+/**
+ * GET /api/sessions/:id/intentions
+ * Get the implementation intentions recorded for a session
+ */
+router.get("/:id/intentions", (req, res) => {
+  const user = req.user!;
+  const db = getDb();
+
+  const session = db
+    .prepare(
+      `
+    SELECT id FROM sessions WHERE id = ? AND user_id = ?
+  `
+    )
+    .get(req.params.id, user.id);
+
+  if (!session) {
+    res.status(404).json({ error: "Session not found" });
+    return;
+  }
+
+  res.json(getSessionIntentions(req.params.id));
+});
+
+/**
+ * POST /api/sessions/:id/intentions
+ * Record implementation intentions for a session
+ * Body:
+ *   - when, where: When/where plan (replaces any existing one)
+ *   - ifThen: Array of { distraction, response } pairs (appended)
+ */
+router.post("/:id/intentions", (req, res) => {
+  const { when, where, ifThen } = req.body;
+  const user = req.user!;
+  const db = getDb();
+
+  const session = db
+    .prepare(
+      `
+    SELECT id FROM sessions WHERE id = ? AND user_id = ?
+  `
+    )
+    .get(req.params.id, user.id);
+
+  if (!session) {
+    res.status(404).json({ error: "Session not found" });
+    return;
+  }
+
+  if (ifThen !== undefined && !Array.isArray(ifThen)) {
+    res.status(400).json({ error: "ifThen must be an array" });
+    return;
+  }
+
+  for (const plan of ifThen || []) {
+    if (!plan?.distraction || !plan?.response) {
+      res.status(400).json({ error: "Each if-then plan requires distraction and response" });
+      return;
+    }
+  }
+
+  if (!when && !where && (!ifThen || ifThen.length === 0)) {
+    res.status(400).json({ error: "Provide when/where or at least one if-then plan" });
+    return;
+  }
+
+  const intentions = saveSessionIntentions(req.params.id, { when, where, ifThen });
+  res.status(201).json(intentions);
+});
+
 /**
  * POST /api/sessions/:id/end
- * End a focus session with optional reflection
+ * End a focus session with optional reflection.
+ * Kicks off memory extraction for the session, records it in the Assistant
+ * Workspace and, if the user turned it on, writes it to their notes database.
  */
 router.post("/:id/end", (req, res) => {
   const { outcome } = req.body;
@@ -236,6 +438,24 @@ router.post("/:id/end", (req, res) => {
   `
   ).run(outcome || null, durationActual, req.params.id);
 
+  stopCheckIns(req.params.id);
+
+  // Extract memories in the background - they show up in /api/memory/pending for review.
+  // The notes export waits for them so it can list the session's wins.
+  extractSessionMemories(user.id, req.params.id)
+    .catch((error) => {
+      console.error("Failed to extract session memories:", error);
+    })
+    .then(() => exportSessionToNotes(user.id, req.params.id))
+    .catch((error) => {
+      console.error("Failed to export session to Notion notes:", error);
+    });
+
+  // Keep a record in the Assistant Workspace, if the user has one
+  addSessionSummaryEntry(user.id, req.params.id).catch((error) => {
+    console.error("Failed to add session summary to the Assistant Workspace:", error);
+  });
+
   const updatedSession = db
     .prepare(`SELECT * FROM sessions WHERE id = ?`)
     .get(req.params.id) as Session;
@@ -341,6 +561,8 @@ router.post("/:id/abandon", (req, res) => {
   `
   ).run(durationActual, req.params.id);
 
+  stopCheckIns(req.params.id);
+
   const updatedSession = db
     .prepare(`SELECT * FROM sessions WHERE id = ?`)
     .get(req.params.id) as Session;
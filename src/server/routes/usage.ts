@@ -0,0 +1,72 @@
+/**
+ * Usage Routes
+ *
+ * API endpoints for model token usage, cost and monthly budgets.
+ * All routes require authentication.
+ */
+
+import { Router } from "express";
+import { requireAuth } from "../middleware/auth.js";
+import { getUsageSummary, setMonthlyBudget } from "../services/usage.js";
+
+const router = Router();
+
+// All routes require authentication
+router.use(requireAuth);
+
+/**
+ * GET /api/usage
+ * Get token usage and cost for the current user, rolled up per day,
+ * per session and per request type, plus this month's budget status
+ * Query params:
+ *   - days: How many days back to include (default 30, max 365)
+ */
+router.get("/", (req, res) => {
+  const user = req.user!;
+
+  let days = 30;
+  if (req.query.days !== undefined) {
+    days = Number(req.query.days);
+    if (!Number.isInteger(days) || days < 1 || days > 365) {
+      res.status(400).json({ error: "days must be an integer between 1 and 365" });
+      return;
+    }
+  }
+
+  try {
+    res.json(getUsageSummary(user.id, days));
+  } catch (error) {
+    console.error("Error fetching usage:", error);
+    res.status(500).json({ error: "Failed to fetch usage" });
+  }
+});
+
+/**
+ * PUT /api/usage/budget
+ * Set the current user's monthly budget
+ * Body:
+ *   - monthlyBudgetUsd: Budget in USD, or null to remove the limit
+ */
+router.put("/budget", (req, res) => {
+  const user = req.user!;
+  const { monthlyBudgetUsd } = req.body;
+
+  if (
+    monthlyBudgetUsd !== null &&
+    (typeof monthlyBudgetUsd !== "number" ||
+      !Number.isFinite(monthlyBudgetUsd) ||
+      monthlyBudgetUsd < 0)
+  ) {
+    res.status(400).json({ error: "monthlyBudgetUsd must be a non-negative number or null" });
+    return;
+  }
+
+  try {
+    res.json(setMonthlyBudget(user.id, monthlyBudgetUsd));
+  } catch (error) {
+    console.error("Error updating budget:", error);
+    res.status(500).json({ error: "Failed to update budget" });
+  }
+});
+
+export default router;
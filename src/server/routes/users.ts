@@ -8,6 +8,7 @@
 import { Router } from "express";
 import { getDb } from "../db/index.js";
 import { buildUserContext } from "../services/context.js";
+import { isValidTimeZone } from "../services/analytics.js";
 import { requireAuth } from "../middleware/auth.js";
 import type { User } from "../db/schema.js";
 
@@ -114,12 +115,19 @@ router.put("/me/context", (req, res) => {
 
 /**
  * PUT /api/users/me/preferences
- * Update current user's preferences
+ * Update current user's preferences. timeZone, if given, must be an IANA
+ * time zone; briefings and task due dates use it for "today".
  */
 router.put("/me/preferences", (req, res) => {
   const db = getDb();
   const user = req.user!;
 
+  const { timeZone } = req.body;
+  if (timeZone !== undefined && (typeof timeZone !== "string" || !isValidTimeZone(timeZone))) {
+    res.status(400).json({ error: "timeZone must be an IANA time zone, e.g. Europe/London" });
+    return;
+  }
+
   const currentPrefs = JSON.parse(user.preferences);
   const newPrefs = { ...currentPrefs, ...req.body };
 
@@ -0,0 +1,506 @@
+/**
+ * Focus Analytics Service
+ *
+ * Aggregates a user's focus sessions over a date range: completion and
+ * abandonment, planned-vs-actual duration, focus minutes per day and week,
+ * streaks, the hours sessions go best, recurring distractions and how
+ * check-in frequency relates to finishing.
+ *
+ * Days, weeks and hours are in the caller's time zone; session timestamps are
+ * stored in UTC. Only ended sessions (completed or abandoned) count towards
+ * the metrics.
+ */
+
+import { getDb } from "../db/index.js";
+import { cosineSimilarity, embedText } from "./embeddings.js";
+import { getMemoryEmbedding } from "./memory.js";
+import type { Session, User, UserContextItem } from "../db/schema.js";
+
+// Actual duration within this fraction of the plan counts as on target
+const ON_TARGET_TOLERANCE = 0.2;
+
+// Similarity at or above which a session outcome counts as mentioning a distraction memory
+const DISTRACTION_MATCH_SIMILARITY = 0.3;
+
+// How many distractions to return
+const TOP_DISTRACTIONS = 5;
+
+// Sessions a check-in frequency needs before it can be called the most effective
+const MIN_SESSIONS_PER_FREQUENCY = 3;
+
+// Longest range a single request can cover
+export const MAX_RANGE_DAYS = 366;
+
+export interface AnalyticsRange {
+  /** First day, YYYY-MM-DD in timeZone */
+  from: string;
+  /** Last day (inclusive), YYYY-MM-DD in timeZone */
+  to: string;
+  /** IANA time zone, e.g. "Europe/London" */
+  timeZone: string;
+}
+
+interface FocusTotals {
+  focusMinutes: number;
+  sessions: number;
+  completed: number;
+}
+
+export interface FocusAnalytics {
+  range: AnalyticsRange;
+  summary: {
+    sessions: number;
+    completed: number;
+    abandoned: number;
+    /** Sessions started in the range that are still running */
+    active: number;
+    completionRate: number | null;
+    abandonmentRate: number | null;
+    focusMinutes: number;
+    averageSessionMinutes: number | null;
+  };
+  /** Planned vs actual duration of completed sessions */
+  durationAccuracy: {
+    sessions: number;
+    averagePlannedMinutes: number | null;
+    averageActualMinutes: number | null;
+    /** Mean of actual / planned: above 1 means sessions ran long */
+    averageRatio: number | null;
+    onTarget: number;
+    overran: number;
+    underran: number;
+  };
+  focusByDay: Array<{ date: string } & FocusTotals>;
+  /** Weeks start on Monday */
+  focusByWeek: Array<{ weekStart: string } & FocusTotals>;
+  /** Consecutive days with at least one completed session, up to the end of the range */
+  streaks: {
+    current: number;
+    longest: number;
+    lastCompletedDate: string | null;
+  };
+  timeOfDay: {
+    byHour: Array<{ hour: number; completionRate: number } & FocusTotals>;
+    /** Start hour with the most completed sessions */
+    bestHour: number | null;
+  };
+  distractions: Array<{
+    memoryId: string;
+    content: string;
+    importance: number;
+    /** Sessions in the range it came from or that mention it in their outcome */
+    sessions: number;
+    abandonedSessions: number;
+  }>;
+  checkInFrequency: {
+    byFrequency: Array<{
+      frequencyMinutes: number;
+      sessions: number;
+      completed: number;
+      completionRate: number;
+      averageFocusMinutes: number;
+    }>;
+    /** Frequency with the best completion rate, once it has enough sessions */
+    mostEffective: number | null;
+  };
+}
+
+type SessionRow = Pick<
+  Session,
+  | "id"
+  | "started_at"
+  | "duration_planned"
+  | "duration_actual"
+  | "check_in_frequency"
+  | "outcome"
+  | "status"
+>;
+
+interface LocalSession extends SessionRow {
+  localDate: string;
+  localHour: number;
+}
+
+// ============================================
+// Dates and time zones
+// ============================================
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Whether a string is an IANA time zone this runtime knows
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a string is a real calendar date in YYYY-MM-DD form
+ */
+export function isValidDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * The calendar date, hour and minute of an instant in a time zone
+ */
+function toLocal(date: Date, timeZone: string): { date: string; hour: number; minute: number } {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(date)
+      .map((part) => [part.type, part.value])
+  );
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+  };
+}
+
+/**
+ * How far a time zone's clocks are ahead of UTC at an instant, in milliseconds
+ */
+function zoneOffset(instant: number, timeZone: string): number {
+  const local = toLocal(new Date(instant), timeZone);
+  const hour = String(local.hour).padStart(2, "0");
+  const minute = String(local.minute).padStart(2, "0");
+  return Date.parse(`${local.date}T${hour}:${minute}:00Z`) - Math.floor(instant / 60000) * 60000;
+}
+
+/**
+ * The instant a local date and hour begin in a time zone
+ */
+export function localHourToDate(date: string, hour: number, timeZone: string): Date {
+  const asUtc = Date.parse(`${date}T${String(hour).padStart(2, "0")}:00:00Z`);
+  // Take the offset again at the first guess, in case a DST change lies between
+  const guess = asUtc - zoneOffset(asUtc, timeZone);
+  return new Date(asUtc - zoneOffset(guess, timeZone));
+}
+
+/**
+ * The time zone from a user's preferences, or UTC if they haven't set a
+ * valid one
+ */
+export function getUserTimeZone(userId: string): string {
+  const db = getDb();
+  const user = db.prepare(`SELECT preferences FROM users WHERE id = ?`).get(userId) as
+    | Pick<User, "preferences">
+    | undefined;
+
+  try {
+    const timeZone = JSON.parse(user?.preferences || "{}").timeZone;
+    return typeof timeZone === "string" && isValidTimeZone(timeZone) ? timeZone : "UTC";
+  } catch {
+    return "UTC";
+  }
+}
+
+/**
+ * Today's date in a time zone
+ */
+export function getLocalDate(timeZone: string, now: Date = new Date()): string {
+  return toLocal(now, timeZone).date;
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days
+ */
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
+
+/**
+ * Whole days from one date to another
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round(
+    (new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / 86400000
+  );
+}
+
+function weekStart(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return addDays(date, -((day + 6) % 7));
+}
+
+/**
+ * Parse a stored timestamp. SQLite's datetime('now') has no zone marker but is UTC.
+ */
+function parseTimestamp(value: string): Date {
+  return new Date(/[zZ]|[+-]\d{2}:\d{2}$/.test(value) ? value : `${value.replace(" ", "T")}Z`);
+}
+
+// ============================================
+// Aggregation
+// ============================================
+
+function round(value: number, places: number = 2): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function average(values: number[]): number | null {
+  return values.length === 0 ? null : values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function isEnded(session: SessionRow): boolean {
+  return session.status === "completed" || session.status === "abandoned";
+}
+
+function totals(sessions: LocalSession[]): FocusTotals {
+  return {
+    focusMinutes: sessions.reduce((sum, s) => sum + (s.duration_actual ?? 0), 0),
+    sessions: sessions.length,
+    completed: sessions.filter((s) => s.status === "completed").length,
+  };
+}
+
+function groupBy<K>(sessions: LocalSession[], key: (s: LocalSession) => K): Map<K, LocalSession[]> {
+  const groups = new Map<K, LocalSession[]>();
+  for (const session of sessions) {
+    const k = key(session);
+    groups.set(k, [...(groups.get(k) ?? []), session]);
+  }
+  return groups;
+}
+
+/**
+ * Sessions started between two local dates (inclusive). Timestamps are
+ * fetched with a day's margin either side, which covers every UTC offset,
+ * then filtered on their local date.
+ */
+function getSessionsInRange(userId: string, range: AnalyticsRange): LocalSession[] {
+  const rows = getDb()
+    .prepare(
+      `
+    SELECT id, started_at, duration_planned, duration_actual, check_in_frequency, outcome, status
+    FROM sessions
+    WHERE user_id = ? AND started_at >= ? AND started_at < ?
+    ORDER BY started_at
+  `
+    )
+    .all(
+      userId,
+      `${addDays(range.from, -1)} 00:00:00`,
+      `${addDays(range.to, 2)} 00:00:00`
+    ) as SessionRow[];
+
+  return rows
+    .map((row) => {
+      const local = toLocal(parseTimestamp(row.started_at), range.timeZone);
+      return { ...row, localDate: local.date, localHour: local.hour };
+    })
+    .filter((s) => s.localDate >= range.from && s.localDate <= range.to);
+}
+
+function getDurationAccuracy(sessions: LocalSession[]): FocusAnalytics["durationAccuracy"] {
+  const compared = sessions.filter(
+    (s) => s.status === "completed" && s.duration_planned && s.duration_actual !== null
+  );
+  const ratios = compared.map((s) => s.duration_actual! / s.duration_planned!);
+  const avgPlanned = average(compared.map((s) => s.duration_planned!));
+  const avgActual = average(compared.map((s) => s.duration_actual!));
+  const avgRatio = average(ratios);
+
+  return {
+    sessions: compared.length,
+    averagePlannedMinutes: avgPlanned === null ? null : round(avgPlanned, 1),
+    averageActualMinutes: avgActual === null ? null : round(avgActual, 1),
+    averageRatio: avgRatio === null ? null : round(avgRatio),
+    onTarget: ratios.filter((r) => Math.abs(r - 1) <= ON_TARGET_TOLERANCE).length,
+    overran: ratios.filter((r) => r > 1 + ON_TARGET_TOLERANCE).length,
+    underran: ratios.filter((r) => r < 1 - ON_TARGET_TOLERANCE).length,
+  };
+}
+
+/**
+ * Streaks over every completed session up to the end of the range, not just
+ * those inside it. The current streak runs back from the last day of the
+ * range, or from the day before if nothing's been completed on it yet.
+ */
+function getStreaks(userId: string, range: AnalyticsRange): FocusAnalytics["streaks"] {
+  const rows = getDb()
+    .prepare(
+      `
+    SELECT started_at FROM sessions
+    WHERE user_id = ? AND status = 'completed' AND started_at < ?
+  `
+    )
+    .all(userId, `${addDays(range.to, 2)} 00:00:00`) as Array<{ started_at: string }>;
+
+  const days = [
+    ...new Set(
+      rows
+        .map((row) => toLocal(parseTimestamp(row.started_at), range.timeZone).date)
+        .filter((date) => date <= range.to)
+    ),
+  ].sort();
+
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, i) => {
+    run = i > 0 && daysBetween(days[i - 1], day) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  const completedDays = new Set(days);
+  let current = 0;
+  let day = completedDays.has(range.to) ? range.to : addDays(range.to, -1);
+  while (completedDays.has(day)) {
+    current++;
+    day = addDays(day, -1);
+  }
+
+  return { current, longest, lastCompletedDate: days.at(-1) ?? null };
+}
+
+function getTimeOfDay(sessions: LocalSession[]): FocusAnalytics["timeOfDay"] {
+  const byHour = [...groupBy(sessions, (s) => s.localHour)]
+    .sort(([a], [b]) => a - b)
+    .map(([hour, group]) => {
+      const hourTotals = totals(group);
+      return { hour, ...hourTotals, completionRate: round(hourTotals.completed / group.length) };
+    });
+
+  const best = byHour
+    .filter((h) => h.completed > 0)
+    .sort((a, b) => b.completed - a.completed || b.completionRate - a.completionRate)[0];
+
+  return { byHour, bestHour: best?.hour ?? null };
+}
+
+/**
+ * Rank the user's distraction memories by how many sessions in the range
+ * they came from or are mentioned in the outcome of
+ */
+function getDistractions(userId: string, sessions: LocalSession[]): FocusAnalytics["distractions"] {
+  const memories = getDb()
+    .prepare(
+      `
+    SELECT * FROM user_context_items
+    WHERE user_id = ? AND category = 'distraction' AND archived_at IS NULL
+  `
+    )
+    .all(userId) as UserContextItem[];
+
+  if (memories.length === 0) return [];
+
+  const outcomes = sessions
+    .filter((s) => s.outcome)
+    .map((s) => ({ session: s, vector: embedText(s.outcome!) }));
+
+  return memories
+    .map((memory) => {
+      const vector = getMemoryEmbedding(memory);
+      const matched = sessions.filter(
+        (s) =>
+          memory.source === s.id ||
+          outcomes.some(
+            (o) =>
+              o.session === s && cosineSimilarity(o.vector, vector) >= DISTRACTION_MATCH_SIMILARITY
+          )
+      );
+
+      return {
+        memoryId: memory.id,
+        content: memory.content,
+        importance: memory.importance,
+        sessions: matched.length,
+        abandonedSessions: matched.filter((s) => s.status === "abandoned").length,
+      };
+    })
+    .sort((a, b) => b.sessions - a.sessions || b.importance - a.importance)
+    .slice(0, TOP_DISTRACTIONS);
+}
+
+function getCheckInFrequency(sessions: LocalSession[]): FocusAnalytics["checkInFrequency"] {
+  const byFrequency = [...groupBy(sessions, (s) => s.check_in_frequency)]
+    .sort(([a], [b]) => a - b)
+    .map(([frequencyMinutes, group]) => {
+      const groupTotals = totals(group);
+      return {
+        frequencyMinutes,
+        sessions: group.length,
+        completed: groupTotals.completed,
+        completionRate: round(groupTotals.completed / group.length),
+        averageFocusMinutes: round(groupTotals.focusMinutes / group.length, 1),
+      };
+    });
+
+  const best = byFrequency
+    .filter((f) => f.sessions >= MIN_SESSIONS_PER_FREQUENCY)
+    .sort((a, b) => b.completionRate - a.completionRate || b.sessions - a.sessions)[0];
+
+  return { byFrequency, mostEffective: best?.frequencyMinutes ?? null };
+}
+
+/**
+ * Focus analytics for a user over a date range
+ */
+export function getFocusAnalytics(userId: string, range: AnalyticsRange): FocusAnalytics {
+  const inRange = getSessionsInRange(userId, range);
+  const ended = inRange.filter(isEnded);
+  const endedTotals = totals(ended);
+  const abandoned = ended.length - endedTotals.completed;
+
+  const byDay = groupBy(ended, (s) => s.localDate);
+  const focusByDay = Array.from({ length: daysBetween(range.from, range.to) + 1 }, (_, i) => {
+    const date = addDays(range.from, i);
+    return { date, ...totals(byDay.get(date) ?? []) };
+  });
+
+  const byWeek = groupBy(ended, (s) => weekStart(s.localDate));
+  const focusByWeek = [...new Set(focusByDay.map((d) => weekStart(d.date)))].map((start) => ({
+    weekStart: start,
+    ...totals(byWeek.get(start) ?? []),
+  }));
+
+  return {
+    range,
+    summary: {
+      sessions: ended.length,
+      completed: endedTotals.completed,
+      abandoned,
+      active: inRange.filter((s) => s.status === "active").length,
+      completionRate: ended.length ? round(endedTotals.completed / ended.length) : null,
+      abandonmentRate: ended.length ? round(abandoned / ended.length) : null,
+      focusMinutes: endedTotals.focusMinutes,
+      averageSessionMinutes: ended.length
+        ? round(endedTotals.focusMinutes / ended.length, 1)
+        : null,
+    },
+    durationAccuracy: getDurationAccuracy(ended),
+    focusByDay,
+    focusByWeek,
+    streaks: getStreaks(userId, range),
+    timeOfDay: getTimeOfDay(ended),
+    distractions: getDistractions(userId, ended),
+    checkInFrequency: getCheckInFrequency(ended),
+  };
+}
@@ -7,11 +7,18 @@
 import crypto from "node:crypto";
 import { getDb } from "../db/index.js";
 import type { User, MagicLink, AuthSession } from "../db/schema.js";
+import { sendMail } from "./mailer.js";
+import { magicLinkEmail } from "./mail-templates.js";
+import { cleanupExpiredOAuthStates } from "./oauth-state.js";
 
 // Token expiration times
 const MAGIC_LINK_EXPIRY_MINUTES = 15;
 const AUTH_SESSION_EXPIRY_DAYS = 30;
 
+// Magic links one email address can request per window
+const MAGIC_LINK_RATE_LIMIT = 3;
+const MAGIC_LINK_RATE_WINDOW_MINUTES = 15;
+
 /**
  * Generate a secure random token
  */
@@ -19,6 +26,37 @@ function generateToken(): string {
   return crypto.randomBytes(32).toString("hex");
 }
 
+/**
+ * Check whether an email address has hit the magic link rate limit.
+ * Returns the seconds until it can request another, or 0 if it can now.
+ */
+export function getMagicLinkRetryAfter(email: string): number {
+  const db = getDb();
+  const normalizedEmail = email.toLowerCase().trim();
+
+  const recent = db
+    .prepare(
+      `
+    SELECT created_at FROM magic_links
+    WHERE email = ? AND created_at > datetime('now', ?)
+    ORDER BY created_at DESC
+    LIMIT ?
+  `
+    )
+    .all(normalizedEmail, `-${MAGIC_LINK_RATE_WINDOW_MINUTES} minutes`, MAGIC_LINK_RATE_LIMIT) as {
+    created_at: string;
+  }[];
+
+  if (recent.length < MAGIC_LINK_RATE_LIMIT) {
+    return 0;
+  }
+
+  // Wait until the oldest of the recent links leaves the window
+  const oldest = new Date(`${recent[recent.length - 1].created_at}Z`).getTime();
+  const windowEnds = oldest + MAGIC_LINK_RATE_WINDOW_MINUTES * 60 * 1000;
+  return Math.max(1, Math.ceil((windowEnds - Date.now()) / 1000));
+}
+
 /**
  * Create a magic link for an email address
  * If user doesn't exist, they'll be created when they verify
@@ -202,9 +240,13 @@ export function invalidateAllUserSessions(userId: string): number {
 }
 
 /**
- * Clean up expired tokens and sessions
+ * Clean up expired tokens, sessions and abandoned OAuth states
  */
-export function cleanupExpiredAuth(): { magicLinks: number; sessions: number } {
+export function cleanupExpiredAuth(): {
+  magicLinks: number;
+  sessions: number;
+  oauthStates: number;
+} {
   const db = getDb();
 
   const magicLinksResult = db
@@ -226,6 +268,7 @@ export function cleanupExpiredAuth(): { magicLinks: number; sessions: number } {
   return {
     magicLinks: magicLinksResult.changes,
     sessions: sessionsResult.changes,
+    oauthStates: cleanupExpiredOAuthStates(),
   };
 }
 
@@ -239,15 +282,38 @@ export function getMagicLinkUrl(token: string, baseUrl?: string): string {
 }
 
 /**
- * Send magic link (logs to console in dev, would email in production)
+ * Email a magic link and record on its row whether it was delivered.
+ * Returns false if the mail transport failed.
  */
-export function sendMagicLink(email: string, token: string): void {
-  const url = getMagicLinkUrl(token);
-
-  // In production, this would send an actual email
-  // For now, log to console with clear formatting
-  console.log("\n========== MAGIC LINK ==========");
-  console.log(`Email: ${email}`);
-  console.log(`Link:  ${url}`);
-  console.log("================================\n");
+export async function sendMagicLink(
+  email: string,
+  token: string,
+  isNewUser = false
+): Promise<boolean> {
+  const db = getDb();
+  const message = magicLinkEmail({
+    to: email,
+    url: getMagicLinkUrl(token),
+    isNewUser,
+    expiresInMinutes: MAGIC_LINK_EXPIRY_MINUTES,
+  });
+
+  try {
+    await sendMail(message);
+    db.prepare(
+      `
+      UPDATE magic_links
+      SET delivery_status = 'sent', delivery_error = NULL, delivered_at = datetime('now')
+      WHERE token = ?
+    `
+    ).run(token);
+    return true;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : "Unknown error";
+    console.error(`Failed to send magic link to ${email}:`, reason);
+    db.prepare(
+      `UPDATE magic_links SET delivery_status = 'failed', delivery_error = ? WHERE token = ?`
+    ).run(reason, token);
+    return false;
+  }
 }
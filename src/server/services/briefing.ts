@@ -19,14 +19,44 @@ import type {
   BriefingType,
   BackgroundCheck,
   BackgroundCheckType,
+  Session,
 } from "../db/schema.js";
-import { getGoogleConnection, getTodayEvents, listEmails, getUnreadCount } from "./google.js";
-import { getNotionConnection } from "./notion.js";
+import { getSessionModeConfig } from "./session-modes.js";
+import {
+  getCurrentHistoryId,
+  getEmailsById,
+  getGoogleConnection,
+  getTodayEvents,
+  listEmails,
+  listInboxChanges,
+  getUnreadCount,
+  type GmailMessage,
+} from "./google.js";
+import { getNotionConnection, getTodayTasks } from "./notion.js";
+import { evaluateEmailRules, getEmailRules } from "./email-rules.js";
+import { getLocalDate, getUserTimeZone } from "./analytics.js";
 
 // ============================================
 // Alert Management
 // ============================================
 
+/**
+ * Get the start time of the user's active session if its mode holds back
+ * alerts (deep work). Alerts created since then stay hidden until the
+ * session ends, except urgent ones.
+ */
+function getAlertHoldStart(userId: string): string | null {
+  const db = getDb();
+  const session = db
+    .prepare(`SELECT mode, started_at FROM sessions WHERE user_id = ? AND status = 'active'`)
+    .get(userId) as Pick<Session, "mode" | "started_at"> | undefined;
+
+  if (!session || !getSessionModeConfig(session.mode).suppressAlerts) {
+    return null;
+  }
+  return session.started_at;
+}
+
 /**
  * Create a new alert for a user
  */
@@ -86,6 +116,13 @@ export function getAlerts(
     params.push(type);
   }
 
+  const holdStart = getAlertHoldStart(userId);
+  if (holdStart) {
+    query += ` AND (created_at < ? OR priority = 'urgent')`;
+    countQuery += ` AND (created_at < ? OR priority = 'urgent')`;
+    params.push(holdStart);
+  }
+
   query += ` ORDER BY created_at DESC LIMIT ? OFFSET ?`;
   const queryParams = [...params, limit, offset];
   const countParams = params;
@@ -101,6 +138,17 @@ export function getAlerts(
  */
 export function getUnreadAlertCount(userId: string): number {
   const db = getDb();
+  const holdStart = getAlertHoldStart(userId);
+
+  if (holdStart) {
+    const result = db
+      .prepare(
+        `SELECT COUNT(*) as count FROM alerts WHERE user_id = ? AND status = 'unread' AND (created_at < ? OR priority = 'urgent')`
+      )
+      .get(userId, holdStart) as { count: number };
+    return result.count;
+  }
+
   const result = db
     .prepare(`SELECT COUNT(*) as count FROM alerts WHERE user_id = ? AND status = 'unread'`)
     .get(userId) as { count: number };
@@ -125,6 +173,18 @@ export function markAlertRead(userId: string, alertId: string): boolean {
  */
 export function markAllAlertsRead(userId: string): number {
   const db = getDb();
+  const holdStart = getAlertHoldStart(userId);
+
+  // Don't mark held-back alerts as read - the user hasn't seen them yet
+  if (holdStart) {
+    const result = db
+      .prepare(
+        `UPDATE alerts SET status = 'read', read_at = datetime('now') WHERE user_id = ? AND status = 'unread' AND (created_at < ? OR priority = 'urgent')`
+      )
+      .run(userId, holdStart);
+    return result.changes;
+  }
+
   const result = db
     .prepare(
       `UPDATE alerts SET status = 'read', read_at = datetime('now') WHERE user_id = ? AND status = 'unread'`
@@ -201,7 +261,7 @@ export function saveBriefing(userId: string, input: BriefingInput): Briefing {
  */
 export function getTodayBriefing(userId: string, type: BriefingType = "morning"): Briefing | null {
   const db = getDb();
-  const today = new Date().toISOString().split("T")[0];
+  const today = getLocalDate(getUserTimeZone(userId));
 
   return (
     (db
@@ -333,6 +393,8 @@ interface BriefingData {
     title: string;
     status?: string;
     due?: string;
+    priority?: string;
+    url?: string;
   }>;
   hasGoogle: boolean;
   hasNotion: boolean;
@@ -395,16 +457,54 @@ export async function gatherBriefingData(userId: string): Promise<BriefingData>
     data.unreadCount = unreadCount ?? 0;
   }
 
-  // TODO: Fetch Notion tasks when task database is configured
-  // For now, tasks will be empty
+  // Fetch open Notion tasks (due today, overdue or in progress)
+  if (notionConnection?.tasks_database_id) {
+    const tasks = await getTodayTasks(userId, "proactive_check");
+    if (tasks) {
+      data.tasks = tasks.map((t) => ({
+        id: t.id,
+        title: t.title,
+        status: t.status ?? undefined,
+        due: t.dueDate ?? undefined,
+        priority: t.priority ?? undefined,
+        url: t.url,
+      }));
+    }
+  }
 
   return data;
 }
 
+type BriefingTask = BriefingData["tasks"][number];
+
+/**
+ * Split tasks into overdue, due today and upcoming (later or no due date)
+ */
+function groupTasksByDue(
+  tasks: BriefingTask[],
+  today: string
+): Array<{ label: string; tasks: BriefingTask[] }> {
+  const groups = [
+    { label: "Overdue", tasks: [] as BriefingTask[] },
+    { label: "Today", tasks: [] as BriefingTask[] },
+    { label: "Upcoming", tasks: [] as BriefingTask[] },
+  ];
+
+  for (const task of tasks) {
+    // Due dates may include a time; compare by day
+    const due = task.due?.slice(0, 10);
+    const index = !due || due > today ? 2 : due < today ? 0 : 1;
+    groups[index].tasks.push(task);
+  }
+
+  return groups.filter((g) => g.tasks.length > 0);
+}
+
 /**
- * Generate a morning briefing summary
+ * Generate a morning briefing summary, grouping tasks by whether they're due
+ * before, on or after today in the given time zone
  */
-export function generateBriefingSummary(data: BriefingData): string {
+export function generateBriefingSummary(data: BriefingData, timeZone: string = "UTC"): string {
   const parts: string[] = [];
 
   // Greeting based on time
@@ -454,12 +554,19 @@ export function generateBriefingSummary(data: BriefingData): string {
     parts.push("");
   }
 
-  // Tasks summary
+  // Tasks summary, grouped by when they're due
   if (data.tasks.length > 0) {
     parts.push(`**Tasks** (${data.tasks.length} items)`);
-    for (const task of data.tasks.slice(0, 5)) {
-      const status = task.status ? ` [${task.status}]` : "";
-      parts.push(`- ${task.title}${status}`);
+    for (const group of groupTasksByDue(data.tasks, getLocalDate(timeZone))) {
+      parts.push(`${group.label}:`);
+      for (const task of group.tasks.slice(0, 5)) {
+        const status = task.status ? ` [${task.status}]` : "";
+        const due = task.due && group.label !== "Today" ? ` (due ${task.due.slice(0, 10)})` : "";
+        parts.push(`- ${task.title}${status}${due}`);
+      }
+      if (group.tasks.length > 5) {
+        parts.push(`  ...and ${group.tasks.length - 5} more`);
+      }
     }
     parts.push("");
   }
@@ -480,9 +587,10 @@ export function generateBriefingSummary(data: BriefingData): string {
  * Generate and save a morning briefing for a user
  */
 export async function generateMorningBriefing(userId: string): Promise<Briefing> {
+  const timeZone = getUserTimeZone(userId);
   const data = await gatherBriefingData(userId);
-  const summary = generateBriefingSummary(data);
-  const today = new Date().toISOString().split("T")[0];
+  const summary = generateBriefingSummary(data, timeZone);
+  const today = getLocalDate(timeZone);
 
   // Save the briefing
   const briefing = saveBriefing(userId, {
@@ -512,52 +620,114 @@ export async function generateMorningBriefing(userId: string): Promise<Briefing>
 // Email Monitoring
 // ============================================
 
+// Most emails looked at in one check, whether synced from history or resynced
+const MAX_EMAILS_PER_CHECK = 20;
+
 /**
- * Check for new emails and create alerts for important ones
+ * Get unread inbox email that arrived since the stored Gmail history cursor,
+ * with the cursor to store next. Without a usable cursor (first check, or
+ * Gmail has expired it) falls back to the most recent unread email.
+ * Returns null if Gmail can't be reached.
  */
-export async function checkNewEmails(userId: string): Promise<number> {
-  const googleConnection = getGoogleConnection(userId);
-  if (!googleConnection) return 0;
-
-  const check = getOrCreateBackgroundCheck(userId, "email");
-  const lastCheckedId = check.last_item_id;
+async function fetchNewEmails(
+  userId: string,
+  cursor: string | null
+): Promise<{ emails: GmailMessage[]; historyId: string | null } | null> {
+  // Message IDs stored before history sync aren't history IDs
+  if (cursor && /^\d+$/.test(cursor)) {
+    const changes = await listInboxChanges(userId, cursor, "proactive_check");
+    if (!changes) return null;
+
+    if (changes !== "expired") {
+      const emails = await getEmailsById(
+        userId,
+        changes.messageIds.slice(-MAX_EMAILS_PER_CHECK),
+        "proactive_check"
+      );
+      if (!emails) return null;
+
+      return {
+        emails: emails.filter((email) => email.labelIds?.includes("UNREAD")),
+        historyId: changes.historyId,
+      };
+    }
+  }
 
-  // Get recent emails
+  // Take the cursor before listing, so email arriving during the resync is
+  // picked up next time rather than missed
+  const historyId = await getCurrentHistoryId(userId, "proactive_check");
   const emails = await listEmails(userId, {
-    maxResults: 20,
+    maxResults: MAX_EMAILS_PER_CHECK,
     query: "is:unread",
     triggeredBy: "proactive_check",
   });
+  if (!emails) return null;
+
+  return { emails, historyId };
+}
+
+/**
+ * Check for new emails and create alerts, triaged by the user's email rules
+ * (see email-rules.ts): muted email gets no alert and digest email is
+ * batched into a single alert.
+ *
+ * Syncs incrementally from a Gmail history cursor, and remembers every email
+ * it has handled so none alerts twice, even after a resync.
+ * Returns the number of alerts created.
+ */
+export async function checkNewEmails(userId: string): Promise<number> {
+  const googleConnection = getGoogleConnection(userId);
+  if (!googleConnection) return 0;
+
+  const check = getOrCreateBackgroundCheck(userId, "email");
+  const result = await fetchNewEmails(userId, check.last_item_id);
 
-  if (!emails || emails.length === 0) {
+  // Keep the cursor so the next check picks up from the same place
+  if (!result) {
     updateBackgroundCheck(userId, "email");
     return 0;
   }
 
+  const db = getDb();
+  const isSeen = db.prepare(
+    `SELECT 1 FROM gmail_seen_messages WHERE user_id = ? AND message_id = ?`
+  );
+  const markSeen = db.prepare(
+    `INSERT OR IGNORE INTO gmail_seen_messages (user_id, message_id, outcome) VALUES (?, ?, ?)`
+  );
+
   let newEmailCount = 0;
-  const newestId = emails[0]?.id;
+  const rules = getEmailRules(userId);
+  const digest: Array<{ id: string; line: string }> = [];
 
-  for (const email of emails) {
-    // Stop if we've reached the last checked email
-    if (email.id === lastCheckedId) break;
+  for (const email of result.emails) {
+    if (isSeen.get(userId, email.id)) continue;
 
     const headers = email.payload?.headers || [];
     const from = headers.find((h) => h.name === "From")?.value || "Unknown sender";
     const subject = headers.find((h) => h.name === "Subject")?.value || "(No subject)";
     const fromName = from.split("<")[0].trim() || from;
 
-    // Determine priority based on sender/subject
-    // TODO: Make this smarter with user preferences
-    const isHighPriority =
-      subject.toLowerCase().includes("urgent") ||
-      subject.toLowerCase().includes("important") ||
-      subject.toLowerCase().includes("action required");
+    // The user's rules decide priority, or whether there's an alert at all
+    const triage = evaluateEmailRules(rules, {
+      from,
+      subject,
+      snippet: email.snippet || "",
+      labelIds: email.labelIds || [],
+    });
+    markSeen.run(userId, email.id, triage.outcome);
+
+    if (triage.outcome === "mute") continue;
+    if (triage.outcome === "digest") {
+      digest.push({ id: email.id, line: `${fromName}: ${subject}` });
+      continue;
+    }
 
     createAlert(userId, {
       type: "email",
       title: `New email from ${fromName}`,
       content: subject,
-      priority: isHighPriority ? "high" : "normal",
+      priority: triage.priority,
       source_type: "gmail",
       source_id: email.id,
       action_type: "open_email",
@@ -567,11 +737,22 @@ export async function checkNewEmails(userId: string): Promise<number> {
     newEmailCount++;
   }
 
-  // Update the last checked ID
-  if (newestId) {
-    updateBackgroundCheck(userId, "email", newestId);
+  // Low-priority mail from this check shares one alert
+  if (digest.length > 0) {
+    createAlert(userId, {
+      type: "email",
+      title: `${digest.length} low-priority ${digest.length === 1 ? "email" : "emails"}`,
+      content: digest.map((d) => d.line).join("\n"),
+      priority: "low",
+      source_type: "gmail",
+      action_data: { emailIds: digest.map((d) => d.id) },
+    });
+
+    newEmailCount++;
   }
 
+  updateBackgroundCheck(userId, "email", result.historyId ?? undefined);
+
   return newEmailCount;
 }
 
@@ -14,6 +14,7 @@ import type {
   SideChatInput,
   SideChatMessageInput,
   MainChatMessageInput,
+  SideChatContext,
 } from "../db/schema.js";
 
 // ============================================
@@ -38,7 +39,8 @@ export function getMainChatMessages(
     params.push(before);
   }
 
-  query += ` ORDER BY created_at DESC LIMIT ? OFFSET ?`;
+  // rowid breaks ties between messages saved in the same second
+  query += ` ORDER BY created_at DESC, rowid DESC LIMIT ? OFFSET ?`;
   params.push(limit, offset);
 
   const messages = db.prepare(query).all(...params) as MainChatMessage[];
@@ -267,7 +269,7 @@ export function getSideChatMessages(
       `
     SELECT * FROM side_chat_messages
     WHERE side_chat_id = ?
-    ORDER BY created_at ASC
+    ORDER BY created_at ASC, rowid ASC
     LIMIT ? OFFSET ?
   `
     )
@@ -321,7 +323,9 @@ export function addSideChatMessage(
 
 /**
  * Create a side chat from the main chat conversation
- * Useful when the assistant wants to branch off a topic
+ * Useful when the assistant wants to branch off a topic. The recent main chat
+ * messages are stored in the side chat's context so its companion knows
+ * where the conversation came from.
  *
  * @param includeRecentMessages - Number of recent messages to copy from main chat (default 5)
  */
@@ -337,31 +341,39 @@ export function spawnSideChatFromMain(
   const db = getDb();
   const { initialMessages = [], includeRecentMessages = 5 } = options;
 
-  const sideChat = createSideChat(userId, { title, topic });
-
-  // Copy recent messages from main chat to provide context
-  let copiedCount = 0;
+  // Recent main chat messages give the side chat its starting context
+  let recentMainMessages: { role: "user" | "assistant"; content: string }[] = [];
   if (includeRecentMessages > 0) {
-    const recentMainMessages = db
+    recentMainMessages = db
       .prepare(
         `
       SELECT role, content FROM main_chat_messages
       WHERE user_id = ? AND role != 'system'
-      ORDER BY created_at DESC
+      ORDER BY created_at DESC, rowid DESC
       LIMIT ?
     `
       )
-      .all(userId, includeRecentMessages) as { role: string; content: string }[];
-
-    // Add them in chronological order (oldest first)
-    for (const msg of recentMainMessages.reverse()) {
-      addSideChatMessage(userId, sideChat.id, {
-        role: msg.role as "user" | "assistant",
-        content: msg.content,
-        metadata: { copiedFromMain: true },
-      });
-      copiedCount++;
-    }
+      .all(userId, includeRecentMessages) as typeof recentMainMessages;
+
+    // Chronological order (oldest first)
+    recentMainMessages.reverse();
+  }
+
+  // The companion sees the excerpt through the chat's context
+  const context: SideChatContext | undefined =
+    recentMainMessages.length > 0 ? { mainChatExcerpt: recentMainMessages } : undefined;
+
+  const sideChat = createSideChat(userId, { title, topic, context });
+
+  // Copy them into the side chat too so they show up in its history
+  let copiedCount = 0;
+  for (const msg of recentMainMessages) {
+    addSideChatMessage(userId, sideChat.id, {
+      role: msg.role,
+      content: msg.content,
+      metadata: { copiedFromMain: true },
+    });
+    copiedCount++;
   }
 
   // Add any additional initial messages
@@ -380,6 +392,59 @@ export function spawnSideChatFromMain(
   return { sideChat, mainMessageId: mainMessage.id, copiedMessages: copiedCount };
 }
 
+// ============================================
+// Side Chat Suggestions
+// ============================================
+
+// The main chat companion ends a reply with this line to start a side chat
+const SIDE_CHAT_MARKER = "[[side_chat:";
+const SIDE_CHAT_SUGGESTION = /\[\[side_chat:\s*([^|\]]+?)\s*\|\s*([^\]]+?)\s*\]\]/;
+
+export interface SideChatSuggestion {
+  title: string;
+  topic: string;
+}
+
+/**
+ * The part of a reply that is safe to show while it is still streaming:
+ * everything before a side chat suggestion, holding back anything at the
+ * end that could be the start of one
+ */
+export function visibleReplyText(text: string): string {
+  const markerAt = text.indexOf(SIDE_CHAT_MARKER);
+  if (markerAt !== -1) {
+    return text.slice(0, markerAt).trimEnd();
+  }
+
+  for (let length = Math.min(SIDE_CHAT_MARKER.length - 1, text.length); length > 0; length--) {
+    if (SIDE_CHAT_MARKER.startsWith(text.slice(-length))) {
+      return text.slice(0, -length).trimEnd();
+    }
+  }
+
+  // Trailing whitespace waits for the next chunk, in case a suggestion follows it
+  return text.trimEnd();
+}
+
+/**
+ * Split a finished reply into the text shown to the user and the side chat
+ * it suggests, if any
+ */
+export function parseSideChatSuggestion(text: string): {
+  content: string;
+  suggestion: SideChatSuggestion | null;
+} {
+  const match = text.match(SIDE_CHAT_SUGGESTION);
+  if (!match) {
+    return { content: text, suggestion: null };
+  }
+
+  return {
+    content: text.slice(0, match.index).trimEnd(),
+    suggestion: { title: match[1], topic: match[2] },
+  };
+}
+
 /**
  * Get recent activity across all chats
  */
@@ -0,0 +1,248 @@
+/**
+ * Check-in Service
+ *
+ * Drives proactive companion check-ins during active focus sessions.
+ * Each session has at most one timer, no matter how many sockets are
+ * watching it, so a client that reconnects simply re-attaches to the
+ * existing schedule instead of starting a second one.
+ *
+ * The timestamp of the last check-in is persisted on the session row so
+ * the schedule also survives server restarts without firing early.
+ */
+
+import { getDb } from "../db/index.js";
+import { generateStreamingResponse, saveMessage } from "./companion.js";
+import { updateSessionSummary } from "./session-summaries.js";
+import { isOverBudget } from "./usage.js";
+import { getSessionModeConfig } from "./session-modes.js";
+import type { Session } from "../db/schema.js";
+
+export type CheckInEvent =
+  | { type: "stream_start"; sessionId: string }
+  | { type: "stream_chunk"; sessionId: string; content: string }
+  | { type: "stream_end"; sessionId: string; content: string }
+  | { type: "error"; sessionId: string; error: string };
+
+export type CheckInListener = (event: CheckInEvent) => void;
+
+interface ScheduledCheckIn {
+  userId: string;
+  timer: ReturnType<typeof setTimeout> | null;
+  listeners: Map<object, CheckInListener>;
+  inFlight: boolean;
+}
+
+const scheduled = new Map<string, ScheduledCheckIn>();
+
+/**
+ * Get the active session row, or null if it has ended
+ */
+function getActiveSession(sessionId: string): Session | null {
+  const db = getDb();
+  const session = db.prepare(`SELECT * FROM sessions WHERE id = ?`).get(sessionId) as
+    | Session
+    | undefined;
+
+  if (!session || session.status !== "active") {
+    return null;
+  }
+  return session;
+}
+
+/**
+ * Parse a SQLite datetime('now') value (UTC, no zone suffix) or an ISO string
+ */
+function parseDbTimestamp(value: string): number {
+  const isoLike = value.includes("T") ? value : value.replace(" ", "T") + "Z";
+  return new Date(isoLike).getTime();
+}
+
+/**
+ * Milliseconds until the next check-in is due for a session
+ */
+export function getNextCheckInDelay(session: Session, now: number = Date.now()): number {
+  const intervalMs = session.check_in_frequency * 60 * 1000;
+  const lastCheckIn = session.last_check_in_at || session.started_at;
+
+  return Math.max(0, parseDbTimestamp(lastCheckIn) + intervalMs - now);
+}
+
+/**
+ * Build the instruction sent to the model in place of a user message
+ */
+function buildCheckInPrompt(session: Session): string {
+  const elapsedMinutes = Math.round((Date.now() - parseDbTimestamp(session.started_at)) / 60000);
+
+  return `[Automated check-in - this is not a message from the user] It's been ${elapsedMinutes} minutes since the session started. Send a brief, natural check-in (1-2 sentences) about how "${session.declared_task || "their task"}" is going. If they made if-then plans for this session, you can reference one when it fits. Don't repeat earlier check-ins, and don't pressure them if they're in flow.`;
+}
+
+/**
+ * Schedule the next timer tick for a session
+ */
+function scheduleNext(sessionId: string, entry: ScheduledCheckIn, session: Session): void {
+  if (entry.timer) {
+    clearTimeout(entry.timer);
+  }
+
+  entry.timer = setTimeout(() => {
+    entry.timer = null;
+    runCheckIn(sessionId).catch(console.error);
+  }, getNextCheckInDelay(session));
+}
+
+/**
+ * Attach a listener to a session's check-ins, starting the schedule if needed.
+ * The key identifies the listener (e.g. the WebSocket) so re-attaching is idempotent.
+ * Sessions whose mode doesn't allow unprompted messages never get a schedule.
+ */
+export function attachCheckInListener(
+  session: Session,
+  key: object,
+  listener: CheckInListener
+): void {
+  if (!getSessionModeConfig(session.mode).unpromptedMessages) {
+    return;
+  }
+
+  let entry = scheduled.get(session.id);
+
+  if (!entry) {
+    entry = {
+      userId: session.user_id,
+      timer: null,
+      listeners: new Map(),
+      inFlight: false,
+    };
+    scheduled.set(session.id, entry);
+  }
+
+  entry.listeners.set(key, listener);
+
+  if (!entry.timer && !entry.inFlight) {
+    scheduleNext(session.id, entry, session);
+  }
+}
+
+/**
+ * Detach a listener. The timer keeps running so a reconnecting client
+ * picks up where it left off; it is torn down on the next tick if nobody
+ * has re-attached by then.
+ */
+export function detachCheckInListener(sessionId: string, key: object): void {
+  scheduled.get(sessionId)?.listeners.delete(key);
+}
+
+/**
+ * Stop check-ins for a session (called when it ends or is abandoned)
+ */
+export function stopCheckIns(sessionId: string): void {
+  const entry = scheduled.get(sessionId);
+  if (!entry) return;
+
+  if (entry.timer) {
+    clearTimeout(entry.timer);
+  }
+  scheduled.delete(sessionId);
+}
+
+/**
+ * Stop all scheduled check-ins (used on shutdown)
+ */
+export function stopAllCheckIns(): void {
+  for (const sessionId of [...scheduled.keys()]) {
+    stopCheckIns(sessionId);
+  }
+}
+
+/**
+ * Check if a session currently has a check-in schedule
+ */
+export function hasScheduledCheckIns(sessionId: string): boolean {
+  return scheduled.has(sessionId);
+}
+
+/**
+ * Generate, persist and broadcast a check-in for a session.
+ * Returns the check-in content, or null if it was skipped.
+ */
+export async function runCheckIn(sessionId: string): Promise<string | null> {
+  const entry = scheduled.get(sessionId);
+  if (!entry || entry.inFlight) return null;
+
+  const session = getActiveSession(sessionId);
+  if (!session) {
+    stopCheckIns(sessionId);
+    return null;
+  }
+
+  // Nobody is watching - drop the schedule until a client rejoins
+  if (entry.listeners.size === 0) {
+    stopCheckIns(sessionId);
+    return null;
+  }
+
+  // Another timer (e.g. a previous server process) already checked in recently
+  if (getNextCheckInDelay(session) > 0) {
+    scheduleNext(sessionId, entry, session);
+    return null;
+  }
+
+  const db = getDb();
+
+  // Monthly budget is spent - skip this slot and try again next interval
+  if (isOverBudget(entry.userId)) {
+    db.prepare(`UPDATE sessions SET last_check_in_at = datetime('now') WHERE id = ?`).run(
+      sessionId
+    );
+    scheduleNext(sessionId, entry, getActiveSession(sessionId)!);
+    return null;
+  }
+
+  entry.inFlight = true;
+
+  // Claim this check-in slot before calling the model
+  db.prepare(`UPDATE sessions SET last_check_in_at = datetime('now') WHERE id = ?`).run(sessionId);
+
+  const broadcast = (event: CheckInEvent) => {
+    for (const listener of entry.listeners.values()) {
+      listener(event);
+    }
+  };
+
+  let fullResponse = "";
+  try {
+    broadcast({ type: "stream_start", sessionId });
+
+    const stream = generateStreamingResponse(entry.userId, sessionId, buildCheckInPrompt(session), {
+      intent: "check_in",
+    });
+
+    for await (const chunk of stream) {
+      fullResponse += chunk;
+      broadcast({ type: "stream_chunk", sessionId, content: chunk });
+    }
+
+    saveMessage(sessionId, "assistant", fullResponse);
+    broadcast({ type: "stream_end", sessionId, content: fullResponse });
+
+    updateSessionSummary(entry.userId, sessionId).catch((error) => {
+      console.error(`[CheckIns] Failed to update summary for session ${sessionId}:`, error);
+    });
+  } catch (error) {
+    console.error(`[CheckIns] Failed to generate check-in for session ${sessionId}:`, error);
+    broadcast({ type: "error", sessionId, error: "Failed to generate check-in" });
+    return null;
+  } finally {
+    entry.inFlight = false;
+
+    // Reschedule only if the session wasn't stopped while we were streaming
+    const stillActive = getActiveSession(sessionId);
+    if (scheduled.get(sessionId) === entry && stillActive) {
+      scheduleNext(sessionId, entry, stillActive);
+    } else if (!stillActive) {
+      stopCheckIns(sessionId);
+    }
+  }
+
+  return fullResponse;
+}
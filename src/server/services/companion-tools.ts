@@ -0,0 +1,372 @@
+/**
+ * Companion Tools
+ *
+ * Tools the companion can call mid-conversation to act on the user's Notion
+ * tasks and keep notes in its Assistant Workspace. Tool calls go through the
+ * Notion services, so every API call is logged with triggered_by
+ * "assistant_action".
+ *
+ * Tools that change existing data are marked as needing confirmation: the
+ * caller has to ask the user and only runs them once approved.
+ */
+
+import {
+  appendNoteToPage,
+  createTask,
+  getNotionConnection,
+  getPropertyMap,
+  getTodayTasks,
+  taskStatusOption,
+  updateTaskStatus,
+  TASK_PRIORITIES,
+  TASK_STATUSES,
+  type NotionTaskPriority,
+  type NotionTaskStatus,
+} from "./notion.js";
+import { addSelfReminder, appendRunningNote } from "./notion-workspace.js";
+import type {
+  ProviderTool,
+  ProviderToolResultBlock,
+  ProviderToolUseBlock,
+} from "./llm-provider.js";
+
+export interface CompanionTool extends ProviderTool {
+  /** Ask the user before running (the tool changes existing data) */
+  requiresConfirmation: boolean;
+}
+
+export interface ToolCallResult {
+  content: string;
+  isError: boolean;
+}
+
+/** A tool call and its outcome, as stored in message metadata */
+export interface ToolCallRecord extends ToolCallResult {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export type ToolEvent =
+  | { type: "tool_call"; toolCallId: string; name: string; input: Record<string, unknown> }
+  | ({ type: "tool_result"; toolCallId: string } & Omit<ToolCallRecord, "id">);
+
+export interface ToolCallHandlers {
+  onEvent(event: ToolEvent): void;
+  /** Ask the user to approve a tool call; resolves false if they decline */
+  confirm(request: {
+    toolCallId: string;
+    name: string;
+    input: Record<string, unknown>;
+    description: string;
+  }): Promise<boolean>;
+}
+
+// Rounds of tool calls allowed in a single reply
+export const MAX_TOOL_ROUNDS = 5;
+
+/**
+ * Task tool definitions, with today's date so the model can resolve relative due dates
+ */
+function buildTaskTools(today: string): CompanionTool[] {
+  return [
+    {
+      name: "list_today_tasks",
+      description:
+        "List the user's open Notion tasks that are due today, overdue or in progress, with their IDs, status, priority and due date.",
+      inputSchema: { type: "object", properties: {} },
+      requiresConfirmation: false,
+    },
+    {
+      name: "create_task",
+      description: `Create a task in the user's Notion tasks database. Only create tasks the user asked for. Today is ${today}.`,
+      inputSchema: {
+        type: "object",
+        properties: {
+          title: { type: "string", description: "Short task title" },
+          due_date: { type: "string", description: "Due date as YYYY-MM-DD" },
+          priority: { type: "string", enum: [...TASK_PRIORITIES] },
+          notes: { type: "string", description: "Extra details" },
+        },
+        required: ["title"],
+      },
+      requiresConfirmation: false,
+    },
+    {
+      name: "update_task_status",
+      description:
+        "Change the status of an existing Notion task, e.g. mark it done. Use a task ID from list_today_tasks or create_task. The user is asked to confirm first.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          task_id: { type: "string" },
+          status: { type: "string", enum: [...TASK_STATUSES] },
+        },
+        required: ["task_id", "status"],
+      },
+      requiresConfirmation: true,
+    },
+    {
+      name: "append_note",
+      description:
+        "Append a note to the end of an existing Notion task page, e.g. progress or a decision from this conversation. The user is asked to confirm first.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          task_id: { type: "string" },
+          note: { type: "string" },
+        },
+        required: ["task_id", "note"],
+      },
+      requiresConfirmation: true,
+    },
+  ];
+}
+
+/**
+ * Assistant Workspace tool definitions. These only touch the assistant's own
+ * database, so they never need confirmation.
+ */
+function buildWorkspaceTools(today: string): CompanionTool[] {
+  return [
+    {
+      name: "remind_myself",
+      description: `Leave yourself a reminder in your Assistant Workspace to follow up with the user on a later day, e.g. to check how something went. Today is ${today}.`,
+      inputSchema: {
+        type: "object",
+        properties: {
+          reminder: { type: "string", description: "What to bring up and why" },
+          remind_on: { type: "string", description: "Day to bring it up, as YYYY-MM-DD" },
+        },
+        required: ["reminder", "remind_on"],
+      },
+      requiresConfirmation: false,
+    },
+    {
+      name: "add_running_note",
+      description:
+        "Add to today's running notes in your Assistant Workspace: decisions, context or details worth keeping from this conversation.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          note: { type: "string" },
+        },
+        required: ["note"],
+      },
+      requiresConfirmation: false,
+    },
+  ];
+}
+
+/**
+ * Tools the companion can use for a user: task tools once Notion has a tasks
+ * database, workspace tools once the Assistant Workspace exists
+ */
+export function getAvailableTools(userId: string): CompanionTool[] {
+  const connection = getNotionConnection(userId);
+  const today = new Date().toISOString().split("T")[0];
+
+  return [
+    ...(connection?.tasks_database_id ? buildTaskTools(today) : []),
+    ...(connection?.assistant_db_id ? buildWorkspaceTools(today) : []),
+  ];
+}
+
+/**
+ * One-line description of a tool call, shown when asking for confirmation
+ */
+export function describeToolCall(name: string, input: Record<string, unknown>): string {
+  switch (name) {
+    case "update_task_status":
+      return `Mark Notion task ${String(input.task_id)} as "${String(input.status)}"`;
+    case "create_task":
+      return `Create Notion task "${String(input.title)}"`;
+    case "append_note":
+      return `Add a note to Notion task ${String(input.task_id)}`;
+    case "remind_myself":
+      return `Remind myself on ${String(input.remind_on)}`;
+    case "add_running_note":
+      return "Add to today's running notes";
+    default:
+      return `Run ${name}`;
+  }
+}
+
+function stringInput(input: Record<string, unknown>, key: string): string | undefined {
+  const value = input[key];
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function failure(content: string): ToolCallResult {
+  return { content, isError: true };
+}
+
+/**
+ * Run a tool call against Notion and describe the outcome for the model
+ */
+export async function executeTool(
+  userId: string,
+  name: string,
+  input: Record<string, unknown>
+): Promise<ToolCallResult> {
+  switch (name) {
+    case "list_today_tasks": {
+      const tasks = await getTodayTasks(userId, "assistant_action");
+      if (!tasks) return failure("Couldn't load tasks from Notion.");
+      return {
+        content:
+          tasks.length > 0 ? JSON.stringify(tasks) : "No open tasks due today or in progress.",
+        isError: false,
+      };
+    }
+
+    case "create_task": {
+      const title = stringInput(input, "title");
+      if (!title) return failure("title is required.");
+
+      const dueDate = stringInput(input, "due_date");
+      if (dueDate && !/^\d{4}-\d{2}-\d{2}$/.test(dueDate)) {
+        return failure("due_date must be YYYY-MM-DD.");
+      }
+
+      const priority = stringInput(input, "priority");
+      if (priority && !TASK_PRIORITIES.includes(priority as NotionTaskPriority)) {
+        return failure(`priority must be one of: ${TASK_PRIORITIES.join(", ")}.`);
+      }
+
+      const task = await createTask(
+        userId,
+        {
+          title,
+          dueDate,
+          priority: priority as NotionTaskPriority | undefined,
+          notes: stringInput(input, "notes"),
+        },
+        "assistant_action"
+      );
+      return task
+        ? { content: JSON.stringify(task), isError: false }
+        : failure("Couldn't create the task in Notion.");
+    }
+
+    case "update_task_status": {
+      const taskId = stringInput(input, "task_id");
+      const status = stringInput(input, "status");
+      if (!taskId || !status) return failure("task_id and status are required.");
+      if (!TASK_STATUSES.includes(status as NotionTaskStatus)) {
+        return failure(`status must be one of: ${TASK_STATUSES.join(", ")}.`);
+      }
+
+      // Statuses are written as the user's own option names; don't send one their database lacks
+      const connection = getNotionConnection(userId);
+      if (
+        connection &&
+        !taskStatusOption(getPropertyMap(connection, "tasks"), status as NotionTaskStatus)
+      ) {
+        return failure(`The user's tasks database has no "${status}" status.`);
+      }
+
+      const task = await updateTaskStatus(
+        userId,
+        taskId,
+        status as NotionTaskStatus,
+        "assistant_action"
+      );
+      return task
+        ? { content: JSON.stringify(task), isError: false }
+        : failure("Couldn't update the task in Notion.");
+    }
+
+    case "append_note": {
+      const taskId = stringInput(input, "task_id");
+      const note = stringInput(input, "note");
+      if (!taskId || !note) return failure("task_id and note are required.");
+
+      const appended = await appendNoteToPage(userId, taskId, note, "assistant_action");
+      return appended
+        ? { content: "Note added.", isError: false }
+        : failure("Couldn't add the note in Notion.");
+    }
+
+    case "remind_myself": {
+      const reminder = stringInput(input, "reminder");
+      const remindOn = stringInput(input, "remind_on");
+      if (!reminder || !remindOn) return failure("reminder and remind_on are required.");
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(remindOn)) {
+        return failure("remind_on must be YYYY-MM-DD.");
+      }
+
+      const entry = await addSelfReminder(userId, reminder, remindOn);
+      return entry
+        ? { content: `Reminder saved for ${remindOn}.`, isError: false }
+        : failure("Couldn't save the reminder in Notion.");
+    }
+
+    case "add_running_note": {
+      const note = stringInput(input, "note");
+      if (!note) return failure("note is required.");
+
+      const appended = await appendRunningNote(userId, note);
+      return appended
+        ? { content: "Added to today's running notes.", isError: false }
+        : failure("Couldn't add to the running notes in Notion.");
+    }
+
+    default:
+      return failure(`Unknown tool: ${name}`);
+  }
+}
+
+/**
+ * Run one tool call from the model, asking for confirmation first when the
+ * tool needs it, and report progress through the handlers. A tool that
+ * wasn't offered in this turn is never run.
+ */
+export async function runToolCall(
+  userId: string,
+  tools: CompanionTool[],
+  toolUse: ProviderToolUseBlock,
+  handlers: ToolCallHandlers
+): Promise<ToolCallRecord> {
+  const { id, name, input } = toolUse;
+  handlers.onEvent({ type: "tool_call", toolCallId: id, name, input });
+
+  const tool = tools.find((t) => t.name === name);
+  let result: ToolCallResult;
+
+  if (!tool) {
+    result = failure(`Unknown tool: ${name}`);
+  } else if (
+    tool.requiresConfirmation &&
+    !(await handlers.confirm({
+      toolCallId: id,
+      name,
+      input,
+      description: describeToolCall(name, input),
+    }))
+  ) {
+    result = failure("The user declined this action. Don't retry it unless they ask.");
+  } else {
+    try {
+      result = await executeTool(userId, name, input);
+    } catch (error) {
+      console.error(`Tool ${name} failed:`, error);
+      result = failure(`${name} failed unexpectedly.`);
+    }
+  }
+
+  handlers.onEvent({ type: "tool_result", toolCallId: id, name, input, ...result });
+  return { id, name, input, ...result };
+}
+
+/**
+ * The result block sent back to the model for a tool call
+ */
+export function toToolResultBlock(record: ToolCallRecord): ProviderToolResultBlock {
+  return {
+    type: "tool_result",
+    toolUseId: record.id,
+    content: record.content,
+    ...(record.isError ? { isError: true } : {}),
+  };
+}
@@ -1,81 +1,76 @@
 /**
  * AI Companion Service
  *
- * Wraps the Anthropic API and handles conversation with context injection.
- * Optionally routes through Helicone for observability when HELICONE_API_KEY is set.
- * Uses prompt caching to reduce costs and latency for repeated context.
+ * Handles conversation with context injection, using the active LLM provider
+ * (see llm-provider.ts). Uses prompt caching to reduce costs and latency for
+ * repeated context. Every call is recorded in llm_usage, and user-facing
+ * replies are replaced by a friendly notice once the monthly budget is spent.
  */
 
 import crypto from "node:crypto";
-import Anthropic from "@anthropic-ai/sdk";
-import type { MessageParam, TextBlockParam } from "@anthropic-ai/sdk/resources/messages";
 import { getDb } from "../db/index.js";
-import { buildUserContext, formatContextForPrompt } from "./context.js";
-import { buildPrompt, systemPromptV1 } from "../../../prompts/system-prompt.js";
+import { buildUserContext } from "./context.js";
+import { getSessionModeConfig } from "./session-modes.js";
+import {
+  assembleMainChatContext,
+  assembleSessionContext,
+  assembleSideChatContext,
+  type AssembledContext,
+} from "./context-assembler.js";
+import {
+  getCompanionProvider,
+  type CompletionRequest,
+  type ProviderMessage,
+  type ProviderTextBlock,
+  type ProviderToolResultBlock,
+  type ProviderToolUseBlock,
+} from "./llm-provider.js";
+import {
+  getAvailableTools,
+  runToolCall,
+  toToolResultBlock,
+  MAX_TOOL_ROUNDS,
+  type ToolCallHandlers,
+} from "./companion-tools.js";
+import { BUDGET_EXCEEDED_MESSAGE, isOverBudget, recordUsage } from "./usage.js";
 import type { Message } from "../db/schema.js";
 
-// Use the prompt version - can be made configurable later
-const SYSTEM_PROMPT_TEMPLATE = systemPromptV1;
-
-let anthropic: Anthropic | null = null;
-
-function getAnthropic(): Anthropic {
-  if (!anthropic) {
-    if (!process.env.ANTHROPIC_API_KEY) {
-      throw new Error("ANTHROPIC_API_KEY environment variable is required");
-    }
-
-    // If Helicone API key is set, route through Helicone proxy for observability
-    if (process.env.HELICONE_API_KEY) {
-      anthropic = new Anthropic({
-        baseURL: "https://anthropic.helicone.ai",
-        defaultHeaders: {
-          "Helicone-Auth": `Bearer ${process.env.HELICONE_API_KEY}`,
-        },
-      });
-      console.log("Anthropic client initialized with Helicone observability");
-    } else {
-      anthropic = new Anthropic();
-      console.log(
-        "Anthropic client initialized (no Helicone - set HELICONE_API_KEY for observability)"
-      );
-    }
-  }
-  return anthropic;
-}
+type TrackedRequest = CompletionRequest & { tracking: NonNullable<CompletionRequest["tracking"]> };
 
 /**
- * Build Helicone custom property headers for request tracking
+ * Generate a completion and record its usage
  */
-function getHeliconeHeaders(props: {
-  userId: string;
-  sessionId: string;
-  requestType: "chat" | "greeting";
-}): Record<string, string> {
-  // Only add Helicone headers if Helicone is enabled
-  if (!process.env.HELICONE_API_KEY) {
-    return {};
-  }
+async function complete(request: TrackedRequest): Promise<string> {
+  const startedAt = Date.now();
+  const response = await getCompanionProvider().generate(request);
+
+  recordUsage({
+    ...request.tracking,
+    model: response.model,
+    usage: response.usage,
+    latencyMs: Date.now() - startedAt,
+  });
 
-  return {
-    "Helicone-Property-User": props.userId,
-    "Helicone-Property-Session": props.sessionId,
-    "Helicone-Property-Type": props.requestType,
-  };
+  return response.text;
 }
 
 /**
- * Build a cached system prompt block
- * Caches the system prompt to avoid reprocessing on every message
+ * Build cached system prompt blocks
+ * Caches the system prompt to avoid reprocessing on every message. The
+ * conversation summary gets its own breakpoint so the prompt stays cached
+ * when the summary advances.
  */
-function buildCachedSystemPrompt(systemPrompt: string): TextBlockParam[] {
-  return [
-    {
-      type: "text",
-      text: systemPrompt,
-      cache_control: { type: "ephemeral" },
-    },
-  ];
+function buildCachedSystemPrompt(
+  systemPrompt: string,
+  conversationSummary: string | null = null
+): ProviderTextBlock[] {
+  const blocks: ProviderTextBlock[] = [{ text: systemPrompt, cache: true }];
+
+  if (conversationSummary) {
+    blocks.push({ text: conversationSummary, cache: true });
+  }
+
+  return blocks;
 }
 
 /**
@@ -85,8 +80,8 @@ function buildCachedSystemPrompt(systemPrompt: string): TextBlockParam[] {
 function buildCachedMessages(
   historyMessages: CompanionMessage[],
   newUserMessage: string
-): MessageParam[] {
-  const messages: MessageParam[] = [];
+): ProviderMessage[] {
+  const messages: ProviderMessage[] = [];
 
   // Add all history messages
   for (let i = 0; i < historyMessages.length; i++) {
@@ -98,13 +93,7 @@ function buildCachedMessages(
       // This ensures subsequent requests can reuse the cached conversation
       messages.push({
         role: msg.role,
-        content: [
-          {
-            type: "text",
-            text: msg.content,
-            cache_control: { type: "ephemeral" },
-          },
-        ],
+        content: [{ text: msg.content, cache: true }],
       });
     } else {
       // Regular message without cache control
@@ -129,6 +118,21 @@ export interface CompanionMessage {
   content: string;
 }
 
+export interface StreamingResponseOptions {
+  /**
+   * Why the companion is speaking. "check_in" means the message is a
+   * server-initiated instruction rather than something the user typed.
+   */
+  intent?: "chat" | "check_in";
+  /**
+   * Let the companion call tools (e.g. Notion tasks) while replying. Tool
+   * progress is reported through the handlers, which also ask the user to
+   * confirm actions that change existing data. Without handlers no tools
+   * are offered.
+   */
+  tools?: ToolCallHandlers;
+}
+
 /**
  * Generate a response from the AI companion
  */
@@ -137,44 +141,24 @@ export async function generateResponse(
   sessionId: string,
   userMessage: string
 ): Promise<string> {
-  const db = getDb();
-  const client = getAnthropic();
+  if (isOverBudget(userId)) {
+    return BUDGET_EXCEEDED_MESSAGE;
+  }
 
-  // Build context and system prompt
-  const context = buildUserContext(userId, sessionId);
-  const formattedContext = formatContextForPrompt(context);
-  const systemPrompt = buildPrompt(SYSTEM_PROMPT_TEMPLATE, formattedContext);
-
-  // Get conversation history for this session
-  const historyMessages = db
-    .prepare(
-      `
-    SELECT role, content FROM messages
-    WHERE session_id = ?
-    ORDER BY created_at ASC
-  `
-    )
-    .all(sessionId) as CompanionMessage[];
+  // Fit context and conversation history into the token budget for the session's mode
+  const assembled = assembleSessionContext(userId, sessionId);
+  const modeConfig = getSessionModeConfig(assembled.mode);
 
   // Build cached messages
-  const messages = buildCachedMessages(historyMessages, userMessage);
-
-  // Call the API with caching and Helicone tracking headers
-  const response = await client.messages.create(
-    {
-      model: "claude-sonnet-4-20250514",
-      max_tokens: 1024,
-      system: buildCachedSystemPrompt(systemPrompt),
-      messages,
-    },
-    {
-      headers: getHeliconeHeaders({ userId, sessionId, requestType: "chat" }),
-    }
-  );
-
-  const assistantMessage = response.content[0].type === "text" ? response.content[0].text : "";
-
-  return assistantMessage;
+  const messages = buildCachedMessages(assembled.history, userMessage);
+
+  // Call the provider with caching and request tracking
+  return complete({
+    system: buildCachedSystemPrompt(assembled.systemPrompt, assembled.conversationSummary),
+    messages,
+    maxTokens: modeConfig.maxTokens,
+    tracking: { userId, sessionId, requestType: "chat" },
+  });
 }
 
 /**
@@ -183,67 +167,174 @@ export async function generateResponse(
 export async function* generateStreamingResponse(
   userId: string,
   sessionId: string,
-  userMessage: string
+  userMessage: string,
+  options: StreamingResponseOptions = {}
 ): AsyncGenerator<string> {
-  const db = getDb();
-  const client = getAnthropic();
+  const { intent = "chat" } = options;
 
-  // Build context and system prompt
-  const context = buildUserContext(userId, sessionId);
-  const formattedContext = formatContextForPrompt(context);
-  const systemPrompt = buildPrompt(SYSTEM_PROMPT_TEMPLATE, formattedContext);
-
-  // Get conversation history for this session
-  const historyMessages = db
-    .prepare(
-      `
-    SELECT role, content FROM messages
-    WHERE session_id = ?
-    ORDER BY created_at ASC
-  `
-    )
-    .all(sessionId) as CompanionMessage[];
+  if (isOverBudget(userId)) {
+    yield BUDGET_EXCEEDED_MESSAGE;
+    return;
+  }
+
+  // Fit context and conversation history into the token budget for the session's mode
+  const assembled = assembleSessionContext(userId, sessionId);
+  const modeConfig = getSessionModeConfig(assembled.mode);
 
   // Build cached messages
-  const messages = buildCachedMessages(historyMessages, userMessage);
-
-  // Call the API with streaming, caching, and Helicone tracking headers
-  const stream = await client.messages.stream(
-    {
-      model: "claude-sonnet-4-20250514",
-      max_tokens: 1024,
-      system: buildCachedSystemPrompt(systemPrompt),
+  const messages = buildCachedMessages(assembled.history, userMessage);
+
+  const tools = options.tools ? getAvailableTools(userId) : [];
+  let yieldedText = false;
+
+  // Each round streams text; if the model called tools, run them and go again with the results
+  for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+    const startedAt = Date.now();
+    const stream = getCompanionProvider().stream({
+      system: buildCachedSystemPrompt(assembled.systemPrompt, assembled.conversationSummary),
       messages,
-    },
-    {
-      headers: getHeliconeHeaders({ userId, sessionId, requestType: "chat" }),
+      maxTokens: modeConfig.maxTokens,
+      tools: tools.length > 0 ? tools : undefined,
+      tracking: { userId, sessionId, requestType: intent },
+    });
+
+    let roundText = "";
+    const toolUses: ProviderToolUseBlock[] = [];
+
+    for await (const event of stream) {
+      if (event.type === "text") {
+        // Keep text from separate rounds from running together
+        if (!roundText && yieldedText) {
+          yield "\n\n";
+        }
+        roundText += event.text;
+        yieldedText = true;
+        yield event.text;
+      } else if (event.type === "tool_use") {
+        toolUses.push({ type: "tool_use", id: event.id, name: event.name, input: event.input });
+      } else {
+        recordUsage({
+          userId,
+          sessionId,
+          requestType: intent,
+          model: event.model,
+          usage: event.usage,
+          latencyMs: Date.now() - startedAt,
+        });
+      }
     }
-  );
+
+    if (toolUses.length === 0 || !options.tools) {
+      return;
+    }
+
+    messages.push({
+      role: "assistant",
+      content: [...(roundText ? [{ text: roundText }] : []), ...toolUses],
+    });
+
+    const results: ProviderToolResultBlock[] = [];
+    for (const toolUse of toolUses) {
+      results.push(toToolResultBlock(await runToolCall(userId, tools, toolUse, options.tools)));
+    }
+    messages.push({ role: "user", content: results });
+  }
+}
+
+/**
+ * Stream a reply to the last message of an assembled conversation that
+ * isn't tied to a focus session
+ */
+async function* streamChatReply(
+  userId: string,
+  assembled: AssembledContext,
+  requestType: "side_chat" | "main_chat"
+): AsyncGenerator<string> {
+  const latest = assembled.history[assembled.history.length - 1];
+  if (!latest || latest.role !== "user") {
+    throw new Error("No user message to reply to");
+  }
+
+  const messages = buildCachedMessages(assembled.history.slice(0, -1), latest.content);
+
+  const startedAt = Date.now();
+  const stream = getCompanionProvider().stream({
+    system: buildCachedSystemPrompt(assembled.systemPrompt, assembled.conversationSummary),
+    messages,
+    maxTokens: getSessionModeConfig(assembled.mode).maxTokens,
+    tracking: { userId, sessionId: null, requestType },
+  });
 
   for await (const event of stream) {
-    if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
-      yield event.delta.text;
+    if (event.type === "text") {
+      yield event.text;
+    } else if (event.type === "done") {
+      recordUsage({
+        userId,
+        sessionId: null,
+        requestType,
+        model: event.model,
+        usage: event.usage,
+        latencyMs: Date.now() - startedAt,
+      });
     }
   }
 }
 
 /**
- * Save a message to the database
+ * Stream the companion's reply to the latest message in a side chat.
+ * The side chat's history (ending with the user's message) must already
+ * be saved.
+ */
+export async function* generateSideChatStreamingResponse(
+  userId: string,
+  chatId: string
+): AsyncGenerator<string> {
+  if (isOverBudget(userId)) {
+    yield BUDGET_EXCEEDED_MESSAGE;
+    return;
+  }
+
+  const assembled = assembleSideChatContext(userId, chatId);
+  if (!assembled) {
+    throw new Error(`Side chat ${chatId} not found`);
+  }
+
+  yield* streamChatReply(userId, assembled, "side_chat");
+}
+
+/**
+ * Stream the assistant's reply to the latest message in the user's main
+ * chat. The message must already be saved. The raw reply may end with a
+ * side chat suggestion (see parseSideChatSuggestion in chats.ts).
+ */
+export async function* generateMainChatStreamingResponse(userId: string): AsyncGenerator<string> {
+  if (isOverBudget(userId)) {
+    yield BUDGET_EXCEEDED_MESSAGE;
+    return;
+  }
+
+  yield* streamChatReply(userId, assembleMainChatContext(userId), "main_chat");
+}
+
+/**
+ * Save a message to the database, with optional metadata (e.g. tool calls)
  */
 export function saveMessage(
   sessionId: string,
   role: "user" | "assistant",
-  content: string
+  content: string,
+  metadata?: object
 ): Message {
   const db = getDb();
   const id = crypto.randomUUID();
 
   db.prepare(
     `
-    INSERT INTO messages (id, session_id, role, content)
-    VALUES (?, ?, ?, ?)
+    INSERT INTO messages (id, session_id, role, content, metadata)
+    VALUES (?, ?, ?, ?, ?)
   `
-  ).run(id, sessionId, role, content);
+  ).run(id, sessionId, role, content, metadata ? JSON.stringify(metadata) : null);
 
   return db.prepare(`SELECT * FROM messages WHERE id = ?`).get(id) as Message;
 }
@@ -252,6 +343,10 @@ export function saveMessage(
  * Get the session greeting when a session starts
  */
 export async function getSessionGreeting(userId: string, sessionId: string): Promise<string> {
+  if (isOverBudget(userId)) {
+    return BUDGET_EXCEEDED_MESSAGE;
+  }
+
   const context = buildUserContext(userId, sessionId);
 
   // Create a greeting prompt based on context
@@ -268,18 +363,46 @@ export async function getSessionGreeting(userId: string, sessionId: string): Pro
   }
 
   // Generate greeting - no caching for single-shot greeting (too small to benefit)
-  const client = getAnthropic();
-  const response = await client.messages.create(
-    {
-      model: "claude-sonnet-4-20250514",
-      max_tokens: 256,
-      system: `You are a warm, genuine work companion who knows ${context.user.name} well. Be natural and concise.`,
-      messages: [{ role: "user", content: greetingPrompt }],
-    },
-    {
-      headers: getHeliconeHeaders({ userId, sessionId, requestType: "greeting" }),
-    }
-  );
+  return complete({
+    system: `You are a warm, genuine work companion who knows ${context.user.name} well. Be natural and concise.`,
+    messages: [{ role: "user", content: greetingPrompt }],
+    maxTokens: 256,
+    tracking: { userId, sessionId, requestType: "greeting" },
+  });
+}
 
-  return response.content[0].type === "text" ? response.content[0].text : "";
+/**
+ * Ask the model to extract memory candidates from a finished session.
+ * Returns the raw text response (expected to be a JSON array).
+ */
+export async function generateMemoryExtraction(
+  userId: string,
+  sessionId: string,
+  extractionPrompt: string
+): Promise<string> {
+  return complete({
+    system:
+      "You extract durable, useful facts about a user from a work session transcript. Respond with JSON only.",
+    messages: [{ role: "user", content: extractionPrompt }],
+    maxTokens: 1024,
+    tracking: { userId, sessionId, requestType: "memory_extraction" },
+  });
+}
+
+/**
+ * Ask the model to fold older turns of a session into its running summary.
+ * Returns the raw text of the new summary.
+ */
+export async function generateSessionSummary(
+  userId: string,
+  sessionId: string,
+  summaryPrompt: string
+): Promise<string> {
+  return complete({
+    system:
+      "You keep a concise running summary of a focus session between a user and their work companion. Respond with the summary only.",
+    messages: [{ role: "user", content: summaryPrompt }],
+    maxTokens: 512,
+    tracking: { userId, sessionId, requestType: "session_summary" },
+  });
 }
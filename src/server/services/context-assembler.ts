@@ -0,0 +1,577 @@
+/**
+ * Context Assembler
+ *
+ * Fits the companion's context into a token budget. Each section (profile,
+ * memories, recent sessions, relevant memories, chat history) is estimated,
+ * then filled in priority order up to its share of the budget. Sections that
+ * hit their cap get a second pass with whatever budget is left over.
+ *
+ * Older conversation turns are never dropped: they're covered by the session's
+ * rolling summary, and anything else that doesn't fit verbatim is condensed
+ * into a conversation summary sent alongside the system prompt.
+ */
+
+import { getDb } from "../db/index.js";
+import {
+  buildUserContext,
+  formatContextForPrompt,
+  formatSessionSummary,
+  formatSideChatContext,
+  buildAssistantStatus,
+} from "./context.js";
+import type { UserContext } from "./context.js";
+import { getSessionModeConfig } from "./session-modes.js";
+import { getSessionSummary, SUMMARIZE_AFTER_MESSAGES } from "./session-summaries.js";
+import { getSideChat } from "./chats.js";
+import { getRelevantMemories } from "./memory.js";
+import {
+  buildPrompt,
+  fillMainChatTemplate,
+  fillSideChatTemplate,
+  mainChatPromptV1,
+  sideChatPromptV1,
+} from "../../../prompts/system-prompt.js";
+import type { CompanionMessage } from "./companion.js";
+import type { SessionMode } from "../db/schema.js";
+
+export type ContextSection =
+  | "profile"
+  | "relevantMemories"
+  | "memories"
+  | "recentSessions"
+  | "history";
+
+export interface ContextBudgetPolicy {
+  /** Total token budget for the system prompt plus conversation history */
+  totalTokens: number;
+  /** Sections in the order they are filled; earlier sections win when space is tight */
+  priority: ContextSection[];
+  /** Maximum share (0-1) of the total budget each section may use on the first pass */
+  maxShare: Record<ContextSection, number>;
+  /** Most recent conversation messages to keep verbatim before summarizing the rest */
+  recentMessages: number;
+}
+
+export interface SectionAllocation {
+  section: ContextSection;
+  /** Tokens the full, untrimmed section would need */
+  requested: number;
+  /** Tokens allotted after both passes */
+  budget: number;
+  used: number;
+  includedItems: number;
+  totalItems: number;
+  truncated: boolean;
+}
+
+export interface AssembledContext {
+  mode: SessionMode | undefined;
+  systemPrompt: string;
+  history: CompanionMessage[];
+  /** Summary of older turns, sent as its own system block after the prompt */
+  conversationSummary: string | null;
+  budget: number;
+  estimatedTokens: number;
+  allocation: SectionAllocation[];
+}
+
+export const DEFAULT_CONTEXT_POLICY: ContextBudgetPolicy = {
+  totalTokens: 8000,
+  priority: ["profile", "relevantMemories", "history", "memories", "recentSessions"],
+  maxShare: {
+    profile: 0.1,
+    relevantMemories: 0.1,
+    history: 0.5,
+    memories: 0.2,
+    recentSessions: 0.1,
+  },
+  // Matches the rolling summary threshold, so the verbatim window only moves
+  // when the summary advances and cached prefixes survive between turns
+  recentMessages: SUMMARIZE_AFTER_MESSAGES,
+};
+
+// Memory categories in the order they're interleaved when trimming
+const MEMORY_KEYS: Array<keyof UserContext["memories"]> = [
+  "projects",
+  "distractions",
+  "challenges",
+  "insights",
+  "goals",
+  "wins",
+  "preferences",
+];
+
+// Main chat messages loaded before trimming; older ones are condensed or dropped
+const MAIN_CHAT_HISTORY_LIMIT = 100;
+
+const SUMMARY_HEADING = "## Earlier in this session (summarized)\n";
+
+// Shortest excerpt kept per older turn when summarizing
+const MIN_SUMMARY_EXCERPT = 40;
+const MAX_SUMMARY_EXCERPT = 160;
+
+/**
+ * Rough token estimate (~4 characters per token for English text)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Cut text down to roughly a token budget
+ */
+function truncateToTokens(text: string, tokens: number): string {
+  const maxChars = tokens * 4;
+  if (text.length <= maxChars) {
+    return text;
+  }
+  return maxChars > 1 ? `${text.slice(0, maxChars - 1)}…` : "";
+}
+
+/**
+ * Tokens for one list item, including its marker and line break
+ */
+function itemTokens(text: string): number {
+  return estimateTokens(text) + 1;
+}
+
+/**
+ * Memory lists with every category empty
+ */
+function emptyMemories(): UserContext["memories"] {
+  return {
+    projects: [],
+    distractions: [],
+    challenges: [],
+    insights: [],
+    goals: [],
+    wins: [],
+    preferences: [],
+  };
+}
+
+/**
+ * Take items in order while they fit in the budget
+ */
+function takeItems<T>(
+  items: T[],
+  budget: number,
+  toText: (item: T) => string
+): { included: T[]; used: number } {
+  const included: T[] = [];
+  let used = 0;
+
+  for (const item of items) {
+    const tokens = itemTokens(toText(item));
+    if (used + tokens > budget) break;
+    included.push(item);
+    used += tokens;
+  }
+
+  return { included, used };
+}
+
+interface SectionResult {
+  requested: number;
+  used: number;
+  includedItems: number;
+  totalItems: number;
+  /** Write the trimmed section into the context being assembled */
+  apply(target: AssemblyTarget): void;
+}
+
+interface AssemblyTarget {
+  context: UserContext;
+  history: CompanionMessage[];
+  conversationSummary: string | null;
+}
+
+// ============================================
+// Sections
+// ============================================
+
+function fillProfile(context: UserContext, budget: number): SectionResult {
+  const { workContext, interests } = context.user;
+  const requested =
+    estimateTokens(workContext) + interests.reduce((sum, i) => sum + itemTokens(i), 0);
+
+  // Work context comes first and is shortened rather than dropped
+  const trimmedWork = truncateToTokens(workContext, budget);
+  const workTokens = estimateTokens(trimmedWork);
+  const { included, used } = takeItems(interests, budget - workTokens, (i) => i);
+
+  return {
+    requested,
+    used: workTokens + used,
+    includedItems: (trimmedWork ? 1 : 0) + included.length,
+    totalItems: 1 + interests.length,
+    apply(target) {
+      target.context.user = {
+        ...target.context.user,
+        workContext: trimmedWork,
+        interests: included,
+      };
+    },
+  };
+}
+
+function fillRelevantMemories(context: UserContext, budget: number): SectionResult {
+  const items = context.relevantMemories;
+  const { included, used } = takeItems(items, budget, (m) => m);
+
+  return {
+    requested: items.reduce((sum, m) => sum + itemTokens(m), 0),
+    used,
+    includedItems: included.length,
+    totalItems: items.length,
+    apply(target) {
+      target.context.relevantMemories = included;
+    },
+  };
+}
+
+function fillMemories(context: UserContext, budget: number): SectionResult {
+  // Interleave categories so every category gets its top memory before any gets a second
+  const items: Array<{ key: keyof UserContext["memories"]; content: string }> = [];
+  const longest = Math.max(0, ...MEMORY_KEYS.map((k) => context.memories[k].length));
+  for (let rank = 0; rank < longest; rank++) {
+    for (const key of MEMORY_KEYS) {
+      const content = context.memories[key][rank];
+      if (content !== undefined) {
+        items.push({ key, content });
+      }
+    }
+  }
+
+  const { included, used } = takeItems(items, budget, (m) => m.content);
+
+  return {
+    requested: items.reduce((sum, m) => sum + itemTokens(m.content), 0),
+    used,
+    includedItems: included.length,
+    totalItems: items.length,
+    apply(target) {
+      const memories = emptyMemories();
+      for (const item of included) {
+        memories[item.key].push(item.content);
+      }
+      target.context.memories = memories;
+    },
+  };
+}
+
+function fillRecentSessions(context: UserContext, budget: number): SectionResult {
+  const sessions = context.recentSessions.slice(0, 5);
+  const { included, used } = takeItems(sessions, budget, formatSessionSummary);
+
+  return {
+    requested: sessions.reduce((sum, s) => sum + itemTokens(formatSessionSummary(s)), 0),
+    used,
+    includedItems: included.length,
+    totalItems: sessions.length,
+    apply(target) {
+      target.context.recentSessions = included;
+    },
+  };
+}
+
+/**
+ * Summarize older turns into a compact transcript that fits the budget.
+ * Excerpts shrink before whole turns are left out.
+ */
+export function summarizeTurns(
+  messages: CompanionMessage[],
+  userName: string,
+  budget: number
+): string | null {
+  if (messages.length === 0 || budget <= 0) {
+    return null;
+  }
+
+  const excerpt = (content: string, length: number) => {
+    const singleLine = content.replace(/\s+/g, " ").trim();
+    return singleLine.length > length ? `${singleLine.slice(0, length - 1)}…` : singleLine;
+  };
+  const render = (turns: CompanionMessage[], length: number) =>
+    turns.map((m) => `- ${m.role === "user" ? userName : "You"}: ${excerpt(m.content, length)}`);
+
+  for (let length = MAX_SUMMARY_EXCERPT; length >= MIN_SUMMARY_EXCERPT; length -= 40) {
+    const summary = render(messages, length).join("\n");
+    if (estimateTokens(summary) <= budget) {
+      return summary;
+    }
+  }
+
+  // Still too long: keep the most recent of the older turns
+  const lines = render(messages, MIN_SUMMARY_EXCERPT);
+  while (lines.length > 0) {
+    const omitted = messages.length - lines.length;
+    const summary = [`- (${omitted} earlier messages omitted)`, ...lines].join("\n");
+    if (estimateTokens(summary) <= budget) {
+      return summary;
+    }
+    lines.shift();
+  }
+
+  return null;
+}
+
+function fillHistory(
+  messages: CompanionMessage[],
+  rollingSummary: string | null,
+  userName: string,
+  recentMessages: number,
+  budget: number
+): SectionResult {
+  const headingTokens = estimateTokens(SUMMARY_HEADING);
+  const requested =
+    messages.reduce((sum, m) => sum + estimateTokens(m.content), 0) +
+    (rollingSummary ? headingTokens + estimateTokens(rollingSummary) : 0);
+
+  // The rolling summary is already compact, so it goes first
+  const rolling = rollingSummary ? truncateToTokens(rollingSummary, budget - headingTokens) : "";
+  let used = rolling ? headingTokens + estimateTokens(rolling) : 0;
+
+  // Keep the newest messages verbatim while they fit
+  const recent: CompanionMessage[] = [];
+  for (let i = messages.length - 1; i >= 0 && recent.length < recentMessages; i--) {
+    const tokens = estimateTokens(messages[i].content);
+    if (used + tokens > budget) break;
+    recent.unshift(messages[i]);
+    used += tokens;
+  }
+
+  // Condense anything older that the rolling summary doesn't cover yet
+  const older = messages.slice(0, messages.length - recent.length);
+  const condensed = summarizeTurns(older, userName, budget - used - (rolling ? 1 : headingTokens));
+
+  const parts = [rolling, condensed].filter((part): part is string => Boolean(part));
+  const summary = parts.length > 0 ? SUMMARY_HEADING + parts.join("\n\n") : null;
+  used = recent.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+  if (summary) {
+    used += estimateTokens(summary);
+  }
+
+  return {
+    requested,
+    used,
+    includedItems: recent.length,
+    totalItems: messages.length,
+    apply(target) {
+      target.history = recent;
+      target.conversationSummary = summary;
+    },
+  };
+}
+
+// ============================================
+// Assembly
+// ============================================
+
+/**
+ * Fit a user's context and conversation history into a token budget,
+ * using the prompt template for the current session's mode unless another
+ * template is given
+ */
+export function assembleContext(
+  context: UserContext,
+  history: CompanionMessage[],
+  policy: ContextBudgetPolicy = DEFAULT_CONTEXT_POLICY,
+  rollingSummary: string | null = null,
+  template: string = getSessionModeConfig(context.currentSession?.mode).promptTemplate
+): AssembledContext {
+  const mode = context.currentSession?.mode;
+  const fillers: Record<ContextSection, (budget: number) => SectionResult> = {
+    profile: (budget) => fillProfile(context, budget),
+    relevantMemories: (budget) => fillRelevantMemories(context, budget),
+    memories: (budget) => fillMemories(context, budget),
+    recentSessions: (budget) => fillRecentSessions(context, budget),
+    history: (budget) =>
+      fillHistory(history, rollingSummary, context.user.name, policy.recentMessages, budget),
+  };
+
+  // The template and current session details are fixed overhead
+  const emptyContext: UserContext = {
+    ...context,
+    user: { ...context.user, workContext: "", interests: [] },
+    memories: emptyMemories(),
+    recentSessions: [],
+    relevantMemories: [],
+  };
+  const overhead = estimateTokens(buildPrompt(template, formatContextForPrompt(emptyContext)));
+  let remaining = Math.max(0, policy.totalTokens - overhead);
+  const results = new Map<ContextSection, { budget: number; result: SectionResult }>();
+
+  // First pass: each section up to its share
+  for (const section of policy.priority) {
+    const cap = Math.floor(policy.totalTokens * policy.maxShare[section]);
+    const budget = Math.min(cap, remaining);
+    const result = fillers[section](budget);
+    results.set(section, { budget, result });
+    remaining -= result.used;
+  }
+
+  // Second pass: hand leftover budget to sections that didn't fit, in priority order
+  for (const section of policy.priority) {
+    const entry = results.get(section)!;
+    if (entry.result.used >= entry.result.requested || remaining <= 0) continue;
+
+    const budget = entry.result.used + remaining;
+    const result = fillers[section](budget);
+    remaining -= result.used - entry.result.used;
+    results.set(section, { budget, result });
+  }
+
+  const target: AssemblyTarget = {
+    context: { ...context, user: { ...context.user }, memories: { ...context.memories } },
+    history: [],
+    conversationSummary: null,
+  };
+  for (const { result } of results.values()) {
+    result.apply(target);
+  }
+
+  const systemPrompt = buildPrompt(template, formatContextForPrompt(target.context));
+
+  const allocation = policy.priority.map((section) => {
+    const { budget, result } = results.get(section)!;
+    return {
+      section,
+      requested: result.requested,
+      budget,
+      used: result.used,
+      includedItems: result.includedItems,
+      totalItems: result.totalItems,
+      truncated: result.used < result.requested,
+    };
+  });
+
+  return {
+    mode,
+    systemPrompt,
+    history: target.history,
+    conversationSummary: target.conversationSummary,
+    budget: policy.totalTokens,
+    estimatedTokens:
+      estimateTokens(systemPrompt) +
+      estimateTokens(target.conversationSummary ?? "") +
+      target.history.reduce((sum, m) => sum + estimateTokens(m.content), 0),
+    allocation,
+  };
+}
+
+/**
+ * Assemble everything the companion sends for a session. Messages covered
+ * by the session's rolling summary are replaced by the summary.
+ */
+export function assembleSessionContext(
+  userId: string,
+  sessionId: string,
+  policy: ContextBudgetPolicy = DEFAULT_CONTEXT_POLICY
+): AssembledContext {
+  const db = getDb();
+  const context = buildUserContext(userId, sessionId);
+
+  const history = db
+    .prepare(
+      `
+    SELECT role, content FROM messages
+    WHERE session_id = ?
+    ORDER BY created_at ASC, rowid ASC
+  `
+    )
+    .all(sessionId) as CompanionMessage[];
+
+  const rolling = getSessionSummary(sessionId);
+  if (!rolling) {
+    return assembleContext(context, history, policy);
+  }
+
+  return assembleContext(
+    context,
+    history.slice(rolling.messages_summarized),
+    policy,
+    rolling.summary
+  );
+}
+
+/**
+ * Assemble everything the companion sends for a side chat: the chat's topic
+ * and context, the user's memories (ranked against the topic) and the chat's
+ * own history. Messages copied from the main chat are left out of the
+ * history, since the excerpt is already part of the chat's context.
+ * Returns null if the side chat doesn't belong to the user.
+ */
+export function assembleSideChatContext(
+  userId: string,
+  chatId: string,
+  policy: ContextBudgetPolicy = DEFAULT_CONTEXT_POLICY
+): AssembledContext | null {
+  const chat = getSideChat(userId, chatId);
+  if (!chat) {
+    return null;
+  }
+
+  const db = getDb();
+  const context = buildUserContext(userId);
+  const topic = chat.topic || chat.title;
+  context.relevantMemories = getRelevantMemories(userId, topic).map(
+    (m) => `[${m.category}] ${m.content}`
+  );
+
+  const history = db
+    .prepare(
+      `
+    SELECT role, content FROM side_chat_messages
+    WHERE side_chat_id = ? AND role != 'system'
+      AND (metadata IS NULL OR json_extract(metadata, '$.copiedFromMain') IS NULL)
+    ORDER BY created_at ASC, rowid ASC
+  `
+    )
+    .all(chatId) as CompanionMessage[];
+
+  const template = fillSideChatTemplate(sideChatPromptV1, {
+    title: chat.title,
+    topic,
+    chatContext: formatSideChatContext(chat.context, context.user.name),
+  });
+
+  return assembleContext(context, history, policy, null, template);
+}
+
+/**
+ * Assemble everything the companion sends for the main chat: today's
+ * briefing, unread alerts and active sessions, the user's memories (ranked
+ * against their latest message) and the most recent main chat history.
+ */
+export function assembleMainChatContext(
+  userId: string,
+  policy: ContextBudgetPolicy = DEFAULT_CONTEXT_POLICY
+): AssembledContext {
+  const db = getDb();
+  const context = buildUserContext(userId);
+
+  const history = (
+    db
+      .prepare(
+        `
+    SELECT role, content FROM main_chat_messages
+    WHERE user_id = ? AND role != 'system'
+    ORDER BY created_at DESC, rowid DESC
+    LIMIT ?
+  `
+      )
+      .all(userId, MAIN_CHAT_HISTORY_LIMIT) as CompanionMessage[]
+  ).reverse();
+
+  const latestUserMessage = [...history].reverse().find((m) => m.role === "user");
+  if (latestUserMessage) {
+    context.relevantMemories = getRelevantMemories(userId, latestUserMessage.content).map(
+      (m) => `[${m.category}] ${m.content}`
+    );
+  }
+
+  const template = fillMainChatTemplate(mainChatPromptV1, buildAssistantStatus(userId));
+
+  return assembleContext(context, history, policy, null, template);
+}
@@ -7,8 +7,17 @@
 
 import crypto from "node:crypto";
 import { getDb } from "../db/index.js";
-import type { User, Session } from "../db/schema.js";
+import type { User, Session, SessionMode, SideChatContext } from "../db/schema.js";
 import { getMemorySummary, getRelevantMemories } from "./memory.js";
+import { getAlerts, getTodayBriefing } from "./briefing.js";
+import { getCachedTodayEvents } from "./google.js";
+import { findNextEvent, type UpcomingEvent } from "./planner.js";
+import type { MainChatPromptContext } from "../../../prompts/system-prompt.js";
+import {
+  getSessionIntentions,
+  formatIntentionsForPrompt,
+  type ImplementationIntentions,
+} from "./intentions.js";
 
 export interface UserContext {
   user: {
@@ -31,7 +40,10 @@ export interface UserContext {
     declaredTask: string;
     durationPlanned: number;
     checkInFrequency: number;
+    mode: SessionMode;
+    implementationIntentions: ImplementationIntentions;
   };
+  nextEvent?: UpcomingEvent | null; // From today's cached calendar events; unset if not fetched today
 }
 
 export interface SessionSummary {
@@ -90,6 +102,8 @@ export function buildUserContext(userId: string, currentSessionId?: string): Use
         declaredTask: session.declared_task || "Not specified",
         durationPlanned: session.duration_planned || 25,
         checkInFrequency: session.check_in_frequency,
+        mode: session.mode,
+        implementationIntentions: getSessionIntentions(session.id),
       };
     }
   }
@@ -110,6 +124,9 @@ export function buildUserContext(userId: string, currentSessionId?: string): Use
   // Get memories relevant to the current task
   const relevantMems = declaredTask ? getRelevantMemories(userId, declaredTask) : [];
 
+  // Only what's cached - building a prompt shouldn't wait on Google
+  const todayEvents = getCachedTodayEvents(userId);
+
   return {
     user: {
       name: user.name,
@@ -133,6 +150,115 @@ export function buildUserContext(userId: string, currentSessionId?: string): Use
     },
     relevantMemories: relevantMems.map((m) => `[${m.category}] ${m.content}`),
     currentSession,
+    nextEvent: todayEvents ? findNextEvent(todayEvents, new Date()) : undefined,
+  };
+}
+
+/**
+ * Format a past session as a single line for the prompt
+ */
+export function formatSessionSummary(session: SessionSummary): string {
+  const date = new Date(session.date).toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "short",
+    day: "numeric",
+  });
+  const outcome = session.outcome ? ` ${session.outcome}` : "";
+  return `**${date} (${session.durationMinutes} min):** ${session.task}.${outcome}`;
+}
+
+/**
+ * Format an upcoming calendar event for the prompt. An unset event means
+ * today's calendar hasn't been fetched, not that it's empty.
+ */
+export function formatNextEvent(event: UpcomingEvent | null | undefined): string {
+  if (event === undefined) {
+    return "Calendar not available";
+  }
+  if (!event) {
+    return "Nothing else on their calendar today";
+  }
+  const time = new Date(event.start).toLocaleTimeString("en-US", {
+    hour: "numeric",
+    minute: "2-digit",
+  });
+  return `${event.title} at ${time} (in ${event.minutesUntil} minutes)`;
+}
+
+/**
+ * Format a side chat's context JSON for its prompt: the main chat excerpt it
+ * was spawned from, then any other keys as notes
+ */
+export function formatSideChatContext(rawContext: string | null, userName: string): string {
+  const none = "No extra context for this chat.";
+  if (!rawContext) {
+    return none;
+  }
+
+  let parsed: SideChatContext;
+  try {
+    parsed = JSON.parse(rawContext);
+  } catch {
+    return `**Notes:**\n${rawContext}`;
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return `**Notes:**\n${rawContext}`;
+  }
+
+  const { mainChatExcerpt, ...notes } = parsed;
+  const parts: string[] = [];
+
+  if (Array.isArray(mainChatExcerpt) && mainChatExcerpt.length > 0) {
+    const transcript = mainChatExcerpt
+      .map((m) => `${m.role === "user" ? userName : "You"}: ${m.content}`)
+      .join("\n");
+    parts.push(
+      `**Where this came from** (the main chat just before it was started):\n${transcript}`
+    );
+  }
+
+  const noteLines = Object.entries(notes).map(
+    ([key, value]) => `- ${key}: ${typeof value === "string" ? value : JSON.stringify(value)}`
+  );
+  if (noteLines.length > 0) {
+    parts.push(`**Notes:**\n${noteLines.join("\n")}`);
+  }
+
+  return parts.length > 0 ? parts.join("\n\n") : none;
+}
+
+/**
+ * Summarize what's going on for a user today - briefing, unread alerts and
+ * focus sessions in progress - for the main chat prompt
+ */
+export function buildAssistantStatus(userId: string): MainChatPromptContext {
+  const db = getDb();
+
+  const briefing = getTodayBriefing(userId);
+
+  const { alerts } = getAlerts(userId, { status: "unread", limit: 5 });
+  const alertLines = alerts.map(
+    (a) => `- ${a.priority === "normal" ? "" : `[${a.priority}] `}${a.title}: ${a.content}`
+  );
+
+  const activeSessions = db
+    .prepare(
+      `
+    SELECT declared_task, started_at, duration_planned FROM sessions
+    WHERE user_id = ? AND status = 'active'
+    ORDER BY started_at DESC
+  `
+    )
+    .all(userId) as Pick<Session, "declared_task" | "started_at" | "duration_planned">[];
+  const sessionLines = activeSessions.map(
+    (s) =>
+      `- ${s.declared_task || "Unspecified task"} (started ${s.started_at} UTC, ${s.duration_planned || 25} min planned)`
+  );
+
+  return {
+    todayBriefing: briefing?.summary || "No briefing yet today.",
+    alerts: alertLines.length > 0 ? alertLines.join("\n") : "None",
+    activeSessions: sessionLines.length > 0 ? sessionLines.join("\n") : "None right now",
   };
 }
 
@@ -155,22 +281,13 @@ export function formatContextForPrompt(context: UserContext): {
   declaredTask: string;
   sessionDuration: string;
   checkInFrequency: string;
+  implementationIntentions: string;
+  nextEvent: string;
 } {
   // Format recent sessions
   let recentSessionsText = "This is your first session together.";
   if (context.recentSessions.length > 0) {
-    recentSessionsText = context.recentSessions
-      .slice(0, 5)
-      .map((s) => {
-        const date = new Date(s.date).toLocaleDateString("en-US", {
-          weekday: "long",
-          month: "short",
-          day: "numeric",
-        });
-        const outcome = s.outcome ? ` ${s.outcome}` : "";
-        return `**${date} (${s.durationMinutes} min):** ${s.task}.${outcome}`;
-      })
-      .join("\n\n");
+    recentSessionsText = context.recentSessions.slice(0, 5).map(formatSessionSummary).join("\n\n");
   }
 
   // Format lists
@@ -200,6 +317,10 @@ export function formatContextForPrompt(context: UserContext): {
     declaredTask: context.currentSession?.declaredTask || "Not specified",
     sessionDuration: `${context.currentSession?.durationPlanned || 25} minutes`,
     checkInFrequency: `every ${context.currentSession?.checkInFrequency || 15} minutes`,
+    implementationIntentions: context.currentSession
+      ? formatIntentionsForPrompt(context.currentSession.implementationIntentions)
+      : "None set for this session",
+    nextEvent: formatNextEvent(context.nextEvent),
   };
 }
 
@@ -0,0 +1,316 @@
+/**
+ * Email Rules Service
+ *
+ * Per-user rules for triaging new email: VIP contacts, sender and domain
+ * allow/mute lists, subject and body regexes, and Gmail label matching.
+ * checkNewEmails evaluates them to decide each email's alert priority,
+ * whether it gets an alert at all, or whether it's batched into a digest.
+ *
+ * Subject and body regexes run against every new email on the server's one
+ * thread, so patterns that can backtrack catastrophically (a repeated group
+ * that itself repeats or alternates, like `(a+)+`, or a backreference) are
+ * rejected, and each pattern is compiled once.
+ */
+
+import crypto from "node:crypto";
+import { getDb } from "../db/index.js";
+import type { AlertPriority, EmailRule, EmailRuleAction, EmailRuleField } from "../db/schema.js";
+
+export const EMAIL_RULE_FIELDS: EmailRuleField[] = ["sender", "domain", "subject", "body", "label"];
+export const EMAIL_RULE_ACTIONS: EmailRuleAction[] = [
+  "vip",
+  "allow",
+  "mute",
+  "digest",
+  "high",
+  "low",
+];
+
+export interface EmailRuleInput {
+  field: EmailRuleField;
+  pattern: string;
+  action: EmailRuleAction;
+  enabled?: boolean;
+}
+
+/** The parts of an email rules look at */
+export interface EmailForTriage {
+  from: string;
+  subject: string;
+  /** Gmail's plain-text preview of the body */
+  snippet: string;
+  labelIds: string[];
+}
+
+export interface EmailTriage {
+  outcome: "alert" | "mute" | "digest";
+  priority: AlertPriority;
+  matchedRuleIds: string[];
+}
+
+// Subjects that get a high priority alert when no rule sets one
+const DEFAULT_HIGH_PRIORITY_SUBJECT = /urgent|important|action required/i;
+
+export const MAX_PATTERN_LENGTH = 200;
+
+// Compiled subject/body patterns, or null for ones that can't be used
+const compiledPatterns = new Map<string, RegExp | null>();
+const MAX_COMPILED_PATTERNS = 1000;
+
+// ============================================
+// Patterns
+// ============================================
+
+/**
+ * Whether a regex can backtrack catastrophically: a backreference, or a
+ * quantified group containing a quantifier or an alternation, like `(a+)+`,
+ * `(a|ab)*` or `((ab)*c){2,}`.
+ */
+function isRiskyPattern(pattern: string): boolean {
+  // Per open group: whether it contains a quantifier or alternation
+  const groups: boolean[] = [];
+  const isQuantifier = (i: number) =>
+    pattern[i] === "+" || pattern[i] === "*" || /^\{\d+,?\d*\}/.test(pattern.slice(i));
+
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === "\\") {
+      if (/[1-9k]/.test(pattern[i + 1] ?? "")) return true;
+      i++;
+    } else if (c === "[") {
+      // Skip the character class; quantifiers inside it are literal
+      i++;
+      while (i < pattern.length && pattern[i] !== "]") {
+        if (pattern[i] === "\\") i++;
+        i++;
+      }
+    } else if (c === "(") {
+      groups.push(false);
+    } else if (c === ")") {
+      const repeats = groups.pop() ?? false;
+      if (repeats && isQuantifier(i + 1)) return true;
+      if (repeats && groups.length > 0) groups[groups.length - 1] = true;
+    } else if ((c === "|" || isQuantifier(i)) && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Why a subject or body pattern can't be used, or null if it can
+ */
+function patternProblem(pattern: string): string | null {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `pattern must be at most ${MAX_PATTERN_LENGTH} characters`;
+  }
+  try {
+    new RegExp(pattern, "i");
+  } catch {
+    return "pattern is not a valid regular expression";
+  }
+  if (isRiskyPattern(pattern)) {
+    return "pattern can't repeat a group that repeats or alternates, or use backreferences";
+  }
+  return null;
+}
+
+/**
+ * A subject or body pattern, compiled once. Null for patterns that can't be
+ * used, including risky ones saved before they were rejected.
+ */
+function compilePattern(pattern: string): RegExp | null {
+  let regex = compiledPatterns.get(pattern);
+  if (regex === undefined) {
+    regex = patternProblem(pattern) ? null : new RegExp(pattern, "i");
+    if (compiledPatterns.size >= MAX_COMPILED_PATTERNS) {
+      compiledPatterns.clear();
+    }
+    compiledPatterns.set(pattern, regex);
+  }
+  return regex;
+}
+
+// ============================================
+// Rule Management
+// ============================================
+
+/**
+ * Check a rule from a request.
+ * Returns an error message, or null if it's valid.
+ */
+export function validateEmailRule(input: Partial<EmailRuleInput>): string | null {
+  if (!input.field || !EMAIL_RULE_FIELDS.includes(input.field)) {
+    return `field must be one of: ${EMAIL_RULE_FIELDS.join(", ")}`;
+  }
+  if (!input.action || !EMAIL_RULE_ACTIONS.includes(input.action)) {
+    return `action must be one of: ${EMAIL_RULE_ACTIONS.join(", ")}`;
+  }
+  if (typeof input.pattern !== "string" || !input.pattern.trim()) {
+    return "pattern is required";
+  }
+  if (input.field === "subject" || input.field === "body") {
+    const problem = patternProblem(input.pattern.trim());
+    if (problem) return problem;
+  }
+  if (input.enabled !== undefined && typeof input.enabled !== "boolean") {
+    return "enabled must be true or false";
+  }
+  return null;
+}
+
+/**
+ * Get a user's email rules, oldest first
+ */
+export function getEmailRules(userId: string): EmailRule[] {
+  const db = getDb();
+  return db
+    .prepare(`SELECT * FROM email_rules WHERE user_id = ? ORDER BY created_at ASC, rowid ASC`)
+    .all(userId) as EmailRule[];
+}
+
+/**
+ * Get one of a user's email rules
+ */
+export function getEmailRule(userId: string, ruleId: string): EmailRule | null {
+  const db = getDb();
+  return (
+    (db
+      .prepare(`SELECT * FROM email_rules WHERE id = ? AND user_id = ?`)
+      .get(ruleId, userId) as EmailRule) || null
+  );
+}
+
+/**
+ * Create an email rule
+ */
+export function createEmailRule(userId: string, input: EmailRuleInput): EmailRule {
+  const db = getDb();
+  const id = crypto.randomUUID();
+
+  db.prepare(
+    `
+    INSERT INTO email_rules (id, user_id, field, pattern, action, enabled)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `
+  ).run(
+    id,
+    userId,
+    input.field,
+    input.pattern.trim(),
+    input.action,
+    input.enabled === false ? 0 : 1
+  );
+
+  return getEmailRule(userId, id)!;
+}
+
+/**
+ * Update an email rule.
+ * Returns null if the rule doesn't exist.
+ */
+export function updateEmailRule(
+  userId: string,
+  ruleId: string,
+  updates: Partial<EmailRuleInput>
+): EmailRule | null {
+  const rule = getEmailRule(userId, ruleId);
+  if (!rule) return null;
+
+  const db = getDb();
+  db.prepare(
+    `UPDATE email_rules SET field = ?, pattern = ?, action = ?, enabled = ? WHERE id = ?`
+  ).run(
+    updates.field ?? rule.field,
+    updates.pattern?.trim() ?? rule.pattern,
+    updates.action ?? rule.action,
+    updates.enabled === undefined ? rule.enabled : updates.enabled ? 1 : 0,
+    ruleId
+  );
+
+  return getEmailRule(userId, ruleId);
+}
+
+/**
+ * Delete an email rule
+ */
+export function deleteEmailRule(userId: string, ruleId: string): boolean {
+  const db = getDb();
+  const result = db
+    .prepare(`DELETE FROM email_rules WHERE id = ? AND user_id = ?`)
+    .run(ruleId, userId);
+  return result.changes > 0;
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+/**
+ * The sender's address from a From header ("Ada <ada@example.com>")
+ */
+export function senderAddress(from: string): string {
+  const match = from.match(/<([^>]+)>/);
+  return (match ? match[1] : from).trim().toLowerCase();
+}
+
+function ruleMatches(rule: EmailRule, email: EmailForTriage): boolean {
+  const pattern = rule.pattern.toLowerCase();
+
+  switch (rule.field) {
+    case "sender":
+      return senderAddress(email.from) === pattern;
+    case "domain": {
+      const domain = senderAddress(email.from).split("@")[1] ?? "";
+      const wanted = pattern.replace(/^@/, "");
+      return domain === wanted || domain.endsWith(`.${wanted}`);
+    }
+    case "subject":
+    case "body":
+      return (
+        compilePattern(rule.pattern)?.test(
+          rule.field === "subject" ? email.subject : email.snippet
+        ) ?? false
+      );
+    case "label":
+      return email.labelIds.some((label) => label.toLowerCase() === pattern);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Decide what to do with an email under a user's rules. VIP beats
+ * everything; allow beats mute and digest; mute beats digest. Otherwise the
+ * email gets an alert whose priority comes from high/low rules, or from the
+ * subject if no rule sets one.
+ */
+export function evaluateEmailRules(rules: EmailRule[], email: EmailForTriage): EmailTriage {
+  const matched = rules.filter((rule) => rule.enabled && ruleMatches(rule, email));
+  const matchedRuleIds = matched.map((rule) => rule.id);
+  const has = (action: EmailRuleAction) => matched.some((rule) => rule.action === action);
+
+  if (has("vip")) {
+    return { outcome: "alert", priority: "urgent", matchedRuleIds };
+  }
+
+  if (!has("allow")) {
+    if (has("mute")) {
+      return { outcome: "mute", priority: "low", matchedRuleIds };
+    }
+    if (has("digest")) {
+      return { outcome: "digest", priority: "low", matchedRuleIds };
+    }
+  }
+
+  let priority: AlertPriority = DEFAULT_HIGH_PRIORITY_SUBJECT.test(email.subject)
+    ? "high"
+    : "normal";
+  if (has("high")) {
+    priority = "high";
+  } else if (has("low")) {
+    priority = "low";
+  }
+
+  return { outcome: "alert", priority, matchedRuleIds };
+}
@@ -0,0 +1,214 @@
+/**
+ * Embeddings Service
+ *
+ * Turns memory text into vectors so memories can be ranked by meaning
+ * rather than exact keyword overlap.
+ *
+ * Providers are pluggable. The default is a deterministic local vectorizer
+ * (hashed bag of words + character n-grams) that works offline with no API
+ * calls. A model-backed provider can be swapped in with setEmbeddingProvider();
+ * stored vectors are tagged with the provider id so they get re-embedded when
+ * the provider changes.
+ */
+
+export interface EmbeddingProvider {
+  /** Stable identifier stored alongside each vector */
+  id: string;
+  embed(text: string): number[];
+}
+
+// ============================================
+// Local hashed vectorizer
+// ============================================
+
+const LOCAL_DIMENSIONS = 512;
+
+// Common words that carry no meaning for matching
+const STOP_WORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "at",
+  "be",
+  "but",
+  "by",
+  "for",
+  "from",
+  "has",
+  "have",
+  "i",
+  "in",
+  "is",
+  "it",
+  "my",
+  "of",
+  "on",
+  "or",
+  "so",
+  "that",
+  "the",
+  "their",
+  "they",
+  "this",
+  "to",
+  "was",
+  "when",
+  "with",
+]);
+
+// Small groups of interchangeable work words. Words in the same group share
+// a concept feature so paraphrases like "essay" / "paper" still match.
+const CONCEPT_GROUPS: string[][] = [
+  ["essay", "paper", "article", "report", "draft", "writeup", "thesis", "blog", "post"],
+  ["email", "emails", "inbox", "mail", "gmail"],
+  ["code", "coding", "programming", "developing", "debugging", "refactor", "refactoring"],
+  ["meeting", "meetings", "call", "calls", "standup", "sync"],
+  ["slack", "chat", "messages", "notifications", "pings"],
+  ["phone", "instagram", "twitter", "reddit", "youtube", "tiktok", "social"],
+  ["tired", "exhausted", "sleepy", "drained", "fatigue"],
+  ["anxious", "stressed", "overwhelmed", "nervous", "worried"],
+  ["clean", "cleaning", "tidy", "tidying", "chores", "laundry", "dishes"],
+  ["study", "studying", "homework", "exam", "revision", "coursework"],
+];
+
+const CONCEPTS = new Map<string, string>();
+for (const group of CONCEPT_GROUPS) {
+  for (const word of group) {
+    CONCEPTS.set(word, `concept:${group[0]}`);
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function hash(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// Relative weight of each feature kind
+const WORD_WEIGHT = 1;
+const CONCEPT_WEIGHT = 1.5;
+const TRIGRAM_WEIGHT = 0.4;
+
+/**
+ * Split text into weighted features: words, concepts and character trigrams of words.
+ * Repeated features use sublinear term frequency so they don't dominate.
+ */
+function extractFeatures(text: string): Map<string, number> {
+  const counts = new Map<string, { count: number; weight: number }>();
+  const add = (feature: string, weight: number) => {
+    const existing = counts.get(feature);
+    if (existing) {
+      existing.count++;
+    } else {
+      counts.set(feature, { count: 1, weight });
+    }
+  };
+
+  const words = text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w.length > 1 && !STOP_WORDS.has(w));
+
+  for (const word of words) {
+    add(`w:${word}`, WORD_WEIGHT);
+
+    const concept = CONCEPTS.get(word);
+    if (concept) {
+      add(concept, CONCEPT_WEIGHT);
+    }
+
+    // Trigrams catch shared stems ("distract" / "distracted" / "distraction")
+    const padded = `^${word}$`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      add(`g:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+    }
+  }
+
+  const features = new Map<string, number>();
+  for (const [feature, { count, weight }] of counts) {
+    features.set(feature, (1 + Math.log(count)) * weight);
+  }
+  return features;
+}
+
+export const localEmbeddingProvider: EmbeddingProvider = {
+  id: `local-hashed-${LOCAL_DIMENSIONS}`,
+
+  embed(text: string): number[] {
+    const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+
+    for (const [feature, weight] of extractFeatures(text)) {
+      const h = hash(feature);
+      // Signed hashing keeps collisions from always adding up
+      const sign = h & 0x80000000 ? -1 : 1;
+      vector[h % LOCAL_DIMENSIONS] += sign * weight;
+    }
+
+    return normalize(vector);
+  },
+};
+
+// ============================================
+// Provider selection and vector math
+// ============================================
+
+let provider: EmbeddingProvider = localEmbeddingProvider;
+
+/**
+ * Get the active embedding provider
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  return provider;
+}
+
+/**
+ * Swap the embedding provider (e.g. for a model-backed one)
+ */
+export function setEmbeddingProvider(next: EmbeddingProvider): void {
+  provider = next;
+}
+
+/**
+ * Embed text with the active provider
+ */
+export function embedText(text: string): number[] {
+  return provider.embed(text);
+}
+
+/**
+ * Scale a vector to unit length
+ */
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return length === 0 ? vector : vector.map((v) => v / length);
+}
+
+/**
+ * Cosine similarity between two vectors (0 when either is empty)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
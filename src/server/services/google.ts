@@ -35,6 +35,14 @@ import type {
   GoogleApiLog,
   GoogleApiLogInput,
 } from "../db/schema.js";
+import { decryptTokens, encryptTokens, redactSecrets } from "./token-encryption.js";
+import {
+  consumeOAuthState,
+  createCodeVerifier,
+  createOAuthState,
+  getCodeChallenge,
+  type OAuthState,
+} from "./oauth-state.js";
 
 // Maximum size for stored request/response bodies (10KB)
 const MAX_BODY_SIZE = 10 * 1024;
@@ -46,9 +54,6 @@ const GOOGLE_REDIRECT_URI =
   process.env.GOOGLE_REDIRECT_URI ||
   `${process.env.APP_URL || "http://localhost:3001"}/api/google/callback`;
 
-// OAuth state tokens expire after 10 minutes
-const OAUTH_STATE_EXPIRY_MINUTES = 10;
-
 // Default scopes to request
 // See: https://developers.google.com/identity/protocols/oauth2/scopes
 const DEFAULT_SCOPES = [
@@ -57,33 +62,33 @@ const DEFAULT_SCOPES = [
   "https://www.googleapis.com/auth/userinfo.email", // Get email address
 ];
 
-// In-memory store for OAuth state tokens (maps state -> userId)
-const oauthStates = new Map<string, { userId: string; expiresAt: Date }>();
-
 // ============================================
 // OAuth Flow
 // ============================================
 
 /**
- * Generate the Google OAuth authorization URL
+ * Generate the Google OAuth authorization URL. The flow uses PKCE; the
+ * verifier is stored with the state for the token exchange.
  */
-export function getGoogleAuthUrl(userId: string, scopes?: string[]): string {
-  const state = crypto.randomBytes(32).toString("hex");
-
-  oauthStates.set(state, {
-    userId,
-    expiresAt: new Date(Date.now() + OAUTH_STATE_EXPIRY_MINUTES * 60 * 1000),
+export function getGoogleAuthUrl(
+  userId: string,
+  options: { scopes?: string[]; redirectTo?: string } = {}
+): string {
+  const codeVerifier = createCodeVerifier();
+  const state = createOAuthState("google", userId, {
+    codeVerifier,
+    redirectTo: options.redirectTo,
   });
 
-  cleanupExpiredStates();
-
   const params = new URLSearchParams({
     client_id: GOOGLE_CLIENT_ID,
     redirect_uri: GOOGLE_REDIRECT_URI,
     response_type: "code",
-    scope: (scopes || DEFAULT_SCOPES).join(" "),
+    scope: (options.scopes || DEFAULT_SCOPES).join(" "),
     access_type: "offline", // Required to get refresh_token
     prompt: "consent", // Force consent to ensure refresh_token is returned
+    code_challenge: getCodeChallenge(codeVerifier),
+    code_challenge_method: "S256",
     state,
   });
 
@@ -91,28 +96,19 @@ export function getGoogleAuthUrl(userId: string, scopes?: string[]): string {
 }
 
 /**
- * Validate an OAuth state token and return the associated user ID
+ * Validate and consume an OAuth state token from the callback
  */
-export function validateOAuthState(state: string): string | null {
-  const stateData = oauthStates.get(state);
-
-  if (!stateData) {
-    return null;
-  }
-
-  if (stateData.expiresAt < new Date()) {
-    oauthStates.delete(state);
-    return null;
-  }
-
-  oauthStates.delete(state);
-  return stateData.userId;
+export function validateOAuthState(state: string): OAuthState | null {
+  return consumeOAuthState("google", state);
 }
 
 /**
  * Exchange authorization code for tokens
  */
-export async function exchangeCodeForTokens(code: string): Promise<{
+export async function exchangeCodeForTokens(
+  code: string,
+  codeVerifier: string | null
+): Promise<{
   access_token: string;
   refresh_token: string;
   expires_in: number;
@@ -130,6 +126,7 @@ export async function exchangeCodeForTokens(code: string): Promise<{
         client_secret: GOOGLE_CLIENT_SECRET,
         redirect_uri: GOOGLE_REDIRECT_URI,
         grant_type: "authorization_code",
+        ...(codeVerifier ? { code_verifier: codeVerifier } : {}),
       }),
     });
 
@@ -218,7 +215,20 @@ export async function getGoogleUserEmail(accessToken: string): Promise<string |
 // ============================================
 
 /**
- * Save a new Google connection
+ * Decrypt a stored connection's tokens
+ */
+function withDecryptedTokens(connection: GoogleConnection): GoogleConnection {
+  return {
+    ...connection,
+    ...decryptTokens(connection, {
+      access_token: connection.access_token,
+      refresh_token: connection.refresh_token,
+    }),
+  };
+}
+
+/**
+ * Save a new Google connection (tokens are encrypted at rest)
  */
 export function saveGoogleConnection(
   userId: string,
@@ -231,6 +241,7 @@ export function saveGoogleConnection(
   const db = getDb();
   const id = crypto.randomUUID();
   const expiresAt = new Date(Date.now() + expiresIn * 1000).toISOString();
+  const sealed = encryptTokens({ access_token: accessToken, refresh_token: refreshToken });
 
   // Delete existing connection if any
   db.prepare(`DELETE FROM google_connections WHERE user_id = ?`).run(userId);
@@ -238,24 +249,34 @@ export function saveGoogleConnection(
   db.prepare(
     `
     INSERT INTO google_connections
-    (id, user_id, access_token, refresh_token, token_expires_at, email, scopes)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
+    (id, user_id, access_token, refresh_token, token_key_id, token_data_key,
+     token_expires_at, email, scopes)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
   `
-  ).run(id, userId, accessToken, refreshToken, expiresAt, email, scopes);
+  ).run(
+    id,
+    userId,
+    sealed.tokens.access_token,
+    sealed.tokens.refresh_token,
+    sealed.token_key_id,
+    sealed.token_data_key,
+    expiresAt,
+    email,
+    scopes
+  );
 
-  return db.prepare(`SELECT * FROM google_connections WHERE id = ?`).get(id) as GoogleConnection;
+  return getGoogleConnection(userId)!;
 }
 
 /**
- * Get Google connection for a user
+ * Get Google connection for a user, with its tokens decrypted
  */
 export function getGoogleConnection(userId: string): GoogleConnection | null {
   const db = getDb();
-  return (
-    (db
-      .prepare(`SELECT * FROM google_connections WHERE user_id = ?`)
-      .get(userId) as GoogleConnection) || null
-  );
+  const connection = db
+    .prepare(`SELECT * FROM google_connections WHERE user_id = ?`)
+    .get(userId) as GoogleConnection | undefined;
+  return connection ? withDecryptedTokens(connection) : null;
 }
 
 /**
@@ -292,13 +313,29 @@ export async function getValidAccessToken(userId: string): Promise<string | null
       return null;
     }
 
-    // Update stored tokens
+    // Update stored tokens, re-encrypting both under a new data key
     const db = getDb();
     const newExpiresAt = new Date(Date.now() + refreshed.expires_in * 1000).toISOString();
+    const sealed = encryptTokens({
+      access_token: refreshed.access_token,
+      refresh_token: connection.refresh_token,
+    });
 
     db.prepare(
-      `UPDATE google_connections SET access_token = ?, token_expires_at = ? WHERE user_id = ?`
-    ).run(refreshed.access_token, newExpiresAt, userId);
+      `
+      UPDATE google_connections
+      SET access_token = ?, refresh_token = ?, token_key_id = ?, token_data_key = ?,
+          token_expires_at = ?
+      WHERE user_id = ?
+    `
+    ).run(
+      sealed.tokens.access_token,
+      sealed.tokens.refresh_token,
+      sealed.token_key_id,
+      sealed.token_data_key,
+      newExpiresAt,
+      userId
+    );
 
     return refreshed.access_token;
   }
@@ -337,8 +374,10 @@ export function logGoogleApiCall(userId: string, input: GoogleApiLogInput): Goog
   const id = crypto.randomUUID();
 
   // Truncate large bodies
-  let requestBody = input.request_body ? JSON.stringify(input.request_body) : null;
-  let responseBody = input.response_body ? JSON.stringify(input.response_body) : null;
+  let requestBody = input.request_body ? JSON.stringify(redactSecrets(input.request_body)) : null;
+  let responseBody = input.response_body
+    ? JSON.stringify(redactSecrets(input.response_body))
+    : null;
 
   if (requestBody && requestBody.length > MAX_BODY_SIZE) {
     requestBody = requestBody.substring(0, MAX_BODY_SIZE) + "...[truncated]";
@@ -406,10 +445,12 @@ export function getGoogleApiLogs(
 // Gmail Operations
 // ============================================
 
-interface GmailMessage {
+export interface GmailMessage {
   id: string;
   threadId: string;
   snippet: string;
+  labelIds?: string[];
+  historyId?: string;
   payload?: {
     headers?: Array<{ name: string; value: string }>;
   };
@@ -422,6 +463,13 @@ interface GmailThread {
   historyId: string;
 }
 
+type GmailRequestOptions = {
+  method?: "GET" | "POST" | "PATCH" | "DELETE";
+  body?: object;
+  operation: string;
+  triggeredBy: "user_request" | "proactive_check" | "assistant_action" | "system";
+};
+
 /**
  * Make a Gmail API request with logging
  */
@@ -429,13 +477,22 @@ async function gmailRequest<T>(
   userId: string,
   accessToken: string,
   endpoint: string,
-  options: {
-    method?: "GET" | "POST" | "PATCH" | "DELETE";
-    body?: object;
-    operation: string;
-    triggeredBy: "user_request" | "proactive_check" | "assistant_action" | "system";
-  }
+  options: GmailRequestOptions
 ): Promise<T | null> {
+  return (await gmailRequestWithStatus<T>(userId, accessToken, endpoint, options)).data;
+}
+
+/**
+ * Make a Gmail API request with logging, keeping the HTTP status so callers
+ * can tell particular failures apart (status 0 means the request never got
+ * a response)
+ */
+async function gmailRequestWithStatus<T>(
+  userId: string,
+  accessToken: string,
+  endpoint: string,
+  options: GmailRequestOptions
+): Promise<{ status: number; data: T | null }> {
   const { method = "GET", body, operation, triggeredBy } = options;
   const startTime = Date.now();
 
@@ -467,10 +524,10 @@ async function gmailRequest<T>(
 
     if (!response.ok) {
       console.error(`Gmail API error (${response.status}):`, responseData);
-      return null;
+      return { status: response.status, data: null };
     }
 
-    return responseData as T;
+    return { status: response.status, data: responseData as T };
   } catch (error) {
     const duration = Date.now() - startTime;
     logGoogleApiCall(userId, {
@@ -485,7 +542,7 @@ async function gmailRequest<T>(
       error_message: error instanceof Error ? error.message : "Unknown error",
     });
     console.error("Gmail request error:", error);
-    return null;
+    return { status: 0, data: null };
   }
 }
 
@@ -524,13 +581,30 @@ export async function listEmails(
 
   if (!response?.messages) return [];
 
-  // Fetch full message details
+  return fetchEmailDetails(
+    userId,
+    accessToken,
+    response.messages.slice(0, maxResults).map((msg) => msg.id),
+    triggeredBy
+  );
+}
+
+/**
+ * Fetch the headers, labels and snippet of each message, skipping any that
+ * can't be fetched (e.g. deleted since they were listed)
+ */
+async function fetchEmailDetails(
+  userId: string,
+  accessToken: string,
+  messageIds: string[],
+  triggeredBy: GmailRequestOptions["triggeredBy"]
+): Promise<GmailMessage[]> {
   const messages: GmailMessage[] = [];
-  for (const msg of response.messages.slice(0, maxResults)) {
+  for (const id of messageIds) {
     const full = await gmailRequest<GmailMessage>(
       userId,
       accessToken,
-      `/users/me/messages/${msg.id}?format=metadata&metadataHeaders=From&metadataHeaders=Subject&metadataHeaders=Date`,
+      `/users/me/messages/${id}?format=metadata&metadataHeaders=From&metadataHeaders=Subject&metadataHeaders=Date`,
       {
         operation: "Get email details",
         triggeredBy,
@@ -544,6 +618,111 @@ export async function listEmails(
   return messages;
 }
 
+/**
+ * Get emails by ID, with the same details as listEmails
+ */
+export async function getEmailsById(
+  userId: string,
+  messageIds: string[],
+  triggeredBy: "user_request" | "proactive_check" | "assistant_action" | "system" = "user_request"
+): Promise<GmailMessage[] | null> {
+  const accessToken = await getValidAccessToken(userId);
+  if (!accessToken) return null;
+
+  return fetchEmailDetails(userId, accessToken, messageIds, triggeredBy);
+}
+
+/**
+ * Get the mailbox's current history ID, the cursor to sync from next time
+ */
+export async function getCurrentHistoryId(
+  userId: string,
+  triggeredBy: "user_request" | "proactive_check" | "assistant_action" | "system" = "user_request"
+): Promise<string | null> {
+  const accessToken = await getValidAccessToken(userId);
+  if (!accessToken) return null;
+
+  const profile = await gmailRequest<{ historyId: string }>(
+    userId,
+    accessToken,
+    `/users/me/profile`,
+    {
+      operation: "Get mailbox history ID",
+      triggeredBy,
+    }
+  );
+  return profile?.historyId ?? null;
+}
+
+// Pages of history read per sync before giving up on the rest
+const MAX_HISTORY_PAGES = 5;
+
+export interface GmailHistoryChanges {
+  /** Messages added to the inbox since the cursor, oldest first */
+  messageIds: string[];
+  /** Cursor to sync from next time */
+  historyId: string;
+}
+
+/**
+ * List messages added to the inbox since a history cursor.
+ * Returns "expired" if Gmail no longer keeps history that far back, or there
+ * is more than MAX_HISTORY_PAGES of it (either way the caller should resync
+ * from scratch rather than move the cursor past changes it never read), or
+ * null if the call fails.
+ */
+export async function listInboxChanges(
+  userId: string,
+  startHistoryId: string,
+  triggeredBy: "user_request" | "proactive_check" | "assistant_action" | "system" = "user_request"
+): Promise<GmailHistoryChanges | "expired" | null> {
+  const accessToken = await getValidAccessToken(userId);
+  if (!accessToken) return null;
+
+  const messageIds: string[] = [];
+  let historyId = startHistoryId;
+  let pageToken: string | undefined;
+
+  for (let page = 0; page < MAX_HISTORY_PAGES; page++) {
+    const params = new URLSearchParams({
+      startHistoryId,
+      historyTypes: "messageAdded",
+      labelId: "INBOX",
+    });
+    if (pageToken) {
+      params.set("pageToken", pageToken);
+    }
+
+    const { status, data } = await gmailRequestWithStatus<{
+      history?: Array<{ messagesAdded?: Array<{ message: { id: string } }> }>;
+      historyId: string;
+      nextPageToken?: string;
+    }>(userId, accessToken, `/users/me/history?${params.toString()}`, {
+      operation: "List inbox changes",
+      triggeredBy,
+    });
+
+    if (status === 404) return "expired";
+    if (!data) return null;
+
+    for (const entry of data.history ?? []) {
+      for (const added of entry.messagesAdded ?? []) {
+        if (!messageIds.includes(added.message.id)) {
+          messageIds.push(added.message.id);
+        }
+      }
+    }
+    historyId = data.historyId;
+
+    pageToken = data.nextPageToken;
+    if (!pageToken) {
+      return { messageIds, historyId };
+    }
+  }
+
+  return "expired";
+}
+
 /**
  * Get unread email count
  */
@@ -591,7 +770,7 @@ export async function getEmail(
 // Google Calendar Operations
 // ============================================
 
-interface CalendarEvent {
+export interface CalendarEvent {
   id: string;
   summary: string;
   description?: string;
@@ -706,7 +885,16 @@ export async function listCalendarEvents(
     }
   );
 
-  return response?.items ?? [];
+  return response ? (response.items ?? []) : null;
+}
+
+// The last successful fetch of each user's events for today, so prompts
+// (built synchronously) can mention what's coming up. The calendar check
+// refreshes it every few minutes.
+const todayEventsCache = new Map<string, { day: string; events: CalendarEvent[] }>();
+
+function localDay(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
 }
 
 /**
@@ -720,27 +908,32 @@ export async function getTodayEvents(
   const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
   const endOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
 
-  return listCalendarEvents(userId, {
+  const events = await listCalendarEvents(userId, {
     timeMin: startOfDay,
     timeMax: endOfDay,
     maxResults: 50,
     triggeredBy,
   });
+
+  if (events) {
+    todayEventsCache.set(userId, { day: localDay(now), events });
+  }
+  return events;
+}
+
+/**
+ * Today's events from the last successful getTodayEvents call, without
+ * calling Google. Returns null if they haven't been fetched today.
+ */
+export function getCachedTodayEvents(userId: string): CalendarEvent[] | null {
+  const cached = todayEventsCache.get(userId);
+  return cached && cached.day === localDay(new Date()) ? cached.events : null;
 }
 
 // ============================================
 // Utility Functions
 // ============================================
 
-function cleanupExpiredStates(): void {
-  const now = new Date();
-  for (const [state, data] of oauthStates.entries()) {
-    if (data.expiresAt < now) {
-      oauthStates.delete(state);
-    }
-  }
-}
-
 /**
  * Check if Google credentials are configured
  */
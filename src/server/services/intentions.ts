@@ -0,0 +1,113 @@
+/**
+ * Implementation Intentions Service
+ *
+ * Stores the if-then plans users make at the start of a session:
+ * - One "when/where" plan describing when and where they'll do the task
+ * - Any number of "if [distraction] then [response]" pairs
+ *
+ * See research/04-implementation-intentions.md for the research basis.
+ */
+
+import crypto from "node:crypto";
+import { getDb } from "../db/index.js";
+import type { SessionIntention } from "../db/schema.js";
+
+export interface IfThenPlan {
+  id: string;
+  distraction: string;
+  response: string;
+}
+
+export interface ImplementationIntentions {
+  whenWhere: { when: string; where: string } | null;
+  ifThen: IfThenPlan[];
+}
+
+export interface ImplementationIntentionsInput {
+  when?: string;
+  where?: string;
+  ifThen?: Array<{ distraction: string; response: string }>;
+}
+
+/**
+ * Get the implementation intentions recorded for a session
+ */
+export function getSessionIntentions(sessionId: string): ImplementationIntentions {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      `
+    SELECT * FROM session_intentions
+    WHERE session_id = ?
+    ORDER BY created_at ASC, rowid ASC
+  `
+    )
+    .all(sessionId) as SessionIntention[];
+
+  const whenWhereRow = rows.find((r) => r.type === "when_where");
+
+  return {
+    whenWhere: whenWhereRow ? { when: whenWhereRow.cue, where: whenWhereRow.response } : null,
+    ifThen: rows
+      .filter((r) => r.type === "if_then")
+      .map((r) => ({ id: r.id, distraction: r.cue, response: r.response })),
+  };
+}
+
+/**
+ * Record implementation intentions for a session.
+ * A new when/where plan replaces the previous one; if-then pairs are appended.
+ */
+export function saveSessionIntentions(
+  sessionId: string,
+  input: ImplementationIntentionsInput
+): ImplementationIntentions {
+  const db = getDb();
+
+  const insert = db.prepare(
+    `
+    INSERT INTO session_intentions (id, session_id, type, cue, response)
+    VALUES (?, ?, ?, ?, ?)
+  `
+  );
+
+  const save = db.transaction(() => {
+    if (input.when || input.where) {
+      db.prepare(`DELETE FROM session_intentions WHERE session_id = ? AND type = 'when_where'`).run(
+        sessionId
+      );
+      insert.run(
+        crypto.randomUUID(),
+        sessionId,
+        "when_where",
+        input.when || "Now",
+        input.where || "Not specified"
+      );
+    }
+
+    for (const plan of input.ifThen || []) {
+      insert.run(crypto.randomUUID(), sessionId, "if_then", plan.distraction, plan.response);
+    }
+  });
+
+  save();
+
+  return getSessionIntentions(sessionId);
+}
+
+/**
+ * Format implementation intentions for prompt injection
+ */
+export function formatIntentionsForPrompt(intentions: ImplementationIntentions): string {
+  const lines: string[] = [];
+
+  if (intentions.whenWhere) {
+    lines.push(`- Plan: ${intentions.whenWhere.when}, ${intentions.whenWhere.where}`);
+  }
+
+  for (const plan of intentions.ifThen) {
+    lines.push(`- If ${plan.distraction}, then ${plan.response}`);
+  }
+
+  return lines.length > 0 ? lines.join("\n") : "None set for this session";
+}
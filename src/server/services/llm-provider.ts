@@ -0,0 +1,411 @@
+/**
+ * LLM Provider
+ *
+ * Everything that talks to a language model goes through a CompanionProvider,
+ * so the rest of the server doesn't depend on a particular SDK.
+ *
+ * Providers:
+ * - anthropic: the Anthropic API, routed through Helicone when HELICONE_API_KEY is set
+ * - mock: deterministic canned responses with no network access or API key
+ *
+ * Pick one with COMPANION_PROVIDER (default "anthropic"), or swap one in with
+ * setCompanionProvider() - e.g. a scripted provider in tests.
+ */
+
+import Anthropic from "@anthropic-ai/sdk";
+
+export type CompanionRequestType =
+  | "chat"
+  | "greeting"
+  | "check_in"
+  | "memory_extraction"
+  | "session_summary"
+  | "side_chat"
+  | "main_chat";
+
+export interface ProviderTextBlock {
+  type?: "text";
+  text: string;
+  /** Mark a prompt cache breakpoint after this block */
+  cache?: boolean;
+}
+
+/** A tool call made by the model (assistant messages) */
+export interface ProviderToolUseBlock {
+  type: "tool_use";
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+/** The outcome of a tool call, sent back to the model (user messages) */
+export interface ProviderToolResultBlock {
+  type: "tool_result";
+  toolUseId: string;
+  content: string;
+  isError?: boolean;
+}
+
+export type ProviderContentBlock =
+  | ProviderTextBlock
+  | ProviderToolUseBlock
+  | ProviderToolResultBlock;
+
+export interface ProviderMessage {
+  role: "user" | "assistant";
+  content: string | ProviderContentBlock[];
+}
+
+export interface ProviderTool {
+  name: string;
+  description: string;
+  /** JSON schema for the tool's input object */
+  inputSchema: Record<string, unknown>;
+}
+
+export interface CompletionRequest {
+  system: string | ProviderTextBlock[];
+  messages: ProviderMessage[];
+  maxTokens: number;
+  /** Tools the model may call */
+  tools?: ProviderTool[];
+  /** Who the request is for, used for observability */
+  tracking?: {
+    userId: string;
+    /** Null for requests outside a focus session, e.g. side chats */
+    sessionId: string | null;
+    requestType: CompanionRequestType;
+  };
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+}
+
+export interface CompletionResult {
+  text: string;
+  model: string;
+  usage: TokenUsage;
+}
+
+export type CompletionStreamEvent =
+  | { type: "text"; text: string }
+  | { type: "tool_use"; id: string; name: string; input: Record<string, unknown> }
+  | { type: "done"; model: string; usage: TokenUsage };
+
+export interface CompanionProvider {
+  /** Stable identifier, e.g. for logs */
+  id: string;
+  generate(request: CompletionRequest): Promise<CompletionResult>;
+  /**
+   * Yields text as it arrives, then any tool calls the model made, then a
+   * single "done" event with usage
+   */
+  stream(request: CompletionRequest): AsyncGenerator<CompletionStreamEvent>;
+}
+
+// ============================================
+// Anthropic
+// ============================================
+
+const ANTHROPIC_MODEL = "claude-sonnet-4-20250514";
+
+let anthropic: Anthropic | null = null;
+
+function getAnthropic(): Anthropic {
+  if (!anthropic) {
+    if (!process.env.ANTHROPIC_API_KEY) {
+      throw new Error("ANTHROPIC_API_KEY environment variable is required");
+    }
+
+    // If Helicone API key is set, route through Helicone proxy for observability
+    if (process.env.HELICONE_API_KEY) {
+      anthropic = new Anthropic({
+        baseURL: "https://anthropic.helicone.ai",
+        defaultHeaders: {
+          "Helicone-Auth": `Bearer ${process.env.HELICONE_API_KEY}`,
+        },
+      });
+      console.log("Anthropic client initialized with Helicone observability");
+    } else {
+      anthropic = new Anthropic();
+      console.log(
+        "Anthropic client initialized (no Helicone - set HELICONE_API_KEY for observability)"
+      );
+    }
+  }
+  return anthropic;
+}
+
+/**
+ * Build Helicone custom property headers for request tracking
+ */
+function getHeliconeHeaders(tracking: CompletionRequest["tracking"]): Record<string, string> {
+  // Only add Helicone headers if Helicone is enabled
+  if (!process.env.HELICONE_API_KEY || !tracking) {
+    return {};
+  }
+
+  return {
+    "Helicone-Property-User": tracking.userId,
+    ...(tracking.sessionId ? { "Helicone-Property-Session": tracking.sessionId } : {}),
+    "Helicone-Property-Type": tracking.requestType,
+  };
+}
+
+/**
+ * Convert provider text blocks to Anthropic blocks with cache control
+ */
+function toAnthropicBlocks(blocks: ProviderTextBlock[]): Anthropic.TextBlockParam[] {
+  return blocks.map((block) => ({
+    type: "text",
+    text: block.text,
+    ...(block.cache ? { cache_control: { type: "ephemeral" as const } } : {}),
+  }));
+}
+
+/**
+ * Convert message content blocks, including tool calls and results
+ */
+function toAnthropicContent(blocks: ProviderContentBlock[]): Anthropic.ContentBlockParam[] {
+  return blocks.map((block): Anthropic.ContentBlockParam => {
+    switch (block.type) {
+      case "tool_use":
+        return { type: "tool_use", id: block.id, name: block.name, input: block.input };
+      case "tool_result":
+        return {
+          type: "tool_result",
+          tool_use_id: block.toolUseId,
+          content: block.content,
+          ...(block.isError ? { is_error: true } : {}),
+        };
+      default:
+        return toAnthropicBlocks([block])[0];
+    }
+  });
+}
+
+function toAnthropicParams(request: CompletionRequest): Anthropic.MessageCreateParamsNonStreaming {
+  return {
+    model: ANTHROPIC_MODEL,
+    max_tokens: request.maxTokens,
+    system: typeof request.system === "string" ? request.system : toAnthropicBlocks(request.system),
+    messages: request.messages.map((m) => ({
+      role: m.role,
+      content: typeof m.content === "string" ? m.content : toAnthropicContent(m.content),
+    })),
+    ...(request.tools && request.tools.length > 0
+      ? {
+          tools: request.tools.map((tool) => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: { type: "object" as const, ...tool.inputSchema },
+          })),
+        }
+      : {}),
+  };
+}
+
+function toTokenUsage(usage: Anthropic.Usage): TokenUsage {
+  return {
+    inputTokens: usage.input_tokens,
+    outputTokens: usage.output_tokens,
+    cacheReadTokens: usage.cache_read_input_tokens ?? 0,
+    cacheWriteTokens: usage.cache_creation_input_tokens ?? 0,
+  };
+}
+
+export const anthropicProvider: CompanionProvider = {
+  id: "anthropic",
+
+  async generate(request) {
+    const response = await getAnthropic().messages.create(toAnthropicParams(request), {
+      headers: getHeliconeHeaders(request.tracking),
+    });
+
+    return {
+      text: response.content[0]?.type === "text" ? response.content[0].text : "",
+      model: response.model,
+      usage: toTokenUsage(response.usage),
+    };
+  },
+
+  async *stream(request) {
+    const stream = getAnthropic().messages.stream(toAnthropicParams(request), {
+      headers: getHeliconeHeaders(request.tracking),
+    });
+
+    for await (const event of stream) {
+      if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+        yield { type: "text", text: event.delta.text };
+      }
+    }
+
+    const message = await stream.finalMessage();
+    for (const block of message.content) {
+      if (block.type === "tool_use") {
+        yield {
+          type: "tool_use",
+          id: block.id,
+          name: block.name,
+          input: block.input as Record<string, unknown>,
+        };
+      }
+    }
+    yield { type: "done", model: message.model, usage: toTokenUsage(message.usage) };
+  },
+};
+
+// ============================================
+// Mock
+// ============================================
+
+const MOCK_MODEL = "mock";
+
+/**
+ * Rough token estimate for mock usage (~4 characters per token)
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function contentText(content: string | ProviderContentBlock[]): string {
+  if (typeof content === "string") {
+    return content;
+  }
+
+  return content
+    .map((block) => {
+      switch (block.type) {
+        case "tool_use":
+          return JSON.stringify(block.input);
+        case "tool_result":
+          return block.content;
+        default:
+          return block.text;
+      }
+    })
+    .join("\n");
+}
+
+/**
+ * Canned reply for a request, based on what kind of request it is
+ */
+function mockReply(request: CompletionRequest): string {
+  const lastUser = [...request.messages].reverse().find((m) => m.role === "user");
+  const said = lastUser ? contentText(lastUser.content).replace(/\s+/g, " ").trim() : "";
+
+  switch (request.tracking?.requestType) {
+    case "greeting":
+      return "Hi! Good to see you. What are we working on today?";
+    case "check_in":
+      return "Quick check-in: how's it going?";
+    case "memory_extraction":
+      return "[]";
+    case "session_summary":
+      return "They have been working steadily on their task.";
+    default:
+      return said ? `Got it: "${said.slice(0, 80)}". Keep going!` : "I'm here with you.";
+  }
+}
+
+/**
+ * A scripted mock reply: plain text, or text followed by tool calls
+ */
+export type MockResponse =
+  | string
+  | { text?: string; toolUses: Array<{ name: string; input: Record<string, unknown> }> };
+
+/**
+ * Create a deterministic provider. With responses, replies are played back in
+ * order (cycling when they run out); otherwise a canned reply is generated
+ * from the request.
+ */
+export function createMockProvider(responses: MockResponse[] = []): CompanionProvider {
+  let next = 0;
+  let toolUseCount = 0;
+
+  const reply = (
+    request: CompletionRequest
+  ): CompletionResult & { toolUses: Array<{ name: string; input: Record<string, unknown> }> } => {
+    const scripted = responses.length > 0 ? responses[next++ % responses.length] : null;
+    const text =
+      scripted === null
+        ? mockReply(request)
+        : typeof scripted === "string"
+          ? scripted
+          : (scripted.text ?? "");
+    const toolUses = scripted !== null && typeof scripted !== "string" ? scripted.toolUses : [];
+    const prompt = [
+      contentText(request.system),
+      ...request.messages.map((m) => contentText(m.content)),
+    ].join("\n");
+
+    return {
+      text,
+      toolUses,
+      model: MOCK_MODEL,
+      usage: {
+        inputTokens: estimateTokens(prompt),
+        outputTokens: estimateTokens(text + toolUses.map((t) => JSON.stringify(t.input)).join("")),
+        cacheReadTokens: 0,
+        cacheWriteTokens: 0,
+      },
+    };
+  };
+
+  return {
+    id: "mock",
+
+    async generate(request) {
+      const { text, model, usage } = reply(request);
+      return { text, model, usage };
+    },
+
+    async *stream(request) {
+      const result = reply(request);
+
+      // Stream word by word, keeping the spacing
+      for (const chunk of result.text.match(/\S+\s*/g) ?? []) {
+        yield { type: "text", text: chunk };
+      }
+      for (const toolUse of result.toolUses) {
+        yield { type: "tool_use", id: `mock_tool_${++toolUseCount}`, ...toolUse };
+      }
+      yield { type: "done", model: result.model, usage: result.usage };
+    },
+  };
+}
+
+// ============================================
+// Provider selection
+// ============================================
+
+let provider: CompanionProvider | null = null;
+
+/**
+ * Get the active provider, choosing from COMPANION_PROVIDER on first use
+ */
+export function getCompanionProvider(): CompanionProvider {
+  if (!provider) {
+    const name = process.env.COMPANION_PROVIDER || "anthropic";
+    if (name === "mock") {
+      provider = createMockProvider();
+    } else if (name === "anthropic") {
+      provider = anthropicProvider;
+    } else {
+      throw new Error(`Unknown COMPANION_PROVIDER: ${name} (expected "anthropic" or "mock")`);
+    }
+  }
+  return provider;
+}
+
+/**
+ * Swap the active provider (null goes back to COMPANION_PROVIDER)
+ */
+export function setCompanionProvider(next: CompanionProvider | null): void {
+  provider = next;
+}
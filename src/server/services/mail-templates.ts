@@ -0,0 +1,52 @@
+/**
+ * Mail Templates
+ *
+ * Subject, plain-text and HTML bodies for the emails the server sends.
+ */
+
+import type { MailMessage } from "./mailer.js";
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * The sign-in email with a user's magic link
+ */
+export function magicLinkEmail(options: {
+  to: string;
+  url: string;
+  isNewUser: boolean;
+  expiresInMinutes: number;
+}): MailMessage {
+  const { to, url, isNewUser, expiresInMinutes } = options;
+  const subject = isNewUser ? "Welcome to Body Double" : "Your Body Double sign-in link";
+  const intro = isNewUser
+    ? "Thanks for signing up! Use the link below to finish creating your account."
+    : "Use the link below to sign in.";
+  const expiry = `The link works once and expires in ${expiresInMinutes} minutes.`;
+  const ignore = "If you didn't ask for this, you can ignore this email.";
+
+  const text = [intro, "", url, "", expiry, ignore, ""].join("\n");
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; color: #1f2933; line-height: 1.5;">
+    <p>${escapeHtml(intro)}</p>
+    <p>
+      <a href="${escapeHtml(url)}" style="display: inline-block; padding: 10px 18px; background: #6366f1; color: #ffffff; border-radius: 6px; text-decoration: none;">
+        ${isNewUser ? "Create my account" : "Sign in"}
+      </a>
+    </p>
+    <p style="font-size: 13px; color: #52606d;">Or paste this link into your browser:<br>${escapeHtml(url)}</p>
+    <p style="font-size: 13px; color: #52606d;">${escapeHtml(expiry)} ${escapeHtml(ignore)}</p>
+  </body>
+</html>
+`;
+
+  return { to, subject, text, html };
+}
@@ -0,0 +1,335 @@
+/**
+ * Mailer
+ *
+ * Everything the server emails (magic links) goes through a MailTransport,
+ * so the rest of the server doesn't care how mail leaves the building.
+ *
+ * Transports:
+ * - smtp: any SMTP server (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_SECURE)
+ * - file: writes each email as an .eml file to MAIL_OUTBOX_DIR (default
+ *   ./data/outbox), for local development and tests
+ *
+ * Pick one with MAIL_TRANSPORT (default "smtp" when SMTP_HOST is set,
+ * otherwise "file"), or swap one in with setMailTransport().
+ */
+
+import crypto from "node:crypto";
+import fs from "node:fs";
+import net from "node:net";
+import os from "node:os";
+import path from "node:path";
+import tls from "node:tls";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailTransport {
+  /** Stable identifier, e.g. for logs */
+  id: string;
+  /** Deliver a complete MIME message; throws if it can't */
+  send(envelope: { from: string; to: string }, mime: string): Promise<void>;
+}
+
+const DEFAULT_FROM = "Body Double <no-reply@localhost>";
+
+// ============================================
+// Message Building
+// ============================================
+
+/**
+ * The bare address from "Name <address>" or "address"
+ */
+function addressOf(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+/**
+ * Encode a header value as RFC 2047 UTF-8 if it isn't plain ASCII
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+function base64Lines(content: string): string {
+  return (
+    Buffer.from(content, "utf8")
+      .toString("base64")
+      .match(/.{1,76}/g)
+      ?.join("\r\n") ?? ""
+  );
+}
+
+/**
+ * Build a multipart/alternative MIME message with plain-text and HTML parts
+ */
+export function buildMimeMessage(message: MailMessage, from: string, date = new Date()): string {
+  const boundary = `body-double-${crypto.randomBytes(12).toString("hex")}`;
+  const domain = addressOf(from).split("@")[1] || "localhost";
+
+  const part = (contentType: string, content: string) =>
+    [
+      `--${boundary}`,
+      `Content-Type: ${contentType}; charset=utf-8`,
+      "Content-Transfer-Encoding: base64",
+      "",
+      base64Lines(content),
+    ].join("\r\n");
+
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    part("text/plain", message.text),
+    part("text/html", message.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
+
+// ============================================
+// File Transport
+// ============================================
+
+/**
+ * Write each email to `dir` as an .eml file instead of sending it
+ */
+export function createFileTransport(dir: string): MailTransport {
+  return {
+    id: "file",
+    async send(envelope, mime) {
+      await fs.promises.mkdir(dir, { recursive: true });
+      const fileName = `${Date.now()}-${crypto.randomBytes(4).toString("hex")}.eml`;
+      const filePath = path.join(dir, fileName);
+      await fs.promises.writeFile(filePath, mime);
+      console.log(`Email to ${envelope.to} written to ${filePath}`);
+    },
+  };
+}
+
+// ============================================
+// SMTP Transport
+// ============================================
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** Connect over TLS from the start (port 465); otherwise STARTTLS if offered */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  /** Send credentials even when the connection isn't encrypted (local relays only) */
+  allowInsecureAuth?: boolean;
+}
+
+// Give up on a server that stops answering
+const SMTP_TIMEOUT_MS = 15000;
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+/**
+ * Read SMTP replies (possibly multi-line) off a socket, one at a time
+ */
+function readReplies(socket: net.Socket) {
+  let buffer = "";
+  let lines: string[] = [];
+  const replies: SmtpReply[] = [];
+  let failure: Error | null = null;
+  let waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null =
+    null;
+
+  const flush = () => {
+    if (!waiting) return;
+    const { resolve, reject } = waiting;
+    if (replies.length > 0) {
+      waiting = null;
+      resolve(replies.shift()!);
+    } else if (failure) {
+      waiting = null;
+      reject(failure);
+    }
+  };
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let end: number;
+    while ((end = buffer.indexOf("\r\n")) >= 0) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      lines.push(line.slice(4));
+      // "250-..." continues the reply, "250 ..." ends it
+      if (line[3] !== "-") {
+        replies.push({ code: parseInt(line.slice(0, 3), 10), text: lines.join("\n") });
+        lines = [];
+      }
+    }
+    flush();
+  };
+  const onError = (error: Error) => {
+    failure = error;
+    flush();
+  };
+  const onClose = () => {
+    failure ??= new Error("SMTP connection closed");
+    flush();
+  };
+
+  socket.on("data", onData);
+  socket.on("error", onError);
+  socket.on("close", onClose);
+
+  return {
+    next(): Promise<SmtpReply> {
+      return new Promise((resolve, reject) => {
+        waiting = { resolve, reject };
+        flush();
+      });
+    },
+    detach(): void {
+      socket.off("data", onData);
+      socket.off("error", onError);
+      socket.off("close", onClose);
+    },
+  };
+}
+
+/**
+ * Send mail through an SMTP server. Credentials are only sent over TLS: a
+ * server that doesn't offer STARTTLS fails the send unless allowInsecureAuth
+ * is set.
+ */
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+  return {
+    id: "smtp",
+    async send(envelope, mime) {
+      let socket: net.Socket = config.secure
+        ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+        : net.connect({ host: config.host, port: config.port });
+      socket.setTimeout(SMTP_TIMEOUT_MS, () =>
+        socket.destroy(new Error("SMTP connection timed out"))
+      );
+      let replies = readReplies(socket);
+
+      const expect = async (step: string, codes: number[]): Promise<SmtpReply> => {
+        const reply = await replies.next();
+        if (!codes.includes(reply.code)) {
+          throw new Error(`SMTP ${step} failed: ${reply.code} ${reply.text}`);
+        }
+        return reply;
+      };
+      const command = (line: string, step: string, codes: number[]) => {
+        socket.write(`${line}\r\n`);
+        return expect(step, codes);
+      };
+
+      try {
+        await expect("greeting", [220]);
+        const hello = await command(`EHLO ${os.hostname()}`, "EHLO", [250]);
+        let encrypted = config.secure;
+
+        if (!config.secure && /^STARTTLS$/im.test(hello.text)) {
+          await command("STARTTLS", "STARTTLS", [220]);
+          replies.detach();
+          socket = tls.connect({ socket, servername: config.host });
+          socket.setTimeout(SMTP_TIMEOUT_MS, () =>
+            socket.destroy(new Error("SMTP connection timed out"))
+          );
+          replies = readReplies(socket);
+          await command(`EHLO ${os.hostname()}`, "EHLO", [250]);
+          encrypted = true;
+        }
+
+        if (config.user) {
+          if (!encrypted && !config.allowInsecureAuth) {
+            throw new Error(
+              "SMTP server doesn't offer STARTTLS; not sending credentials unencrypted (set SMTP_ALLOW_INSECURE_AUTH=true to allow it)"
+            );
+          }
+          const credentials = Buffer.from(`\0${config.user}\0${config.pass ?? ""}`).toString(
+            "base64"
+          );
+          await command(`AUTH PLAIN ${credentials}`, "AUTH", [235]);
+        }
+
+        await command(`MAIL FROM:<${addressOf(envelope.from)}>`, "MAIL FROM", [250]);
+        await command(`RCPT TO:<${addressOf(envelope.to)}>`, "RCPT TO", [250, 251]);
+        await command("DATA", "DATA", [354]);
+
+        // Lines starting with a dot get another one so they don't end the message
+        const body = mime.replace(/\r\n$/, "").replace(/^\./gm, "..");
+        await command(`${body}\r\n.`, "message", [250]);
+
+        await command("QUIT", "QUIT", [221]).catch(() => undefined);
+      } finally {
+        replies.detach();
+        socket.destroy();
+      }
+    },
+  };
+}
+
+// ============================================
+// Active Transport
+// ============================================
+
+let transport: MailTransport | null = null;
+
+/**
+ * The transport selected by MAIL_TRANSPORT, or the one set with setMailTransport
+ */
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    const name = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : "file");
+    if (name === "smtp") {
+      if (!process.env.SMTP_HOST) {
+        throw new Error("SMTP_HOST environment variable is required for the smtp transport");
+      }
+      const port = parseInt(process.env.SMTP_PORT || "587", 10);
+      transport = createSmtpTransport({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+        allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === "true",
+      });
+    } else if (name === "file") {
+      transport = createFileTransport(
+        process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), "data", "outbox")
+      );
+    } else {
+      throw new Error(`Unknown MAIL_TRANSPORT: ${name} (expected "smtp" or "file")`);
+    }
+  }
+  return transport;
+}
+
+/**
+ * Swap the active transport (null goes back to MAIL_TRANSPORT)
+ */
+export function setMailTransport(next: MailTransport | null): void {
+  transport = next;
+}
+
+/**
+ * Send an email from MAIL_FROM through the active transport.
+ * Throws if the transport can't deliver it.
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  const from = process.env.MAIL_FROM || DEFAULT_FROM;
+  await getMailTransport().send({ from, to: message.to }, buildMimeMessage(message, from));
+}
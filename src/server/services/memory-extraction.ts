@@ -0,0 +1,318 @@
+/**
+ * Memory Extraction Service
+ *
+ * When a session ends, reads its transcript and asks the model for things
+ * worth remembering (wins, distractions, insights, etc.). Candidates are
+ * de-duplicated against what we already know and held as pending until the
+ * user accepts or rejects them, so nothing goes live without review.
+ */
+
+import crypto from "node:crypto";
+import { getDb } from "../db/index.js";
+import { generateMemoryExtraction } from "./companion.js";
+import { isOverBudget } from "./usage.js";
+import {
+  createMemory,
+  getAllMemories,
+  MEMORY_CATEGORIES,
+  type Memory,
+  type MemoryUpdateInput,
+} from "./memory.js";
+import type { MemoryCategory, Message, PendingMemory, Session, User } from "../db/schema.js";
+
+export interface MemoryCandidate {
+  category: MemoryCategory;
+  content: string;
+  importance: number;
+}
+
+// Only the most recent part of long sessions is sent to the model
+const MAX_TRANSCRIPT_MESSAGES = 60;
+
+// Word overlap above which two memories are considered the same fact
+const DUPLICATE_SIMILARITY = 0.8;
+
+// ============================================
+// Extraction
+// ============================================
+
+/**
+ * Build the extraction prompt for a session transcript
+ */
+function buildExtractionPrompt(
+  userName: string,
+  task: string,
+  transcript: string,
+  knownMemories: string[]
+): string {
+  const known =
+    knownMemories.length > 0 ? knownMemories.map((m) => `- ${m}`).join("\n") : "- Nothing yet";
+
+  return `Here is a transcript of a focus session between ${userName} and their work companion. They were working on: "${task}".
+
+<transcript>
+${transcript}
+</transcript>
+
+Things we already remember about ${userName} (don't repeat these):
+${known}
+
+Extract new, durable facts about ${userName} that would help in future sessions. Use these categories:
+- project: Current projects they're working on
+- interest: Interests and hobbies
+- challenge: Challenges or blockers they face
+- insight: What works (or doesn't) for them
+- distraction: Distractions to watch for
+- goal: Short or long-term goals
+- preference: How they like to interact
+- win: Wins worth celebrating later
+- context: General context about their life or work
+
+Rate importance from 1 (minor) to 5 (core to who they are). Skip small talk and anything only relevant to today. Return an empty array if nothing is worth remembering.
+
+Respond with a JSON array only, e.g. [{"category": "win", "content": "Shipped the billing migration", "importance": 3}]`;
+}
+
+/**
+ * Parse the model's response into valid memory candidates.
+ * Tolerates surrounding prose or code fences; drops malformed entries.
+ */
+export function parseMemoryCandidates(raw: string): MemoryCandidate[] {
+  const start = raw.indexOf("[");
+  const end = raw.lastIndexOf("]");
+  if (start === -1 || end <= start) {
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw.slice(start, end + 1));
+  } catch {
+    return [];
+  }
+
+  if (!Array.isArray(parsed)) {
+    return [];
+  }
+
+  const candidates: MemoryCandidate[] = [];
+  for (const item of parsed) {
+    if (
+      !item ||
+      typeof item.content !== "string" ||
+      !item.content.trim() ||
+      !MEMORY_CATEGORIES.includes(item.category)
+    ) {
+      continue;
+    }
+
+    const importance = Math.round(Number(item.importance) || 1);
+    candidates.push({
+      category: item.category,
+      content: item.content.trim(),
+      importance: Math.min(5, Math.max(1, importance)),
+    });
+  }
+
+  return candidates;
+}
+
+/**
+ * Normalize memory content for comparison
+ */
+function normalizeContent(content: string): string {
+  return content
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Check if content says the same thing as any of the known memories
+ */
+export function isDuplicateMemory(content: string, known: string[]): boolean {
+  const normalized = normalizeContent(content);
+  const words = new Set(normalized.split(" "));
+
+  return known.some((other) => {
+    const otherNormalized = normalizeContent(other);
+    if (otherNormalized === normalized) {
+      return true;
+    }
+
+    // Jaccard similarity of the word sets
+    const otherWords = new Set(otherNormalized.split(" "));
+    const shared = [...words].filter((w) => otherWords.has(w)).length;
+    const union = new Set([...words, ...otherWords]).size;
+    return union > 0 && shared / union >= DUPLICATE_SIMILARITY;
+  });
+}
+
+/**
+ * Extract pending memories from a finished session.
+ * Returns the newly created pending memories (possibly empty).
+ */
+export async function extractSessionMemories(
+  userId: string,
+  sessionId: string
+): Promise<PendingMemory[]> {
+  const db = getDb();
+
+  const session = db
+    .prepare(`SELECT * FROM sessions WHERE id = ? AND user_id = ?`)
+    .get(sessionId, userId) as Session | undefined;
+  if (!session || isOverBudget(userId)) {
+    return [];
+  }
+
+  const messages = db
+    .prepare(
+      `
+    SELECT role, content FROM messages
+    WHERE session_id = ?
+    ORDER BY created_at ASC, rowid ASC
+  `
+    )
+    .all(sessionId) as Pick<Message, "role" | "content">[];
+
+  // Nothing the user said means nothing to learn from
+  if (!messages.some((m) => m.role === "user")) {
+    return [];
+  }
+
+  const user = db.prepare(`SELECT name FROM users WHERE id = ?`).get(userId) as Pick<User, "name">;
+
+  const transcript = messages
+    .slice(-MAX_TRANSCRIPT_MESSAGES)
+    .map((m) => `${m.role === "user" ? user.name : "Companion"}: ${m.content}`)
+    .join("\n");
+
+  // Compare against live memories and everything already proposed, including
+  // rejected candidates, so the user isn't asked about the same thing twice
+  const proposed = db
+    .prepare(`SELECT content FROM pending_memories WHERE user_id = ?`)
+    .all(userId) as Array<{ content: string }>;
+  const liveMemories = getAllMemories(userId).map((m) => m.content);
+  const known = [...liveMemories, ...proposed.map((p) => p.content)];
+
+  const raw = await generateMemoryExtraction(
+    userId,
+    sessionId,
+    buildExtractionPrompt(
+      user.name,
+      session.declared_task || "their task",
+      transcript,
+      liveMemories
+    )
+  );
+
+  const insert = db.prepare(
+    `
+    INSERT INTO pending_memories (id, user_id, session_id, category, content, importance)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `
+  );
+
+  const ids: string[] = [];
+  for (const candidate of parseMemoryCandidates(raw)) {
+    if (isDuplicateMemory(candidate.content, known)) {
+      continue;
+    }
+
+    const id = crypto.randomUUID();
+    insert.run(id, userId, sessionId, candidate.category, candidate.content, candidate.importance);
+    known.push(candidate.content);
+    ids.push(id);
+  }
+
+  return ids.map(
+    (id) => db.prepare(`SELECT * FROM pending_memories WHERE id = ?`).get(id) as PendingMemory
+  );
+}
+
+// ============================================
+// Review
+// ============================================
+
+/**
+ * Get memories waiting for review
+ */
+export function getPendingMemories(userId: string): PendingMemory[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `
+    SELECT * FROM pending_memories
+    WHERE user_id = ? AND status = 'pending'
+    ORDER BY created_at DESC, importance DESC
+  `
+    )
+    .all(userId) as PendingMemory[];
+}
+
+/**
+ * Get a pending memory that is still awaiting review
+ */
+function getReviewablePendingMemory(userId: string, pendingId: string): PendingMemory | null {
+  const db = getDb();
+  const row = db
+    .prepare(
+      `
+    SELECT * FROM pending_memories
+    WHERE id = ? AND user_id = ? AND status = 'pending'
+  `
+    )
+    .get(pendingId, userId) as PendingMemory | undefined;
+
+  return row ?? null;
+}
+
+/**
+ * Accept a pending memory, optionally with edits, making it a live memory
+ * sourced from its session. Returns null if it isn't pending.
+ */
+export function acceptPendingMemory(
+  userId: string,
+  pendingId: string,
+  edits: MemoryUpdateInput = {}
+): Memory | null {
+  const db = getDb();
+  const pending = getReviewablePendingMemory(userId, pendingId);
+  if (!pending) {
+    return null;
+  }
+
+  const accept = db.transaction(() => {
+    db.prepare(
+      `UPDATE pending_memories SET status = 'accepted', reviewed_at = datetime('now') WHERE id = ?`
+    ).run(pendingId);
+
+    return createMemory(userId, {
+      category: edits.category ?? pending.category,
+      content: edits.content ?? pending.content,
+      importance: edits.importance ?? pending.importance,
+      source: pending.session_id,
+    });
+  });
+
+  return accept();
+}
+
+/**
+ * Reject a pending memory. Returns false if it isn't pending.
+ */
+export function rejectPendingMemory(userId: string, pendingId: string): boolean {
+  const db = getDb();
+  const result = db
+    .prepare(
+      `
+    UPDATE pending_memories
+    SET status = 'rejected', reviewed_at = datetime('now')
+    WHERE id = ? AND user_id = ? AND status = 'pending'
+  `
+    )
+    .run(pendingId, userId);
+
+  return result.changes > 0;
+}
@@ -0,0 +1,339 @@
+/**
+ * Memory Maintenance Service
+ *
+ * Keeps a user's memories healthy as they accumulate. Run periodically by
+ * the scheduler:
+ * - Decay: lowers importance of memories that haven't been referenced in a while
+ * - Consolidation: merges near-duplicate memories within a category
+ * - Archiving: retires project memories that have gone stale
+ * - Conflicts: flags pairs of memories that seem to contradict each other
+ */
+
+import crypto from "node:crypto";
+import { getDb } from "../db/index.js";
+import { cosineSimilarity, embedText, getEmbeddingProvider } from "./embeddings.js";
+import { archiveMemory, getMemory, getMemoryEmbedding, type Memory } from "./memory.js";
+import type { MemoryConflict, UserContextItem } from "../db/schema.js";
+
+// Weeks without a reference before importance starts to decay (one step per period)
+const DECAY_AFTER_WEEKS = 4;
+
+// Weeks without a reference before a project memory is archived
+const ARCHIVE_PROJECTS_AFTER_WEEKS = 8;
+
+// Similarity at or above which two memories in a category are merged
+const CONSOLIDATE_SIMILARITY = 0.85;
+
+// Pairs at least this similar are checked for contradictions
+const CONFLICT_MIN_SIMILARITY = 0.4;
+
+const NEGATION_PATTERN =
+  /\b(not|no longer|never|don't|doesn't|didn't|isn't|aren't|stopped|quit|dislikes?|hates?)\b/i;
+const CURRENT_PATTERN = /\b(current|currently|right now|these days)\b/i;
+
+export interface MemoryMaintenanceResult {
+  decayed: number;
+  merged: number;
+  archived: number;
+  conflicts: number;
+}
+
+export interface MemoryConflictWithMemories {
+  id: string;
+  reason: string;
+  createdAt: string;
+  memoryA: Memory;
+  memoryB: Memory;
+}
+
+/**
+ * Check if exactly one of two memories is phrased as a negation
+ * ("Likes X" vs "No longer likes X") - these are never duplicates
+ */
+function negates(a: UserContextItem, b: UserContextItem): boolean {
+  return NEGATION_PATTERN.test(a.content) !== NEGATION_PATTERN.test(b.content);
+}
+
+/**
+ * Get live memory rows grouped by category, most important first
+ */
+function getLiveRowsByCategory(userId: string): Map<string, UserContextItem[]> {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      `
+    SELECT * FROM user_context_items
+    WHERE user_id = ? AND archived_at IS NULL
+    ORDER BY importance DESC, last_referenced DESC
+  `
+    )
+    .all(userId) as UserContextItem[];
+
+  const byCategory = new Map<string, UserContextItem[]>();
+  for (const row of rows) {
+    const group = byCategory.get(row.category) || [];
+    group.push(row);
+    byCategory.set(row.category, group);
+  }
+  return byCategory;
+}
+
+// ============================================
+// Maintenance steps
+// ============================================
+
+/**
+ * Lower importance by one for memories not referenced in DECAY_AFTER_WEEKS.
+ * Each memory decays at most once per period and never below 1.
+ */
+export function decayMemories(userId: string): number {
+  const db = getDb();
+  const days = DECAY_AFTER_WEEKS * 7;
+
+  const result = db
+    .prepare(
+      `
+    UPDATE user_context_items
+    SET importance = importance - 1, last_decayed_at = datetime('now')
+    WHERE user_id = ?
+      AND archived_at IS NULL
+      AND importance > 1
+      AND last_referenced < datetime('now', '-' || ? || ' days')
+      AND (last_decayed_at IS NULL OR last_decayed_at < datetime('now', '-' || ? || ' days'))
+  `
+    )
+    .run(userId, days, days);
+
+  return result.changes;
+}
+
+/**
+ * Merge near-duplicate memories within the same category.
+ * The more important memory survives, keeping the more detailed wording,
+ * the highest importance and the latest reference time.
+ */
+export function consolidateMemories(userId: string): number {
+  const db = getDb();
+  let merged = 0;
+
+  const mergeInto = db.transaction((keep: UserContextItem, drop: UserContextItem) => {
+    const content = drop.content.length > keep.content.length ? drop.content : keep.content;
+    const lastReferenced =
+      drop.last_referenced > keep.last_referenced ? drop.last_referenced : keep.last_referenced;
+
+    db.prepare(
+      `
+      UPDATE user_context_items
+      SET content = ?, importance = ?, last_referenced = ?, embedding = ?, embedding_model = ?
+      WHERE id = ?
+    `
+    ).run(
+      content,
+      Math.max(keep.importance, drop.importance),
+      lastReferenced,
+      JSON.stringify(embedText(content)),
+      getEmbeddingProvider().id,
+      keep.id
+    );
+
+    db.prepare(`DELETE FROM memory_conflicts WHERE memory_a_id = ? OR memory_b_id = ?`).run(
+      drop.id,
+      drop.id
+    );
+    db.prepare(`DELETE FROM user_context_items WHERE id = ?`).run(drop.id);
+
+    keep.content = content;
+  });
+
+  for (const rows of getLiveRowsByCategory(userId).values()) {
+    const removed = new Set<string>();
+
+    for (let i = 0; i < rows.length; i++) {
+      if (removed.has(rows[i].id)) continue;
+
+      for (let j = i + 1; j < rows.length; j++) {
+        if (removed.has(rows[j].id)) continue;
+
+        const similarity = cosineSimilarity(
+          getMemoryEmbedding(rows[i]),
+          getMemoryEmbedding(rows[j])
+        );
+        if (similarity >= CONSOLIDATE_SIMILARITY && !negates(rows[i], rows[j])) {
+          mergeInto(rows[i], rows[j]);
+          removed.add(rows[j].id);
+          merged++;
+        }
+      }
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Archive project memories not referenced in ARCHIVE_PROJECTS_AFTER_WEEKS
+ */
+export function archiveStaleProjects(userId: string): number {
+  const db = getDb();
+  const result = db
+    .prepare(
+      `
+    UPDATE user_context_items
+    SET archived_at = datetime('now')
+    WHERE user_id = ?
+      AND category = 'project'
+      AND archived_at IS NULL
+      AND last_referenced < datetime('now', '-' || ? || ' days')
+  `
+    )
+    .run(userId, ARCHIVE_PROJECTS_AFTER_WEEKS * 7);
+
+  return result.changes;
+}
+
+/**
+ * Explain why two memories in the same category contradict, or null if they don't
+ */
+function findContradiction(a: UserContextItem, b: UserContextItem): string | null {
+  // Only one thing can be "the current" project
+  if (
+    a.category === "project" &&
+    CURRENT_PATTERN.test(a.content) &&
+    CURRENT_PATTERN.test(b.content)
+  ) {
+    return "Both describe the current project";
+  }
+
+  // Same topic, but one negates it
+  if (
+    negates(a, b) &&
+    cosineSimilarity(getMemoryEmbedding(a), getMemoryEmbedding(b)) >= CONFLICT_MIN_SIMILARITY
+  ) {
+    return "One memory negates the other";
+  }
+
+  return null;
+}
+
+/**
+ * Flag contradictory pairs of memories for the user to resolve.
+ * Pairs that were flagged before (even if resolved) aren't flagged again.
+ */
+export function flagMemoryConflicts(userId: string): number {
+  const db = getDb();
+  let flagged = 0;
+
+  const existing = db.prepare(
+    `
+    SELECT id FROM memory_conflicts
+    WHERE (memory_a_id = ? AND memory_b_id = ?) OR (memory_a_id = ? AND memory_b_id = ?)
+  `
+  );
+  const insert = db.prepare(
+    `
+    INSERT INTO memory_conflicts (id, user_id, memory_a_id, memory_b_id, reason)
+    VALUES (?, ?, ?, ?, ?)
+  `
+  );
+
+  for (const rows of getLiveRowsByCategory(userId).values()) {
+    for (let i = 0; i < rows.length; i++) {
+      for (let j = i + 1; j < rows.length; j++) {
+        const [a, b] = [rows[i], rows[j]];
+
+        const reason = findContradiction(a, b);
+        if (!reason || existing.get(a.id, b.id, b.id, a.id)) continue;
+
+        insert.run(crypto.randomUUID(), userId, a.id, b.id, reason);
+        flagged++;
+      }
+    }
+  }
+
+  return flagged;
+}
+
+/**
+ * Run every maintenance step for a user
+ */
+export function runMemoryMaintenance(userId: string): MemoryMaintenanceResult {
+  const decayed = decayMemories(userId);
+  const merged = consolidateMemories(userId);
+  const archived = archiveStaleProjects(userId);
+  const conflicts = flagMemoryConflicts(userId);
+
+  return { decayed, merged, archived, conflicts };
+}
+
+// ============================================
+// Conflict review
+// ============================================
+
+/**
+ * Get a single conflict for a user
+ */
+export function getMemoryConflict(userId: string, conflictId: string): MemoryConflict | null {
+  const db = getDb();
+  const row = db
+    .prepare(`SELECT * FROM memory_conflicts WHERE id = ? AND user_id = ?`)
+    .get(conflictId, userId) as MemoryConflict | undefined;
+
+  return row ?? null;
+}
+
+/**
+ * Get open conflicts with both memories attached
+ */
+export function getMemoryConflicts(userId: string): MemoryConflictWithMemories[] {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      `
+    SELECT * FROM memory_conflicts
+    WHERE user_id = ? AND status = 'open'
+    ORDER BY created_at DESC
+  `
+    )
+    .all(userId) as MemoryConflict[];
+
+  const conflicts: MemoryConflictWithMemories[] = [];
+  for (const row of rows) {
+    const memoryA = getMemory(userId, row.memory_a_id);
+    const memoryB = getMemory(userId, row.memory_b_id);
+    if (!memoryA || !memoryB) continue;
+
+    conflicts.push({ id: row.id, reason: row.reason, createdAt: row.created_at, memoryA, memoryB });
+  }
+  return conflicts;
+}
+
+/**
+ * Resolve a conflict. If keepMemoryId is given, the other memory is archived;
+ * otherwise both are kept. Returns false if the conflict isn't open.
+ */
+export function resolveMemoryConflict(
+  userId: string,
+  conflictId: string,
+  keepMemoryId?: string
+): boolean {
+  const db = getDb();
+  const conflict = getMemoryConflict(userId, conflictId);
+  if (!conflict || conflict.status !== "open") {
+    return false;
+  }
+
+  const resolve = db.transaction(() => {
+    if (keepMemoryId) {
+      const other =
+        keepMemoryId === conflict.memory_a_id ? conflict.memory_b_id : conflict.memory_a_id;
+      archiveMemory(userId, other);
+    }
+
+    db.prepare(
+      `UPDATE memory_conflicts SET status = 'resolved', resolved_at = datetime('now') WHERE id = ?`
+    ).run(conflictId);
+  });
+
+  resolve();
+  return true;
+}
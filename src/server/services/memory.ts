@@ -7,6 +7,7 @@
 
 import crypto from "node:crypto";
 import { getDb } from "../db/index.js";
+import { cosineSimilarity, embedText, getEmbeddingProvider } from "./embeddings.js";
 import type { UserContextItem, MemoryCategory } from "../db/schema.js";
 
 export interface Memory {
@@ -17,6 +18,7 @@ export interface Memory {
   lastReferenced: string;
   createdAt: string;
   source?: string;
+  archivedAt?: string | null;
 }
 
 export interface MemoryCreateInput {
@@ -45,6 +47,12 @@ export const MEMORY_CATEGORIES: MemoryCategory[] = [
   "context",
 ];
 
+// How much semantic similarity (0-1) counts relative to the importance and recency boosts
+const SIMILARITY_WEIGHT = 4;
+
+// Minimum similarity for a memory to count as a search hit (exact substring matches always count)
+const SEARCH_MIN_SIMILARITY = 0.2;
+
 /**
  * Transform DB row to Memory object
  */
@@ -57,25 +65,31 @@ function toMemory(row: UserContextItem): Memory {
     lastReferenced: row.last_referenced,
     createdAt: row.created_at,
     source: row.source,
+    archivedAt: row.archived_at ?? null,
   };
 }
 
 /**
- * Get all memories for a user
+ * Get all live (non-archived) memory rows for a user, most important first
  */
-export function getAllMemories(userId: string): Memory[] {
+function getMemoryRows(userId: string): UserContextItem[] {
   const db = getDb();
-  const rows = db
+  return db
     .prepare(
       `
     SELECT * FROM user_context_items
-    WHERE user_id = ?
+    WHERE user_id = ? AND archived_at IS NULL
     ORDER BY importance DESC, last_referenced DESC
   `
     )
     .all(userId) as UserContextItem[];
+}
 
-  return rows.map(toMemory);
+/**
+ * Get all memories for a user
+ */
+export function getAllMemories(userId: string): Memory[] {
+  return getMemoryRows(userId).map(toMemory);
 }
 
 /**
@@ -87,7 +101,7 @@ export function getMemoriesByCategory(userId: string, category: MemoryCategory):
     .prepare(
       `
     SELECT * FROM user_context_items
-    WHERE user_id = ? AND category = ?
+    WHERE user_id = ? AND category = ? AND archived_at IS NULL
     ORDER BY importance DESC, last_referenced DESC
   `
     )
@@ -122,10 +136,19 @@ export function createMemory(userId: string, input: MemoryCreateInput): Memory {
 
   db.prepare(
     `
-    INSERT INTO user_context_items (id, user_id, category, content, importance, source)
-    VALUES (?, ?, ?, ?, ?, ?)
+    INSERT INTO user_context_items (id, user_id, category, content, importance, source, embedding, embedding_model)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
   `
-  ).run(id, userId, input.category, input.content, input.importance ?? 1, input.source ?? null);
+  ).run(
+    id,
+    userId,
+    input.category,
+    input.content,
+    input.importance ?? 1,
+    input.source ?? null,
+    JSON.stringify(embedText(input.content)),
+    getEmbeddingProvider().id
+  );
 
   return getMemory(userId, id)!;
 }
@@ -150,8 +173,8 @@ export function updateMemory(
   const values: (string | number)[] = [];
 
   if (input.content !== undefined) {
-    updates.push("content = ?");
-    values.push(input.content);
+    updates.push("content = ?", "embedding = ?", "embedding_model = ?");
+    values.push(input.content, JSON.stringify(embedText(input.content)), getEmbeddingProvider().id);
   }
   if (input.importance !== undefined) {
     updates.push("importance = ?");
@@ -197,6 +220,61 @@ export function deleteMemory(userId: string, memoryId: string): boolean {
   return result.changes > 0;
 }
 
+/**
+ * Get archived memories for a user, most recently archived first
+ */
+export function getArchivedMemories(userId: string): Memory[] {
+  const db = getDb();
+  const rows = db
+    .prepare(
+      `
+    SELECT * FROM user_context_items
+    WHERE user_id = ? AND archived_at IS NOT NULL
+    ORDER BY archived_at DESC
+  `
+    )
+    .all(userId) as UserContextItem[];
+
+  return rows.map(toMemory);
+}
+
+/**
+ * Archive a memory so it's no longer used in prompts
+ */
+export function archiveMemory(userId: string, memoryId: string): boolean {
+  const db = getDb();
+  const result = db
+    .prepare(
+      `
+    UPDATE user_context_items
+    SET archived_at = datetime('now')
+    WHERE id = ? AND user_id = ? AND archived_at IS NULL
+  `
+    )
+    .run(memoryId, userId);
+
+  return result.changes > 0;
+}
+
+/**
+ * Restore an archived memory.
+ * Counts as a reference so it isn't immediately decayed or archived again.
+ */
+export function restoreMemory(userId: string, memoryId: string): Memory | null {
+  const db = getDb();
+  const result = db
+    .prepare(
+      `
+    UPDATE user_context_items
+    SET archived_at = NULL, last_referenced = datetime('now')
+    WHERE id = ? AND user_id = ? AND archived_at IS NOT NULL
+  `
+    )
+    .run(memoryId, userId);
+
+  return result.changes > 0 ? getMemory(userId, memoryId) : null;
+}
+
 /**
  * Touch a memory (update last_referenced timestamp)
  */
@@ -212,21 +290,75 @@ export function touchMemory(memoryId: string): void {
 }
 
 /**
- * Search memories by content
+ * Get the embedding for a memory row, re-embedding it if it's missing
+ * (older rows) or was produced by a different provider
  */
-export function searchMemories(userId: string, query: string): Memory[] {
-  const db = getDb();
-  const rows = db
-    .prepare(
-      `
-    SELECT * FROM user_context_items
-    WHERE user_id = ? AND content LIKE ?
-    ORDER BY importance DESC, last_referenced DESC
-  `
-    )
-    .all(userId, `%${query}%`) as UserContextItem[];
+export function getMemoryEmbedding(row: UserContextItem): number[] {
+  const provider = getEmbeddingProvider();
+  if (row.embedding && row.embedding_model === provider.id) {
+    return JSON.parse(row.embedding) as number[];
+  }
 
-  return rows.map(toMemory);
+  const vector = embedText(row.content);
+  getDb()
+    .prepare(`UPDATE user_context_items SET embedding = ?, embedding_model = ? WHERE id = ?`)
+    .run(JSON.stringify(vector), provider.id, row.id);
+  return vector;
+}
+
+/**
+ * Rank a user's memories against a query.
+ * Blends cosine similarity with the importance and recency boosts.
+ */
+function rankMemories(
+  userId: string,
+  query: string,
+  options: {
+    minSimilarity?: number;
+    limit?: number;
+    boostCategories?: MemoryCategory[];
+  } = {}
+): Memory[] {
+  const { minSimilarity = 0, limit, boostCategories = [] } = options;
+  const queryVector = embedText(query);
+  const queryLower = query.toLowerCase().trim();
+
+  const scored = getMemoryRows(userId).map((row) => {
+    const similarity = Math.max(0, cosineSimilarity(queryVector, getMemoryEmbedding(row)));
+    const exactMatch = queryLower.length > 0 && row.content.toLowerCase().includes(queryLower);
+
+    let score = similarity * SIMILARITY_WEIGHT;
+
+    // Boost by importance
+    score += row.importance * 0.5;
+
+    // Boost recent memories
+    const daysSinceReference =
+      (Date.now() - new Date(row.last_referenced).getTime()) / (1000 * 60 * 60 * 24);
+    if (daysSinceReference < 7) {
+      score += 1;
+    }
+
+    if (boostCategories.includes(row.category)) {
+      score += 0.5;
+    }
+
+    return { row, score, matches: exactMatch || similarity >= minSimilarity };
+  });
+
+  const ranked = scored
+    .filter((s) => s.matches)
+    .sort((a, b) => b.score - a.score)
+    .map((s) => toMemory(s.row));
+
+  return limit ? ranked.slice(0, limit) : ranked;
+}
+
+/**
+ * Search memories by meaning, ranked by relevance
+ */
+export function searchMemories(userId: string, query: string): Memory[] {
+  return rankMemories(userId, query, { minSimilarity: SEARCH_MIN_SIMILARITY });
 }
 
 /**
@@ -269,45 +401,11 @@ export function getMemorySummary(userId: string): {
  * Returns memories that might be relevant to the current task
  */
 export function getRelevantMemories(userId: string, taskDescription: string): Memory[] {
-  const allMemories = getAllMemories(userId);
-  const taskWords = taskDescription.toLowerCase().split(/\s+/);
-
-  // Score memories by relevance
-  const scored = allMemories.map((memory) => {
-    const contentLower = memory.content.toLowerCase();
-    let score = 0;
-
-    // Check for word matches
-    for (const word of taskWords) {
-      if (word.length > 3 && contentLower.includes(word)) {
-        score += 1;
-      }
-    }
-
-    // Boost by importance
-    score += memory.importance * 0.5;
-
-    // Boost recent memories
-    const daysSinceReference =
-      (Date.now() - new Date(memory.lastReferenced).getTime()) / (1000 * 60 * 60 * 24);
-    if (daysSinceReference < 7) {
-      score += 1;
-    }
-
-    // Boost certain categories for task context
-    if (["distraction", "challenge", "insight"].includes(memory.category)) {
-      score += 0.5;
-    }
-
-    return { memory, score };
+  // Distractions, challenges and insights are the most useful context while working
+  return rankMemories(userId, taskDescription, {
+    limit: 5,
+    boostCategories: ["distraction", "challenge", "insight"],
   });
-
-  // Return top relevant memories
-  return scored
-    .filter((s) => s.score > 0)
-    .sort((a, b) => b.score - a.score)
-    .slice(0, 5)
-    .map((s) => s.memory);
 }
 
 /**
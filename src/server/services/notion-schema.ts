@@ -0,0 +1,331 @@
+/**
+ * Notion Database Schemas
+ *
+ * Works out which property of a database holds what, so users don't have to
+ * type property names by hand: each property gets a guessed role, a property
+ * map is suggested for what the database is used for (tasks, notes or
+ * calendar), and an edited map is checked against the schema and a sample
+ * query before it's saved with the connection.
+ */
+
+import {
+  getNotionConnection,
+  notionRequest,
+  propertyText,
+  DEFAULT_PROPERTY_MAPS,
+  type NotionPage,
+  type NotionPropertyMaps,
+  type NotionTriggeredBy,
+} from "./notion.js";
+import type { NotionDatabaseUse } from "../db/schema.js";
+
+export type NotionPropertyRole = "title" | "status" | "date" | "checkbox" | "select";
+
+export interface NotionSchemaProperty {
+  name: string;
+  type: string;
+  role: NotionPropertyRole | null;
+  /** Option names for select, multi-select and status properties */
+  options: string[];
+}
+
+export interface NotionDatabaseSchema {
+  id: string;
+  title: string;
+  properties: NotionSchemaProperty[];
+}
+
+type MapField<U extends NotionDatabaseUse> = keyof NotionPropertyMaps[U] & string;
+
+/**
+ * A property map that may not fit its database yet: a suggestion can leave
+ * required fields null when the database has nothing suitable
+ */
+export type DraftPropertyMap<U extends NotionDatabaseUse> = {
+  [K in keyof NotionPropertyMaps[U]]: NotionPropertyMaps[U][K] | null;
+};
+
+/**
+ * Property types each map field can point at, per database use. Fields are
+ * listed in the order they're guessed, so more specific fields claim their
+ * property first. Settings like statusType aren't properties and aren't listed.
+ */
+const FIELD_TYPES: {
+  [U in NotionDatabaseUse]: Partial<Record<MapField<U>, string[]>>;
+} = {
+  tasks: {
+    title: ["title"],
+    status: ["status", "select"],
+    dueDate: ["date"],
+    priority: ["select", "status"],
+    createdBy: ["select"],
+    notes: ["rich_text"],
+  },
+  notes: {
+    title: ["title"],
+    date: ["date", "created_time"],
+    tags: ["multi_select", "select"],
+    source: ["select"],
+  },
+  calendar: {
+    title: ["title"],
+    date: ["date"],
+    type: ["select"],
+    context: ["rich_text"],
+  },
+};
+
+// Fields every database of that use needs; the rest may be null
+const REQUIRED_FIELDS: { [U in NotionDatabaseUse]: Array<MapField<U>> } = {
+  tasks: ["title", "status", "dueDate"],
+  notes: ["title"],
+  calendar: ["title", "date"],
+};
+
+// Property names that suggest which field a property is for
+const FIELD_NAME_HINTS: Record<string, RegExp> = {
+  status: /status|stage|state|progress/i,
+  dueDate: /due|deadline|date/i,
+  priority: /priority|importance|urgency/i,
+  createdBy: /created.?by|creator|author|added.?by/i,
+  notes: /note|detail|description|comment/i,
+  date: /date|when|time|created/i,
+  tags: /tag|label|categor/i,
+  source: /source|origin/i,
+  type: /type|kind|categor/i,
+  context: /context|detail|note|description/i,
+};
+
+/**
+ * The property fields of a use's map and the types each can point at, in
+ * guessing order
+ */
+function propertyFields<U extends NotionDatabaseUse>(use: U): Array<[MapField<U>, string[]]> {
+  return Object.entries(FIELD_TYPES[use]) as Array<[MapField<U>, string[]]>;
+}
+
+/**
+ * The property name a map gives for a field, or null if it has none
+ */
+function propertyName(map: object, field: string): string | null {
+  const value = (map as Record<string, unknown>)[field];
+  return typeof value === "string" ? value : null;
+}
+
+const TODO_OPTION = /^(to.?do|not.started|backlog|open|new|planned)$/i;
+const DONE_OPTION = /^(done|complete|completed|finished|closed)$/i;
+const IN_PROGRESS_OPTION = /in.progress|doing|^(started|active|working)$/i;
+const BLOCKED_OPTION = /blocked|on.hold|waiting|stuck/i;
+
+interface NotionDatabaseResponse {
+  id: string;
+  title?: Array<{ plain_text: string }>;
+  properties: Record<
+    string,
+    {
+      name: string;
+      type: string;
+      select?: { options: Array<{ name: string }> };
+      multi_select?: { options: Array<{ name: string }> };
+      status?: { options: Array<{ name: string }> };
+    }
+  >;
+}
+
+/**
+ * Guess what a property is for from its type (and name, for selects that
+ * are really a status)
+ */
+export function guessPropertyRole(name: string, type: string): NotionPropertyRole | null {
+  switch (type) {
+    case "title":
+      return "title";
+    case "status":
+      return "status";
+    case "select":
+      return FIELD_NAME_HINTS.status.test(name) ? "status" : "select";
+    case "multi_select":
+      return "select";
+    case "date":
+    case "created_time":
+    case "last_edited_time":
+      return "date";
+    case "checkbox":
+      return "checkbox";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Retrieve a database's properties with a guessed role for each.
+ * Returns null if Notion isn't connected or the call fails.
+ */
+export async function getDatabaseSchema(
+  userId: string,
+  databaseId: string,
+  triggeredBy: NotionTriggeredBy = "user_request"
+): Promise<NotionDatabaseSchema | null> {
+  const connection = getNotionConnection(userId);
+  if (!connection) return null;
+
+  const database = await notionRequest<NotionDatabaseResponse>(
+    userId,
+    connection.access_token,
+    `/databases/${databaseId}`,
+    {
+      operation: "Retrieve database schema",
+      triggeredBy,
+      notionObjectId: databaseId,
+      notionObjectType: "database",
+    }
+  );
+  if (!database) return null;
+
+  return {
+    id: database.id,
+    title: database.title?.map((t) => t.plain_text).join("") || "Untitled",
+    properties: Object.values(database.properties).map((p) => ({
+      name: p.name,
+      type: p.type,
+      role: guessPropertyRole(p.name, p.type),
+      options: (p.select ?? p.multi_select ?? p.status)?.options.map((o) => o.name) ?? [],
+    })),
+  };
+}
+
+/**
+ * Suggest a property map for using a database as tasks, notes or calendar.
+ * Required fields with no suitable property come back null and are listed
+ * in missing.
+ */
+export function suggestPropertyMap<U extends NotionDatabaseUse>(
+  use: U,
+  schema: NotionDatabaseSchema
+): { map: DraftPropertyMap<U>; missing: string[] } {
+  const names: Record<string, string | null> = {};
+  const claimed = new Set<string>();
+  const required: string[] = REQUIRED_FIELDS[use];
+
+  for (const [field, types] of propertyFields(use)) {
+    const candidates = schema.properties.filter(
+      (p) => types.includes(p.type) && !claimed.has(p.name)
+    );
+    const hint = FIELD_NAME_HINTS[field];
+    // Only fall back to an unhinted property for fields the database can't do without
+    const property =
+      (hint && candidates.find((p) => hint.test(p.name))) ??
+      (required.includes(field) ? candidates[0] : undefined);
+
+    names[field] = property?.name ?? null;
+    if (property) claimed.add(property.name);
+  }
+
+  if (use === "tasks") {
+    const status = schema.properties.find((p) => p.name === names.status);
+    const defaults = DEFAULT_PROPERTY_MAPS.tasks;
+    Object.assign(names, {
+      statusType: status?.type === "status" ? "status" : "select",
+      todoStatus: status?.options.find((o) => TODO_OPTION.test(o)) ?? defaults.todoStatus,
+      doneStatus: status?.options.find((o) => DONE_OPTION.test(o)) ?? defaults.doneStatus,
+      inProgressStatus:
+        status?.options.find((o) => IN_PROGRESS_OPTION.test(o)) ?? defaults.inProgressStatus,
+      blockedStatus: status?.options.find((o) => BLOCKED_OPTION.test(o)) ?? null,
+    });
+  }
+
+  return {
+    map: { ...DEFAULT_PROPERTY_MAPS[use], ...names },
+    missing: required.filter((field) => !names[field]),
+  };
+}
+
+/**
+ * Check a property map against a database's schema.
+ * Returns a list of problems, empty if the map fits.
+ */
+export function checkPropertyMap<U extends NotionDatabaseUse>(
+  use: U,
+  map: DraftPropertyMap<U>,
+  schema: NotionDatabaseSchema
+): string[] {
+  const problems: string[] = [];
+
+  for (const [field, types] of propertyFields(use)) {
+    const name = propertyName(map, field);
+    if (!name) {
+      if (REQUIRED_FIELDS[use].includes(field)) {
+        problems.push(`${field} is required`);
+      }
+      continue;
+    }
+
+    const property = schema.properties.find((p) => p.name === name);
+    if (!property) {
+      problems.push(`No property named "${name}" (for ${field})`);
+    } else if (!types.includes(property.type)) {
+      problems.push(
+        `"${name}" is a ${property.type} property, but ${field} needs ${types.join(" or ")}`
+      );
+    }
+  }
+
+  if (use === "tasks") {
+    const { status, statusType, todoStatus, doneStatus, inProgressStatus, blockedStatus } =
+      map as DraftPropertyMap<"tasks">;
+    const property = schema.properties.find((p) => p.name === status);
+
+    if (property && property.type !== statusType) {
+      problems.push(`statusType should be "${property.type}" to match "${status}"`);
+    }
+    const options = { todoStatus, doneStatus, inProgressStatus, blockedStatus };
+    for (const [field, option] of Object.entries(options)) {
+      if (!option) {
+        if (field !== "blockedStatus") problems.push(`${field} is required`);
+      } else if (property && property.options.length > 0 && !property.options.includes(option)) {
+        problems.push(`"${status}" has no "${option}" option`);
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Read a few pages from a database through a property map, to confirm the
+ * map works and show the user what it picks up.
+ * Returns null if Notion isn't connected or the query fails.
+ */
+export async function samplePropertyMap<U extends NotionDatabaseUse>(
+  userId: string,
+  databaseId: string,
+  use: U,
+  map: NotionPropertyMaps[U]
+): Promise<Array<Record<string, string | null>> | null> {
+  const connection = getNotionConnection(userId);
+  if (!connection) return null;
+
+  const result = await notionRequest<{ results: NotionPage[] }>(
+    userId,
+    connection.access_token,
+    `/databases/${databaseId}/query`,
+    {
+      method: "POST",
+      body: { page_size: 3 },
+      operation: "Sample database",
+      triggeredBy: "user_request",
+      notionObjectId: databaseId,
+      notionObjectType: "database",
+    }
+  );
+  if (!result) return null;
+
+  return result.results.map((page) => {
+    const sample: Record<string, string | null> = { id: page.id };
+    for (const [field] of propertyFields(use)) {
+      const name = propertyName(map, field);
+      sample[field] = name ? propertyText(page.properties[name]) : null;
+    }
+    return sample;
+  });
+}
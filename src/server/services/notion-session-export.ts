@@ -0,0 +1,353 @@
+/**
+ * Session Notes Export
+ *
+ * For users who turn it on, a finished session becomes a page in their Notion
+ * notes database: the task, planned vs actual time, their reflection, the
+ * wins picked out of the conversation and a link back to the session.
+ *
+ * Each session is claimed in notion_session_exports before anything is sent
+ * to Notion, so two exports running at once never both write a page. Failed
+ * exports, and claims left pending by a process that died mid-export, are
+ * retried by the scheduler until they've had MAX_EXPORT_ATTEMPTS tries. A
+ * retry first looks for the page an earlier attempt may have written before
+ * its response was lost.
+ */
+
+import { getDb } from "../db/index.js";
+import {
+  getNotionConnection,
+  getPropertyMap,
+  notionRequest,
+  paragraphBlocks,
+  richText,
+  type NotionTriggeredBy,
+} from "./notion.js";
+import { getDatabaseSchema } from "./notion-schema.js";
+import type {
+  NotionNotesPropertyMap,
+  NotionSessionExport,
+  PendingMemory,
+  Session,
+} from "../db/schema.js";
+
+export const MAX_EXPORT_ATTEMPTS = 3;
+
+// A claim still pending after this long belongs to an export that never
+// finished, and can be taken over
+export const PENDING_EXPORT_TIMEOUT_MINUTES = 10;
+
+// Exports that can be claimed again: failed, or stuck pending
+const RETRYABLE_EXPORT = `(
+  status = 'failed'
+  OR (status = 'pending' AND (claimed_at IS NULL OR claimed_at < datetime('now', '-${PENDING_EXPORT_TIMEOUT_MINUTES} minutes')))
+)`;
+
+// How exported pages are tagged, matching the notes database in
+// docs/NOTION_INTEGRATION_DESIGN.md
+const NOTE_TAG = "Focus session";
+const NOTE_SOURCE = "Assistant";
+
+/**
+ * Get a session's export record, if it's been exported (or tried)
+ */
+export function getSessionExport(sessionId: string): NotionSessionExport | null {
+  const db = getDb();
+  return (
+    (db
+      .prepare(`SELECT * FROM notion_session_exports WHERE session_id = ?`)
+      .get(sessionId) as NotionSessionExport) || null
+  );
+}
+
+/**
+ * Claim a session for export. Only a new session, or one whose last attempt
+ * failed or went stale and has tries left, can be claimed - never one that's
+ * exported or being exported. Returns which attempt this is, or null if the
+ * session couldn't be claimed.
+ */
+function claimSessionExport(userId: string, sessionId: string): number | null {
+  const db = getDb();
+  const row = db
+    .prepare(
+      `
+    INSERT INTO notion_session_exports (session_id, user_id, status, attempts, claimed_at)
+    VALUES (?, ?, 'pending', 1, datetime('now'))
+    ON CONFLICT(session_id) DO UPDATE SET
+      status = 'pending', attempts = attempts + 1, claimed_at = datetime('now')
+    WHERE ${RETRYABLE_EXPORT} AND attempts < ?
+    RETURNING attempts
+  `
+    )
+    .get(sessionId, userId, MAX_EXPORT_ATTEMPTS) as
+    | Pick<NotionSessionExport, "attempts">
+    | undefined;
+  return row?.attempts ?? null;
+}
+
+/**
+ * Wins the memory extractor found in the session, unless the user rejected them
+ */
+function getSessionWins(sessionId: string): string[] {
+  const db = getDb();
+  const wins = db
+    .prepare(
+      `
+    SELECT content FROM pending_memories
+    WHERE session_id = ? AND category = 'win' AND status != 'rejected'
+    ORDER BY importance DESC, created_at ASC
+  `
+    )
+    .all(sessionId) as Pick<PendingMemory, "content">[];
+  return wins.map((w) => w.content);
+}
+
+function sessionUrl(sessionId: string): string {
+  return `${process.env.APP_URL || "http://localhost:3001"}/app/sessions/${sessionId}`;
+}
+
+function sessionTitle(session: Session): string {
+  return `Focus session: ${session.declared_task || "Untitled session"}`;
+}
+
+interface NotionPageRef {
+  id: string;
+  url: string;
+}
+
+interface NotionRichTextItem {
+  href?: string | null;
+  text?: { link?: { url: string } | null };
+}
+
+/**
+ * Look for a page an earlier attempt wrote for this session: pages in the
+ * notes database with the session's title, checked for the link back to it.
+ * Returns `{ page: null }` when there isn't one, or null if Notion couldn't
+ * be searched - the caller shouldn't write a page it can't rule out.
+ */
+async function findExportedPage(
+  userId: string,
+  accessToken: string,
+  databaseId: string,
+  session: Session,
+  map: NotionNotesPropertyMap,
+  triggeredBy: NotionTriggeredBy
+): Promise<{ page: NotionPageRef | null } | null> {
+  const candidates = await notionRequest<{ results: NotionPageRef[] }>(
+    userId,
+    accessToken,
+    `/databases/${databaseId}/query`,
+    {
+      method: "POST",
+      body: { filter: { property: map.title, title: { equals: sessionTitle(session) } } },
+      operation: "Find exported session note",
+      triggeredBy,
+      notionObjectId: databaseId,
+      notionObjectType: "database",
+    }
+  );
+  if (!candidates) return null;
+
+  const url = sessionUrl(session.id);
+  for (const candidate of candidates.results) {
+    const blocks = await notionRequest<{
+      results: Array<{ type: string } & Record<string, { rich_text?: NotionRichTextItem[] }>>;
+    }>(userId, accessToken, `/blocks/${candidate.id}/children?page_size=100`, {
+      operation: "Read session note",
+      triggeredBy,
+      notionObjectId: candidate.id,
+      notionObjectType: "page",
+    });
+    if (!blocks) return null;
+
+    const linksBack = blocks.results.some((block) =>
+      block[block.type]?.rich_text?.some((t) => (t.href ?? t.text?.link?.url) === url)
+    );
+    if (linksBack) {
+      return { page: candidate };
+    }
+  }
+  return { page: null };
+}
+
+/**
+ * The page body: a paragraph per section, then a link back to the session
+ */
+function buildSessionBlocks(session: Session, wins: string[]): object[] {
+  const sections = [
+    `Task: ${session.declared_task || "Untitled session"}`,
+    `Planned: ${session.duration_planned ?? "?"} minutes\nActual: ${session.duration_actual ?? "?"} minutes`,
+  ];
+  if (session.outcome) {
+    sections.push(`Outcome: ${session.outcome}`);
+  }
+  if (wins.length > 0) {
+    sections.push(`Wins:\n${wins.map((w) => `- ${w}`).join("\n")}`);
+  }
+
+  const url = sessionUrl(session.id);
+  return [
+    ...paragraphBlocks(sections.join("\n\n")),
+    {
+      object: "block",
+      type: "paragraph",
+      paragraph: {
+        rich_text: [{ type: "text", text: { content: "Open the session", link: { url } } }],
+      },
+    },
+  ];
+}
+
+/**
+ * Page properties through the user's notes property map. Optional properties
+ * are only filled in when the database has them with a type we can write
+ * (a "Created" created_time property, say, fills itself in).
+ */
+function buildSessionProperties(
+  session: Session,
+  map: NotionNotesPropertyMap,
+  propertyTypes: Map<string, string>
+): Record<string, object> {
+  const properties: Record<string, object> = {
+    [map.title]: { title: richText(sessionTitle(session)) },
+  };
+
+  if (map.date && propertyTypes.get(map.date) === "date") {
+    properties[map.date] = {
+      date: { start: (session.ended_at ?? session.started_at).split(" ")[0] },
+    };
+  }
+  if (map.tags) {
+    const type = propertyTypes.get(map.tags);
+    if (type === "multi_select") {
+      properties[map.tags] = { multi_select: [{ name: NOTE_TAG }] };
+    } else if (type === "select") {
+      properties[map.tags] = { select: { name: NOTE_TAG } };
+    }
+  }
+  if (map.source && propertyTypes.get(map.source) === "select") {
+    properties[map.source] = { select: { name: NOTE_SOURCE } };
+  }
+
+  return properties;
+}
+
+/**
+ * Create the session's page, unless this is a retry and an earlier attempt
+ * already did. Returns the page, or null if it couldn't be written.
+ */
+async function writeSessionPage(
+  userId: string,
+  accessToken: string,
+  databaseId: string,
+  session: Session,
+  options: { map: NotionNotesPropertyMap; isRetry: boolean; triggeredBy: NotionTriggeredBy }
+): Promise<NotionPageRef | null> {
+  const { map, isRetry, triggeredBy } = options;
+
+  if (isRetry) {
+    const existing = await findExportedPage(
+      userId,
+      accessToken,
+      databaseId,
+      session,
+      map,
+      triggeredBy
+    );
+    if (!existing) return null;
+    if (existing.page) return existing.page;
+  }
+
+  const schema = await getDatabaseSchema(userId, databaseId, triggeredBy);
+  if (!schema) return null;
+
+  return notionRequest<NotionPageRef>(userId, accessToken, "/pages", {
+    method: "POST",
+    body: {
+      parent: { database_id: databaseId },
+      properties: buildSessionProperties(
+        session,
+        map,
+        new Map(schema.properties.map((p) => [p.name, p.type]))
+      ),
+      children: buildSessionBlocks(session, getSessionWins(session.id)),
+    },
+    operation: "Export session to notes",
+    triggeredBy,
+    notionObjectId: databaseId,
+    notionObjectType: "database",
+  });
+}
+
+/**
+ * Write a finished session to the user's notes database.
+ * Returns the export record, or null if the user hasn't turned exports on,
+ * has no notes database, or the session isn't finished. A session that's
+ * already exported (or being exported) comes back as it is, without another
+ * page being written.
+ */
+export async function exportSessionToNotes(
+  userId: string,
+  sessionId: string,
+  triggeredBy: NotionTriggeredBy = "system"
+): Promise<NotionSessionExport | null> {
+  const connection = getNotionConnection(userId);
+  if (!connection?.export_session_notes || !connection.notes_database_id) return null;
+
+  const db = getDb();
+  const session = db
+    .prepare(`SELECT * FROM sessions WHERE id = ? AND user_id = ?`)
+    .get(sessionId, userId) as Session | undefined;
+  if (!session || session.status === "active") return null;
+
+  const attempt = claimSessionExport(userId, sessionId);
+  if (attempt === null) {
+    return getSessionExport(sessionId);
+  }
+
+  const databaseId = connection.notes_database_id;
+  const map = getPropertyMap(connection, "notes");
+  const page = await writeSessionPage(userId, connection.access_token, databaseId, session, {
+    map,
+    isRetry: attempt > 1,
+    triggeredBy,
+  });
+
+  if (page) {
+    db.prepare(
+      `
+      UPDATE notion_session_exports
+      SET status = 'exported', notion_page_id = ?, notion_page_url = ?, exported_at = datetime('now')
+      WHERE session_id = ?
+    `
+    ).run(page.id, page.url, sessionId);
+  } else {
+    db.prepare(`UPDATE notion_session_exports SET status = 'failed' WHERE session_id = ?`).run(
+      sessionId
+    );
+  }
+
+  return getSessionExport(sessionId);
+}
+
+/**
+ * Try failed and stale pending exports again, for sessions with tries left.
+ * Returns how many were exported this time.
+ */
+export async function retryFailedSessionExports(): Promise<number> {
+  const db = getDb();
+  const failed = db
+    .prepare(
+      `SELECT session_id, user_id FROM notion_session_exports WHERE ${RETRYABLE_EXPORT} AND attempts < ?`
+    )
+    .all(MAX_EXPORT_ATTEMPTS) as Array<Pick<NotionSessionExport, "session_id" | "user_id">>;
+
+  let exported = 0;
+  for (const { session_id: sessionId, user_id: userId } of failed) {
+    const result = await exportSessionToNotes(userId, sessionId);
+    if (result?.status === "exported") {
+      exported++;
+    }
+  }
+  return exported;
+}
@@ -0,0 +1,224 @@
+/**
+ * Assistant Workspace
+ *
+ * The assistant's private database in the user's Notion, as described in
+ * docs/NOTION_INTEGRATION_DESIGN.md. The companion keeps self-reminders,
+ * running notes and session summaries there, so what it knows stays in the
+ * user's Notion where they can read and edit it.
+ *
+ * Every call goes through notionRequest, so it's logged like any other
+ * Notion call.
+ */
+
+import { getDb } from "../db/index.js";
+import {
+  appendNoteToPage,
+  getNotionConnection,
+  notionRequest,
+  paragraphBlocks,
+  richText,
+  updateNotionDatabaseMappings,
+  type NotionTriggeredBy,
+} from "./notion.js";
+import type { NotionConnectionPublic, Session, SessionConversationSummary } from "../db/schema.js";
+
+export const WORKSPACE_DATABASE_TITLE = "Assistant Workspace";
+
+// The documented types, plus the ones the companion writes itself
+export const WORKSPACE_ENTRY_TYPES = [
+  "Insight",
+  "Pattern",
+  "Preference",
+  "TODO",
+  "Reminder",
+  "Note",
+  "Session Summary",
+] as const;
+
+export type WorkspaceEntryType = (typeof WORKSPACE_ENTRY_TYPES)[number];
+
+export interface WorkspaceEntryInput {
+  type: WorkspaceEntryType;
+  title: string;
+  content: string;
+  /** For reminders: the day the assistant should bring it up (YYYY-MM-DD) */
+  remindOn?: string;
+}
+
+export interface WorkspaceEntry {
+  id: string;
+  url: string;
+}
+
+function today(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+/**
+ * Create the Assistant Workspace database under a page the user picked and
+ * remember it on the connection.
+ * Returns null if Notion isn't connected or the call fails.
+ */
+export async function createAssistantWorkspace(
+  userId: string,
+  parentPageId: string
+): Promise<NotionConnectionPublic | null> {
+  const connection = getNotionConnection(userId);
+  if (!connection) return null;
+
+  const database = await notionRequest<{ id: string }>(
+    userId,
+    connection.access_token,
+    "/databases",
+    {
+      method: "POST",
+      body: {
+        parent: { type: "page_id", page_id: parentPageId },
+        title: richText(WORKSPACE_DATABASE_TITLE),
+        properties: {
+          Name: { title: {} },
+          Type: { select: { options: WORKSPACE_ENTRY_TYPES.map((name) => ({ name })) } },
+          Content: { rich_text: {} },
+          "Last Used": { date: {} },
+          "Remind On": { date: {} },
+        },
+      },
+      operation: "Create Assistant Workspace",
+      triggeredBy: "user_request",
+      notionObjectId: parentPageId,
+      notionObjectType: "page",
+    }
+  );
+  if (!database) return null;
+
+  return updateNotionDatabaseMappings(userId, { assistant_db_id: database.id });
+}
+
+/**
+ * Add an entry to the Assistant Workspace. The full content goes in the page
+ * body; the Content property holds as much as fits.
+ * Returns null if the workspace isn't set up or the call fails.
+ */
+export async function addWorkspaceEntry(
+  userId: string,
+  entry: WorkspaceEntryInput,
+  triggeredBy: NotionTriggeredBy = "assistant_action"
+): Promise<WorkspaceEntry | null> {
+  const connection = getNotionConnection(userId);
+  if (!connection?.assistant_db_id) return null;
+
+  const properties: Record<string, object> = {
+    Name: { title: richText(entry.title) },
+    Type: { select: { name: entry.type } },
+    Content: { rich_text: richText(entry.content) },
+    "Last Used": { date: { start: today() } },
+  };
+  if (entry.remindOn) {
+    properties["Remind On"] = { date: { start: entry.remindOn } };
+  }
+
+  return notionRequest<WorkspaceEntry>(userId, connection.access_token, "/pages", {
+    method: "POST",
+    body: {
+      parent: { database_id: connection.assistant_db_id },
+      properties,
+      children: paragraphBlocks(entry.content),
+    },
+    operation: `Add workspace ${entry.type.toLowerCase()}`,
+    triggeredBy,
+    notionObjectType: "page",
+  });
+}
+
+/**
+ * Leave the assistant a reminder to bring something up on a later day
+ */
+export async function addSelfReminder(
+  userId: string,
+  text: string,
+  remindOn: string
+): Promise<WorkspaceEntry | null> {
+  const title = text.length > 100 ? `${text.slice(0, 97)}...` : text;
+  return addWorkspaceEntry(userId, { type: "Reminder", title, content: text, remindOn });
+}
+
+/**
+ * Add to today's running notes page, creating it on the first note of the day.
+ * Returns false if the workspace isn't set up or a call fails.
+ */
+export async function appendRunningNote(userId: string, note: string): Promise<boolean> {
+  const connection = getNotionConnection(userId);
+  if (!connection?.assistant_db_id) return false;
+
+  const title = `Running notes ${today()}`;
+  const existing = await notionRequest<{ results: WorkspaceEntry[] }>(
+    userId,
+    connection.access_token,
+    `/databases/${connection.assistant_db_id}/query`,
+    {
+      method: "POST",
+      body: {
+        filter: {
+          and: [
+            { property: "Type", select: { equals: "Note" } },
+            { property: "Name", title: { equals: title } },
+          ],
+        },
+        page_size: 1,
+      },
+      operation: "Find running notes",
+      triggeredBy: "assistant_action",
+      notionObjectId: connection.assistant_db_id,
+      notionObjectType: "database",
+    }
+  );
+  if (!existing) return false;
+
+  const page = existing.results[0];
+  if (page) {
+    return appendNoteToPage(userId, page.id, note, "assistant_action");
+  }
+
+  return (await addWorkspaceEntry(userId, { type: "Note", title, content: note })) !== null;
+}
+
+/**
+ * Record a finished session in the Assistant Workspace: the task, how long
+ * it took against the plan, the user's reflection and the conversation
+ * summary if there is one.
+ * Returns null if the workspace isn't set up, the session isn't finished,
+ * or the call fails.
+ */
+export async function addSessionSummaryEntry(
+  userId: string,
+  sessionId: string
+): Promise<WorkspaceEntry | null> {
+  const connection = getNotionConnection(userId);
+  if (!connection?.assistant_db_id) return null;
+
+  const db = getDb();
+  const session = db
+    .prepare(`SELECT * FROM sessions WHERE id = ? AND user_id = ?`)
+    .get(sessionId, userId) as Session | undefined;
+  if (!session || session.status === "active") return null;
+
+  const task = session.declared_task || "Untitled session";
+  const lines = [
+    `Task: ${task}`,
+    `Time: ${session.duration_actual ?? "?"} of ${session.duration_planned ?? "?"} planned minutes`,
+  ];
+  if (session.outcome) {
+    lines.push(`Outcome: ${session.outcome}`);
+  }
+
+  const summary = db
+    .prepare(`SELECT summary FROM session_summaries WHERE session_id = ?`)
+    .get(sessionId) as Pick<SessionConversationSummary, "summary"> | undefined;
+  const content = summary ? `${lines.join("\n")}\n\n${summary.summary}` : lines.join("\n");
+
+  return addWorkspaceEntry(userId, {
+    type: "Session Summary",
+    title: `${session.started_at.split(" ")[0]}: ${task}`,
+    content,
+  });
+}
@@ -13,7 +13,14 @@ import type {
   NotionConnectionPublic,
   NotionApiLog,
   NotionApiLogInput,
+  NotionCalendarPropertyMap,
+  NotionDatabaseUse,
+  NotionNotesPropertyMap,
+  NotionTaskPropertyMap,
 } from "../db/schema.js";
+import { decryptTokens, encryptTokens, redactSecrets } from "./token-encryption.js";
+import { consumeOAuthState, createOAuthState, type OAuthState } from "./oauth-state.js";
+import { getLocalDate, getUserTimeZone } from "./analytics.js";
 
 // Maximum size for stored request/response bodies (10KB)
 const MAX_BODY_SIZE = 10 * 1024;
@@ -25,28 +32,12 @@ const NOTION_REDIRECT_URI =
   process.env.NOTION_REDIRECT_URI ||
   `${process.env.APP_URL || "http://localhost:3001"}/api/notion/callback`;
 
-// OAuth state tokens expire after 10 minutes
-const OAUTH_STATE_EXPIRY_MINUTES = 10;
-
-// In-memory store for OAuth state tokens (maps state -> userId)
-// In production, this should be in Redis or database
-const oauthStates = new Map<string, { userId: string; expiresAt: Date }>();
-
 /**
  * Generate the Notion OAuth authorization URL
  */
-export function getNotionAuthUrl(userId: string): string {
-  // Generate a random state token for CSRF protection
-  const state = crypto.randomBytes(32).toString("hex");
-
-  // Store the state with the user ID
-  oauthStates.set(state, {
-    userId,
-    expiresAt: new Date(Date.now() + OAUTH_STATE_EXPIRY_MINUTES * 60 * 1000),
-  });
-
-  // Clean up expired states
-  cleanupExpiredStates();
+export function getNotionAuthUrl(userId: string, options: { redirectTo?: string } = {}): string {
+  // Random state token for CSRF protection, stored with the user ID
+  const state = createOAuthState("notion", userId, { redirectTo: options.redirectTo });
 
   const params = new URLSearchParams({
     client_id: NOTION_CLIENT_ID,
@@ -60,24 +51,10 @@ export function getNotionAuthUrl(userId: string): string {
 }
 
 /**
- * Validate an OAuth state token and return the associated user ID
+ * Validate and consume an OAuth state token from the callback
  */
-export function validateOAuthState(state: string): string | null {
-  const stateData = oauthStates.get(state);
-
-  if (!stateData) {
-    return null;
-  }
-
-  // Check expiration
-  if (stateData.expiresAt < new Date()) {
-    oauthStates.delete(state);
-    return null;
-  }
-
-  // State is valid - remove it (one-time use)
-  oauthStates.delete(state);
-  return stateData.userId;
+export function validateOAuthState(state: string): OAuthState | null {
+  return consumeOAuthState("notion", state);
 }
 
 /**
@@ -132,7 +109,14 @@ export async function exchangeCodeForToken(code: string): Promise<{
 }
 
 /**
- * Save or update a Notion connection for a user
+ * Decrypt a stored connection's access token
+ */
+function withDecryptedToken(connection: NotionConnection): NotionConnection {
+  return { ...connection, ...decryptTokens(connection, { access_token: connection.access_token }) };
+}
+
+/**
+ * Save or update a Notion connection for a user (the token is encrypted at rest)
  */
 export function saveNotionConnection(
   userId: string,
@@ -145,6 +129,7 @@ export function saveNotionConnection(
   }
 ): NotionConnection {
   const db = getDb();
+  const sealed = encryptTokens({ access_token: tokenData.access_token });
 
   // Check if user already has a connection
   const existing = db.prepare("SELECT id FROM notion_connections WHERE user_id = ?").get(userId) as
@@ -157,6 +142,8 @@ export function saveNotionConnection(
       `
       UPDATE notion_connections
       SET access_token = ?,
+          token_key_id = ?,
+          token_data_key = ?,
           workspace_id = ?,
           workspace_name = ?,
           workspace_icon = ?,
@@ -166,7 +153,9 @@ export function saveNotionConnection(
       WHERE user_id = ?
     `
     ).run(
-      tokenData.access_token,
+      sealed.tokens.access_token,
+      sealed.token_key_id,
+      sealed.token_data_key,
       tokenData.workspace_id,
       tokenData.workspace_name,
       tokenData.workspace_icon,
@@ -174,9 +163,7 @@ export function saveNotionConnection(
       userId
     );
 
-    return db
-      .prepare("SELECT * FROM notion_connections WHERE user_id = ?")
-      .get(userId) as NotionConnection;
+    return getNotionConnection(userId)!;
   }
 
   // Create new connection
@@ -184,33 +171,35 @@ export function saveNotionConnection(
   db.prepare(
     `
     INSERT INTO notion_connections (
-      id, user_id, access_token, workspace_id, workspace_name, workspace_icon, bot_id
+      id, user_id, access_token, token_key_id, token_data_key,
+      workspace_id, workspace_name, workspace_icon, bot_id
     )
-    VALUES (?, ?, ?, ?, ?, ?, ?)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
   `
   ).run(
     id,
     userId,
-    tokenData.access_token,
+    sealed.tokens.access_token,
+    sealed.token_key_id,
+    sealed.token_data_key,
     tokenData.workspace_id,
     tokenData.workspace_name,
     tokenData.workspace_icon,
     tokenData.bot_id
   );
 
-  return db.prepare("SELECT * FROM notion_connections WHERE id = ?").get(id) as NotionConnection;
+  return getNotionConnection(userId)!;
 }
 
 /**
- * Get a user's Notion connection
+ * Get a user's Notion connection, with its access token decrypted
  */
 export function getNotionConnection(userId: string): NotionConnection | null {
   const db = getDb();
-  return (
-    (db
-      .prepare("SELECT * FROM notion_connections WHERE user_id = ?")
-      .get(userId) as NotionConnection) || null
-  );
+  const connection = db
+    .prepare("SELECT * FROM notion_connections WHERE user_id = ?")
+    .get(userId) as NotionConnection | undefined;
+  return connection ? withDecryptedToken(connection) : null;
 }
 
 /**
@@ -231,6 +220,10 @@ export function getNotionConnectionPublic(userId: string): NotionConnectionPubli
     calendar_database_id: connection.calendar_database_id,
     notes_database_id: connection.notes_database_id,
     assistant_db_id: connection.assistant_db_id,
+    tasks_property_map: getPropertyMap(connection, "tasks"),
+    notes_property_map: getPropertyMap(connection, "notes"),
+    calendar_property_map: getPropertyMap(connection, "calendar"),
+    export_session_notes: connection.export_session_notes === 1,
   };
 }
 
@@ -253,12 +246,18 @@ export function updateNotionDatabaseMappings(
     calendar_database_id?: string | null;
     notes_database_id?: string | null;
     assistant_db_id?: string | null;
+    /** Overrides for the default property names; null resets to the defaults */
+    tasks_property_map?: Partial<NotionTaskPropertyMap> | null;
+    notes_property_map?: Partial<NotionNotesPropertyMap> | null;
+    calendar_property_map?: Partial<NotionCalendarPropertyMap> | null;
+    /** Write a page to the notes database when a session ends */
+    export_session_notes?: boolean;
   }
 ): NotionConnectionPublic | null {
   const db = getDb();
 
   const updates: string[] = [];
-  const values: (string | null)[] = [];
+  const values: (string | number | null)[] = [];
 
   if ("tasks_database_id" in mappings) {
     updates.push("tasks_database_id = ?");
@@ -276,6 +275,17 @@ export function updateNotionDatabaseMappings(
     updates.push("assistant_db_id = ?");
     values.push(mappings.assistant_db_id ?? null);
   }
+  for (const use of DATABASE_USES) {
+    const map = mappings[`${use}_property_map`];
+    if (map !== undefined) {
+      updates.push(`${use}_property_map = ?`);
+      values.push(map ? JSON.stringify(map) : null);
+    }
+  }
+  if (mappings.export_session_notes !== undefined) {
+    updates.push("export_session_notes = ?");
+    values.push(mappings.export_session_notes ? 1 : 0);
+  }
 
   if (updates.length === 0) {
     return getNotionConnectionPublic(userId);
@@ -299,18 +309,6 @@ export function updateLastSynced(userId: string): void {
   ).run(userId);
 }
 
-/**
- * Clean up expired OAuth state tokens
- */
-function cleanupExpiredStates(): void {
-  const now = new Date();
-  for (const [state, data] of oauthStates.entries()) {
-    if (data.expiresAt < now) {
-      oauthStates.delete(state);
-    }
-  }
-}
-
 // ============================================
 // API Logging Functions
 // ============================================
@@ -331,9 +329,11 @@ export function logNotionApiCall(userId: string, input: NotionApiLogInput): Noti
   const db = getDb();
   const id = crypto.randomUUID();
 
-  const requestBody = input.request_body ? truncateBody(JSON.stringify(input.request_body)) : null;
+  const requestBody = input.request_body
+    ? truncateBody(JSON.stringify(redactSecrets(input.request_body)))
+    : null;
   const responseBody = input.response_body
-    ? truncateBody(JSON.stringify(input.response_body))
+    ? truncateBody(JSON.stringify(redactSecrets(input.response_body)))
     : null;
 
   db.prepare(
@@ -499,10 +499,12 @@ export function cleanupOldApiLogs(daysToKeep: number = 30): number {
 // Notion API Client Methods
 // ============================================
 
-interface NotionRequestOptions extends Omit<RequestInit, "body"> {
+export type NotionTriggeredBy = NotionApiLogInput["triggered_by"];
+
+export interface NotionRequestOptions extends Omit<RequestInit, "body"> {
   body?: object;
   operation: string;
-  triggeredBy?: "user_request" | "proactive_check" | "assistant_action" | "system";
+  triggeredBy?: NotionTriggeredBy;
   notionObjectId?: string;
   notionObjectType?: "page" | "database" | "block" | "user";
 }
@@ -510,7 +512,7 @@ interface NotionRequestOptions extends Omit<RequestInit, "body"> {
 /**
  * Make an authenticated request to the Notion API with full logging
  */
-async function notionRequest<T>(
+export async function notionRequest<T>(
   userId: string,
   accessToken: string,
   endpoint: string,
@@ -631,6 +633,52 @@ export async function searchDatabases(
     }));
 }
 
+/**
+ * Search for pages in the user's workspace (e.g. to pick where to create a database)
+ */
+export async function searchPages(
+  userId: string
+): Promise<Array<{ id: string; title: string; icon: string | null }>> {
+  const connection = getNotionConnection(userId);
+  if (!connection) return [];
+
+  interface NotionPageSearchResponse {
+    results: Array<{
+      id: string;
+      object: string;
+      parent?: { type: string };
+      properties?: Record<string, NotionPropertyValue>;
+      icon?: { type: string; emoji?: string } | null;
+    }>;
+  }
+
+  const result = await notionRequest<NotionPageSearchResponse>(
+    userId,
+    connection.access_token,
+    "/search",
+    {
+      method: "POST",
+      body: {
+        filter: { property: "object", value: "page" },
+        page_size: 100,
+      },
+      operation: "Search pages",
+      triggeredBy: "user_request",
+    }
+  );
+
+  if (!result) return [];
+
+  // Rows of databases are pages too; only standalone pages can hold a new database
+  return result.results
+    .filter((page) => page.object === "page" && page.parent?.type !== "database_id")
+    .map((page) => ({
+      id: page.id,
+      title: propertyText(Object.values(page.properties ?? {}).find((p) => p.title)) || "Untitled",
+      icon: page.icon?.type === "emoji" ? page.icon.emoji || null : null,
+    }));
+}
+
 /**
  * Get user info from Notion to verify connection is still valid
  */
@@ -655,6 +703,398 @@ export async function verifyNotionConnection(userId: string): Promise<boolean> {
   return result !== null;
 }
 
+// ============================================
+// Property Maps
+// ============================================
+
+export interface NotionPropertyMaps {
+  tasks: NotionTaskPropertyMap;
+  notes: NotionNotesPropertyMap;
+  calendar: NotionCalendarPropertyMap;
+}
+
+export const DATABASE_USES: NotionDatabaseUse[] = ["tasks", "notes", "calendar"];
+
+// Property names from docs/NOTION_INTEGRATION_DESIGN.md. Workspaces name
+// things differently, so each user can override any of them.
+export const DEFAULT_PROPERTY_MAPS: NotionPropertyMaps = {
+  tasks: {
+    title: "Name",
+    status: "Status",
+    statusType: "select",
+    dueDate: "Due Date",
+    priority: "Priority",
+    createdBy: "Created By",
+    notes: "Notes",
+    todoStatus: "Todo",
+    doneStatus: "Done",
+    inProgressStatus: "In Progress",
+    blockedStatus: "Blocked",
+  },
+  notes: {
+    title: "Name",
+    date: "Created",
+    tags: "Tags",
+    source: "Source",
+  },
+  calendar: {
+    title: "Name",
+    date: "Date",
+    type: "Type",
+    context: "Context",
+  },
+};
+
+// Fields a database may not have; null means "this database has no such property"
+// (or, for blockedStatus, no such option)
+const OPTIONAL_PROPERTY_FIELDS: Record<NotionDatabaseUse, string[]> = {
+  tasks: ["priority", "createdBy", "notes", "blockedStatus"],
+  notes: ["date", "tags", "source"],
+  calendar: ["type", "context"],
+};
+
+/**
+ * The user's property map for a database, with defaults for anything not overridden
+ */
+export function getPropertyMap<U extends NotionDatabaseUse>(
+  connection: NotionConnection,
+  use: U
+): NotionPropertyMaps[U] {
+  const stored = connection[`${use}_property_map`];
+  if (!stored) {
+    return DEFAULT_PROPERTY_MAPS[use];
+  }
+
+  try {
+    return {
+      ...DEFAULT_PROPERTY_MAPS[use],
+      ...(JSON.parse(stored) as Partial<NotionPropertyMaps[U]>),
+    };
+  } catch {
+    return DEFAULT_PROPERTY_MAPS[use];
+  }
+}
+
+/**
+ * Check the shape of a property map override from a request (not whether
+ * the properties exist - see checkPropertyMap in notion-schema.ts).
+ * Returns an error message, or null if it's valid.
+ */
+export function validatePropertyMap(use: NotionDatabaseUse, value: unknown): string | null {
+  const field = `${use}_property_map`;
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return `${field} must be an object`;
+  }
+
+  for (const [key, name] of Object.entries(value)) {
+    if (!(key in DEFAULT_PROPERTY_MAPS[use])) {
+      return `Unknown ${field} field: ${key}`;
+    }
+    if (name === null && OPTIONAL_PROPERTY_FIELDS[use].includes(key)) {
+      continue;
+    }
+    if (typeof name !== "string" || !name.trim()) {
+      return `${field}.${key} must be a non-empty string`;
+    }
+  }
+
+  if (use === "tasks") {
+    const { statusType } = value as Partial<NotionTaskPropertyMap>;
+    if (statusType !== undefined && statusType !== "select" && statusType !== "status") {
+      return `${field}.statusType must be "select" or "status"`;
+    }
+  }
+
+  return null;
+}
+
+// ============================================
+// Task Operations
+// ============================================
+
+// Task database properties, as described in docs/NOTION_INTEGRATION_DESIGN.md
+export const TASK_STATUSES = ["Todo", "In Progress", "Done", "Blocked"] as const;
+export const TASK_PRIORITIES = ["High", "Medium", "Low"] as const;
+
+export type NotionTaskStatus = (typeof TASK_STATUSES)[number];
+export type NotionTaskPriority = (typeof TASK_PRIORITIES)[number];
+
+export interface NotionTask {
+  id: string;
+  title: string;
+  status: string | null;
+  priority: string | null;
+  dueDate: string | null;
+  url: string;
+}
+
+export interface NotionTaskInput {
+  title: string;
+  dueDate?: string;
+  priority?: NotionTaskPriority;
+  notes?: string;
+}
+
+export interface NotionPropertyValue {
+  type?: string;
+  title?: Array<{ plain_text: string }>;
+  rich_text?: Array<{ plain_text: string }>;
+  select?: { name: string } | null;
+  multi_select?: Array<{ name: string }>;
+  status?: { name: string } | null;
+  date?: { start: string } | null;
+  created_time?: string;
+  checkbox?: boolean;
+}
+
+export interface NotionPage {
+  id: string;
+  url: string;
+  properties: Record<string, NotionPropertyValue>;
+}
+
+// Notion rejects rich text longer than this
+const MAX_RICH_TEXT_LENGTH = 2000;
+
+export function richText(content: string): Array<{ type: "text"; text: { content: string } }> {
+  return [{ type: "text", text: { content: content.slice(0, MAX_RICH_TEXT_LENGTH) } }];
+}
+
+/**
+ * Paragraph blocks for a page body, one per paragraph of the text, with long
+ * paragraphs split so nothing is cut off
+ */
+export function paragraphBlocks(text: string): object[] {
+  const chunks: string[] = [];
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    for (let i = 0; i < paragraph.length; i += MAX_RICH_TEXT_LENGTH) {
+      chunks.push(paragraph.slice(i, i + MAX_RICH_TEXT_LENGTH));
+    }
+  }
+
+  return chunks
+    .filter((chunk) => chunk.trim())
+    .map((chunk) => ({
+      object: "block",
+      type: "paragraph",
+      paragraph: { rich_text: richText(chunk) },
+    }));
+}
+
+/**
+ * Read a property as plain text, whatever its shape (title, rich text,
+ * select, multi-select, status, date or checkbox)
+ */
+export function propertyText(value: NotionPropertyValue | undefined): string | null {
+  if (!value) return null;
+
+  const text = value.title ?? value.rich_text;
+  if (text) {
+    return text.map((t) => t.plain_text).join("") || null;
+  }
+
+  if (value.multi_select) {
+    return value.multi_select.map((o) => o.name).join(", ") || null;
+  }
+  if (value.checkbox !== undefined) {
+    return value.checkbox ? "Yes" : "No";
+  }
+
+  return (
+    value.select?.name ?? value.status?.name ?? value.date?.start ?? value.created_time ?? null
+  );
+}
+
+function toNotionTask(page: NotionPage, map: NotionTaskPropertyMap): NotionTask {
+  return {
+    id: page.id,
+    title: propertyText(page.properties[map.title]) || "Untitled",
+    status: propertyText(page.properties[map.status]),
+    priority: map.priority ? propertyText(page.properties[map.priority]) : null,
+    dueDate: propertyText(page.properties[map.dueDate]),
+    url: page.url,
+  };
+}
+
+/**
+ * A status value in the shape the user's status property expects
+ */
+function statusValue(map: NotionTaskPropertyMap, name: string): object {
+  return { [map.statusType]: { name } };
+}
+
+/**
+ * The option the user's status property uses for a task status, or null if
+ * their property map has none for it
+ */
+export function taskStatusOption(
+  map: NotionTaskPropertyMap,
+  status: NotionTaskStatus
+): string | null {
+  const options: Record<NotionTaskStatus, string | null> = {
+    Todo: map.todoStatus,
+    "In Progress": map.inProgressStatus,
+    Done: map.doneStatus,
+    Blocked: map.blockedStatus,
+  };
+  return options[status];
+}
+
+/**
+ * Create a task in the user's tasks database.
+ * Returns null if Notion or the tasks database isn't set up, or the call fails.
+ */
+export async function createTask(
+  userId: string,
+  input: NotionTaskInput,
+  triggeredBy: NotionTriggeredBy = "user_request"
+): Promise<NotionTask | null> {
+  const connection = getNotionConnection(userId);
+  if (!connection?.tasks_database_id) return null;
+
+  const map = getPropertyMap(connection, "tasks");
+  const properties: Record<string, object> = {
+    [map.title]: { title: richText(input.title) },
+    [map.status]: statusValue(map, map.todoStatus),
+  };
+  if (map.createdBy) {
+    properties[map.createdBy] = {
+      select: { name: triggeredBy === "user_request" ? "User" : "Assistant" },
+    };
+  }
+  if (input.dueDate) {
+    properties[map.dueDate] = { date: { start: input.dueDate } };
+  }
+  if (input.priority && map.priority) {
+    properties[map.priority] = { select: { name: input.priority } };
+  }
+  if (input.notes && map.notes) {
+    properties[map.notes] = { rich_text: richText(input.notes) };
+  }
+
+  const page = await notionRequest<NotionPage>(userId, connection.access_token, "/pages", {
+    method: "POST",
+    body: { parent: { database_id: connection.tasks_database_id }, properties },
+    operation: "Create task",
+    triggeredBy,
+    notionObjectType: "page",
+  });
+
+  return page ? toNotionTask(page, map) : null;
+}
+
+/**
+ * Set the status of a task, using the matching option from the user's
+ * property map.
+ * Returns null if Notion isn't connected, the map has no option for the
+ * status, or the call fails.
+ */
+export async function updateTaskStatus(
+  userId: string,
+  taskId: string,
+  status: NotionTaskStatus,
+  triggeredBy: NotionTriggeredBy = "user_request"
+): Promise<NotionTask | null> {
+  const connection = getNotionConnection(userId);
+  if (!connection) return null;
+
+  const map = getPropertyMap(connection, "tasks");
+  const option = taskStatusOption(map, status);
+  if (!option) return null;
+
+  const page = await notionRequest<NotionPage>(
+    userId,
+    connection.access_token,
+    `/pages/${taskId}`,
+    {
+      method: "PATCH",
+      body: { properties: { [map.status]: statusValue(map, option) } },
+      operation: "Update task status",
+      triggeredBy,
+      notionObjectId: taskId,
+      notionObjectType: "page",
+    }
+  );
+
+  return page ? toNotionTask(page, map) : null;
+}
+
+/**
+ * Get open tasks that are due today (in the user's time zone), overdue, or
+ * in progress.
+ * Returns null if Notion or the tasks database isn't set up, or the call fails.
+ */
+export async function getTodayTasks(
+  userId: string,
+  triggeredBy: NotionTriggeredBy = "user_request"
+): Promise<NotionTask[] | null> {
+  const connection = getNotionConnection(userId);
+  if (!connection?.tasks_database_id) return null;
+
+  const today = getLocalDate(getUserTimeZone(userId));
+  const map = getPropertyMap(connection, "tasks");
+
+  const result = await notionRequest<{ results: NotionPage[] }>(
+    userId,
+    connection.access_token,
+    `/databases/${connection.tasks_database_id}/query`,
+    {
+      method: "POST",
+      body: {
+        filter: {
+          and: [
+            { property: map.status, [map.statusType]: { does_not_equal: map.doneStatus } },
+            {
+              or: [
+                { property: map.dueDate, date: { on_or_before: today } },
+                { property: map.status, [map.statusType]: { equals: map.inProgressStatus } },
+              ],
+            },
+          ],
+        },
+        sorts: [{ property: map.dueDate, direction: "ascending" }],
+        page_size: 50,
+      },
+      operation: "List today's tasks",
+      triggeredBy,
+      notionObjectId: connection.tasks_database_id,
+      notionObjectType: "database",
+    }
+  );
+
+  return result ? result.results.map((page) => toNotionTask(page, map)) : null;
+}
+
+/**
+ * Append text to a page (e.g. a note on a task), a paragraph block per paragraph.
+ * Returns false if Notion isn't connected or the call fails.
+ */
+export async function appendNoteToPage(
+  userId: string,
+  pageId: string,
+  text: string,
+  triggeredBy: NotionTriggeredBy = "user_request"
+): Promise<boolean> {
+  const connection = getNotionConnection(userId);
+  if (!connection) return false;
+
+  const result = await notionRequest<{ results: object[] }>(
+    userId,
+    connection.access_token,
+    `/blocks/${pageId}/children`,
+    {
+      method: "PATCH",
+      body: { children: paragraphBlocks(text) },
+      operation: "Append note",
+      triggeredBy,
+      notionObjectId: pageId,
+      notionObjectType: "block",
+    }
+  );
+
+  return result !== null;
+}
+
 /**
  * Check if Notion OAuth is configured
  */
@@ -0,0 +1,137 @@
+/**
+ * OAuth State Store
+ *
+ * The `state` tokens for the Google and Notion OAuth flows, kept in the
+ * database so a callback still validates after a restart or when it lands on
+ * a different instance than the one that started the flow. Each state is
+ * consumed by the first callback that presents it.
+ *
+ * A state can also carry a PKCE code verifier (Google) and the app path to
+ * return to once the connection is saved.
+ */
+
+import crypto from "node:crypto";
+import { getDb } from "../db/index.js";
+
+export type OAuthProvider = "google" | "notion";
+
+// OAuth state tokens expire after 10 minutes
+const OAUTH_STATE_EXPIRY_MINUTES = 10;
+
+// Where the callback sends the user when the flow didn't ask for anywhere else
+export const DEFAULT_OAUTH_REDIRECT = "/app/settings";
+
+export interface OAuthState {
+  userId: string;
+  /** PKCE code verifier to send with the token exchange, if the flow used one */
+  codeVerifier: string | null;
+  /** App path to send the user to after connecting */
+  redirectTo: string;
+}
+
+/**
+ * Whether a post-connect redirect target is a path within this app. Anything
+ * else (another origin, protocol-relative URLs) would make the callback an
+ * open redirect.
+ */
+export function isSafeRedirectPath(path: string): boolean {
+  return /^\/(?![/\\])/.test(path) && !/[\r\n]/.test(path);
+}
+
+/**
+ * Add a query parameter to an app path that may already have a query string
+ */
+export function withQueryParam(path: string, key: string, value: string): string {
+  const [pathname, query = ""] = path.split("?", 2);
+  const params = new URLSearchParams(query);
+  params.set(key, value);
+  return `${pathname}?${params.toString()}`;
+}
+
+/**
+ * Store a new state token for a user starting an OAuth flow
+ */
+export function createOAuthState(
+  provider: OAuthProvider,
+  userId: string,
+  options: { codeVerifier?: string; redirectTo?: string } = {}
+): string {
+  const db = getDb();
+  const state = crypto.randomBytes(32).toString("hex");
+  const expiresAt = new Date(Date.now() + OAUTH_STATE_EXPIRY_MINUTES * 60 * 1000).toISOString();
+  const redirectTo =
+    options.redirectTo && isSafeRedirectPath(options.redirectTo) ? options.redirectTo : null;
+
+  db.prepare(
+    `
+    INSERT INTO oauth_states (state, provider, user_id, code_verifier, redirect_to, expires_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `
+  ).run(state, provider, userId, options.codeVerifier ?? null, redirectTo, expiresAt);
+
+  return state;
+}
+
+/**
+ * Validate and consume a state token. Returns null if it's unknown, expired,
+ * belongs to the other provider, or was already used.
+ */
+export function consumeOAuthState(provider: OAuthProvider, state: string): OAuthState | null {
+  const db = getDb();
+
+  // Deleting and reading in one statement means two callbacks racing with the
+  // same state can't both get it
+  const row = db
+    .prepare(
+      `
+    DELETE FROM oauth_states
+    WHERE state = ? AND provider = ?
+    RETURNING user_id, code_verifier, redirect_to, expires_at
+  `
+    )
+    .get(state, provider) as
+    | {
+        user_id: string;
+        code_verifier: string | null;
+        redirect_to: string | null;
+        expires_at: string;
+      }
+    | undefined;
+
+  if (!row || new Date(row.expires_at) < new Date()) {
+    return null;
+  }
+
+  return {
+    userId: row.user_id,
+    codeVerifier: row.code_verifier,
+    redirectTo: row.redirect_to ?? DEFAULT_OAUTH_REDIRECT,
+  };
+}
+
+/**
+ * Delete expired state tokens from flows that were never completed
+ */
+export function cleanupExpiredOAuthStates(): number {
+  const db = getDb();
+  return db.prepare(`DELETE FROM oauth_states WHERE expires_at < ?`).run(new Date().toISOString())
+    .changes;
+}
+
+// ============================================
+// PKCE
+// ============================================
+
+/**
+ * A random PKCE code verifier (RFC 7636)
+ */
+export function createCodeVerifier(): string {
+  return crypto.randomBytes(32).toString("base64url");
+}
+
+/**
+ * The S256 code challenge for a verifier
+ */
+export function getCodeChallenge(codeVerifier: string): string {
+  return crypto.createHash("sha256").update(codeVerifier).digest("base64url");
+}
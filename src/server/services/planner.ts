@@ -0,0 +1,155 @@
+/**
+ * Session Planner Service
+ *
+ * Plans focus sessions around the user's Google Calendar: finds today's free
+ * blocks between meetings, proposes sessions sized to fit them, and spots
+ * when a session would run into the next meeting.
+ *
+ * Only timed events block time; all-day events (holidays, OOO markers) don't.
+ */
+
+import { getLocalDate, localHourToDate } from "./analytics.js";
+import { getCachedTodayEvents, type CalendarEvent } from "./google.js";
+
+// Sessions shorter than this aren't worth suggesting
+export const MIN_SESSION_MINUTES = 15;
+
+// Break left between back-to-back suggested sessions
+const BREAK_MINUTES = 5;
+
+// Suggestions stop at the end of the working day (in the user's time zone)
+const WORKDAY_END_HOUR = 18;
+
+export interface TimeBlock {
+  start: string; // ISO timestamp
+  end: string; // ISO timestamp
+  minutes: number;
+}
+
+export interface UpcomingEvent {
+  title: string;
+  start: string; // ISO timestamp
+  minutesUntil: number;
+}
+
+const MINUTE = 60 * 1000;
+
+function toBlock(start: number, end: number): TimeBlock {
+  return {
+    start: new Date(start).toISOString(),
+    end: new Date(end).toISOString(),
+    minutes: Math.floor((end - start) / MINUTE),
+  };
+}
+
+/**
+ * Timed events as [start, end] in milliseconds, sorted by start
+ */
+function busyTimes(events: CalendarEvent[]): Array<[number, number]> {
+  return events
+    .filter((e) => e.start.dateTime && e.end.dateTime)
+    .map((e): [number, number] => [
+      new Date(e.start.dateTime!).getTime(),
+      new Date(e.end.dateTime!).getTime(),
+    ])
+    .sort((a, b) => a[0] - b[0]);
+}
+
+/**
+ * The end of the working day containing `now`, in an IANA time zone
+ */
+export function endOfWorkday(now: Date, timeZone: string): Date {
+  return localHourToDate(getLocalDate(timeZone, now), WORKDAY_END_HOUR, timeZone);
+}
+
+/**
+ * Free time between `from` and `until`, around the given events.
+ * Blocks shorter than a minimum session are left out.
+ */
+export function findFreeBlocks(events: CalendarEvent[], from: Date, until: Date): TimeBlock[] {
+  const blocks: TimeBlock[] = [];
+  let cursor = from.getTime();
+  const end = until.getTime();
+
+  for (const [busyStart, busyEnd] of busyTimes(events)) {
+    if (busyStart >= end) break;
+    if (busyStart > cursor) {
+      blocks.push(toBlock(cursor, busyStart));
+    }
+    cursor = Math.max(cursor, busyEnd);
+  }
+  if (cursor < end) {
+    blocks.push(toBlock(cursor, end));
+  }
+
+  return blocks.filter((block) => block.minutes >= MIN_SESSION_MINUTES);
+}
+
+/**
+ * Propose focus sessions filling each free block: as many sessions of the
+ * preferred length as fit with a short break between, then a shorter one
+ * for what's left if it's long enough.
+ */
+export function suggestSessions(blocks: TimeBlock[], preferredMinutes: number): TimeBlock[] {
+  const suggestions: TimeBlock[] = [];
+
+  for (const block of blocks) {
+    let start = new Date(block.start).getTime();
+    const end = new Date(block.end).getTime();
+
+    while ((end - start) / MINUTE >= MIN_SESSION_MINUTES) {
+      const minutes = Math.min(preferredMinutes, Math.floor((end - start) / MINUTE));
+      suggestions.push(toBlock(start, start + minutes * MINUTE));
+      start += (minutes + BREAK_MINUTES) * MINUTE;
+    }
+  }
+
+  return suggestions;
+}
+
+/**
+ * The next timed event starting after `now`, if any
+ */
+export function findNextEvent(events: CalendarEvent[], now: Date): UpcomingEvent | null {
+  const next = events
+    .filter((e) => e.start.dateTime && new Date(e.start.dateTime).getTime() > now.getTime())
+    .sort(
+      (a, b) => new Date(a.start.dateTime!).getTime() - new Date(b.start.dateTime!).getTime()
+    )[0];
+  if (!next) return null;
+
+  return {
+    title: next.summary || "Untitled event",
+    start: next.start.dateTime!,
+    minutesUntil: Math.round((new Date(next.start.dateTime!).getTime() - now.getTime()) / MINUTE),
+  };
+}
+
+/**
+ * A warning if a session starting now would run into the next event.
+ * Returns null if there's room (or nothing else on the calendar).
+ */
+export function findSessionConflict(
+  events: CalendarEvent[],
+  now: Date,
+  durationMinutes: number
+): string | null {
+  const next = findNextEvent(events, now);
+  if (!next || next.minutesUntil >= durationMinutes) return null;
+
+  return `Your ${durationMinutes}-minute session would run into "${next.title}", which starts in ${next.minutesUntil} minutes`;
+}
+
+/**
+ * Check a session starting now against today's cached calendar events, so
+ * starting a session never waits on Google. Returns a warning if it would
+ * run into the next event, or null if it fits or today's calendar hasn't
+ * been fetched.
+ */
+export function checkSessionAgainstCalendar(
+  userId: string,
+  durationMinutes: number
+): string | null {
+  const events = getCachedTodayEvents(userId);
+  return events ? findSessionConflict(events, new Date(), durationMinutes) : null;
+}
@@ -5,6 +5,8 @@
  * - Checks for new emails and creates alerts
  * - Monitors upcoming calendar events for reminders
  * - Generates morning briefings
+ * - Maintains memories (decay, consolidation, archiving, conflicts)
+ * - Retries session exports to Notion that failed
  *
  * Uses a simple interval-based approach for local development.
  * Can be replaced with a more robust job queue for production.
@@ -19,17 +21,23 @@ import {
   getOrCreateBackgroundCheck,
 } from "./briefing.js";
 import { getGoogleConnection } from "./google.js";
+import { runMemoryMaintenance } from "./memory-maintenance.js";
+import { retryFailedSessionExports } from "./notion-session-export.js";
 
 // Default check intervals (in milliseconds)
 const EMAIL_CHECK_INTERVAL = 5 * 60 * 1000; // 5 minutes
 const CALENDAR_CHECK_INTERVAL = 5 * 60 * 1000; // 5 minutes
 const BRIEFING_CHECK_INTERVAL = 30 * 60 * 1000; // 30 minutes
+const MEMORY_MAINTENANCE_INTERVAL = 24 * 60 * 60 * 1000; // 24 hours
+const SESSION_EXPORT_RETRY_INTERVAL = 15 * 60 * 1000; // 15 minutes
 
 // Track running state
 let isRunning = false;
 let emailCheckTimer: ReturnType<typeof setInterval> | null = null;
 let calendarCheckTimer: ReturnType<typeof setInterval> | null = null;
 let briefingCheckTimer: ReturnType<typeof setInterval> | null = null;
+let memoryMaintenanceTimer: ReturnType<typeof setInterval> | null = null;
+let sessionExportRetryTimer: ReturnType<typeof setInterval> | null = null;
 
 /**
  * Get all users who have Google connected
@@ -116,6 +124,39 @@ async function runBriefingGeneration(): Promise<void> {
   }
 }
 
+/**
+ * Run memory maintenance for every user with memories
+ */
+function runMemoryMaintenanceJobs(): void {
+  const db = getDb();
+  const users = db.prepare(`SELECT DISTINCT user_id FROM user_context_items`).all() as Array<{
+    user_id: string;
+  }>;
+
+  for (const { user_id: userId } of users) {
+    try {
+      const result = runMemoryMaintenance(userId);
+      if (result.decayed + result.merged + result.archived + result.conflicts > 0) {
+        console.log(
+          `[Scheduler] Memory maintenance for user ${userId}: ${result.decayed} decayed, ${result.merged} merged, ${result.archived} archived, ${result.conflicts} conflicts flagged`
+        );
+      }
+    } catch (error) {
+      console.error(`[Scheduler] Memory maintenance failed for user ${userId}:`, error);
+    }
+  }
+}
+
+/**
+ * Retry session exports to Notion notes databases that failed
+ */
+async function runSessionExportRetries(): Promise<void> {
+  const exported = await retryFailedSessionExports();
+  if (exported > 0) {
+    console.log(`[Scheduler] Exported ${exported} sessions to Notion on retry`);
+  }
+}
+
 /**
  * Initialize background check records for a user
  */
@@ -141,6 +182,8 @@ export function startScheduler(): void {
     runEmailChecks().catch(console.error);
     runCalendarChecks().catch(console.error);
     runBriefingGeneration().catch(console.error);
+    runMemoryMaintenanceJobs();
+    runSessionExportRetries().catch(console.error);
   }, 10000); // 10 second delay on startup
 
   // Set up periodic checks
@@ -156,10 +199,18 @@ export function startScheduler(): void {
     runBriefingGeneration().catch(console.error);
   }, BRIEFING_CHECK_INTERVAL);
 
+  memoryMaintenanceTimer = setInterval(runMemoryMaintenanceJobs, MEMORY_MAINTENANCE_INTERVAL);
+
+  sessionExportRetryTimer = setInterval(() => {
+    runSessionExportRetries().catch(console.error);
+  }, SESSION_EXPORT_RETRY_INTERVAL);
+
   console.log(`[Scheduler] Background scheduler started:
   - Email checks: every ${EMAIL_CHECK_INTERVAL / 60000} minutes
   - Calendar checks: every ${CALENDAR_CHECK_INTERVAL / 60000} minutes
-  - Briefing checks: every ${BRIEFING_CHECK_INTERVAL / 60000} minutes`);
+  - Briefing checks: every ${BRIEFING_CHECK_INTERVAL / 60000} minutes
+  - Memory maintenance: every ${MEMORY_MAINTENANCE_INTERVAL / 3600000} hours
+  - Session export retries: every ${SESSION_EXPORT_RETRY_INTERVAL / 60000} minutes`);
 }
 
 /**
@@ -187,6 +238,16 @@ export function stopScheduler(): void {
     briefingCheckTimer = null;
   }
 
+  if (memoryMaintenanceTimer) {
+    clearInterval(memoryMaintenanceTimer);
+    memoryMaintenanceTimer = null;
+  }
+
+  if (sessionExportRetryTimer) {
+    clearInterval(sessionExportRetryTimer);
+    sessionExportRetryTimer = null;
+  }
+
   console.log("[Scheduler] Background scheduler stopped");
 }
 
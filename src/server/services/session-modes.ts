@@ -0,0 +1,69 @@
+/**
+ * Session Modes
+ *
+ * Each focus session runs in a mode that shapes how the companion behaves,
+ * based on the task type (see research/02-social-facilitation.md):
+ * - simple_task: Routine work - warm, encouraging presence with regular check-ins
+ * - deep_work: Complex work - minimal interruption, rare check-ins, no alerts
+ * - presence: Quiet company - only replies when the user speaks
+ */
+
+import { systemPromptV1, systemPromptV2, systemPromptV3 } from "../../../prompts/system-prompt.js";
+import type { SessionMode } from "../db/schema.js";
+
+export interface SessionModeConfig {
+  name: string;
+  /** System prompt template used for replies */
+  promptTemplate: string;
+  /** Check-in cadence (minutes) when the user doesn't pick one */
+  defaultCheckInFrequency: number;
+  /** Response length limit for companion replies */
+  maxTokens: number;
+  /** Whether the companion may speak without being spoken to (greeting, check-ins) */
+  unpromptedMessages: boolean;
+  /** Whether background alerts are held back until the session ends */
+  suppressAlerts: boolean;
+}
+
+export const DEFAULT_SESSION_MODE: SessionMode = "simple_task";
+
+export const sessionModes: Record<SessionMode, SessionModeConfig> = {
+  simple_task: {
+    name: "Simple Task",
+    promptTemplate: systemPromptV1,
+    defaultCheckInFrequency: 15,
+    maxTokens: 1024,
+    unpromptedMessages: true,
+    suppressAlerts: false,
+  },
+  deep_work: {
+    name: "Deep Work",
+    promptTemplate: systemPromptV3,
+    defaultCheckInFrequency: 45,
+    maxTokens: 512,
+    unpromptedMessages: true,
+    suppressAlerts: true,
+  },
+  presence: {
+    name: "Presence Only",
+    promptTemplate: systemPromptV2,
+    defaultCheckInFrequency: 30,
+    maxTokens: 256,
+    unpromptedMessages: false,
+    suppressAlerts: false,
+  },
+};
+
+/**
+ * Check if a value is a known session mode
+ */
+export function isSessionMode(value: unknown): value is SessionMode {
+  return typeof value === "string" && Object.hasOwn(sessionModes, value);
+}
+
+/**
+ * Get the config for a session mode, falling back to the default mode
+ */
+export function getSessionModeConfig(mode: string | null | undefined): SessionModeConfig {
+  return isSessionMode(mode) ? sessionModes[mode] : sessionModes[DEFAULT_SESSION_MODE];
+}
@@ -0,0 +1,148 @@
+/**
+ * Session Summaries Service
+ *
+ * Keeps long sessions cheap. Once a session's unsummarized history passes a
+ * threshold, the older turns are folded into a running summary and only the
+ * most recent messages are sent verbatim.
+ *
+ * Summaries advance in batches rather than every turn, so the prompt prefix
+ * (system prompt, summary and the start of the verbatim history) stays the
+ * same between batches and prompt caching keeps working.
+ */
+
+import crypto from "node:crypto";
+import { getDb } from "../db/index.js";
+import { generateSessionSummary } from "./companion.js";
+import { isOverBudget } from "./usage.js";
+import type { Message, Session, SessionConversationSummary, User } from "../db/schema.js";
+
+// Unsummarized messages allowed before older turns are folded into the summary
+export const SUMMARIZE_AFTER_MESSAGES = 30;
+
+// Messages left verbatim after folding
+export const KEEP_RECENT_MESSAGES = 10;
+
+// Sessions with a summary update in progress
+const inFlight = new Set<string>();
+
+/**
+ * Get the running summary for a session, if one exists
+ */
+export function getSessionSummary(sessionId: string): SessionConversationSummary | null {
+  const db = getDb();
+  const row = db.prepare(`SELECT * FROM session_summaries WHERE session_id = ?`).get(sessionId) as
+    | SessionConversationSummary
+    | undefined;
+
+  return row ?? null;
+}
+
+/**
+ * Build the prompt asking the model to extend the running summary
+ */
+function buildSummaryPrompt(
+  userName: string,
+  task: string,
+  previousSummary: string | null,
+  transcript: string
+): string {
+  const previous = previousSummary
+    ? `Summary so far:\n<summary>\n${previousSummary}\n</summary>\n\n`
+    : "";
+
+  return `${userName} is in a focus session with their work companion, working on: "${task}".
+
+${previous}Newer part of the conversation:
+<transcript>
+${transcript}
+</transcript>
+
+Write an updated summary of the whole conversation so far, combining the summary (if any) with the newer part. Keep what the companion needs to stay helpful: progress on the task, blockers, distractions that came up, commitments ${userName} made and anything they asked the companion to remember. Drop small talk. Write in the third person, under 200 words.`;
+}
+
+/**
+ * Fold older turns into the session's running summary once the unsummarized
+ * history is long enough. Returns the current summary (updated or not).
+ */
+export async function updateSessionSummary(
+  userId: string,
+  sessionId: string
+): Promise<SessionConversationSummary | null> {
+  const db = getDb();
+  const existing = getSessionSummary(sessionId);
+
+  if (inFlight.has(sessionId) || isOverBudget(userId)) {
+    return existing;
+  }
+
+  const messages = db
+    .prepare(
+      `
+    SELECT role, content FROM messages
+    WHERE session_id = ?
+    ORDER BY created_at ASC, rowid ASC
+  `
+    )
+    .all(sessionId) as Pick<Message, "role" | "content">[];
+
+  const covered = existing?.messages_summarized ?? 0;
+  if (messages.length - covered <= SUMMARIZE_AFTER_MESSAGES) {
+    return existing;
+  }
+
+  const session = db
+    .prepare(`SELECT * FROM sessions WHERE id = ? AND user_id = ?`)
+    .get(sessionId, userId) as Session | undefined;
+  if (!session) {
+    return existing;
+  }
+
+  const user = db.prepare(`SELECT name FROM users WHERE id = ?`).get(userId) as Pick<User, "name">;
+
+  const foldThrough = messages.length - KEEP_RECENT_MESSAGES;
+  const transcript = messages
+    .slice(covered, foldThrough)
+    .map((m) => `${m.role === "user" ? user.name : "Companion"}: ${m.content}`)
+    .join("\n");
+
+  inFlight.add(sessionId);
+  try {
+    const summary = (
+      await generateSessionSummary(
+        userId,
+        sessionId,
+        buildSummaryPrompt(
+          user.name,
+          session.declared_task || "their task",
+          existing?.summary ?? null,
+          transcript
+        )
+      )
+    ).trim();
+
+    if (!summary) {
+      return existing;
+    }
+
+    if (existing) {
+      db.prepare(
+        `
+        UPDATE session_summaries
+        SET summary = ?, messages_summarized = ?, updated_at = datetime('now')
+        WHERE id = ?
+      `
+      ).run(summary, foldThrough, existing.id);
+    } else {
+      db.prepare(
+        `
+        INSERT INTO session_summaries (id, session_id, summary, messages_summarized)
+        VALUES (?, ?, ?, ?)
+      `
+      ).run(crypto.randomUUID(), sessionId, summary, foldThrough);
+    }
+
+    return getSessionSummary(sessionId);
+  } finally {
+    inFlight.delete(sessionId);
+  }
+}
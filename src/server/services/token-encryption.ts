@@ -0,0 +1,233 @@
+/**
+ * OAuth Token Encryption
+ *
+ * Envelope encryption for the Notion and Google tokens stored in the
+ * database. Each connection row gets its own random data key, which encrypts
+ * the row's tokens with AES-256-GCM; the data key is itself encrypted
+ * ("wrapped") with a master key from TOKEN_ENCRYPTION_KEYS, whose id is
+ * stored on the row.
+ *
+ * TOKEN_ENCRYPTION_KEYS is a comma-separated list of id:base64 pairs, each
+ * key 32 bytes (`openssl rand -base64 32`). The first key encrypts new rows;
+ * the others can still decrypt rows written under them. To rotate, put a new
+ * key first and run `npm run db:rotate-keys`.
+ *
+ * Rows with no key id hold plaintext tokens - connections saved before a key
+ * was configured. encryptPlaintextTokens() encrypts them at startup.
+ */
+
+import crypto from "node:crypto";
+import { getDb } from "../db/index.js";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+/** The key columns on notion_connections and google_connections */
+export interface TokenKeyColumns {
+  token_key_id: string | null;
+  token_data_key: string | null;
+}
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+// Tables with encrypted tokens, and their token columns
+const TOKEN_TABLES = {
+  notion_connections: ["access_token"],
+  google_connections: ["access_token", "refresh_token"],
+} as const;
+
+let cachedKeys: { source: string; keys: MasterKey[] } | null = null;
+
+/**
+ * The master keys from TOKEN_ENCRYPTION_KEYS, current key first
+ */
+function getMasterKeys(): MasterKey[] {
+  const source = process.env.TOKEN_ENCRYPTION_KEYS || "";
+  if (cachedKeys?.source === source) {
+    return cachedKeys.keys;
+  }
+
+  const keys = source
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(":");
+      const id = entry.slice(0, separator);
+      const key = Buffer.from(entry.slice(separator + 1), "base64");
+      if (separator <= 0 || key.length !== 32) {
+        throw new Error(
+          "TOKEN_ENCRYPTION_KEYS must be comma-separated id:key pairs with 32-byte base64 keys"
+        );
+      }
+      return { id, key };
+    });
+
+  cachedKeys = { source, keys };
+  return keys;
+}
+
+/**
+ * Whether new tokens will be encrypted
+ */
+export function isTokenEncryptionEnabled(): boolean {
+  return getMasterKeys().length > 0;
+}
+
+function encrypt(key: Buffer, plaintext: Buffer, context: string): string {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  cipher.setAAD(Buffer.from(context));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+function decrypt(key: Buffer, encoded: string, context: string): Buffer {
+  const data = Buffer.from(encoded, "base64");
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, data.subarray(0, IV_BYTES));
+  decipher.setAAD(Buffer.from(context));
+  decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+/**
+ * Encrypt one row's tokens under a new data key wrapped with the current
+ * master key. With no key configured they're returned unchanged.
+ */
+export function encryptTokens<T extends Record<string, string>>(
+  tokens: T
+): { tokens: T } & TokenKeyColumns {
+  const [masterKey] = getMasterKeys();
+  if (!masterKey) {
+    return { tokens, token_key_id: null, token_data_key: null };
+  }
+
+  const dataKey = crypto.randomBytes(32);
+  const encrypted = Object.fromEntries(
+    Object.entries(tokens).map(([field, value]) => [
+      field,
+      encrypt(dataKey, Buffer.from(value, "utf8"), field),
+    ])
+  ) as T;
+
+  return {
+    tokens: encrypted,
+    token_key_id: masterKey.id,
+    token_data_key: encrypt(masterKey.key, dataKey, `data-key:${masterKey.id}`),
+  };
+}
+
+/**
+ * Decrypt one row's tokens. Plaintext rows (no key id) come back as stored.
+ * Throws if the row's master key isn't configured.
+ */
+export function decryptTokens<T extends Record<string, string>>(
+  columns: TokenKeyColumns,
+  tokens: T
+): T {
+  if (!columns.token_key_id || !columns.token_data_key) {
+    return tokens;
+  }
+
+  const masterKey = getMasterKeys().find((k) => k.id === columns.token_key_id);
+  if (!masterKey) {
+    throw new Error(
+      `Token encryption key "${columns.token_key_id}" is not in TOKEN_ENCRYPTION_KEYS`
+    );
+  }
+
+  const dataKey = decrypt(masterKey.key, columns.token_data_key, `data-key:${masterKey.id}`);
+  return Object.fromEntries(
+    Object.entries(tokens).map(([field, value]) => [
+      field,
+      decrypt(dataKey, value, field).toString("utf8"),
+    ])
+  ) as T;
+}
+
+// ============================================
+// Bulk re-encryption
+// ============================================
+
+/**
+ * Re-encrypt rows' tokens under the current key: every row, or only the
+ * plaintext ones
+ */
+function reencryptRows(onlyPlaintext: boolean): number {
+  if (!isTokenEncryptionEnabled()) return 0;
+
+  const db = getDb();
+  let count = 0;
+
+  db.transaction(() => {
+    for (const [table, fields] of Object.entries(TOKEN_TABLES)) {
+      const rows = db
+        .prepare(`SELECT id, token_key_id, token_data_key, ${fields.join(", ")} FROM ${table}`)
+        .all() as Array<TokenKeyColumns & Record<string, string>>;
+      const update = db.prepare(
+        `UPDATE ${table} SET ${fields.map((f) => `${f} = ?`).join(", ")}, token_key_id = ?, token_data_key = ? WHERE id = ?`
+      );
+
+      for (const row of rows) {
+        if (onlyPlaintext && row.token_key_id) continue;
+
+        const current = decryptTokens(row, Object.fromEntries(fields.map((f) => [f, row[f]])));
+        const sealed = encryptTokens(current);
+        update.run(
+          ...fields.map((f) => sealed.tokens[f]),
+          sealed.token_key_id,
+          sealed.token_data_key,
+          row.id
+        );
+        count++;
+      }
+    }
+  })();
+
+  return count;
+}
+
+/**
+ * Encrypt tokens saved before a key was configured. Run at startup; does
+ * nothing without a key.
+ */
+export function encryptPlaintextTokens(): number {
+  return reencryptRows(true);
+}
+
+/**
+ * Re-encrypt every row's tokens under the current (first) master key, so
+ * older keys can be removed from TOKEN_ENCRYPTION_KEYS afterwards
+ */
+export function rotateTokenKeys(): number {
+  return reencryptRows(false);
+}
+
+// ============================================
+// Log redaction
+// ============================================
+
+const SECRET_FIELD = /^(access_token|refresh_token|id_token|client_secret|authorization)$/i;
+
+/**
+ * A copy of an API request or response body with token-like fields replaced,
+ * so logs never hold credentials
+ */
+export function redactSecrets<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactSecrets(item)) as T;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        SECRET_FIELD.test(key) && typeof item === "string" ? "[redacted]" : redactSecrets(item),
+      ])
+    ) as T;
+  }
+  return value;
+}
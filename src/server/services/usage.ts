@@ -0,0 +1,236 @@
+/**
+ * Usage Service
+ *
+ * Records tokens, cost and latency for every model call, rolls them up per
+ * day, session and request type, and enforces optional per-user monthly
+ * budgets.
+ */
+
+import crypto from "node:crypto";
+import { getDb } from "../db/index.js";
+import type { CompanionRequestType, TokenUsage } from "./llm-provider.js";
+import type { User } from "../db/schema.js";
+
+/** USD per million tokens */
+interface ModelPricing {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+// Prices by model name prefix; unknown models are recorded at zero cost
+const MODEL_PRICING: Array<{ prefix: string; pricing: ModelPricing }> = [
+  {
+    prefix: "claude-sonnet-4",
+    pricing: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  },
+  {
+    prefix: "claude-3-5-haiku",
+    pricing: { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+  },
+];
+
+export const BUDGET_EXCEEDED_MESSAGE =
+  "I've hit this month's usage limit, so I can't reply right now. You can raise or remove the limit in your settings - and I'm still here keeping you company while you work.";
+
+export interface UsageRecordInput {
+  userId: string;
+  sessionId: string | null;
+  requestType: CompanionRequestType;
+  model: string;
+  usage: TokenUsage;
+  latencyMs: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  costUsd: number;
+}
+
+export interface BudgetStatus {
+  monthlyBudgetUsd: number | null;
+  spentThisMonthUsd: number;
+  remainingUsd: number | null;
+  exceeded: boolean;
+}
+
+export interface UsageSummary {
+  days: number;
+  totals: UsageTotals;
+  byDay: Array<UsageTotals & { date: string }>;
+  bySession: Array<UsageTotals & { sessionId: string; task: string | null }>;
+  byRequestType: Array<UsageTotals & { requestType: string }>;
+  budget: BudgetStatus;
+}
+
+// Aggregate columns shared by every rollup
+const TOTALS_SQL = `
+  COUNT(*) AS requests,
+  COALESCE(SUM(u.input_tokens), 0) AS inputTokens,
+  COALESCE(SUM(u.output_tokens), 0) AS outputTokens,
+  COALESCE(SUM(u.cache_read_tokens), 0) AS cacheReadTokens,
+  COALESCE(SUM(u.cache_write_tokens), 0) AS cacheWriteTokens,
+  COALESCE(SUM(u.cost_usd), 0) AS costUsd
+`;
+
+/**
+ * Estimate the cost of a call in USD
+ */
+export function estimateCost(model: string, usage: TokenUsage): number {
+  const pricing = MODEL_PRICING.find((p) => model.startsWith(p.prefix))?.pricing;
+  if (!pricing) {
+    return 0;
+  }
+
+  return (
+    (usage.inputTokens * pricing.input +
+      usage.outputTokens * pricing.output +
+      usage.cacheReadTokens * pricing.cacheRead +
+      usage.cacheWriteTokens * pricing.cacheWrite) /
+    1_000_000
+  );
+}
+
+/**
+ * Record a model call
+ */
+export function recordUsage(input: UsageRecordInput): void {
+  const db = getDb();
+  db.prepare(
+    `
+    INSERT INTO llm_usage (
+      id, user_id, session_id, request_type, model,
+      input_tokens, output_tokens, cache_read_tokens, cache_write_tokens,
+      cost_usd, latency_ms
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `
+  ).run(
+    crypto.randomUUID(),
+    input.userId,
+    input.sessionId,
+    input.requestType,
+    input.model,
+    input.usage.inputTokens,
+    input.usage.outputTokens,
+    input.usage.cacheReadTokens,
+    input.usage.cacheWriteTokens,
+    estimateCost(input.model, input.usage),
+    Math.round(input.latencyMs)
+  );
+}
+
+// ============================================
+// Budgets
+// ============================================
+
+/**
+ * Get a user's spend this calendar month against their budget
+ */
+export function getBudgetStatus(userId: string): BudgetStatus {
+  const db = getDb();
+
+  const user = db.prepare(`SELECT monthly_budget_usd FROM users WHERE id = ?`).get(userId) as
+    | Pick<User, "monthly_budget_usd">
+    | undefined;
+  const { spent } = db
+    .prepare(
+      `
+    SELECT COALESCE(SUM(cost_usd), 0) AS spent FROM llm_usage
+    WHERE user_id = ? AND created_at >= datetime('now', 'start of month')
+  `
+    )
+    .get(userId) as { spent: number };
+
+  const budget = user?.monthly_budget_usd ?? null;
+  return {
+    monthlyBudgetUsd: budget,
+    spentThisMonthUsd: spent,
+    remainingUsd: budget === null ? null : Math.max(0, budget - spent),
+    exceeded: budget !== null && spent >= budget,
+  };
+}
+
+/**
+ * Check if a user has used up this month's budget
+ */
+export function isOverBudget(userId: string): boolean {
+  return getBudgetStatus(userId).exceeded;
+}
+
+/**
+ * Set or clear (null) a user's monthly budget
+ */
+export function setMonthlyBudget(userId: string, budgetUsd: number | null): BudgetStatus {
+  const db = getDb();
+  db.prepare(`UPDATE users SET monthly_budget_usd = ? WHERE id = ?`).run(budgetUsd, userId);
+  return getBudgetStatus(userId);
+}
+
+// ============================================
+// Rollups
+// ============================================
+
+/**
+ * Summarize a user's usage over the last N days
+ */
+export function getUsageSummary(userId: string, days: number = 30): UsageSummary {
+  const db = getDb();
+  const since = `-${days} days`;
+  const where = `u.user_id = ? AND u.created_at >= datetime('now', ?)`;
+
+  const totals = db
+    .prepare(`SELECT ${TOTALS_SQL} FROM llm_usage u WHERE ${where}`)
+    .get(userId, since) as UsageTotals;
+
+  const byDay = db
+    .prepare(
+      `
+    SELECT date(u.created_at) AS date, ${TOTALS_SQL}
+    FROM llm_usage u
+    WHERE ${where}
+    GROUP BY date(u.created_at)
+    ORDER BY date DESC
+  `
+    )
+    .all(userId, since) as UsageSummary["byDay"];
+
+  const bySession = db
+    .prepare(
+      `
+    SELECT u.session_id AS sessionId, s.declared_task AS task, ${TOTALS_SQL}
+    FROM llm_usage u
+    LEFT JOIN sessions s ON s.id = u.session_id
+    WHERE ${where} AND u.session_id IS NOT NULL
+    GROUP BY u.session_id
+    ORDER BY MAX(u.created_at) DESC
+  `
+    )
+    .all(userId, since) as UsageSummary["bySession"];
+
+  const byRequestType = db
+    .prepare(
+      `
+    SELECT u.request_type AS requestType, ${TOTALS_SQL}
+    FROM llm_usage u
+    WHERE ${where}
+    GROUP BY u.request_type
+    ORDER BY costUsd DESC
+  `
+    )
+    .all(userId, since) as UsageSummary["byRequestType"];
+
+  return {
+    days,
+    totals,
+    byDay,
+    bySession,
+    byRequestType,
+    budget: getBudgetStatus(userId),
+  };
+}
@@ -8,8 +8,28 @@
 import { WebSocketServer, WebSocket } from "ws";
 import type { Server, IncomingMessage } from "http";
 import { getDb } from "./db/index.js";
-import { generateStreamingResponse, saveMessage } from "./services/companion.js";
+import {
+  generateMainChatStreamingResponse,
+  generateSideChatStreamingResponse,
+  generateStreamingResponse,
+  saveMessage,
+} from "./services/companion.js";
+import {
+  addMainChatMessage,
+  addSideChatMessage,
+  getSideChat,
+  parseSideChatSuggestion,
+  spawnSideChatFromMain,
+  visibleReplyText,
+} from "./services/chats.js";
+import { updateSessionSummary } from "./services/session-summaries.js";
 import { validateSession } from "./services/auth.js";
+import {
+  attachCheckInListener,
+  detachCheckInListener,
+  type CheckInEvent,
+} from "./services/checkins.js";
+import type { ToolCallHandlers, ToolCallRecord } from "./services/companion-tools.js";
 import type { Session, User } from "./db/schema.js";
 
 interface ChatMessage {
@@ -17,14 +37,33 @@ interface ChatMessage {
     | "message"
     | "join"
     | "leave"
+    | "join_side_chat"
+    | "side_chat_message"
+    | "leave_side_chat"
+    | "main_chat_message"
+    | "side_chat_spawned"
+    | "tool_call"
+    | "tool_confirmation_required"
+    | "tool_confirmation"
+    | "tool_result"
     | "error"
     | "stream_start"
     | "stream_chunk"
     | "stream_end"
     | "authenticated";
   sessionId?: string;
+  sideChatId?: string;
+  /** Set on frames that belong to the main chat */
+  chat?: "main";
   content?: string;
   role?: "user" | "assistant";
+  /** Tool call frames */
+  toolCallId?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  isError?: boolean;
+  /** The user's answer in a tool_confirmation frame */
+  approved?: boolean;
   error?: string;
   user?: { id: string; name: string; email: string };
 }
@@ -32,8 +71,14 @@ interface ChatMessage {
 interface ClientState {
   user: User | null;
   sessionId: string | null;
+  sideChatId: string | null;
+  /** Tool calls waiting on the user's tool_confirmation, by toolCallId */
+  pendingConfirmations: Map<string, (approved: boolean) => void>;
 }
 
+// Tool calls the user hasn't answered in this long are treated as declined
+const TOOL_CONFIRMATION_TIMEOUT_MS = 2 * 60 * 1000;
+
 const clients = new Map<WebSocket, ClientState>();
 
 export function setupWebSocket(server: Server): WebSocketServer {
@@ -51,7 +96,12 @@ export function setupWebSocket(server: Server): WebSocketServer {
       return;
     }
 
-    clients.set(ws, { user, sessionId: null });
+    clients.set(ws, {
+      user,
+      sessionId: null,
+      sideChatId: null,
+      pendingConfirmations: new Map(),
+    });
 
     // Send authentication confirmation
     send(ws, {
@@ -70,11 +120,15 @@ export function setupWebSocket(server: Server): WebSocketServer {
     });
 
     ws.on("close", () => {
+      detachFromSession(ws);
+      declinePendingConfirmations(ws);
       clients.delete(ws);
     });
 
     ws.on("error", (error) => {
       console.error("WebSocket error:", error);
+      detachFromSession(ws);
+      declinePendingConfirmations(ws);
       clients.delete(ws);
     });
   });
@@ -109,10 +163,30 @@ async function handleMessage(ws: WebSocket, message: ChatMessage): Promise<void>
       await handleChatMessage(ws, state, message);
       break;
 
+    case "tool_confirmation":
+      handleToolConfirmation(ws, state, message);
+      break;
+
     case "leave":
       handleLeave(ws, state);
       break;
 
+    case "join_side_chat":
+      handleJoinSideChat(ws, state, message);
+      break;
+
+    case "side_chat_message":
+      await handleSideChatMessage(ws, state, message);
+      break;
+
+    case "leave_side_chat":
+      handleLeaveSideChat(ws, state);
+      break;
+
+    case "main_chat_message":
+      await handleMainChatMessage(ws, state, message);
+      break;
+
     default:
       sendError(ws, `Unknown message type: ${message.type}`);
   }
@@ -148,6 +222,11 @@ async function handleJoin(ws: WebSocket, state: ClientState, message: ChatMessag
     return;
   }
 
+  // Switching sessions on the same socket stops listening to the old one
+  if (state.sessionId && state.sessionId !== sessionId) {
+    detachCheckInListener(state.sessionId, ws);
+  }
+
   state.sessionId = sessionId;
 
   send(ws, {
@@ -155,6 +234,15 @@ async function handleJoin(ws: WebSocket, state: ClientState, message: ChatMessag
     sessionId,
     content: "Connected to session",
   });
+
+  // Proactive check-ins are scheduled per session, so rejoining reuses the existing timer
+  attachCheckInListener(session, ws, (event: CheckInEvent) => {
+    if (event.type === "error") {
+      sendError(ws, event.error);
+    } else {
+      send(ws, event);
+    }
+  });
 }
 
 async function handleChatMessage(
@@ -200,10 +288,15 @@ async function handleChatMessage(
   // Signal streaming start
   send(ws, { type: "stream_start" });
 
+  const sessionId = state.sessionId;
+
   // Stream AI response
   let fullResponse = "";
+  const toolCalls: ToolCallRecord[] = [];
   try {
-    const stream = generateStreamingResponse(user.id, state.sessionId, content);
+    const stream = generateStreamingResponse(user.id, sessionId, content, {
+      tools: createToolCallHandlers(ws, state, toolCalls),
+    });
 
     for await (const chunk of stream) {
       fullResponse += chunk;
@@ -213,8 +306,18 @@ async function handleChatMessage(
       });
     }
 
-    // Save complete response
-    saveMessage(state.sessionId, "assistant", fullResponse);
+    // Save complete response, with any tool calls made along the way
+    saveMessage(
+      sessionId,
+      "assistant",
+      fullResponse,
+      toolCalls.length > 0 ? { toolCalls } : undefined
+    );
+
+    // Fold older turns into the rolling summary once the session gets long
+    updateSessionSummary(user.id, sessionId).catch((error) => {
+      console.error("Failed to update session summary:", error);
+    });
 
     // Signal streaming end
     send(ws, {
@@ -227,8 +330,89 @@ async function handleChatMessage(
   }
 }
 
+// ============================================
+// Tool Calls
+// ============================================
+
+/**
+ * Report the companion's tool calls to the client as they happen. Tool
+ * calls that change existing data are sent as tool_confirmation_required
+ * and only run once the client answers with a matching tool_confirmation.
+ */
+function createToolCallHandlers(
+  ws: WebSocket,
+  state: ClientState,
+  records: ToolCallRecord[]
+): ToolCallHandlers {
+  return {
+    onEvent(event) {
+      if (event.type === "tool_call") {
+        send(ws, {
+          type: "tool_call",
+          toolCallId: event.toolCallId,
+          name: event.name,
+          input: event.input,
+        });
+        return;
+      }
+
+      const { toolCallId, name, input, content, isError } = event;
+      records.push({ id: toolCallId, name, input, content, isError });
+      send(ws, { type: "tool_result", toolCallId, name, content, isError });
+    },
+
+    confirm({ toolCallId, name, input, description }) {
+      return new Promise<boolean>((resolve) => {
+        const timeout = setTimeout(() => settle(false), TOOL_CONFIRMATION_TIMEOUT_MS);
+        const settle = (approved: boolean) => {
+          clearTimeout(timeout);
+          state.pendingConfirmations.delete(toolCallId);
+          resolve(approved);
+        };
+
+        state.pendingConfirmations.set(toolCallId, settle);
+        send(ws, {
+          type: "tool_confirmation_required",
+          toolCallId,
+          name,
+          input,
+          content: description,
+        });
+      });
+    },
+  };
+}
+
+function handleToolConfirmation(ws: WebSocket, state: ClientState, message: ChatMessage): void {
+  const { toolCallId, approved } = message;
+
+  if (!toolCallId || typeof approved !== "boolean") {
+    sendError(ws, "toolCallId and approved are required");
+    return;
+  }
+
+  const settle = state.pendingConfirmations.get(toolCallId);
+  if (!settle) {
+    sendError(ws, "No pending tool call with that ID");
+    return;
+  }
+
+  settle(approved);
+}
+
+/**
+ * Decline every tool call still waiting on this socket, e.g. when it closes
+ */
+function declinePendingConfirmations(ws: WebSocket): void {
+  const state = clients.get(ws);
+  for (const settle of state?.pendingConfirmations.values() ?? []) {
+    settle(false);
+  }
+}
+
 function handleLeave(ws: WebSocket, state: ClientState): void {
   const sessionId = state.sessionId;
+  detachFromSession(ws);
   state.sessionId = null;
 
   send(ws, {
@@ -238,6 +422,175 @@ function handleLeave(ws: WebSocket, state: ClientState): void {
   });
 }
 
+// ============================================
+// Side Chats
+// ============================================
+
+/**
+ * Join a side chat. A socket can be in a side chat and a session at the
+ * same time; side chat events carry the sideChatId so the client can tell
+ * them apart.
+ */
+function handleJoinSideChat(ws: WebSocket, state: ClientState, message: ChatMessage): void {
+  const { sideChatId } = message;
+
+  if (!sideChatId) {
+    sendError(ws, "sideChatId is required to join a side chat");
+    return;
+  }
+
+  const chat = getSideChat(state.user!.id, sideChatId);
+  if (!chat) {
+    sendError(ws, "Side chat not found");
+    return;
+  }
+
+  if (chat.status !== "active") {
+    sendError(ws, "Side chat is archived");
+    return;
+  }
+
+  state.sideChatId = sideChatId;
+
+  send(ws, {
+    type: "join_side_chat",
+    sideChatId,
+    content: "Connected to side chat",
+  });
+}
+
+async function handleSideChatMessage(
+  ws: WebSocket,
+  state: ClientState,
+  message: ChatMessage
+): Promise<void> {
+  const user = state.user!;
+  const sideChatId = state.sideChatId;
+
+  if (!sideChatId) {
+    sendError(ws, "Not connected to a side chat. Send a join_side_chat message first.");
+    return;
+  }
+
+  const { content } = message;
+  if (!content) {
+    sendError(ws, "Message content is required");
+    return;
+  }
+
+  // The chat may have been archived or deleted since joining
+  const chat = getSideChat(user.id, sideChatId);
+  if (!chat || chat.status !== "active") {
+    sendError(ws, "Side chat is no longer active");
+    return;
+  }
+
+  // Save user message (not echoed back, same as session chat)
+  addSideChatMessage(user.id, sideChatId, { role: "user", content });
+
+  send(ws, { type: "stream_start", sideChatId });
+
+  let fullResponse = "";
+  try {
+    for await (const chunk of generateSideChatStreamingResponse(user.id, sideChatId)) {
+      fullResponse += chunk;
+      send(ws, { type: "stream_chunk", sideChatId, content: chunk });
+    }
+
+    addSideChatMessage(user.id, sideChatId, { role: "assistant", content: fullResponse });
+
+    send(ws, { type: "stream_end", sideChatId, content: fullResponse });
+  } catch (error) {
+    console.error("Side chat streaming error:", error);
+    sendError(ws, "Failed to generate response");
+  }
+}
+
+function handleLeaveSideChat(ws: WebSocket, state: ClientState): void {
+  const sideChatId = state.sideChatId;
+  state.sideChatId = null;
+
+  send(ws, {
+    type: "leave_side_chat",
+    sideChatId: sideChatId || undefined,
+    content: "Disconnected from side chat",
+  });
+}
+
+// ============================================
+// Main Chat
+// ============================================
+
+/**
+ * Reply in the user's main chat. No join is needed and it works with or
+ * without an active focus session. If the assistant suggests a side chat,
+ * it is spawned from the main chat and announced with side_chat_spawned.
+ */
+async function handleMainChatMessage(
+  ws: WebSocket,
+  state: ClientState,
+  message: ChatMessage
+): Promise<void> {
+  const user = state.user!;
+
+  const { content } = message;
+  if (!content) {
+    sendError(ws, "Message content is required");
+    return;
+  }
+
+  // Save user message (not echoed back, same as session chat)
+  addMainChatMessage(user.id, { role: "user", content });
+
+  send(ws, { type: "stream_start", chat: "main" });
+
+  // Hold back a side chat suggestion while it streams so it never reaches the client
+  let rawResponse = "";
+  let sent = "";
+  try {
+    for await (const chunk of generateMainChatStreamingResponse(user.id)) {
+      rawResponse += chunk;
+      const visible = visibleReplyText(rawResponse);
+      if (visible.length > sent.length) {
+        send(ws, { type: "stream_chunk", chat: "main", content: visible.slice(sent.length) });
+        sent = visible;
+      }
+    }
+
+    const { content: reply, suggestion } = parseSideChatSuggestion(rawResponse);
+    if (reply.length > sent.length && reply.startsWith(sent)) {
+      send(ws, { type: "stream_chunk", chat: "main", content: reply.slice(sent.length) });
+    }
+
+    addMainChatMessage(user.id, { role: "assistant", content: reply });
+
+    send(ws, { type: "stream_end", chat: "main", content: reply });
+
+    if (suggestion) {
+      const { sideChat } = spawnSideChatFromMain(user.id, suggestion.title, suggestion.topic);
+      send(ws, {
+        type: "side_chat_spawned",
+        chat: "main",
+        sideChatId: sideChat.id,
+        content: sideChat.title,
+      });
+    }
+  } catch (error) {
+    console.error("Main chat streaming error:", error);
+    sendError(ws, "Failed to generate response");
+  }
+}
+
+/**
+ * Stop delivering check-ins for the socket's current session
+ */
+function detachFromSession(ws: WebSocket): void {
+  const state = clients.get(ws);
+  if (state?.sessionId) {
+    detachCheckInListener(state.sessionId, ws);
+  }
+}
+
 function send(ws: WebSocket, message: ChatMessage): void {
   if (ws.readyState === WebSocket.OPEN) {
     ws.send(JSON.stringify(message));
@@ -17,20 +17,21 @@
  *   /quit          - Exit
  */
 
-import Anthropic from "@anthropic-ai/sdk";
 import * as readline from "readline";
 import { buildPrompt, promptVersions } from "../prompts/system-prompt.js";
 import { allScenarios, type TestScenario } from "../prompts/user-contexts.js";
+import { getCompanionProvider } from "./server/services/llm-provider.js";
 
-// Check for API key
-if (!process.env.ANTHROPIC_API_KEY) {
+const provider = getCompanionProvider();
+
+// Check for API key (not needed with COMPANION_PROVIDER=mock)
+if (provider.id === "anthropic" && !process.env.ANTHROPIC_API_KEY) {
   console.error("\n❌ ANTHROPIC_API_KEY not set.");
-  console.error("   Copy .env.example to .env and add your API key.\n");
+  console.error("   Copy .env.example to .env and add your API key,");
+  console.error("   or set COMPANION_PROVIDER=mock to run offline.\n");
   process.exit(1);
 }
 
-const anthropic = new Anthropic();
-
 interface Message {
   role: "user" | "assistant";
   content: string;
@@ -87,19 +88,18 @@ Available commands:
     try {
       process.stdout.write("\n🤖 ");
 
-      const stream = await anthropic.messages.stream({
-        model: "claude-sonnet-4-20250514",
-        max_tokens: 1024,
+      const stream = provider.stream({
         system: this.getSystemPrompt(),
         messages: this.conversationHistory,
+        maxTokens: 1024,
       });
 
       let fullResponse = "";
 
       for await (const event of stream) {
-        if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
-          process.stdout.write(event.delta.text);
-          fullResponse += event.delta.text;
+        if (event.type === "text") {
+          process.stdout.write(event.text);
+          fullResponse += event.text;
         }
       }
 
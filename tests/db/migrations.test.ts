@@ -0,0 +1,109 @@
+/**
+ * Migration Tests
+ *
+ * Runs the migrations against fresh in-memory databases, separate from the
+ * shared test database.
+ */
+
+import Database from "better-sqlite3";
+import { describe, it, expect } from "vitest";
+import {
+  getMigrationStatus,
+  migrateDown,
+  migrateUp,
+  type Migration,
+} from "../../src/server/db/migrator.js";
+import { migrations } from "../../src/server/db/migrations/index.js";
+import { migration as initialSchema } from "../../src/server/db/migrations/001-initial-schema.js";
+import { hasColumn } from "../../src/server/db/migrations/helpers.js";
+
+function createDb(): Database.Database {
+  const db = new Database(":memory:");
+  db.pragma("foreign_keys = ON");
+  return db;
+}
+
+function tableNames(db: Database.Database): string[] {
+  return (
+    db
+      .prepare(
+        `SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name`
+      )
+      .all() as { name: string }[]
+  ).map((row) => row.name);
+}
+
+const latest = migrations[migrations.length - 1].version;
+
+describe("Migrations", () => {
+  it("should number migrations in order without gaps", () => {
+    expect(migrations.map((m) => m.version)).toEqual(migrations.map((_, i) => i + 1));
+  });
+
+  it("should apply every migration once", () => {
+    const db = createDb();
+
+    const first = migrateUp(db);
+    const second = migrateUp(db);
+
+    expect(first.migrations.map((m) => m.version)).toEqual(migrations.map((m) => m.version));
+    expect(second.migrations).toEqual([]);
+    expect(getMigrationStatus(db).every((m) => m.appliedAt !== null)).toBe(true);
+    expect(tableNames(db)).toContain("email_rules");
+  });
+
+  it("should bring a database from before migrations up to date and keep its data", () => {
+    const db = createDb();
+    initialSchema.up(db);
+    db.prepare(`INSERT INTO users (id, email, name) VALUES ('u1', 'ada@example.com', 'Ada')`).run();
+    db.prepare(`INSERT INTO sessions (id, user_id) VALUES ('s1', 'u1')`).run();
+
+    migrateUp(db);
+
+    expect(db.prepare(`SELECT mode FROM sessions WHERE id = 's1'`).get()).toEqual({
+      mode: "simple_task",
+    });
+    expect(hasColumn(db, "users", "monthly_budget_usd")).toBe(true);
+    expect(tableNames(db)).toContain("pending_memories");
+  });
+
+  it("should change nothing on a dry run", () => {
+    const db = createDb();
+
+    const run = migrateUp(db, { dryRun: true });
+
+    expect(run.migrations).toHaveLength(migrations.length);
+    expect(tableNames(db)).toEqual(["schema_migrations"]);
+    expect(getMigrationStatus(db).every((m) => m.appliedAt === null)).toBe(true);
+  });
+
+  it("should revert migrations and apply them again", () => {
+    const db = createDb();
+    migrateUp(db);
+
+    expect(migrateDown(db).migrations.map((m) => m.version)).toEqual([latest]);
+    expect(migrateDown(db, { dryRun: true, to: 0 }).migrations).toHaveLength(latest - 1);
+    expect(tableNames(db)).toContain("users");
+
+    migrateDown(db, { to: 0 });
+    expect(tableNames(db)).toEqual(["schema_migrations"]);
+
+    expect(migrateUp(db).migrations).toHaveLength(migrations.length);
+  });
+
+  it("should stop at a failing migration and keep the ones before it", () => {
+    const db = createDb();
+    const broken: Migration = {
+      version: latest + 1,
+      name: "broken",
+      up: (d) => d.exec(`ALTER TABLE no_such_table ADD COLUMN x TEXT`),
+      down: () => undefined,
+    };
+
+    expect(() => migrateUp(db, {}, [...migrations, broken])).toThrow(/no_such_table/);
+
+    const status = getMigrationStatus(db, [...migrations, broken]);
+    expect(status.filter((m) => m.appliedAt !== null)).toHaveLength(migrations.length);
+    expect(status.at(-1)?.appliedAt).toBeNull();
+  });
+});
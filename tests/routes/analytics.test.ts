@@ -0,0 +1,83 @@
+/**
+ * Analytics Routes Integration Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import request from "supertest";
+import { createTestApp } from "../utils/test-app.js";
+import { createAuthenticatedUser, createTestSession } from "../utils/test-helpers.js";
+import { getTestDb } from "../utils/test-db.js";
+import { addDays } from "../../src/server/services/analytics.js";
+
+const app = createTestApp();
+
+describe("Analytics Routes", () => {
+  describe("GET /api/analytics", () => {
+    it("should default to the last 30 days in UTC", async () => {
+      const { user, token } = createAuthenticatedUser();
+      const session = createTestSession(user.id, { status: "completed" });
+      getTestDb().prepare(`UPDATE sessions SET duration_actual = 25 WHERE id = ?`).run(session.id);
+      const today = new Date().toISOString().slice(0, 10);
+
+      const response = await request(app)
+        .get("/api/analytics")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.range).toEqual({
+        from: addDays(today, -29),
+        to: today,
+        timeZone: "UTC",
+      });
+      expect(response.body.focusByDay).toHaveLength(30);
+      expect(response.body.summary.focusMinutes).toBe(25);
+      expect(response.body.streaks.current).toBe(1);
+    });
+
+    it("should use the requested range and time zone", async () => {
+      const { token } = createAuthenticatedUser();
+
+      const response = await request(app)
+        .get("/api/analytics?from=2024-03-04&to=2024-03-10&tz=Europe/London")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.range.timeZone).toBe("Europe/London");
+      expect(response.body.focusByWeek).toHaveLength(1);
+    });
+
+    it("should reject an unknown time zone", async () => {
+      const { token } = createAuthenticatedUser();
+
+      const response = await request(app)
+        .get("/api/analytics?tz=Mars/Olympus_Mons")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should reject invalid or reversed dates", async () => {
+      const { token } = createAuthenticatedUser();
+
+      const invalid = await request(app)
+        .get("/api/analytics?from=2024-02-30")
+        .set("Authorization", `Bearer ${token}`);
+      const reversed = await request(app)
+        .get("/api/analytics?from=2024-03-10&to=2024-03-01")
+        .set("Authorization", `Bearer ${token}`);
+      const tooLong = await request(app)
+        .get("/api/analytics?from=2022-01-01&to=2024-01-01")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(invalid.status).toBe(400);
+      expect(reversed.status).toBe(400);
+      expect(tooLong.status).toBe(400);
+    });
+
+    it("should require authentication", async () => {
+      const response = await request(app).get("/api/analytics");
+
+      expect(response.status).toBe(401);
+    });
+  });
+});
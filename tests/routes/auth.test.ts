@@ -2,13 +2,22 @@
  * Auth Routes Integration Tests
  */
 
-import { describe, it, expect } from "vitest";
+import fs from "node:fs";
+import path from "node:path";
+import { describe, it, expect, afterEach } from "vitest";
 import request from "supertest";
 import { createTestApp } from "../utils/test-app.js";
 import { createTestUser, createAuthenticatedUser } from "../utils/test-helpers.js";
+import { getTestDb } from "../utils/test-db.js";
+import { setMailTransport } from "../../src/server/services/mailer.js";
+import type { MagicLink } from "../../src/server/db/schema.js";
 
 const app = createTestApp();
 
+function getMagicLink(token: string): MagicLink {
+  return getTestDb().prepare(`SELECT * FROM magic_links WHERE token = ?`).get(token) as MagicLink;
+}
+
 describe("Auth Routes", () => {
   describe("POST /api/auth/request", () => {
     it("should create a magic link for a new email", async () => {
@@ -34,6 +43,74 @@ describe("Auth Routes", () => {
       expect(response.body.isNewUser).toBe(false);
     });
 
+    it("should email the link and record the delivery", async () => {
+      const before = new Set(fs.readdirSync(process.env.MAIL_OUTBOX_DIR!));
+
+      const response = await request(app)
+        .post("/api/auth/request")
+        .send({ email: "outbox@example.com" });
+
+      expect(response.status).toBe(200);
+      expect(getMagicLink(response.body.devToken)).toMatchObject({
+        delivery_status: "sent",
+        delivery_error: null,
+      });
+
+      const written = fs
+        .readdirSync(process.env.MAIL_OUTBOX_DIR!)
+        .filter((file) => !before.has(file))
+        .map((file) => fs.readFileSync(path.join(process.env.MAIL_OUTBOX_DIR!, file), "utf8"));
+      expect(written).toHaveLength(1);
+      expect(written[0]).toContain("To: outbox@example.com");
+      expect(written[0]).toContain("Subject: Welcome to Body Double");
+    });
+
+    it("should limit how many links one address can request", async () => {
+      for (let i = 0; i < 3; i++) {
+        await request(app).post("/api/auth/request").send({ email: "busy@example.com" });
+      }
+
+      const response = await request(app)
+        .post("/api/auth/request")
+        .send({ email: "Busy@Example.com" });
+
+      expect(response.status).toBe(429);
+      expect(Number(response.headers["retry-after"])).toBeGreaterThan(0);
+
+      const other = await request(app)
+        .post("/api/auth/request")
+        .send({ email: "calm@example.com" });
+      expect(other.status).toBe(200);
+    });
+
+    describe("when the email can't be sent", () => {
+      afterEach(() => {
+        setMailTransport(null);
+      });
+
+      it("should return 503 and record the failure", async () => {
+        setMailTransport({
+          id: "failing",
+          send: async () => {
+            throw new Error("SMTP RCPT TO failed: 550 No such user");
+          },
+        });
+
+        const response = await request(app)
+          .post("/api/auth/request")
+          .send({ email: "bounce@example.com" });
+
+        expect(response.status).toBe(503);
+        const link = getTestDb()
+          .prepare(`SELECT * FROM magic_links WHERE email = ?`)
+          .get("bounce@example.com") as MagicLink;
+        expect(link).toMatchObject({
+          delivery_status: "failed",
+          delivery_error: "SMTP RCPT TO failed: 550 No such user",
+        });
+      });
+    });
+
     it("should return 400 for missing email", async () => {
       const response = await request(app).post("/api/auth/request").send({});
 
@@ -0,0 +1,77 @@
+/**
+ * Briefing Routes Integration Tests
+ *
+ * Covers the email triage rule endpoints.
+ */
+
+import { describe, it, expect } from "vitest";
+import request from "supertest";
+import { createTestApp } from "../utils/test-app.js";
+import { createAuthenticatedUser } from "../utils/test-helpers.js";
+
+const app = createTestApp();
+
+describe("Briefing Routes", () => {
+  describe("/api/briefing/rules", () => {
+    it("should create, list, update and delete rules", async () => {
+      const { token } = createAuthenticatedUser();
+
+      const created = await request(app)
+        .post("/api/briefing/rules")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ field: "domain", pattern: "newsletter.com", action: "digest" });
+
+      expect(created.status).toBe(201);
+      const ruleId = created.body.rule.id;
+
+      const updated = await request(app)
+        .put(`/api/briefing/rules/${ruleId}`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ action: "mute" });
+
+      expect(updated.status).toBe(200);
+      expect(updated.body.rule).toMatchObject({ field: "domain", action: "mute", enabled: 1 });
+
+      const listed = await request(app)
+        .get("/api/briefing/rules")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(listed.body.rules).toHaveLength(1);
+
+      const deleted = await request(app)
+        .delete(`/api/briefing/rules/${ruleId}`)
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(deleted.status).toBe(200);
+    });
+
+    it("should reject invalid rules", async () => {
+      const { token } = createAuthenticatedUser();
+
+      const response = await request(app)
+        .post("/api/briefing/rules")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ field: "subject", pattern: "[oops", action: "high" });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe("pattern is not a valid regular expression");
+    });
+
+    it("should not touch another user's rules", async () => {
+      const owner = createAuthenticatedUser();
+      const other = createAuthenticatedUser();
+
+      const created = await request(app)
+        .post("/api/briefing/rules")
+        .set("Authorization", `Bearer ${owner.token}`)
+        .send({ field: "sender", pattern: "boss@work.com", action: "vip" });
+
+      const response = await request(app)
+        .put(`/api/briefing/rules/${created.body.rule.id}`)
+        .set("Authorization", `Bearer ${other.token}`)
+        .send({ action: "mute" });
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
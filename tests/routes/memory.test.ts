@@ -0,0 +1,186 @@
+/**
+ * Memory Routes Integration Tests
+ */
+
+import crypto from "node:crypto";
+import { describe, it, expect } from "vitest";
+import request from "supertest";
+import { createTestApp } from "../utils/test-app.js";
+import { createAuthenticatedUser, createTestSession } from "../utils/test-helpers.js";
+import { getTestDb } from "../utils/test-db.js";
+
+const app = createTestApp();
+
+/**
+ * Insert a pending memory as if extracted from a session
+ */
+function createPendingMemory(userId: string, sessionId: string, content: string): string {
+  const id = crypto.randomUUID();
+  getTestDb()
+    .prepare(
+      `
+    INSERT INTO pending_memories (id, user_id, session_id, category, content, importance)
+    VALUES (?, ?, ?, 'insight', ?, 3)
+  `
+    )
+    .run(id, userId, sessionId, content);
+  return id;
+}
+
+describe("Memory Routes", () => {
+  describe("GET /api/memory/pending", () => {
+    it("should list pending memories for the current user only", async () => {
+      const { user, token } = createAuthenticatedUser();
+      const { user: other } = createAuthenticatedUser();
+      createPendingMemory(user.id, createTestSession(user.id).id, "Works best before noon");
+      createPendingMemory(other.id, createTestSession(other.id).id, "Someone else's memory");
+
+      const response = await request(app)
+        .get("/api/memory/pending")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0].content).toBe("Works best before noon");
+    });
+  });
+
+  describe("POST /api/memory/pending/:id/accept", () => {
+    it("should turn a pending memory into a memory", async () => {
+      const { user, token } = createAuthenticatedUser();
+      const session = createTestSession(user.id);
+      const pendingId = createPendingMemory(user.id, session.id, "Works best before noon");
+
+      const response = await request(app)
+        .post(`/api/memory/pending/${pendingId}/accept`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ content: "Does their best work before noon" });
+
+      expect(response.status).toBe(201);
+      expect(response.body.content).toBe("Does their best work before noon");
+      expect(response.body.category).toBe("insight");
+      expect(response.body.source).toBe(session.id);
+
+      const memories = await request(app)
+        .get("/api/memory")
+        .set("Authorization", `Bearer ${token}`);
+      expect(memories.body).toHaveLength(1);
+    });
+
+    it("should return 404 for an unknown pending memory", async () => {
+      const { token } = createAuthenticatedUser();
+
+      const response = await request(app)
+        .post("/api/memory/pending/does-not-exist/accept")
+        .set("Authorization", `Bearer ${token}`)
+        .send({});
+
+      expect(response.status).toBe(404);
+    });
+
+    it("should return 400 for an invalid category", async () => {
+      const { user, token } = createAuthenticatedUser();
+      const pendingId = createPendingMemory(user.id, createTestSession(user.id).id, "Anything");
+
+      const response = await request(app)
+        .post(`/api/memory/pending/${pendingId}/accept`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ category: "gossip" });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("POST /api/memory/pending/:id/reject", () => {
+    it("should remove a memory from the pending list", async () => {
+      const { user, token } = createAuthenticatedUser();
+      const pendingId = createPendingMemory(user.id, createTestSession(user.id).id, "Anything");
+
+      const response = await request(app)
+        .post(`/api/memory/pending/${pendingId}/reject`)
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+
+      const pending = await request(app)
+        .get("/api/memory/pending")
+        .set("Authorization", `Bearer ${token}`);
+      expect(pending.body).toHaveLength(0);
+    });
+  });
+
+  describe("GET /api/memory/archived", () => {
+    it("should list archived memories and restore them", async () => {
+      const { token } = createAuthenticatedUser();
+      const created = await request(app)
+        .post("/api/memory")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ category: "project", content: "Old website" });
+
+      await request(app)
+        .post(`/api/memory/${created.body.id}/archive`)
+        .set("Authorization", `Bearer ${token}`);
+
+      const archived = await request(app)
+        .get("/api/memory/archived")
+        .set("Authorization", `Bearer ${token}`);
+      expect(archived.status).toBe(200);
+      expect(archived.body).toHaveLength(1);
+      expect(archived.body[0].archivedAt).not.toBeNull();
+
+      const live = await request(app).get("/api/memory").set("Authorization", `Bearer ${token}`);
+      expect(live.body).toHaveLength(0);
+
+      const restored = await request(app)
+        .post(`/api/memory/archived/${created.body.id}/restore`)
+        .set("Authorization", `Bearer ${token}`);
+      expect(restored.status).toBe(200);
+      expect(restored.body.archivedAt).toBeNull();
+    });
+
+    it("should return 404 when restoring a memory that isn't archived", async () => {
+      const { token } = createAuthenticatedUser();
+
+      const response = await request(app)
+        .post("/api/memory/archived/does-not-exist/restore")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("POST /api/memory/conflicts/:id/resolve", () => {
+    it("should reject a keep id that isn't part of the conflict", async () => {
+      const { user, token } = createAuthenticatedUser();
+      const db = getTestDb();
+      const ids = ["Currently building an app", "Currently writing a novel"].map((content) => {
+        const id = crypto.randomUUID();
+        db.prepare(
+          `INSERT INTO user_context_items (id, user_id, category, content) VALUES (?, ?, 'project', ?)`
+        ).run(id, user.id, content);
+        return id;
+      });
+      const conflictId = crypto.randomUUID();
+      db.prepare(
+        `INSERT INTO memory_conflicts (id, user_id, memory_a_id, memory_b_id, reason) VALUES (?, ?, ?, ?, 'test')`
+      ).run(conflictId, user.id, ids[0], ids[1]);
+
+      const invalid = await request(app)
+        .post(`/api/memory/conflicts/${conflictId}/resolve`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ keep: "someone-else" });
+      expect(invalid.status).toBe(400);
+
+      const resolved = await request(app)
+        .post(`/api/memory/conflicts/${conflictId}/resolve`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ keep: ids[1] });
+      expect(resolved.status).toBe(200);
+
+      const conflicts = await request(app)
+        .get("/api/memory/conflicts")
+        .set("Authorization", `Bearer ${token}`);
+      expect(conflicts.body).toHaveLength(0);
+    });
+  });
+});
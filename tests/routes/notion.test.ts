@@ -0,0 +1,251 @@
+/**
+ * Notion Routes Integration Tests
+ *
+ * The Notion API is stubbed out; these cover the OAuth callback, the
+ * database schema and property map endpoints and Assistant Workspace setup.
+ */
+
+import { describe, it, expect, afterEach, vi } from "vitest";
+import request from "supertest";
+import { createTestApp } from "../utils/test-app.js";
+import {
+  createAuthenticatedUser,
+  createTestNotionConnection,
+  createTestUser,
+  stubNotion,
+} from "../utils/test-helpers.js";
+import { getNotionAuthUrl, getNotionConnection } from "../../src/server/services/notion.js";
+
+const app = createTestApp();
+
+const databaseResponse = {
+  id: "tasks-db",
+  title: [{ plain_text: "Work" }],
+  properties: {
+    Task: { name: "Task", type: "title" },
+    Stage: {
+      name: "Stage",
+      type: "status",
+      status: { options: [{ name: "Not started" }, { name: "Doing" }, { name: "Complete" }] },
+    },
+    Deadline: { name: "Deadline", type: "date" },
+  },
+};
+
+const queryResponse = {
+  results: [
+    {
+      id: "page-1",
+      url: "https://notion.so/page-1",
+      properties: {
+        Task: { type: "title", title: [{ plain_text: "Send invoice" }] },
+        Stage: { type: "status", status: { name: "Doing" } },
+        Deadline: { type: "date", date: { start: "2024-03-01" } },
+      },
+    },
+  ],
+};
+
+// Database retrievals get the schema, queries get a page
+const notionResponses = { "": databaseResponse, "/query": queryResponse };
+
+describe("Notion Routes", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("GET /api/notion/callback", () => {
+    const appUrl = process.env.APP_URL || "http://localhost:3001";
+
+    function startFlow(userId: string, redirectTo?: string): string {
+      return new URL(getNotionAuthUrl(userId, { redirectTo })).searchParams.get("state")!;
+    }
+
+    it("should save the connection and return to the path the flow started from", async () => {
+      const user = createTestUser();
+      const state = startFlow(user.id, "/app/session?id=s1");
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(
+          async () =>
+            new Response(
+              JSON.stringify({ access_token: "secret_x", workspace_id: "ws", bot_id: "bot" }),
+              { status: 200 }
+            )
+        )
+      );
+
+      const response = await request(app).get(`/api/notion/callback?code=abc&state=${state}`);
+
+      expect(response.status).toBe(302);
+      expect(response.headers.location).toBe(`${appUrl}/app/session?id=s1&notion_connected=true`);
+      expect(getNotionConnection(user.id)?.workspace_id).toBe("ws");
+    });
+
+    it("should reject a state that was already used", async () => {
+      const user = createTestUser();
+      const state = startFlow(user.id);
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(async () => new Response("{}", { status: 400 }))
+      );
+
+      const first = await request(app).get(`/api/notion/callback?code=abc&state=${state}`);
+      const second = await request(app).get(`/api/notion/callback?code=abc&state=${state}`);
+
+      expect(first.headers.location).toBe(
+        `${appUrl}/app/settings?notion_error=token_exchange_failed`
+      );
+      expect(second.headers.location).toBe(`${appUrl}/app/settings?notion_error=invalid_state`);
+    });
+  });
+
+  describe("GET /api/notion/databases/:databaseId/schema", () => {
+    it("should return properties with roles and a suggested map", async () => {
+      const { user, token } = createAuthenticatedUser();
+      createTestNotionConnection(user.id);
+      stubNotion(notionResponses);
+
+      const response = await request(app)
+        .get("/api/notion/databases/tasks-db/schema?use=tasks")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.schema.title).toBe("Work");
+      expect(response.body.schema.properties).toContainEqual({
+        name: "Stage",
+        type: "status",
+        role: "status",
+        options: ["Not started", "Doing", "Complete"],
+      });
+      expect(response.body.suggested.map).toMatchObject({
+        title: "Task",
+        status: "Stage",
+        statusType: "status",
+        dueDate: "Deadline",
+        priority: null,
+        todoStatus: "Not started",
+        doneStatus: "Complete",
+      });
+      expect(response.body.suggested.missing).toEqual([]);
+    });
+
+    it("should reject an unknown use", async () => {
+      const { user, token } = createAuthenticatedUser();
+      createTestNotionConnection(user.id);
+
+      const response = await request(app)
+        .get("/api/notion/databases/tasks-db/schema?use=recipes")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("PUT /api/notion/property-maps/:use", () => {
+    const map = {
+      title: "Task",
+      status: "Stage",
+      statusType: "status",
+      dueDate: "Deadline",
+      priority: null,
+      createdBy: null,
+      notes: null,
+      todoStatus: "Not started",
+      doneStatus: "Complete",
+      inProgressStatus: "Doing",
+      blockedStatus: null,
+    };
+
+    it("should check the map with a sample query and save it", async () => {
+      const { user, token } = createAuthenticatedUser();
+      createTestNotionConnection(user.id);
+      stubNotion(notionResponses);
+
+      const response = await request(app)
+        .put("/api/notion/property-maps/tasks")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ map });
+
+      expect(response.status).toBe(200);
+      expect(response.body.sample).toEqual([
+        {
+          id: "page-1",
+          title: "Send invoice",
+          status: "Doing",
+          dueDate: "2024-03-01",
+          priority: null,
+          createdBy: null,
+          notes: null,
+        },
+      ]);
+      expect(response.body.connection.tasks_property_map).toEqual(map);
+    });
+
+    it("should not save a map that doesn't fit the database", async () => {
+      const { user, token } = createAuthenticatedUser();
+      createTestNotionConnection(user.id);
+      const fetchMock = stubNotion(notionResponses);
+
+      const response = await request(app)
+        .put("/api/notion/property-maps/tasks")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ map: { title: "Task", status: "Stage", dueDate: "Due" } });
+
+      expect(response.status).toBe(400);
+      expect(response.body.problems).toContain('No property named "Due" (for dueDate)');
+      // Only the schema was read - no sample query
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("should require the database to be chosen first", async () => {
+      const { user, token } = createAuthenticatedUser();
+      createTestNotionConnection(user.id, { tasks_database_id: null });
+
+      const response = await request(app)
+        .put("/api/notion/property-maps/tasks")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ map });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe("Choose a tasks database first");
+    });
+  });
+
+  describe("POST /api/notion/assistant-workspace", () => {
+    it("should create the database under the chosen page and store its id", async () => {
+      const { user, token } = createAuthenticatedUser();
+      createTestNotionConnection(user.id);
+      const fetchMock = stubNotion({ "": { id: "workspace-db" } });
+
+      const response = await request(app)
+        .post("/api/notion/assistant-workspace")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ parent_page_id: "parent-page" });
+
+      expect(response.status).toBe(201);
+      expect(response.body.connection.assistant_db_id).toBe("workspace-db");
+      const body = JSON.parse(fetchMock.mock.calls[0][1]!.body as string);
+      expect(body.parent).toEqual({ type: "page_id", page_id: "parent-page" });
+      expect(Object.keys(body.properties)).toEqual([
+        "Name",
+        "Type",
+        "Content",
+        "Last Used",
+        "Remind On",
+      ]);
+    });
+
+    it("should not create a second workspace", async () => {
+      const { user, token } = createAuthenticatedUser();
+      createTestNotionConnection(user.id, { assistant_db_id: "workspace-db" });
+
+      const response = await request(app)
+        .post("/api/notion/assistant-workspace")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ parent_page_id: "parent-page" });
+
+      expect(response.status).toBe(409);
+    });
+  });
+});
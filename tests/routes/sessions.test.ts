@@ -2,20 +2,55 @@
  * Session Routes Integration Tests
  */
 
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, afterEach, vi } from "vitest";
 import request from "supertest";
 import { createTestApp } from "../utils/test-app.js";
 import {
   createAuthenticatedUser,
   createTestSession,
   createTestMessage,
+  createTestGoogleConnection,
   getTableCount,
 } from "../utils/test-helpers.js";
 import { getTestDb } from "../utils/test-db.js";
 
 const app = createTestApp();
 
+// Times are local, today
+const localTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+function todayAt(hour: number, minute = 0): Date {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate(), hour, minute);
+}
+
+/**
+ * Stub fetch with Google Calendar returning today's events
+ */
+function stubCalendar(events: Array<{ summary: string; start: Date; end: Date }>) {
+  const fetchMock = vi.fn(
+    async () =>
+      new Response(
+        JSON.stringify({
+          items: events.map((e) => ({
+            id: e.summary,
+            summary: e.summary,
+            start: { dateTime: e.start.toISOString() },
+            end: { dateTime: e.end.toISOString() },
+          })),
+        })
+      )
+  );
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
 describe("Session Routes", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
   describe("POST /api/sessions/start", () => {
     it("should start a new focus session", async () => {
       const { token } = createAuthenticatedUser();
@@ -50,6 +85,109 @@ describe("Session Routes", () => {
       expect(response.body.session.check_in_frequency).toBe(15); // Default
     });
 
+    it("should apply the mode's default check-in cadence", async () => {
+      const { token } = createAuthenticatedUser();
+
+      const response = await request(app)
+        .post("/api/sessions/start")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ declaredTask: "Refactor the parser", mode: "deep_work" });
+
+      expect(response.status).toBe(201);
+      expect(response.body.session.mode).toBe("deep_work");
+      expect(response.body.session.check_in_frequency).toBe(45);
+    });
+
+    it("should default to simple task mode", async () => {
+      const { token } = createAuthenticatedUser();
+
+      const response = await request(app)
+        .post("/api/sessions/start")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ declaredTask: "Answer emails" });
+
+      expect(response.status).toBe(201);
+      expect(response.body.session.mode).toBe("simple_task");
+    });
+
+    it("should not greet in presence mode", async () => {
+      const { token } = createAuthenticatedUser();
+
+      const response = await request(app)
+        .post("/api/sessions/start")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ declaredTask: "Sketching", mode: "presence" });
+
+      expect(response.status).toBe(201);
+      expect(response.body.greeting).toBeNull();
+      expect(getTableCount("messages")).toBe(0);
+    });
+
+    it("should warn when the session would run into the next meeting", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(todayAt(9));
+      const { user, token } = createAuthenticatedUser();
+      createTestGoogleConnection(user.id);
+      const fetchMock = stubCalendar([
+        { summary: "Standup", start: todayAt(9, 20), end: todayAt(9, 35) },
+      ]);
+      await request(app).get("/api/sessions/suggest").set("Authorization", `Bearer ${token}`);
+      fetchMock.mockClear();
+
+      const response = await request(app)
+        .post("/api/sessions/start")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ declaredTask: "Sketching", mode: "presence", durationPlanned: 45 });
+
+      expect(response.status).toBe(201);
+      expect(response.body.warning).toBe(
+        'Your 45-minute session would run into "Standup", which starts in 20 minutes'
+      );
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("should not warn before today's calendar has been fetched", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(todayAt(9));
+      const { user, token } = createAuthenticatedUser();
+      createTestGoogleConnection(user.id);
+      const fetchMock = stubCalendar([
+        { summary: "Standup", start: todayAt(9, 20), end: todayAt(9, 35) },
+      ]);
+
+      const response = await request(app)
+        .post("/api/sessions/start")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ declaredTask: "Sketching", mode: "presence", durationPlanned: 45 });
+
+      expect(response.status).toBe(201);
+      expect(response.body.warning).toBeNull();
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("should not warn without a calendar", async () => {
+      const { token } = createAuthenticatedUser();
+
+      const response = await request(app)
+        .post("/api/sessions/start")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ declaredTask: "Sketching", mode: "presence" });
+
+      expect(response.body.warning).toBeNull();
+    });
+
+    it("should return 400 for an unknown mode", async () => {
+      const { token } = createAuthenticatedUser();
+
+      const response = await request(app)
+        .post("/api/sessions/start")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ declaredTask: "Test", mode: "turbo" });
+
+      expect(response.status).toBe(400);
+      expect(getTableCount("sessions")).toBe(0);
+    });
+
     it("should return 409 if user already has an active session", async () => {
       const { user, token } = createAuthenticatedUser();
       const existingSession = createTestSession(user.id, { status: "active" });
@@ -140,6 +278,79 @@ describe("Session Routes", () => {
     });
   });
 
+  describe("GET /api/sessions/suggest", () => {
+    it("should suggest sessions around today's meetings", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(todayAt(15));
+      const { user, token } = createAuthenticatedUser();
+      createTestGoogleConnection(user.id);
+      getTestDb()
+        .prepare(`UPDATE users SET preferences = ? WHERE id = ?`)
+        .run(JSON.stringify({ defaultSessionDuration: 50 }), user.id);
+      stubCalendar([{ summary: "Design review", start: todayAt(16), end: todayAt(17) }]);
+
+      const response = await request(app)
+        .get(`/api/sessions/suggest?tz=${encodeURIComponent(localTimeZone)}`)
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.calendarConnected).toBe(true);
+      expect(response.body.freeBlocks.map((b: { minutes: number }) => b.minutes)).toEqual([60, 60]);
+      expect(
+        response.body.suggestions.map((s: { start: string; minutes: number }) => [
+          new Date(s.start).getTime(),
+          s.minutes,
+        ])
+      ).toEqual([
+        [todayAt(15).getTime(), 50],
+        [todayAt(17).getTime(), 50],
+      ]);
+      expect(response.body.nextEvent).toMatchObject({ title: "Design review", minutesUntil: 60 });
+    });
+
+    it("should return no suggestions without a Google connection", async () => {
+      const { token } = createAuthenticatedUser();
+
+      const response = await request(app)
+        .get("/api/sessions/suggest")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        calendarConnected: false,
+        freeBlocks: [],
+        suggestions: [],
+        nextEvent: null,
+      });
+    });
+
+    it("should reject an unknown time zone", async () => {
+      const { user, token } = createAuthenticatedUser();
+      createTestGoogleConnection(user.id);
+
+      const response = await request(app)
+        .get("/api/sessions/suggest?tz=Mars/Olympus")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 503 when the calendar can't be read", async () => {
+      const { user, token } = createAuthenticatedUser();
+      createTestGoogleConnection(user.id);
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(async () => new Response("{}", { status: 500 }))
+      );
+
+      const response = await request(app)
+        .get("/api/sessions/suggest")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(503);
+    });
+  });
+
   describe("GET /api/sessions/:id", () => {
     it("should return a session by ID", async () => {
       const { user, token } = createAuthenticatedUser();
@@ -198,6 +409,148 @@ describe("Session Routes", () => {
     });
   });
 
+  describe("POST /api/sessions/:id/intentions", () => {
+    it("should record when/where and if-then plans", async () => {
+      const { user, token } = createAuthenticatedUser();
+      const session = createTestSession(user.id);
+
+      const response = await request(app)
+        .post(`/api/sessions/${session.id}/intentions`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({
+          when: "Right after standup",
+          where: "At my desk",
+          ifThen: [{ distraction: "Slack pings", response: "I'll mute it until the break" }],
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.whenWhere).toEqual({ when: "Right after standup", where: "At my desk" });
+      expect(response.body.ifThen).toHaveLength(1);
+      expect(response.body.ifThen[0].distraction).toBe("Slack pings");
+      expect(response.body.ifThen[0].response).toBe("I'll mute it until the break");
+    });
+
+    it("should replace the when/where plan and append if-then plans", async () => {
+      const { user, token } = createAuthenticatedUser();
+      const session = createTestSession(user.id);
+
+      await request(app)
+        .post(`/api/sessions/${session.id}/intentions`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({
+          when: "Now",
+          where: "Kitchen",
+          ifThen: [{ distraction: "Email", response: "Close the tab" }],
+        });
+
+      const response = await request(app)
+        .post(`/api/sessions/${session.id}/intentions`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({
+          where: "Office",
+          ifThen: [{ distraction: "Phone", response: "Put it in a drawer" }],
+        });
+
+      expect(response.status).toBe(201);
+      expect(response.body.whenWhere.where).toBe("Office");
+      expect(response.body.ifThen.map((p: { distraction: string }) => p.distraction)).toEqual([
+        "Email",
+        "Phone",
+      ]);
+    });
+
+    it("should return 400 when no plan is provided", async () => {
+      const { user, token } = createAuthenticatedUser();
+      const session = createTestSession(user.id);
+
+      const response = await request(app)
+        .post(`/api/sessions/${session.id}/intentions`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({});
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 400 for an incomplete if-then plan", async () => {
+      const { user, token } = createAuthenticatedUser();
+      const session = createTestSession(user.id);
+
+      const response = await request(app)
+        .post(`/api/sessions/${session.id}/intentions`)
+        .set("Authorization", `Bearer ${token}`)
+        .send({ ifThen: [{ distraction: "Twitter" }] });
+
+      expect(response.status).toBe(400);
+      expect(getTableCount("session_intentions")).toBe(0);
+    });
+
+    it("should return 404 for another user's session", async () => {
+      const { user } = createAuthenticatedUser();
+      const { token: otherToken } = createAuthenticatedUser();
+      const session = createTestSession(user.id);
+
+      const response = await request(app)
+        .post(`/api/sessions/${session.id}/intentions`)
+        .set("Authorization", `Bearer ${otherToken}`)
+        .send({ when: "Now", where: "Desk" });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("GET /api/sessions/:id/intentions", () => {
+    it("should return an empty plan for a new session", async () => {
+      const { user, token } = createAuthenticatedUser();
+      const session = createTestSession(user.id);
+
+      const response = await request(app)
+        .get(`/api/sessions/${session.id}/intentions`)
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ whenWhere: null, ifThen: [] });
+    });
+  });
+
+  describe("GET /api/sessions/:id/context", () => {
+    it("should show how the context budget was allocated", async () => {
+      const { user, token } = createAuthenticatedUser();
+      const session = createTestSession(user.id);
+
+      const response = await request(app)
+        .get(`/api/sessions/${session.id}/context?budget=4000`)
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.budget).toBe(4000);
+      expect(response.body.allocation).toHaveLength(5);
+      expect(response.body.systemPrompt).toContain(session.declared_task);
+    });
+
+    it("should reject an invalid budget", async () => {
+      const { user, token } = createAuthenticatedUser();
+      const session = createTestSession(user.id);
+
+      const response = await request(app)
+        .get(`/api/sessions/${session.id}/context?budget=lots`)
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 404 for another user's session", async () => {
+      const { token } = createAuthenticatedUser();
+      const { user: other } = createAuthenticatedUser();
+      const session = createTestSession(other.id);
+
+      const response = await request(app)
+        .get(`/api/sessions/${session.id}/context`)
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
   describe("POST /api/sessions/:id/end", () => {
     it("should end a session with outcome", async () => {
       const { user, token } = createAuthenticatedUser();
@@ -0,0 +1,84 @@
+/**
+ * Usage Routes Integration Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import request from "supertest";
+import { createTestApp } from "../utils/test-app.js";
+import { createAuthenticatedUser, createTestSession } from "../utils/test-helpers.js";
+import { recordUsage } from "../../src/server/services/usage.js";
+
+const app = createTestApp();
+
+describe("Usage Routes", () => {
+  describe("GET /api/usage", () => {
+    it("should return rollups for the current user", async () => {
+      const { user, token } = createAuthenticatedUser();
+      const session = createTestSession(user.id);
+      recordUsage({
+        userId: user.id,
+        sessionId: session.id,
+        requestType: "chat",
+        model: "claude-sonnet-4-20250514",
+        usage: { inputTokens: 500, outputTokens: 100, cacheReadTokens: 0, cacheWriteTokens: 0 },
+        latencyMs: 800,
+      });
+
+      const response = await request(app).get("/api/usage").set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.days).toBe(30);
+      expect(response.body.totals.requests).toBe(1);
+      expect(response.body.bySession[0].sessionId).toBe(session.id);
+      expect(response.body.byRequestType[0].requestType).toBe("chat");
+      expect(response.body.budget.monthlyBudgetUsd).toBeNull();
+    });
+
+    it("should reject an invalid days value", async () => {
+      const { token } = createAuthenticatedUser();
+
+      const response = await request(app)
+        .get("/api/usage?days=0")
+        .set("Authorization", `Bearer ${token}`);
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should require authentication", async () => {
+      const response = await request(app).get("/api/usage");
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe("PUT /api/usage/budget", () => {
+    it("should set and clear the monthly budget", async () => {
+      const { token } = createAuthenticatedUser();
+
+      const set = await request(app)
+        .put("/api/usage/budget")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ monthlyBudgetUsd: 5 });
+      expect(set.status).toBe(200);
+      expect(set.body.monthlyBudgetUsd).toBe(5);
+      expect(set.body.remainingUsd).toBe(5);
+
+      const cleared = await request(app)
+        .put("/api/usage/budget")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ monthlyBudgetUsd: null });
+      expect(cleared.body.monthlyBudgetUsd).toBeNull();
+    });
+
+    it("should reject a negative budget", async () => {
+      const { token } = createAuthenticatedUser();
+
+      const response = await request(app)
+        .put("/api/usage/budget")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ monthlyBudgetUsd: -1 });
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
@@ -146,5 +146,21 @@ describe("User Routes", () => {
       expect(response.body.theme).toBe("light"); // Should still be there
       expect(response.body.defaultSessionDuration).toBe(30);
     });
+
+    it("should only accept an IANA time zone", async () => {
+      const { token } = createAuthenticatedUser();
+
+      const saved = await request(app)
+        .put("/api/users/me/preferences")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ timeZone: "Europe/London" });
+      const rejected = await request(app)
+        .put("/api/users/me/preferences")
+        .set("Authorization", `Bearer ${token}`)
+        .send({ timeZone: "Middle-earth/Shire" });
+
+      expect(saved.body.timeZone).toBe("Europe/London");
+      expect(rejected.status).toBe(400);
+    });
   });
 });
@@ -0,0 +1,234 @@
+/**
+ * Analytics Service Tests
+ *
+ * Tests for focus analytics over seeded sessions. Most use New York time, so
+ * a session at 03:00 UTC falls on the previous local day.
+ */
+
+import { describe, it, expect } from "vitest";
+import { getFocusAnalytics } from "../../src/server/services/analytics.js";
+import { createMemory } from "../../src/server/services/memory.js";
+import { getTestDb } from "../utils/test-db.js";
+import { createTestUser, createTestSession } from "../utils/test-helpers.js";
+import type { Session } from "../../src/server/db/schema.js";
+
+const range = { from: "2024-03-04", to: "2024-03-10", timeZone: "America/New_York" };
+
+/**
+ * Create a session that started at a UTC instant and, unless it's active, has ended
+ */
+function seedSession(
+  userId: string,
+  startedAt: string,
+  fields: {
+    status?: Session["status"];
+    planned?: number;
+    actual?: number;
+    frequency?: number;
+    outcome?: string;
+  } = {}
+): Session {
+  const { status = "completed", planned = 25, actual = planned, frequency = 15 } = fields;
+  const session = createTestSession(userId, {
+    status,
+    duration_planned: planned,
+    check_in_frequency: frequency,
+  });
+  const start = new Date(startedAt);
+  const toSqlite = (date: Date) => date.toISOString().slice(0, 19).replace("T", " ");
+
+  getTestDb()
+    .prepare(
+      `UPDATE sessions SET started_at = ?, ended_at = ?, duration_actual = ?, outcome = ? WHERE id = ?`
+    )
+    .run(
+      toSqlite(start),
+      status === "active" ? null : toSqlite(new Date(start.getTime() + actual * 60000)),
+      status === "active" ? null : actual,
+      fields.outcome ?? null,
+      session.id
+    );
+  return session;
+}
+
+/**
+ * A week of sessions: three completed in the morning, one abandoned late in
+ * the evening, one still active, and one the day before the range
+ */
+function seedWeek(userId: string) {
+  seedSession(userId, "2024-03-04T04:00:00Z"); // Mar 3, 23:00
+  seedSession(userId, "2024-03-04T14:00:00Z"); // Mar 4, 09:00
+  const overran = seedSession(userId, "2024-03-05T14:30:00Z", {
+    actual: 40,
+    outcome: "Got pulled into Slack notifications again",
+  });
+  const abandoned = seedSession(userId, "2024-03-06T03:00:00Z", {
+    status: "abandoned",
+    planned: 50,
+    actual: 10,
+    frequency: 30,
+    outcome: "Slack notifications kept pulling me away",
+  }); // Mar 5, 22:00
+  const onTarget = seedSession(userId, "2024-03-06T14:00:00Z", { planned: 50, actual: 45 });
+  seedSession(userId, "2024-03-07T14:00:00Z", { status: "active" });
+  return { overran, abandoned, onTarget };
+}
+
+describe("Analytics Service", () => {
+  describe("getFocusAnalytics", () => {
+    it("should summarise completion, abandonment and focus time", () => {
+      const user = createTestUser();
+      seedWeek(user.id);
+
+      const analytics = getFocusAnalytics(user.id, range);
+
+      expect(analytics.summary).toEqual({
+        sessions: 4,
+        completed: 3,
+        abandoned: 1,
+        active: 1,
+        completionRate: 0.75,
+        abandonmentRate: 0.25,
+        focusMinutes: 120,
+        averageSessionMinutes: 30,
+      });
+    });
+
+    it("should compare planned and actual duration of completed sessions", () => {
+      const user = createTestUser();
+      seedWeek(user.id);
+
+      expect(getFocusAnalytics(user.id, range).durationAccuracy).toEqual({
+        sessions: 3,
+        averagePlannedMinutes: 33.3,
+        averageActualMinutes: 36.7,
+        averageRatio: 1.17,
+        onTarget: 2,
+        overran: 1,
+        underran: 0,
+      });
+    });
+
+    it("should bucket focus minutes by local day and week", () => {
+      const user = createTestUser();
+      seedWeek(user.id);
+
+      const analytics = getFocusAnalytics(user.id, range);
+
+      expect(analytics.focusByDay).toHaveLength(7);
+      expect(analytics.focusByDay[1]).toEqual({
+        date: "2024-03-05",
+        focusMinutes: 50,
+        sessions: 2,
+        completed: 1,
+      });
+      expect(analytics.focusByWeek).toEqual([
+        { weekStart: "2024-03-04", focusMinutes: 120, sessions: 4, completed: 3 },
+      ]);
+
+      const utc = getFocusAnalytics(user.id, { ...range, timeZone: "UTC" });
+      expect(utc.focusByDay.find((d) => d.date === "2024-03-05")?.sessions).toBe(1);
+      expect(utc.summary.sessions).toBe(5);
+    });
+
+    it("should find the hour sessions are most often completed", () => {
+      const user = createTestUser();
+      seedWeek(user.id);
+
+      const { timeOfDay } = getFocusAnalytics(user.id, range);
+
+      expect(timeOfDay.byHour).toEqual([
+        { hour: 9, focusMinutes: 110, sessions: 3, completed: 3, completionRate: 1 },
+        { hour: 22, focusMinutes: 10, sessions: 1, completed: 0, completionRate: 0 },
+      ]);
+      expect(timeOfDay.bestHour).toBe(9);
+    });
+
+    it("should compare check-in frequencies", () => {
+      const user = createTestUser();
+      seedWeek(user.id);
+
+      expect(getFocusAnalytics(user.id, range).checkInFrequency).toEqual({
+        byFrequency: [
+          {
+            frequencyMinutes: 15,
+            sessions: 3,
+            completed: 3,
+            completionRate: 1,
+            averageFocusMinutes: 36.7,
+          },
+          {
+            frequencyMinutes: 30,
+            sessions: 1,
+            completed: 0,
+            completionRate: 0,
+            averageFocusMinutes: 10,
+          },
+        ],
+        mostEffective: 15,
+      });
+    });
+
+    it("should rank distractions by the sessions they came up in", () => {
+      const user = createTestUser();
+      const { onTarget } = seedWeek(user.id);
+      createMemory(user.id, {
+        category: "distraction",
+        content: "Slack notifications pull my attention away",
+        importance: 2,
+      });
+      createMemory(user.id, {
+        category: "distraction",
+        content: "Checking the phone on my desk",
+        importance: 4,
+        source: onTarget.id,
+      });
+      createMemory(user.id, { category: "distraction", content: "Hunger", importance: 5 });
+
+      const { distractions } = getFocusAnalytics(user.id, range);
+
+      expect(
+        distractions.map(({ content, sessions, abandonedSessions }) => ({
+          content,
+          sessions,
+          abandonedSessions,
+        }))
+      ).toEqual([
+        {
+          content: "Slack notifications pull my attention away",
+          sessions: 2,
+          abandonedSessions: 1,
+        },
+        { content: "Checking the phone on my desk", sessions: 1, abandonedSessions: 0 },
+        { content: "Hunger", sessions: 0, abandonedSessions: 0 },
+      ]);
+    });
+
+    it("should count streaks of days with a completed session", () => {
+      const user = createTestUser();
+      seedWeek(user.id); // Mar 3 - Mar 6
+      seedSession(user.id, "2024-03-08T15:00:00Z");
+      seedSession(user.id, "2024-03-09T15:00:00Z");
+
+      expect(getFocusAnalytics(user.id, range).streaks).toEqual({
+        current: 2,
+        longest: 4,
+        lastCompletedDate: "2024-03-09",
+      });
+      expect(getFocusAnalytics(user.id, { ...range, to: "2024-03-11" }).streaks.current).toBe(0);
+    });
+
+    it("should only include the user's own sessions", () => {
+      const user = createTestUser();
+      seedWeek(createTestUser().id);
+
+      const analytics = getFocusAnalytics(user.id, range);
+
+      expect(analytics.summary.sessions).toBe(0);
+      expect(analytics.summary.completionRate).toBeNull();
+      expect(analytics.durationAccuracy.averageRatio).toBeNull();
+      expect(analytics.streaks).toEqual({ current: 0, longest: 0, lastCompletedDate: null });
+      expect(analytics.timeOfDay.bestHour).toBeNull();
+    });
+  });
+});
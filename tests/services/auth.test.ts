@@ -221,7 +221,7 @@ describe("Auth Service", () => {
   });
 
   describe("cleanupExpiredAuth", () => {
-    it("should clean up expired magic links and sessions", () => {
+    it("should clean up expired magic links, sessions and OAuth states", () => {
       const db = getTestDb();
 
       // Create expired magic link
@@ -241,6 +241,14 @@ describe("Auth Service", () => {
       `
       ).run(crypto.randomUUID(), user.id, "expired-session-token");
 
+      // Create abandoned OAuth state
+      db.prepare(
+        `
+        INSERT INTO oauth_states (state, provider, user_id, expires_at)
+        VALUES (?, 'google', ?, ?)
+      `
+      ).run("expired-state", user.id, new Date(Date.now() - 60 * 1000).toISOString());
+
       expect(getTableCount("magic_links")).toBe(1);
       expect(getTableCount("auth_sessions")).toBe(1);
 
@@ -248,8 +256,10 @@ describe("Auth Service", () => {
 
       expect(result.magicLinks).toBe(1);
       expect(result.sessions).toBe(1);
+      expect(result.oauthStates).toBe(1);
       expect(getTableCount("magic_links")).toBe(0);
       expect(getTableCount("auth_sessions")).toBe(0);
+      expect(getTableCount("oauth_states")).toBe(0);
     });
   });
 });
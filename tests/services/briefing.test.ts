@@ -8,7 +8,7 @@
  * - Background check tracking
  */
 
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, afterEach, vi } from "vitest";
 import {
   createAlert,
   getAlerts,
@@ -21,14 +21,18 @@ import {
   getRecentBriefings,
   markBriefingViewed,
   generateBriefingSummary,
+  gatherBriefingData,
   getOrCreateBackgroundCheck,
   updateBackgroundCheck,
+  checkNewEmails,
 } from "../../src/server/services/briefing.js";
 import {
   createTestUser,
+  createTestSession,
   createTestAlert,
   createTestBriefing,
   createTestGoogleConnection,
+  createTestNotionConnection,
 } from "../utils/test-helpers.js";
 import { getTestDb } from "../utils/test-db.js";
 
@@ -185,6 +189,53 @@ describe("Briefing Service", () => {
       });
     });
 
+    describe("deep work sessions", () => {
+      it("should hold back non-urgent alerts created during the session", () => {
+        const user = createTestUser();
+        const session = createTestSession(user.id, { mode: "deep_work" });
+        const db = getTestDb();
+        db.prepare(
+          `UPDATE sessions SET started_at = datetime('now', '-10 minutes') WHERE id = ?`
+        ).run(session.id);
+
+        const before = createTestAlert(user.id, { title: "Before" });
+        db.prepare(`UPDATE alerts SET created_at = datetime('now', '-1 hour') WHERE id = ?`).run(
+          before.id
+        );
+        createTestAlert(user.id, { title: "During" });
+        createTestAlert(user.id, { title: "Urgent", priority: "urgent" });
+
+        const result = getAlerts(user.id);
+
+        expect(result.alerts.map((a) => a.title).sort()).toEqual(["Before", "Urgent"]);
+        expect(result.total).toBe(2);
+        expect(getUnreadAlertCount(user.id)).toBe(2);
+        expect(markAllAlertsRead(user.id)).toBe(2);
+      });
+
+      it("should surface held alerts once the session ends", () => {
+        const user = createTestUser();
+        const session = createTestSession(user.id, { mode: "deep_work" });
+        createTestAlert(user.id, { title: "During" });
+
+        expect(getUnreadAlertCount(user.id)).toBe(0);
+
+        getTestDb()
+          .prepare(`UPDATE sessions SET status = 'completed' WHERE id = ?`)
+          .run(session.id);
+
+        expect(getUnreadAlertCount(user.id)).toBe(1);
+      });
+
+      it("should not hold back alerts in other modes", () => {
+        const user = createTestUser();
+        createTestSession(user.id, { mode: "simple_task" });
+        createTestAlert(user.id);
+
+        expect(getUnreadAlertCount(user.id)).toBe(1);
+      });
+    });
+
     describe("markAlertRead", () => {
       it("should mark alert as read", () => {
         const user = createTestUser();
@@ -547,6 +598,314 @@ describe("Briefing Service", () => {
       expect(summary).toContain("2 items");
       expect(summary).toContain("Review PR #123");
     });
+
+    it("should group tasks into overdue, today and upcoming", () => {
+      const today = new Date().toISOString().split("T")[0];
+      const summary = generateBriefingSummary({
+        calendarEvents: [],
+        emails: [],
+        unreadCount: 0,
+        tasks: [
+          { id: "1", title: "Ship release notes", due: "2020-01-01" },
+          { id: "2", title: "Call the bank", due: `${today}T15:00:00.000Z` },
+          { id: "3", title: "Refactor billing", status: "In Progress" },
+        ],
+        hasGoogle: false,
+        hasNotion: true,
+      });
+
+      const overdue = summary.indexOf("Overdue:");
+      const dueToday = summary.indexOf("Today:");
+      const upcoming = summary.indexOf("Upcoming:");
+      expect(overdue).toBeGreaterThan(-1);
+      expect(dueToday).toBeGreaterThan(overdue);
+      expect(upcoming).toBeGreaterThan(dueToday);
+      expect(summary).toContain("- Ship release notes (due 2020-01-01)");
+      expect(summary.slice(dueToday, upcoming)).toContain("Call the bank");
+      expect(summary.slice(upcoming)).toContain("Refactor billing [In Progress]");
+    });
+
+    it("should decide what's due today by the user's date, not UTC's", () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2024-03-01T23:30:00Z"));
+      const data = {
+        calendarEvents: [],
+        emails: [],
+        unreadCount: 0,
+        tasks: [
+          { id: "1", title: "File the report", due: "2024-03-01" },
+          { id: "2", title: "Call the bank", due: "2024-03-02" },
+        ],
+        hasGoogle: false,
+        hasNotion: true,
+      };
+
+      try {
+        // Already 2 March in Auckland; still 1 March in UTC
+        const auckland = generateBriefingSummary(data, "Pacific/Auckland");
+        expect(auckland).toContain("Overdue:\n- File the report");
+        expect(auckland).toContain("Today:\n- Call the bank");
+
+        const utc = generateBriefingSummary(data, "UTC");
+        expect(utc).toContain("Today:\n- File the report");
+        expect(utc).toContain("Upcoming:\n- Call the bank");
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe("gatherBriefingData", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("should read tasks using the user's property names", async () => {
+      const user = createTestUser();
+      createTestNotionConnection(user.id, {
+        tasks_property_map: {
+          title: "Task",
+          status: "Stage",
+          statusType: "status",
+          dueDate: "Deadline",
+        },
+      });
+      const fetchMock = vi.fn(
+        async () =>
+          new Response(
+            JSON.stringify({
+              results: [
+                {
+                  id: "page-1",
+                  url: "https://notion.so/page-1",
+                  properties: {
+                    Task: { type: "title", title: [{ plain_text: "Send invoice" }] },
+                    Stage: { type: "status", status: { name: "In Progress" } },
+                    Deadline: { type: "date", date: { start: "2024-03-01" } },
+                  },
+                },
+              ],
+            }),
+            { status: 200 }
+          )
+      );
+      vi.stubGlobal("fetch", fetchMock);
+
+      const data = await gatherBriefingData(user.id);
+
+      expect(data.hasNotion).toBe(true);
+      expect(data.tasks).toEqual([
+        {
+          id: "page-1",
+          title: "Send invoice",
+          status: "In Progress",
+          due: "2024-03-01",
+          priority: undefined,
+          url: "https://notion.so/page-1",
+        },
+      ]);
+
+      const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+      expect(url).toContain("/databases/tasks-db/query");
+      const body = JSON.parse(init.body as string);
+      expect(JSON.stringify(body.filter)).toContain('"property":"Stage","status"');
+      expect(JSON.stringify(body.filter)).toContain('"property":"Deadline"');
+    });
+
+    it("should ask for tasks due by the user's local date", async () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2024-03-01T23:30:00Z"));
+      const user = createTestUser({
+        preferences: JSON.stringify({ timeZone: "Pacific/Auckland" }),
+      });
+      createTestNotionConnection(user.id);
+      const fetchMock = vi.fn(async () => new Response(JSON.stringify({ results: [] })));
+      vi.stubGlobal("fetch", fetchMock);
+
+      try {
+        await gatherBriefingData(user.id);
+      } finally {
+        vi.useRealTimers();
+      }
+
+      const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+      expect(init.body).toContain('"on_or_before":"2024-03-02"');
+    });
+
+    it("should leave tasks empty without a tasks database", async () => {
+      const user = createTestUser();
+      createTestNotionConnection(user.id, { tasks_database_id: null });
+      const fetchMock = vi.fn();
+      vi.stubGlobal("fetch", fetchMock);
+
+      const data = await gatherBriefingData(user.id);
+
+      expect(data.tasks).toEqual([]);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("checkNewEmails", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    /**
+     * Stub the Gmail API with a mailbox: listing returns its unread
+     * messages, history returns the given additions (or 404 once expired,
+     * with another page always to come when historyHasMore is set) and the
+     * profile returns the current history ID
+     */
+    function stubMailbox(mailbox: {
+      messages: Array<{ id: string; subject: string; unread?: boolean }>;
+      history?: string[] | "expired";
+      historyHasMore?: boolean;
+      historyId?: string;
+    }) {
+      const json = (body: object, status = 200) => new Response(JSON.stringify(body), { status });
+      const historyId = mailbox.historyId ?? "200";
+
+      const fetchMock = vi.fn(async (url: string) => {
+        if (url.includes("/profile")) {
+          return json({ historyId });
+        }
+        if (url.includes("/history")) {
+          if (mailbox.history === "expired") {
+            return json({ error: { message: "Requested entity was not found." } }, 404);
+          }
+          return json({
+            history: (mailbox.history ?? []).map((id) => ({
+              messagesAdded: [{ message: { id } }],
+            })),
+            historyId,
+            ...(mailbox.historyHasMore ? { nextPageToken: "more" } : {}),
+          });
+        }
+
+        const detail = url.match(/\/messages\/([^?]+)\?/);
+        if (detail) {
+          const message = mailbox.messages.find((m) => m.id === detail[1])!;
+          return json({
+            id: message.id,
+            threadId: message.id,
+            snippet: "",
+            labelIds: message.unread === false ? ["INBOX"] : ["INBOX", "UNREAD"],
+            payload: {
+              headers: [
+                { name: "From", value: "Ada <ada@example.com>" },
+                { name: "Subject", value: message.subject },
+              ],
+            },
+          });
+        }
+
+        return json({
+          messages: mailbox.messages.filter((m) => m.unread !== false).map((m) => ({ id: m.id })),
+        });
+      });
+      vi.stubGlobal("fetch", fetchMock);
+      return fetchMock;
+    }
+
+    function historyCursor(userId: string): string | null {
+      return getOrCreateBackgroundCheck(userId, "email").last_item_id;
+    }
+
+    it("should resync unread email on the first check and store the history cursor", async () => {
+      const user = createTestUser();
+      createTestGoogleConnection(user.id);
+      stubMailbox({
+        messages: [
+          { id: "m1", subject: "Lunch?" },
+          { id: "m2", subject: "Invoice" },
+        ],
+      });
+
+      expect(await checkNewEmails(user.id)).toBe(2);
+      expect(historyCursor(user.id)).toBe("200");
+    });
+
+    it("should only alert on unread email added since the cursor", async () => {
+      const user = createTestUser();
+      createTestGoogleConnection(user.id);
+      getOrCreateBackgroundCheck(user.id, "email");
+      updateBackgroundCheck(user.id, "email", "100");
+      const fetchMock = stubMailbox({
+        messages: [
+          { id: "m1", subject: "Already read", unread: false },
+          { id: "m2", subject: "New since last check" },
+          { id: "m3", subject: "Old unread" },
+        ],
+        history: ["m1", "m2"],
+        historyId: "150",
+      });
+
+      expect(await checkNewEmails(user.id)).toBe(1);
+
+      expect(getAlerts(user.id).alerts.map((a) => a.content)).toEqual(["New since last check"]);
+      expect(fetchMock.mock.calls[0][0]).toContain("startHistoryId=100");
+      expect(historyCursor(user.id)).toBe("150");
+    });
+
+    it("should resync after the cursor expires without alerting twice", async () => {
+      const user = createTestUser();
+      createTestGoogleConnection(user.id);
+      stubMailbox({ messages: [{ id: "m1", subject: "Lunch?" }] });
+      await checkNewEmails(user.id);
+
+      stubMailbox({
+        messages: [
+          { id: "m2", subject: "Invoice" },
+          { id: "m1", subject: "Lunch?" },
+        ],
+        history: "expired",
+        historyId: "300",
+      });
+
+      expect(await checkNewEmails(user.id)).toBe(1);
+      expect(getAlerts(user.id).total).toBe(2);
+      expect(historyCursor(user.id)).toBe("300");
+    });
+
+    it("should resync rather than skip history it didn't finish reading", async () => {
+      const user = createTestUser();
+      createTestGoogleConnection(user.id);
+      getOrCreateBackgroundCheck(user.id, "email");
+      updateBackgroundCheck(user.id, "email", "100");
+      const fetchMock = stubMailbox({
+        messages: [
+          { id: "m2", subject: "On the first page" },
+          { id: "m3", subject: "On a page after the last one read" },
+        ],
+        history: ["m2"],
+        historyHasMore: true,
+        historyId: "900",
+      });
+
+      expect(await checkNewEmails(user.id)).toBe(2);
+
+      const historyCalls = fetchMock.mock.calls.filter(([url]) => url.includes("/history"));
+      expect(historyCalls.length).toBeGreaterThan(1);
+      expect(historyCalls.at(-1)![0]).toContain("pageToken=more");
+      expect(historyCursor(user.id)).toBe("900");
+    });
+
+    it("should keep the cursor when Gmail can't be reached", async () => {
+      const user = createTestUser();
+      createTestGoogleConnection(user.id);
+      getOrCreateBackgroundCheck(user.id, "email");
+      updateBackgroundCheck(user.id, "email", "100");
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(
+          async () =>
+            new Response(JSON.stringify({ error: { message: "Backend Error" } }), { status: 500 })
+        )
+      );
+
+      expect(await checkNewEmails(user.id)).toBe(0);
+      expect(historyCursor(user.id)).toBe("100");
+    });
   });
 
   // ============================================
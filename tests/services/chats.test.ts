@@ -0,0 +1,43 @@
+/**
+ * Chats Service Tests
+ *
+ * Tests for side chat suggestions in main chat replies.
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseSideChatSuggestion, visibleReplyText } from "../../src/server/services/chats.js";
+
+describe("Chats Service", () => {
+  describe("parseSideChatSuggestion", () => {
+    it("should split off a side chat suggestion", () => {
+      const result = parseSideChatSuggestion(
+        "That's a big one.\n[[side_chat: Hiring plan | Planning the Q3 hires]]"
+      );
+
+      expect(result).toEqual({
+        content: "That's a big one.",
+        suggestion: { title: "Hiring plan", topic: "Planning the Q3 hires" },
+      });
+    });
+
+    it("should leave replies without a suggestion alone", () => {
+      expect(parseSideChatSuggestion("Sounds good [really]")).toEqual({
+        content: "Sounds good [really]",
+        suggestion: null,
+      });
+    });
+  });
+
+  describe("visibleReplyText", () => {
+    it("should hide a suggestion while it streams", () => {
+      expect(visibleReplyText("Sure.\n[[side_chat: Hiring")).toBe("Sure.");
+    });
+
+    it("should hold back what could be the start of a suggestion", () => {
+      expect(visibleReplyText("Sure.\n[[side")).toBe("Sure.");
+      expect(visibleReplyText("Sure. [")).toBe("Sure.");
+      expect(visibleReplyText("Sure. ")).toBe("Sure.");
+      expect(visibleReplyText("Sure. [x")).toBe("Sure. [x");
+    });
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Check-in Service Tests
+ *
+ * Tests for proactive check-in scheduling, persistence and reconnect handling.
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  attachCheckInListener,
+  detachCheckInListener,
+  stopCheckIns,
+  stopAllCheckIns,
+  hasScheduledCheckIns,
+  runCheckIn,
+  getNextCheckInDelay,
+  type CheckInEvent,
+} from "../../src/server/services/checkins.js";
+import { createTestUser, createTestSession } from "../utils/test-helpers.js";
+import { getTestDb } from "../utils/test-db.js";
+import type { Session } from "../../src/server/db/schema.js";
+
+const { generateMock } = vi.hoisted(() => ({
+  generateMock: vi.fn(),
+}));
+
+vi.mock("../../src/server/services/companion.js", async (importOriginal) => {
+  const original = await importOriginal<typeof import("../../src/server/services/companion.js")>();
+  return {
+    ...original,
+    generateStreamingResponse: generateMock,
+  };
+});
+
+/**
+ * Create an active session whose first check-in is already due
+ */
+function createDueSession(): Session {
+  const user = createTestUser();
+  const session = createTestSession(user.id, { check_in_frequency: 15 });
+
+  const db = getTestDb();
+  db.prepare(`UPDATE sessions SET started_at = datetime('now', '-20 minutes') WHERE id = ?`).run(
+    session.id
+  );
+
+  return db.prepare(`SELECT * FROM sessions WHERE id = ?`).get(session.id) as Session;
+}
+
+function getCheckInMessages(sessionId: string): Array<{ role: string; content: string }> {
+  const db = getTestDb();
+  return db
+    .prepare(`SELECT role, content FROM messages WHERE session_id = ?`)
+    .all(sessionId) as Array<{ role: string; content: string }>;
+}
+
+describe("Check-in Service", () => {
+  afterEach(() => {
+    stopAllCheckIns();
+    generateMock.mockReset();
+    vi.useRealTimers();
+  });
+
+  describe("getNextCheckInDelay", () => {
+    it("should count from session start when no check-in has happened", () => {
+      const session = {
+        started_at: "2025-01-01 10:00:00",
+        last_check_in_at: null,
+        check_in_frequency: 15,
+      } as Session;
+
+      const now = new Date("2025-01-01T10:05:00Z").getTime();
+      expect(getNextCheckInDelay(session, now)).toBe(10 * 60 * 1000);
+    });
+
+    it("should count from the last check-in when there is one", () => {
+      const session = {
+        started_at: "2025-01-01 10:00:00",
+        last_check_in_at: "2025-01-01 10:15:00",
+        check_in_frequency: 15,
+      } as Session;
+
+      const now = new Date("2025-01-01T10:20:00Z").getTime();
+      expect(getNextCheckInDelay(session, now)).toBe(10 * 60 * 1000);
+    });
+
+    it("should never be negative", () => {
+      const session = {
+        started_at: "2025-01-01 10:00:00",
+        last_check_in_at: null,
+        check_in_frequency: 15,
+      } as Session;
+
+      const now = new Date("2025-01-01T12:00:00Z").getTime();
+      expect(getNextCheckInDelay(session, now)).toBe(0);
+    });
+  });
+
+  describe("runCheckIn", () => {
+    it("should stream, persist and record a check-in", async () => {
+      generateMock.mockImplementation(async function* () {
+        yield "How's it ";
+        yield "going?";
+      });
+
+      const session = createDueSession();
+      const events: CheckInEvent[] = [];
+      attachCheckInListener(session, {}, (event) => events.push(event));
+
+      const content = await runCheckIn(session.id);
+
+      expect(content).toBe("How's it going?");
+      expect(events.map((e) => e.type)).toEqual([
+        "stream_start",
+        "stream_chunk",
+        "stream_chunk",
+        "stream_end",
+      ]);
+      expect(generateMock).toHaveBeenCalledWith(
+        session.user_id,
+        session.id,
+        expect.stringContaining("Automated check-in"),
+        { intent: "check_in" }
+      );
+
+      const messages = getCheckInMessages(session.id);
+      expect(messages).toEqual([{ role: "assistant", content: "How's it going?" }]);
+
+      const db = getTestDb();
+      const updated = db
+        .prepare(`SELECT last_check_in_at FROM sessions WHERE id = ?`)
+        .get(session.id) as { last_check_in_at: string | null };
+      expect(updated.last_check_in_at).not.toBeNull();
+    });
+
+    it("should skip when a check-in already happened this interval", async () => {
+      const session = createDueSession();
+      attachCheckInListener(session, {}, () => {});
+
+      const db = getTestDb();
+      db.prepare(`UPDATE sessions SET last_check_in_at = datetime('now') WHERE id = ?`).run(
+        session.id
+      );
+
+      const content = await runCheckIn(session.id);
+
+      expect(content).toBeNull();
+      expect(generateMock).not.toHaveBeenCalled();
+      expect(hasScheduledCheckIns(session.id)).toBe(true);
+    });
+
+    it("should stop the schedule once the session is no longer active", async () => {
+      const session = createDueSession();
+      attachCheckInListener(session, {}, () => {});
+
+      const db = getTestDb();
+      db.prepare(`UPDATE sessions SET status = 'completed' WHERE id = ?`).run(session.id);
+
+      const content = await runCheckIn(session.id);
+
+      expect(content).toBeNull();
+      expect(generateMock).not.toHaveBeenCalled();
+      expect(hasScheduledCheckIns(session.id)).toBe(false);
+    });
+
+    it("should drop the schedule when nobody is listening", async () => {
+      const session = createDueSession();
+      const socket = {};
+      attachCheckInListener(session, socket, () => {});
+      detachCheckInListener(session.id, socket);
+
+      const content = await runCheckIn(session.id);
+
+      expect(content).toBeNull();
+      expect(generateMock).not.toHaveBeenCalled();
+      expect(hasScheduledCheckIns(session.id)).toBe(false);
+    });
+
+    it("should never schedule check-ins in presence mode", async () => {
+      const user = createTestUser();
+      const session = createTestSession(user.id, { mode: "presence" });
+
+      attachCheckInListener(session, {}, () => {});
+
+      expect(hasScheduledCheckIns(session.id)).toBe(false);
+      expect(await runCheckIn(session.id)).toBeNull();
+      expect(generateMock).not.toHaveBeenCalled();
+    });
+
+    it("should broadcast an error event when generation fails", async () => {
+      generateMock.mockImplementation(() => {
+        throw new Error("API down");
+      });
+
+      const session = createDueSession();
+      const events: CheckInEvent[] = [];
+      attachCheckInListener(session, {}, (event) => events.push(event));
+
+      const content = await runCheckIn(session.id);
+
+      expect(content).toBeNull();
+      expect(events[events.length - 1].type).toBe("error");
+      expect(getCheckInMessages(session.id)).toEqual([]);
+    });
+  });
+
+  describe("scheduling", () => {
+    it("should fire once per interval even when a client rejoins", async () => {
+      vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+      generateMock.mockImplementation(async function* () {
+        yield "Checking in!";
+      });
+
+      const session = createDueSession();
+      const firstSocket = {};
+      const events: CheckInEvent[] = [];
+
+      attachCheckInListener(session, firstSocket, (event) => events.push(event));
+
+      // Simulate a reconnect: old socket goes away, new one joins the same session
+      detachCheckInListener(session.id, firstSocket);
+      attachCheckInListener(session, {}, (event) => events.push(event));
+      attachCheckInListener(session, {}, (event) => events.push(event));
+
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(generateMock).toHaveBeenCalledTimes(1);
+      expect(getCheckInMessages(session.id)).toHaveLength(1);
+      // Both live sockets receive the stream_end frame
+      expect(events.filter((e) => e.type === "stream_end")).toHaveLength(2);
+    });
+
+    it("should not fire after stopCheckIns", async () => {
+      vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+
+      const session = createDueSession();
+      attachCheckInListener(session, {}, () => {});
+      stopCheckIns(session.id);
+
+      await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+
+      expect(generateMock).not.toHaveBeenCalled();
+      expect(hasScheduledCheckIns(session.id)).toBe(false);
+    });
+  });
+});
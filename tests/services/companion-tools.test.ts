@@ -0,0 +1,292 @@
+/**
+ * Companion Tools Tests
+ *
+ * Tests for the Notion task tools and for running them from a streamed
+ * companion reply, with the Notion API stubbed out.
+ */
+
+import { describe, it, expect, afterEach, vi } from "vitest";
+import {
+  executeTool,
+  getAvailableTools,
+  runToolCall,
+  type ToolCallHandlers,
+  type ToolEvent,
+} from "../../src/server/services/companion-tools.js";
+import {
+  createMockProvider,
+  setCompanionProvider,
+} from "../../src/server/services/llm-provider.js";
+import { generateStreamingResponse } from "../../src/server/services/companion.js";
+import { getTestDb } from "../utils/test-db.js";
+import {
+  createTestUser,
+  createTestSession,
+  createTestNotionConnection,
+  stubNotion,
+} from "../utils/test-helpers.js";
+
+const taskPage = {
+  id: "page-1",
+  url: "https://notion.so/page-1",
+  properties: {
+    Name: { title: [{ plain_text: "Email Sam" }] },
+    Status: { select: { name: "Todo" } },
+  },
+};
+
+function recordingHandlers(approve: boolean) {
+  const events: ToolEvent[] = [];
+  const handlers: ToolCallHandlers = {
+    onEvent: (event) => events.push(event),
+    confirm: vi.fn(async () => approve),
+  };
+  return { events, handlers };
+}
+
+async function collect(stream: AsyncGenerator<string>): Promise<string> {
+  let text = "";
+  for await (const chunk of stream) {
+    text += chunk;
+  }
+  return text;
+}
+
+describe("Companion Tools", () => {
+  afterEach(() => {
+    setCompanionProvider(null);
+    vi.unstubAllGlobals();
+  });
+
+  describe("getAvailableTools", () => {
+    it("should offer no tools without a Notion tasks database", () => {
+      const user = createTestUser();
+      expect(getAvailableTools(user.id)).toEqual([]);
+
+      createTestNotionConnection(user.id, { tasks_database_id: null });
+      expect(getAvailableTools(user.id)).toEqual([]);
+    });
+
+    it("should offer the task tools and mark changes to existing tasks for confirmation", () => {
+      const user = createTestUser();
+      createTestNotionConnection(user.id);
+
+      const tools = getAvailableTools(user.id);
+
+      expect(tools.map((t) => t.name)).toEqual([
+        "list_today_tasks",
+        "create_task",
+        "update_task_status",
+        "append_note",
+      ]);
+      expect(tools.filter((t) => t.requiresConfirmation).map((t) => t.name)).toEqual([
+        "update_task_status",
+        "append_note",
+      ]);
+    });
+  });
+
+  describe("executeTool", () => {
+    it("should reject invalid input without calling Notion", async () => {
+      const user = createTestUser();
+      createTestNotionConnection(user.id);
+      const fetchMock = stubNotion({ "": taskPage });
+
+      const results = await Promise.all([
+        executeTool(user.id, "create_task", {}),
+        executeTool(user.id, "create_task", { title: "Email Sam", due_date: "tomorrow" }),
+        executeTool(user.id, "update_task_status", { task_id: "page-1", status: "Finished" }),
+        executeTool(user.id, "delete_everything", {}),
+      ]);
+
+      expect(results.every((r) => r.isError)).toBe(true);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("should create a task and log the call as an assistant action", async () => {
+      const user = createTestUser();
+      createTestNotionConnection(user.id);
+      stubNotion({ "": taskPage });
+
+      const result = await executeTool(user.id, "create_task", {
+        title: "Email Sam",
+        priority: "High",
+      });
+
+      expect(result.isError).toBe(false);
+      expect(JSON.parse(result.content)).toMatchObject({ id: "page-1", title: "Email Sam" });
+
+      const log = getTestDb()
+        .prepare(`SELECT operation, triggered_by FROM notion_api_logs WHERE user_id = ?`)
+        .get(user.id);
+      expect(log).toEqual({ operation: "Create task", triggered_by: "assistant_action" });
+    });
+
+    it("should write statuses as the user's own option names", async () => {
+      const user = createTestUser();
+      createTestNotionConnection(user.id, {
+        tasks_property_map: {
+          status: "Stage",
+          statusType: "status",
+          inProgressStatus: "Doing",
+          blockedStatus: "On hold",
+        },
+      });
+      const fetchMock = stubNotion({ "": taskPage });
+
+      const moved = await executeTool(user.id, "update_task_status", {
+        task_id: "page-1",
+        status: "In Progress",
+      });
+      const blocked = await executeTool(user.id, "update_task_status", {
+        task_id: "page-1",
+        status: "Blocked",
+      });
+
+      expect(moved.isError).toBe(false);
+      expect(blocked.isError).toBe(false);
+      const bodies = fetchMock.mock.calls.map(([, init]) => JSON.parse(init!.body as string));
+      expect(bodies.map((b) => b.properties)).toEqual([
+        { Stage: { status: { name: "Doing" } } },
+        { Stage: { status: { name: "On hold" } } },
+      ]);
+    });
+
+    it("should refuse a status the tasks database doesn't have", async () => {
+      const user = createTestUser();
+      createTestNotionConnection(user.id, { tasks_property_map: { blockedStatus: null } });
+      const fetchMock = stubNotion({ "": taskPage });
+
+      const blocked = await executeTool(user.id, "update_task_status", {
+        task_id: "page-1",
+        status: "Blocked",
+      });
+
+      expect(blocked).toEqual({
+        content: 'The user\'s tasks database has no "Blocked" status.',
+        isError: true,
+      });
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("should only write the properties the tasks database has", async () => {
+      const user = createTestUser();
+      createTestNotionConnection(user.id, {
+        tasks_property_map: {
+          status: "Stage",
+          statusType: "status",
+          todoStatus: "Not started",
+          createdBy: null,
+          notes: null,
+        },
+      });
+      const fetchMock = stubNotion({ "": taskPage });
+
+      await executeTool(user.id, "create_task", { title: "Email Sam", notes: "About the invoice" });
+
+      const body = JSON.parse(fetchMock.mock.calls[0][1]!.body as string);
+      expect(body.properties).toEqual({
+        Name: { title: [{ type: "text", text: { content: "Email Sam" } }] },
+        Stage: { status: { name: "Not started" } },
+      });
+    });
+  });
+
+  describe("tool calls in a streamed reply", () => {
+    it("should run tool calls and continue the reply with their results", async () => {
+      const user = createTestUser();
+      const session = createTestSession(user.id);
+      createTestNotionConnection(user.id);
+      const fetchMock = stubNotion({ "": taskPage });
+      setCompanionProvider(
+        createMockProvider([
+          { text: "On it.", toolUses: [{ name: "create_task", input: { title: "Email Sam" } }] },
+          "Added it to your list.",
+        ])
+      );
+      const { events, handlers } = recordingHandlers(true);
+
+      const reply = await collect(
+        generateStreamingResponse(user.id, session.id, "Remind me to email Sam", {
+          tools: handlers,
+        })
+      );
+
+      expect(reply).toBe("On it.\n\nAdded it to your list.");
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(events.map((e) => e.type)).toEqual(["tool_call", "tool_result"]);
+      expect(events[1]).toMatchObject({ name: "create_task", isError: false });
+      expect(handlers.confirm).not.toHaveBeenCalled();
+    });
+
+    it("should skip actions the user declines", async () => {
+      const user = createTestUser();
+      const session = createTestSession(user.id);
+      createTestNotionConnection(user.id);
+      const fetchMock = stubNotion({ "": taskPage });
+      setCompanionProvider(
+        createMockProvider([
+          {
+            toolUses: [
+              { name: "update_task_status", input: { task_id: "page-1", status: "Done" } },
+            ],
+          },
+          "Okay, leaving it open.",
+        ])
+      );
+      const { events, handlers } = recordingHandlers(false);
+
+      const reply = await collect(
+        generateStreamingResponse(user.id, session.id, "I finished it", { tools: handlers })
+      );
+
+      expect(reply).toBe("Okay, leaving it open.");
+      expect(handlers.confirm).toHaveBeenCalledWith(
+        expect.objectContaining({ name: "update_task_status" })
+      );
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(events[1]).toMatchObject({ type: "tool_result", isError: true });
+    });
+
+    it("should refuse a tool that wasn't offered without asking or running it", async () => {
+      const user = createTestUser();
+      createTestNotionConnection(user.id);
+      const fetchMock = stubNotion({ "": taskPage });
+      const offered = getAvailableTools(user.id).filter((t) => !t.requiresConfirmation);
+      const { events, handlers } = recordingHandlers(true);
+
+      const record = await runToolCall(
+        user.id,
+        offered,
+        {
+          type: "tool_use",
+          id: "call-1",
+          name: "update_task_status",
+          input: { task_id: "page-1", status: "Done" },
+        },
+        handlers
+      );
+
+      expect(record).toMatchObject({
+        content: "Unknown tool: update_task_status",
+        isError: true,
+      });
+      expect(handlers.confirm).not.toHaveBeenCalled();
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(events.map((e) => e.type)).toEqual(["tool_call", "tool_result"]);
+    });
+
+    it("should not offer tools without handlers", async () => {
+      const user = createTestUser();
+      const session = createTestSession(user.id);
+      createTestNotionConnection(user.id);
+      const provider = createMockProvider(["Sounds good"]);
+      const stream = vi.spyOn(provider, "stream");
+      setCompanionProvider(provider);
+
+      await collect(generateStreamingResponse(user.id, session.id, "Hello"));
+
+      expect(stream.mock.calls[0][0].tools).toBeUndefined();
+    });
+  });
+});
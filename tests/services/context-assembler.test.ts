@@ -0,0 +1,284 @@
+/**
+ * Context Assembler Tests
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  assembleContext,
+  assembleMainChatContext,
+  assembleSessionContext,
+  assembleSideChatContext,
+  estimateTokens,
+  summarizeTurns,
+  DEFAULT_CONTEXT_POLICY,
+  type ContextBudgetPolicy,
+} from "../../src/server/services/context-assembler.js";
+import { buildUserContext } from "../../src/server/services/context.js";
+import {
+  addMainChatMessage,
+  addSideChatMessage,
+  createSideChat,
+  spawnSideChatFromMain,
+} from "../../src/server/services/chats.js";
+import type { CompanionMessage } from "../../src/server/services/companion.js";
+import {
+  createTestUser,
+  createTestSession,
+  createTestMessage,
+  createTestContextItem,
+  createTestAlert,
+  createTestBriefing,
+} from "../utils/test-helpers.js";
+import { getTestDb } from "../utils/test-db.js";
+
+function conversation(turns: number, length = 200): CompanionMessage[] {
+  return Array.from({ length: turns }, (_, i) => ({
+    role: i % 2 === 0 ? "user" : "assistant",
+    content: `Message ${i} ${"x".repeat(length)}`,
+  }));
+}
+
+function section(result: ReturnType<typeof assembleContext>, name: string) {
+  return result.allocation.find((a) => a.section === name)!;
+}
+
+describe("Context Assembler", () => {
+  describe("estimateTokens", () => {
+    it("should estimate about four characters per token", () => {
+      expect(estimateTokens("")).toBe(0);
+      expect(estimateTokens("abcd")).toBe(1);
+      expect(estimateTokens("abcde")).toBe(2);
+    });
+  });
+
+  describe("assembleContext", () => {
+    it("should include everything when it fits the budget", () => {
+      const user = createTestUser({ name: "Sam" });
+      createTestContextItem(user.id, "project", "Rewriting the billing service", 4);
+      const session = createTestSession(user.id, { declared_task: "Fix invoices" });
+
+      const history = conversation(4, 20);
+      const result = assembleContext(buildUserContext(user.id, session.id), history);
+
+      expect(result.history).toEqual(history);
+      expect(result.conversationSummary).toBeNull();
+      expect(result.systemPrompt).toContain("Rewriting the billing service");
+      expect(result.allocation.every((a) => !a.truncated)).toBe(true);
+      expect(result.estimatedTokens).toBeLessThanOrEqual(result.budget);
+    });
+
+    it("should report allocation for every section in priority order", () => {
+      const user = createTestUser();
+      const result = assembleContext(buildUserContext(user.id), []);
+
+      expect(result.allocation.map((a) => a.section)).toEqual(DEFAULT_CONTEXT_POLICY.priority);
+    });
+
+    it("should summarize older turns instead of dropping them", () => {
+      const user = createTestUser({ name: "Sam" });
+      const history = conversation(DEFAULT_CONTEXT_POLICY.recentMessages + 10);
+
+      const result = assembleContext(buildUserContext(user.id), history);
+
+      expect(result.history).toHaveLength(DEFAULT_CONTEXT_POLICY.recentMessages);
+      expect(result.history).toEqual(history.slice(-DEFAULT_CONTEXT_POLICY.recentMessages));
+      expect(result.conversationSummary).toContain("## Earlier in this session (summarized)");
+      expect(result.conversationSummary).toContain("Sam: Message 0");
+      expect(section(result, "history").truncated).toBe(true);
+    });
+
+    it("should put the rolling summary ahead of the recent messages", () => {
+      const user = createTestUser();
+      const history = conversation(4, 20);
+
+      const result = assembleContext(
+        buildUserContext(user.id),
+        history,
+        DEFAULT_CONTEXT_POLICY,
+        "They finished the outline and got stuck on the intro."
+      );
+
+      expect(result.history).toEqual(history);
+      expect(result.conversationSummary).toContain("got stuck on the intro");
+      expect(result.systemPrompt).not.toContain("got stuck on the intro");
+    });
+
+    it("should keep memories within their share and spread across categories", () => {
+      const user = createTestUser();
+      for (let i = 0; i < 20; i++) {
+        createTestContextItem(user.id, "project", `Project number ${i} ${"p".repeat(400)}`, 5);
+      }
+      createTestContextItem(user.id, "distraction", "Checks Slack constantly", 1);
+
+      const policy: ContextBudgetPolicy = {
+        ...DEFAULT_CONTEXT_POLICY,
+        totalTokens: 3000,
+        maxShare: { ...DEFAULT_CONTEXT_POLICY.maxShare, memories: 0.1 },
+      };
+      const context = buildUserContext(user.id);
+      // Fill the leftover budget so the second pass can't grow memories
+      const result = assembleContext(context, conversation(60, 2000), policy);
+
+      const memories = section(result, "memories");
+      expect(memories.truncated).toBe(true);
+      expect(memories.used).toBeLessThanOrEqual(memories.budget);
+      expect(result.systemPrompt).toContain("Checks Slack constantly");
+    });
+
+    it("should give leftover budget to sections that hit their share", () => {
+      const user = createTestUser();
+      const result = assembleContext(buildUserContext(user.id), conversation(10, 2000));
+
+      const history = section(result, "history");
+      expect(history.budget).toBeGreaterThan(
+        DEFAULT_CONTEXT_POLICY.totalTokens * DEFAULT_CONTEXT_POLICY.maxShare.history
+      );
+      expect(history.used).toBeLessThanOrEqual(history.budget);
+    });
+
+    it("should stay within a small budget", () => {
+      const user = createTestUser({ work_context: "w".repeat(4000) });
+      const policy = { ...DEFAULT_CONTEXT_POLICY, totalTokens: 2000 };
+
+      const result = assembleContext(buildUserContext(user.id), conversation(40), policy);
+
+      expect(section(result, "profile").truncated).toBe(true);
+      expect(result.estimatedTokens).toBeLessThanOrEqual(policy.totalTokens);
+    });
+  });
+
+  describe("summarizeTurns", () => {
+    it("should return null when there is nothing to summarize", () => {
+      expect(summarizeTurns([], "Sam", 100)).toBeNull();
+    });
+
+    it("should note omitted turns when even short excerpts don't fit", () => {
+      const summary = summarizeTurns(conversation(50), "Sam", 100);
+
+      expect(summary).toMatch(/earlier messages omitted/);
+      expect(estimateTokens(summary!)).toBeLessThanOrEqual(100);
+    });
+  });
+
+  describe("assembleSessionContext", () => {
+    it("should load the session's conversation history", () => {
+      const user = createTestUser();
+      const session = createTestSession(user.id);
+      createTestMessage(session.id, "user", "Starting on the report");
+      createTestMessage(session.id, "assistant", "Sounds good, I'm here");
+
+      const result = assembleSessionContext(user.id, session.id);
+
+      expect(result.mode).toBe("simple_task");
+      expect(result.history.map((m) => m.content)).toEqual([
+        "Starting on the report",
+        "Sounds good, I'm here",
+      ]);
+    });
+
+    it("should replace messages covered by the rolling summary", () => {
+      const user = createTestUser();
+      const session = createTestSession(user.id);
+      createTestMessage(session.id, "user", "Starting on the report");
+      createTestMessage(session.id, "assistant", "Sounds good, I'm here");
+      createTestMessage(session.id, "user", "Done with the first section");
+      getTestDb()
+        .prepare(
+          `INSERT INTO session_summaries (id, session_id, summary, messages_summarized) VALUES ('s1', ?, ?, 2)`
+        )
+        .run(session.id, "They started on the report.");
+
+      const result = assembleSessionContext(user.id, session.id);
+
+      expect(result.history.map((m) => m.content)).toEqual(["Done with the first section"]);
+      expect(result.conversationSummary).toContain("They started on the report.");
+    });
+  });
+
+  describe("assembleSideChatContext", () => {
+    it("should build the prompt from the topic, context and memories", () => {
+      const user = createTestUser({ name: "Sam" });
+      createTestContextItem(user.id, "project", "Migrating the billing service to Postgres");
+      const chat = createSideChat(user.id, {
+        title: "Billing migration",
+        topic: "Planning the billing database migration",
+        context: { deadline: "end of March" },
+      });
+      addSideChatMessage(user.id, chat.id, { role: "user", content: "Where do I start?" });
+
+      const result = assembleSideChatContext(user.id, chat.id)!;
+
+      expect(result.systemPrompt).toContain("Planning the billing database migration");
+      expect(result.systemPrompt).toContain("- deadline: end of March");
+      expect(result.systemPrompt).toContain("Migrating the billing service to Postgres");
+      expect(result.history).toEqual([{ role: "user", content: "Where do I start?" }]);
+    });
+
+    it("should carry the main chat excerpt of a spawned chat in its context", () => {
+      const user = createTestUser({ name: "Sam" });
+      addMainChatMessage(user.id, { role: "user", content: "I keep putting off the tax forms" });
+      addMainChatMessage(user.id, { role: "assistant", content: "Want to break them down?" });
+
+      const { sideChat } = spawnSideChatFromMain(user.id, "Tax forms", "Getting the taxes done");
+      addSideChatMessage(user.id, sideChat.id, { role: "user", content: "Yes please" });
+
+      const result = assembleSideChatContext(user.id, sideChat.id)!;
+
+      expect(JSON.parse(sideChat.context!).mainChatExcerpt).toHaveLength(2);
+      expect(result.systemPrompt).toContain("Sam: I keep putting off the tax forms");
+      expect(result.systemPrompt).toContain("You: Want to break them down?");
+      // Copied messages are in the excerpt, so they aren't repeated as history
+      expect(result.history.map((m) => m.content)).toEqual(["Yes please"]);
+    });
+
+    it("should return null for another user's side chat", () => {
+      const owner = createTestUser();
+      const other = createTestUser();
+      const chat = createSideChat(owner.id, { title: "Private" });
+
+      expect(assembleSideChatContext(other.id, chat.id)).toBeNull();
+    });
+  });
+
+  describe("assembleMainChatContext", () => {
+    it("should include today's briefing, unread alerts and active sessions", () => {
+      const user = createTestUser();
+      createTestBriefing(user.id, { summary: "Three meetings and a deadline today." });
+      createTestAlert(user.id, {
+        title: "Invoice overdue",
+        content: "Pay the design agency",
+        priority: "urgent",
+      });
+      createTestAlert(user.id, { title: "Old news", status: "read" });
+      createTestSession(user.id, { declared_task: "Draft the roadmap" });
+      addMainChatMessage(user.id, { role: "user", content: "What should I do first?" });
+
+      const result = assembleMainChatContext(user.id);
+
+      expect(result.systemPrompt).toContain("Three meetings and a deadline today.");
+      expect(result.systemPrompt).toContain("[urgent] Invoice overdue: Pay the design agency");
+      expect(result.systemPrompt).not.toContain("Old news");
+      expect(result.systemPrompt).toContain("- Draft the roadmap (started");
+      expect(result.history).toEqual([{ role: "user", content: "What should I do first?" }]);
+    });
+
+    it("should say when there is nothing going on today", () => {
+      const user = createTestUser();
+
+      const result = assembleMainChatContext(user.id);
+
+      expect(result.systemPrompt).toContain("No briefing yet today.");
+      expect(result.systemPrompt).toContain("None right now");
+    });
+
+    it("should leave system messages out of the history", () => {
+      const user = createTestUser();
+      addMainChatMessage(user.id, { role: "user", content: "Let's plan the launch" });
+      spawnSideChatFromMain(user.id, "Launch", "Launch plan");
+
+      const result = assembleMainChatContext(user.id);
+
+      expect(result.history.map((m) => m.role)).toEqual(["user"]);
+    });
+  });
+});
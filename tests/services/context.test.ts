@@ -2,18 +2,21 @@
  * Context Service Tests
  */
 
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, afterEach, vi } from "vitest";
 import {
   buildUserContext,
   formatContextForPrompt,
   addContextItem,
   touchContextItem,
 } from "../../src/server/services/context.js";
+import { saveSessionIntentions } from "../../src/server/services/intentions.js";
+import { getTodayEvents } from "../../src/server/services/google.js";
 import {
   createTestUser,
   createTestSession,
   createTestMessage,
   createTestContextItem,
+  createTestGoogleConnection,
 } from "../utils/test-helpers.js";
 import { getTestDb } from "../utils/test-db.js";
 
@@ -126,6 +129,32 @@ describe("Context Service", () => {
       expect(context.currentSession!.checkInFrequency).toBe(20);
     });
 
+    it("should include implementation intentions for the current session", () => {
+      const user = createTestUser();
+      const session = createTestSession(user.id);
+      saveSessionIntentions(session.id, {
+        when: "After lunch",
+        where: "Library",
+        ifThen: [{ distraction: "News sites", response: "Write it down for later" }],
+      });
+
+      const context = buildUserContext(user.id, session.id);
+
+      expect(context.currentSession!.implementationIntentions.whenWhere).toEqual({
+        when: "After lunch",
+        where: "Library",
+      });
+      expect(context.currentSession!.implementationIntentions.ifThen[0].distraction).toBe(
+        "News sites"
+      );
+
+      const formatted = formatContextForPrompt(context);
+      expect(formatted.implementationIntentions).toContain("- Plan: After lunch, Library");
+      expect(formatted.implementationIntentions).toContain(
+        "- If News sites, then Write it down for later"
+      );
+    });
+
     it("should throw error for non-existent user", () => {
       expect(() => buildUserContext("non-existent-id")).toThrow("User not found");
     });
@@ -187,6 +216,57 @@ describe("Context Service", () => {
       expect(formatted.currentProjects).toBe("Not yet shared");
       expect(formatted.recentSessions).toBe("This is your first session together.");
       expect(formatted.declaredTask).toBe("Not specified");
+      expect(formatted.implementationIntentions).toBe("None set for this session");
+      expect(formatted.nextEvent).toBe("Calendar not available");
+    });
+
+    describe("next calendar event", () => {
+      afterEach(() => {
+        vi.unstubAllGlobals();
+      });
+
+      it("should include the next event from today's calendar", async () => {
+        const user = createTestUser();
+        createTestGoogleConnection(user.id);
+        const start = new Date(Date.now() + 40 * 60 * 1000);
+        vi.stubGlobal(
+          "fetch",
+          vi.fn(
+            async () =>
+              new Response(
+                JSON.stringify({
+                  items: [
+                    {
+                      id: "e1",
+                      summary: "Design review",
+                      start: { dateTime: start.toISOString() },
+                      end: { dateTime: new Date(start.getTime() + 3600000).toISOString() },
+                    },
+                  ],
+                })
+              )
+          )
+        );
+        await getTodayEvents(user.id);
+
+        const formatted = formatContextForPrompt(buildUserContext(user.id));
+
+        expect(formatted.nextEvent).toMatch(/^Design review at .+ \(in 40 minutes\)$/);
+      });
+
+      it("should say when today's calendar has nothing left", async () => {
+        const user = createTestUser();
+        createTestGoogleConnection(user.id);
+        vi.stubGlobal(
+          "fetch",
+          vi.fn(async () => new Response(JSON.stringify({ items: [] })))
+        );
+        await getTodayEvents(user.id);
+
+        const formatted = formatContextForPrompt(buildUserContext(user.id));
+
+        expect(formatted.nextEvent).toBe("Nothing else on their calendar today");
+      });
     });
 
     it("should format recent sessions nicely", () => {
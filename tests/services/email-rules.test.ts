@@ -0,0 +1,249 @@
+/**
+ * Email Rules Tests
+ *
+ * Tests for evaluating email triage rules and for checkNewEmails applying
+ * them, with the Gmail API stubbed out.
+ */
+
+import { describe, it, expect, afterEach, vi } from "vitest";
+import {
+  createEmailRule,
+  evaluateEmailRules,
+  getEmailRules,
+  MAX_PATTERN_LENGTH,
+  senderAddress,
+  updateEmailRule,
+  validateEmailRule,
+  type EmailForTriage,
+} from "../../src/server/services/email-rules.js";
+import { checkNewEmails, getAlerts } from "../../src/server/services/briefing.js";
+import { createTestUser, createTestGoogleConnection } from "../utils/test-helpers.js";
+import type { EmailRule } from "../../src/server/db/schema.js";
+
+function email(overrides: Partial<EmailForTriage> = {}): EmailForTriage {
+  return {
+    from: "Ada Lovelace <ada@example.com>",
+    subject: "Lunch?",
+    snippet: "Are you free on Thursday",
+    labelIds: ["INBOX", "UNREAD"],
+    ...overrides,
+  };
+}
+
+function rule(field: EmailRule["field"], pattern: string, action: EmailRule["action"]): EmailRule {
+  return {
+    id: `${field}-${action}`,
+    user_id: "user",
+    created_at: "2024-03-01 09:00:00",
+    field,
+    pattern,
+    action,
+    enabled: 1,
+  };
+}
+
+/**
+ * Stub fetch with Gmail returning the given unread messages
+ */
+function stubGmail(
+  messages: Array<{ id: string; from: string; subject: string; labelIds?: string[] }>
+) {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string) => {
+      if (url.includes("/profile")) {
+        return new Response(JSON.stringify({ historyId: "100" }));
+      }
+
+      const detail = url.match(/\/messages\/([^?]+)\?/);
+      if (!detail) {
+        return new Response(JSON.stringify({ messages: messages.map((m) => ({ id: m.id })) }));
+      }
+
+      const message = messages.find((m) => m.id === detail[1])!;
+      return new Response(
+        JSON.stringify({
+          id: message.id,
+          threadId: `thread-${message.id}`,
+          snippet: "",
+          labelIds: message.labelIds ?? ["INBOX", "UNREAD"],
+          payload: {
+            headers: [
+              { name: "From", value: message.from },
+              { name: "Subject", value: message.subject },
+            ],
+          },
+        })
+      );
+    })
+  );
+}
+
+describe("Email Rules", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("validateEmailRule", () => {
+    it("should accept a valid rule", () => {
+      expect(
+        validateEmailRule({ field: "subject", pattern: "invoice #\\d+", action: "high" })
+      ).toBe(null);
+    });
+
+    it("should reject unknown fields and actions and bad regexes", () => {
+      expect(validateEmailRule({ field: "cc" as never, pattern: "x", action: "mute" })).toMatch(
+        /^field must be one of/
+      );
+      expect(validateEmailRule({ field: "sender", pattern: "x", action: "star" as never })).toMatch(
+        /^action must be one of/
+      );
+      expect(validateEmailRule({ field: "body", pattern: "(unclosed", action: "mute" })).toBe(
+        "pattern is not a valid regular expression"
+      );
+      expect(validateEmailRule({ field: "sender", pattern: "  ", action: "vip" })).toBe(
+        "pattern is required"
+      );
+    });
+
+    it("should reject patterns that could backtrack without end", () => {
+      const problem = (pattern: string) =>
+        validateEmailRule({ field: "subject", pattern, action: "mute" });
+
+      expect(problem("(a+)+$")).toMatch(/^pattern can't repeat a group/);
+      expect(problem("(x|xy)*z")).toMatch(/^pattern can't repeat a group/);
+      expect(problem("((ab)*c){2,}")).toMatch(/^pattern can't repeat a group/);
+      expect(problem("(\\w)\\1")).toMatch(/^pattern can't repeat a group/);
+      expect(problem("x".repeat(MAX_PATTERN_LENGTH + 1))).toBe(
+        `pattern must be at most ${MAX_PATTERN_LENGTH} characters`
+      );
+
+      expect(problem("(invoice|receipt) #\\d+")).toBeNull();
+      expect(problem("(re: )?[a-z+*]+ update")).toBeNull();
+    });
+  });
+
+  describe("evaluateEmailRules", () => {
+    it("should fall back to the subject keywords with no rules", () => {
+      expect(evaluateEmailRules([], email())).toEqual({
+        outcome: "alert",
+        priority: "normal",
+        matchedRuleIds: [],
+      });
+      expect(evaluateEmailRules([], email({ subject: "Action required: sign" })).priority).toBe(
+        "high"
+      );
+    });
+
+    it("should match senders, domains, subjects, bodies and labels", () => {
+      const matches = (r: EmailRule, e = email()) =>
+        evaluateEmailRules([r], e).matchedRuleIds.length > 0;
+
+      expect(senderAddress("Ada Lovelace <Ada@Example.com>")).toBe("ada@example.com");
+      expect(matches(rule("sender", "ADA@example.com", "vip"))).toBe(true);
+      expect(matches(rule("domain", "@example.com", "mute"))).toBe(true);
+      expect(
+        matches(rule("domain", "example.com", "mute"), email({ from: "x@mail.example.com" }))
+      ).toBe(true);
+      expect(matches(rule("domain", "ample.com", "mute"))).toBe(false);
+      expect(matches(rule("subject", "^lunch", "low"))).toBe(true);
+      expect(matches(rule("body", "thurs", "digest"))).toBe(true);
+      expect(matches(rule("label", "category_promotions", "digest"))).toBe(false);
+      expect(
+        matches(
+          rule("label", "category_promotions", "digest"),
+          email({ labelIds: ["CATEGORY_PROMOTIONS"] })
+        )
+      ).toBe(true);
+    });
+
+    it("should let VIP beat mute and allow beat digest", () => {
+      const mute = rule("domain", "example.com", "mute");
+      const digest = rule("domain", "example.com", "digest");
+
+      expect(
+        evaluateEmailRules([mute, rule("sender", "ada@example.com", "vip")], email())
+      ).toMatchObject({ outcome: "alert", priority: "urgent" });
+      expect(evaluateEmailRules([mute, digest], email()).outcome).toBe("mute");
+      expect(
+        evaluateEmailRules([digest, rule("sender", "ada@example.com", "allow")], email()).outcome
+      ).toBe("alert");
+    });
+
+    it("should not run a risky pattern saved before it was rejected", () => {
+      const risky = rule("subject", "(a+)+$", "mute");
+
+      expect(evaluateEmailRules([risky], email({ subject: `${"a".repeat(40)}!` })).outcome).toBe(
+        "alert"
+      );
+    });
+
+    it("should ignore disabled rules", () => {
+      const disabled = { ...rule("sender", "ada@example.com", "mute"), enabled: 0 };
+
+      expect(evaluateEmailRules([disabled], email()).outcome).toBe("alert");
+    });
+  });
+
+  describe("rule management", () => {
+    it("should create and update rules for a user", () => {
+      const user = createTestUser();
+      const created = createEmailRule(user.id, {
+        field: "sender",
+        pattern: " boss@example.com ",
+        action: "vip",
+      });
+
+      expect(created).toMatchObject({ pattern: "boss@example.com", enabled: 1 });
+
+      const updated = updateEmailRule(user.id, created.id, { action: "high", enabled: false });
+      expect(updated).toMatchObject({ field: "sender", action: "high", enabled: 0 });
+      expect(getEmailRules(user.id)).toHaveLength(1);
+      expect(updateEmailRule(createTestUser().id, created.id, { action: "mute" })).toBeNull();
+    });
+  });
+
+  describe("checkNewEmails", () => {
+    it("should set priorities, mute and batch email into a digest", async () => {
+      const user = createTestUser();
+      createTestGoogleConnection(user.id);
+      createEmailRule(user.id, { field: "sender", pattern: "boss@work.com", action: "vip" });
+      createEmailRule(user.id, { field: "domain", pattern: "spam.com", action: "mute" });
+      createEmailRule(user.id, {
+        field: "label",
+        pattern: "CATEGORY_PROMOTIONS",
+        action: "digest",
+      });
+      stubGmail([
+        { id: "m1", from: "Boss <boss@work.com>", subject: "Quick question" },
+        { id: "m2", from: "deals@spam.com", subject: "You won!" },
+        {
+          id: "m3",
+          from: "Shop <news@shop.com>",
+          subject: "Sale",
+          labelIds: ["CATEGORY_PROMOTIONS"],
+        },
+        {
+          id: "m4",
+          from: "Blog <hi@blog.com>",
+          subject: "New post",
+          labelIds: ["CATEGORY_PROMOTIONS"],
+        },
+        { id: "m5", from: "Ada <ada@example.com>", subject: "Lunch?" },
+      ]);
+
+      const created = await checkNewEmails(user.id);
+
+      expect(created).toBe(3);
+      const { alerts } = getAlerts(user.id);
+      const byTitle = Object.fromEntries(alerts.map((a) => [a.title, a]));
+      expect(byTitle["New email from Boss"].priority).toBe("urgent");
+      expect(byTitle["New email from Ada"].priority).toBe("normal");
+      expect(byTitle["2 low-priority emails"]).toMatchObject({
+        priority: "low",
+        content: "Shop: Sale\nBlog: New post",
+      });
+      expect(alerts.some((a) => a.content === "You won!")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Embeddings Service Tests
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  embedText,
+  cosineSimilarity,
+  localEmbeddingProvider,
+  getEmbeddingProvider,
+  setEmbeddingProvider,
+} from "../../src/server/services/embeddings.js";
+
+describe("Embeddings Service", () => {
+  afterEach(() => {
+    setEmbeddingProvider(localEmbeddingProvider);
+  });
+
+  describe("localEmbeddingProvider", () => {
+    it("should be deterministic and unit length", () => {
+      const a = embedText("Finish the quarterly report");
+      const b = embedText("Finish the quarterly report");
+
+      expect(a).toEqual(b);
+      expect(Math.sqrt(a.reduce((sum, v) => sum + v * v, 0))).toBeCloseTo(1);
+    });
+
+    it("should match paraphrases from the same concept group", () => {
+      const similarity = cosineSimilarity(
+        embedText("essay"),
+        embedText("Finish the research paper")
+      );
+
+      expect(similarity).toBeGreaterThan(0.3);
+    });
+
+    it("should match shared word stems", () => {
+      const similarity = cosineSimilarity(
+        embedText("distraction"),
+        embedText("Gets distracted by Slack")
+      );
+
+      expect(similarity).toBeGreaterThan(0.2);
+    });
+
+    it("should score unrelated text near zero", () => {
+      const similarity = cosineSimilarity(
+        embedText("Work on my thesis"),
+        embedText("Likes hiking on weekends")
+      );
+
+      expect(similarity).toBeLessThan(0.1);
+    });
+
+    it("should return a zero vector for text with no features", () => {
+      expect(cosineSimilarity(embedText("the"), embedText("Gets distracted by Slack"))).toBe(0);
+    });
+  });
+
+  describe("setEmbeddingProvider", () => {
+    it("should route embedText through the active provider", () => {
+      setEmbeddingProvider({ id: "fixed", embed: () => [1, 0] });
+
+      expect(getEmbeddingProvider().id).toBe("fixed");
+      expect(embedText("anything")).toEqual([1, 0]);
+    });
+  });
+
+  describe("cosineSimilarity", () => {
+    it("should return 0 for mismatched or empty vectors", () => {
+      expect(cosineSimilarity([], [])).toBe(0);
+      expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+    });
+  });
+});
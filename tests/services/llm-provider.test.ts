@@ -0,0 +1,114 @@
+/**
+ * LLM Provider Tests
+ *
+ * Tests for the mock provider and for running the companion through it
+ * without network access.
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  createMockProvider,
+  getCompanionProvider,
+  setCompanionProvider,
+  type CompletionRequest,
+} from "../../src/server/services/llm-provider.js";
+import {
+  generateResponse,
+  generateStreamingResponse,
+  getSessionGreeting,
+} from "../../src/server/services/companion.js";
+import { createTestUser, createTestSession } from "../utils/test-helpers.js";
+
+const request: CompletionRequest = {
+  system: "You are a test companion.",
+  messages: [{ role: "user", content: "Starting on the slides" }],
+  maxTokens: 256,
+};
+
+describe("LLM Provider", () => {
+  afterEach(() => {
+    setCompanionProvider(null);
+    delete process.env.COMPANION_PROVIDER;
+  });
+
+  describe("createMockProvider", () => {
+    it("should reply deterministically with usage", async () => {
+      const provider = createMockProvider();
+
+      const first = await provider.generate(request);
+      const second = await provider.generate(request);
+
+      expect(first.text).toContain("Starting on the slides");
+      expect(second.text).toBe(first.text);
+      expect(first.model).toBe("mock");
+      expect(first.usage.inputTokens).toBeGreaterThan(0);
+      expect(first.usage.outputTokens).toBeGreaterThan(0);
+    });
+
+    it("should play back scripted responses in order", async () => {
+      const provider = createMockProvider(["One", "Two"]);
+
+      const texts = [];
+      for (let i = 0; i < 3; i++) {
+        texts.push((await provider.generate(request)).text);
+      }
+
+      expect(texts).toEqual(["One", "Two", "One"]);
+    });
+
+    it("should return an empty memory list for extraction requests", async () => {
+      const provider = createMockProvider();
+
+      const result = await provider.generate({
+        ...request,
+        tracking: { userId: "u", sessionId: "s", requestType: "memory_extraction" },
+      });
+
+      expect(result.text).toBe("[]");
+    });
+
+    it("should stream text chunks followed by usage", async () => {
+      const provider = createMockProvider(["Nice, keep going"]);
+
+      const events = [];
+      for await (const event of provider.stream(request)) {
+        events.push(event);
+      }
+
+      const text = events.map((e) => (e.type === "text" ? e.text : "")).join("");
+      expect(text).toBe("Nice, keep going");
+      expect(events.filter((e) => e.type === "text").length).toBeGreaterThan(1);
+      expect(events[events.length - 1].type).toBe("done");
+    });
+  });
+
+  describe("getCompanionProvider", () => {
+    it("should choose the provider from COMPANION_PROVIDER", () => {
+      process.env.COMPANION_PROVIDER = "mock";
+      expect(getCompanionProvider().id).toBe("mock");
+    });
+
+    it("should reject an unknown provider", () => {
+      process.env.COMPANION_PROVIDER = "carrier-pigeon";
+      expect(() => getCompanionProvider()).toThrow(/Unknown COMPANION_PROVIDER/);
+    });
+  });
+
+  describe("companion with the mock provider", () => {
+    it("should generate responses, streams and greetings offline", async () => {
+      setCompanionProvider(createMockProvider(["Scripted reply"]));
+      const user = createTestUser();
+      const session = createTestSession(user.id);
+
+      expect(await generateResponse(user.id, session.id, "Hello")).toBe("Scripted reply");
+
+      let streamed = "";
+      for await (const chunk of generateStreamingResponse(user.id, session.id, "Hello")) {
+        streamed += chunk;
+      }
+      expect(streamed).toBe("Scripted reply");
+
+      expect(await getSessionGreeting(user.id, session.id)).toBe("Scripted reply");
+    });
+  });
+});
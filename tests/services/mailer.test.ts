@@ -0,0 +1,224 @@
+/**
+ * Mailer Tests
+ *
+ * Tests for building MIME messages and for the file and SMTP transports, the
+ * latter against a minimal SMTP server on localhost.
+ */
+
+import fs from "node:fs";
+import net from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  buildMimeMessage,
+  createFileTransport,
+  createSmtpTransport,
+  type MailMessage,
+} from "../../src/server/services/mailer.js";
+import { magicLinkEmail } from "../../src/server/services/mail-templates.js";
+
+const message: MailMessage = {
+  to: "ada@example.com",
+  subject: "Hello",
+  text: "Plain body",
+  html: "<p>HTML body</p>",
+};
+
+/**
+ * The decoded content of each base64 part of a MIME message
+ */
+function decodeParts(mime: string): string[] {
+  return mime
+    .split(/\r\n--body-double-[0-9a-f]+/)
+    .slice(1)
+    .filter((part) => part.includes("base64"))
+    .map((part) => Buffer.from(part.split("\r\n\r\n")[1], "base64").toString("utf8"));
+}
+
+/**
+ * A minimal SMTP server that records the commands and message it receives.
+ * `reject` maps a command (e.g. "RCPT") to the reply it should fail with.
+ */
+async function startSmtpServer(reject: Record<string, string> = {}) {
+  const commands: string[] = [];
+  let data = "";
+
+  const server = net.createServer((socket) => {
+    let buffer = "";
+    let inData = false;
+    socket.write("220 localhost ESMTP\r\n");
+
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+      if (inData) {
+        const end = buffer.indexOf("\r\n.\r\n");
+        if (end < 0) return;
+        data = buffer.slice(0, end);
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        socket.write("250 OK queued\r\n");
+      }
+
+      let end: number;
+      while (!inData && (end = buffer.indexOf("\r\n")) >= 0) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        commands.push(line);
+        const verb = line.split(/[ :]/)[0].toUpperCase();
+
+        if (reject[verb]) {
+          socket.write(`${reject[verb]}\r\n`);
+        } else if (verb === "EHLO") {
+          socket.write("250-localhost\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n");
+        } else if (verb === "AUTH") {
+          socket.write("235 Authenticated\r\n");
+        } else if (verb === "DATA") {
+          inData = true;
+          socket.write("354 Go ahead\r\n");
+        } else if (verb === "QUIT") {
+          socket.end("221 Bye\r\n");
+        } else {
+          socket.write("250 OK\r\n");
+        }
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const port = (server.address() as net.AddressInfo).port;
+
+  return {
+    port,
+    commands,
+    data: () => data,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+describe("Mailer", () => {
+  describe("buildMimeMessage", () => {
+    it("should include headers and both bodies", () => {
+      const mime = buildMimeMessage(message, "Body Double <hello@body-double.app>");
+
+      expect(mime).toContain("From: Body Double <hello@body-double.app>\r\n");
+      expect(mime).toContain("To: ada@example.com\r\n");
+      expect(mime).toContain("Subject: Hello\r\n");
+      expect(mime).toMatch(/Message-ID: <[^>]+@body-double\.app>/);
+      expect(mime).toContain("Content-Type: multipart/alternative;");
+      expect(decodeParts(mime)).toEqual(["Plain body", "<p>HTML body</p>"]);
+    });
+
+    it("should encode non-ASCII subjects", () => {
+      const mime = buildMimeMessage({ ...message, subject: "Café ☕" }, "a@b.com");
+
+      expect(mime).toContain(`Subject: =?UTF-8?B?${Buffer.from("Café ☕").toString("base64")}?=`);
+    });
+  });
+
+  describe("magicLinkEmail", () => {
+    it("should put the link in both bodies and escape it in the HTML", () => {
+      const email = magicLinkEmail({
+        to: "ada@example.com",
+        url: "http://localhost:3001/auth/verify?token=abc&x=1",
+        isNewUser: true,
+        expiresInMinutes: 15,
+      });
+
+      expect(email.subject).toBe("Welcome to Body Double");
+      expect(email.text).toContain("http://localhost:3001/auth/verify?token=abc&x=1");
+      expect(email.html).toContain('href="http://localhost:3001/auth/verify?token=abc&amp;x=1"');
+      expect(email.text).toContain("expires in 15 minutes");
+    });
+  });
+
+  describe("createFileTransport", () => {
+    const dir = path.join(os.tmpdir(), `body-double-mailer-test-${process.pid}`);
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should write each email to an .eml file", async () => {
+      const transport = createFileTransport(dir);
+      const mime = buildMimeMessage(message, "a@b.com");
+
+      await transport.send({ from: "a@b.com", to: message.to }, mime);
+
+      const files = fs.readdirSync(dir);
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatch(/\.eml$/);
+      expect(fs.readFileSync(path.join(dir, files[0]), "utf8")).toBe(mime);
+    });
+  });
+
+  describe("createSmtpTransport", () => {
+    it("should authenticate and deliver the message", async () => {
+      const server = await startSmtpServer();
+      const transport = createSmtpTransport({
+        host: "127.0.0.1",
+        port: server.port,
+        secure: false,
+        user: "mailer",
+        pass: "secret",
+        allowInsecureAuth: true,
+      });
+
+      try {
+        await transport.send(
+          { from: "Body Double <hello@body-double.app>", to: "ada@example.com" },
+          "Subject: Hi\r\n\r\n.leading dot\r\nbody\r\n"
+        );
+      } finally {
+        await server.close();
+      }
+
+      expect(server.commands[0]).toMatch(/^EHLO /);
+      expect(server.commands).toContain(
+        `AUTH PLAIN ${Buffer.from("\0mailer\0secret").toString("base64")}`
+      );
+      expect(server.commands).toContain("MAIL FROM:<hello@body-double.app>");
+      expect(server.commands).toContain("RCPT TO:<ada@example.com>");
+      expect(server.data()).toBe("Subject: Hi\r\n\r\n..leading dot\r\nbody");
+    });
+
+    it("should not send credentials over a connection without TLS", async () => {
+      const server = await startSmtpServer();
+      const transport = createSmtpTransport({
+        host: "127.0.0.1",
+        port: server.port,
+        secure: false,
+        user: "mailer",
+        pass: "secret",
+      });
+
+      try {
+        await expect(
+          transport.send({ from: "a@b.com", to: "ada@example.com" }, "Subject: Hi\r\n\r\nx")
+        ).rejects.toThrow("SMTP server doesn't offer STARTTLS");
+      } finally {
+        await server.close();
+      }
+
+      expect(server.commands.some((c) => c.startsWith("AUTH"))).toBe(false);
+      expect(server.commands).not.toContain("MAIL FROM:<a@b.com>");
+    });
+
+    it("should fail with the server's reply when a command is rejected", async () => {
+      const server = await startSmtpServer({ RCPT: "550 No such user" });
+      const transport = createSmtpTransport({
+        host: "127.0.0.1",
+        port: server.port,
+        secure: false,
+      });
+
+      try {
+        await expect(
+          transport.send({ from: "a@b.com", to: "nobody@example.com" }, "Subject: Hi\r\n\r\nx")
+        ).rejects.toThrow("SMTP RCPT TO failed: 550 No such user");
+      } finally {
+        await server.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Memory Extraction Service Tests
+ *
+ * Tests for extracting pending memories from sessions and reviewing them.
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  extractSessionMemories,
+  parseMemoryCandidates,
+  isDuplicateMemory,
+  getPendingMemories,
+  acceptPendingMemory,
+  rejectPendingMemory,
+} from "../../src/server/services/memory-extraction.js";
+import { getAllMemories } from "../../src/server/services/memory.js";
+import {
+  createTestUser,
+  createTestSession,
+  createTestMessage,
+  createTestContextItem,
+} from "../utils/test-helpers.js";
+
+const { extractionMock } = vi.hoisted(() => ({
+  extractionMock: vi.fn(),
+}));
+
+vi.mock("../../src/server/services/companion.js", async (importOriginal) => {
+  const original = await importOriginal<typeof import("../../src/server/services/companion.js")>();
+  return {
+    ...original,
+    generateMemoryExtraction: extractionMock,
+  };
+});
+
+/**
+ * Create a session with a short conversation
+ */
+function createSessionWithMessages() {
+  const user = createTestUser({ name: "Sam" });
+  const session = createTestSession(user.id, { declared_task: "Billing migration" });
+  createTestMessage(session.id, "user", "Finally shipped the billing migration!");
+  createTestMessage(session.id, "assistant", "That's huge - nice work.");
+  return { user, session };
+}
+
+describe("Memory Extraction Service", () => {
+  afterEach(() => {
+    extractionMock.mockReset();
+  });
+
+  describe("parseMemoryCandidates", () => {
+    it("should parse a JSON array wrapped in prose", () => {
+      const raw = `Here you go:\n\`\`\`json\n[{"category": "win", "content": "Shipped billing", "importance": 4}]\n\`\`\``;
+
+      expect(parseMemoryCandidates(raw)).toEqual([
+        { category: "win", content: "Shipped billing", importance: 4 },
+      ]);
+    });
+
+    it("should drop invalid categories and clamp importance", () => {
+      const raw = JSON.stringify([
+        { category: "secret", content: "Nope", importance: 3 },
+        { category: "goal", content: "Run a marathon", importance: 9 },
+        { category: "insight", content: "  ", importance: 2 },
+      ]);
+
+      expect(parseMemoryCandidates(raw)).toEqual([
+        { category: "goal", content: "Run a marathon", importance: 5 },
+      ]);
+    });
+
+    it("should return an empty array for malformed output", () => {
+      expect(parseMemoryCandidates("I couldn't find anything")).toEqual([]);
+      expect(parseMemoryCandidates("[not json]")).toEqual([]);
+    });
+  });
+
+  describe("isDuplicateMemory", () => {
+    it("should match content that differs only in case and punctuation", () => {
+      expect(isDuplicateMemory("Gets distracted by Slack.", ["gets distracted by slack"])).toBe(
+        true
+      );
+    });
+
+    it("should not match different facts", () => {
+      expect(isDuplicateMemory("Likes working at cafes", ["Gets distracted by Slack"])).toBe(false);
+    });
+  });
+
+  describe("extractSessionMemories", () => {
+    it("should store candidates as pending memories", async () => {
+      extractionMock.mockResolvedValue(
+        JSON.stringify([
+          { category: "win", content: "Shipped the billing migration", importance: 4 },
+          { category: "project", content: "Working on billing infrastructure", importance: 3 },
+        ])
+      );
+      const { user, session } = createSessionWithMessages();
+
+      const pending = await extractSessionMemories(user.id, session.id);
+
+      expect(pending).toHaveLength(2);
+      expect(pending[0].session_id).toBe(session.id);
+      expect(pending[0].status).toBe("pending");
+      expect(extractionMock).toHaveBeenCalledWith(
+        user.id,
+        session.id,
+        expect.stringContaining("Sam: Finally shipped the billing migration!")
+      );
+      // Nothing goes live until reviewed
+      expect(getAllMemories(user.id)).toHaveLength(0);
+    });
+
+    it("should skip candidates that duplicate existing or proposed memories", async () => {
+      extractionMock.mockResolvedValue(
+        JSON.stringify([
+          { category: "distraction", content: "Gets distracted by Slack", importance: 3 },
+          { category: "win", content: "Shipped the billing migration", importance: 4 },
+          { category: "win", content: "shipped the billing migration!", importance: 4 },
+        ])
+      );
+      const { user, session } = createSessionWithMessages();
+      createTestContextItem(user.id, "distraction", "Gets distracted by slack.");
+
+      const pending = await extractSessionMemories(user.id, session.id);
+
+      expect(pending.map((p) => p.content)).toEqual(["Shipped the billing migration"]);
+    });
+
+    it("should not call the model when the user never spoke", async () => {
+      const user = createTestUser();
+      const session = createTestSession(user.id);
+      createTestMessage(session.id, "assistant", "Hey! Ready to go?");
+
+      const pending = await extractSessionMemories(user.id, session.id);
+
+      expect(pending).toEqual([]);
+      expect(extractionMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("review", () => {
+    it("should accept a pending memory with the session as its source", async () => {
+      extractionMock.mockResolvedValue(
+        JSON.stringify([{ category: "win", content: "Shipped billing", importance: 4 }])
+      );
+      const { user, session } = createSessionWithMessages();
+      const [pending] = await extractSessionMemories(user.id, session.id);
+
+      const memory = acceptPendingMemory(user.id, pending.id, { importance: 5 });
+
+      expect(memory).not.toBeNull();
+      expect(memory!.source).toBe(session.id);
+      expect(memory!.importance).toBe(5);
+      expect(getPendingMemories(user.id)).toHaveLength(0);
+      expect(acceptPendingMemory(user.id, pending.id)).toBeNull();
+    });
+
+    it("should reject a pending memory without creating it", async () => {
+      extractionMock.mockResolvedValue(
+        JSON.stringify([{ category: "win", content: "Shipped billing", importance: 4 }])
+      );
+      const { user, session } = createSessionWithMessages();
+      const [pending] = await extractSessionMemories(user.id, session.id);
+
+      expect(rejectPendingMemory(user.id, pending.id)).toBe(true);
+      expect(rejectPendingMemory(user.id, pending.id)).toBe(false);
+      expect(getAllMemories(user.id)).toHaveLength(0);
+    });
+
+    it("should not let another user review the memory", async () => {
+      extractionMock.mockResolvedValue(
+        JSON.stringify([{ category: "win", content: "Shipped billing", importance: 4 }])
+      );
+      const { user, session } = createSessionWithMessages();
+      const other = createTestUser();
+      const [pending] = await extractSessionMemories(user.id, session.id);
+
+      expect(acceptPendingMemory(other.id, pending.id)).toBeNull();
+      expect(rejectPendingMemory(other.id, pending.id)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Memory Maintenance Service Tests
+ *
+ * Tests for decay, consolidation, archiving and conflict detection.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  decayMemories,
+  consolidateMemories,
+  archiveStaleProjects,
+  flagMemoryConflicts,
+  getMemoryConflicts,
+  resolveMemoryConflict,
+  runMemoryMaintenance,
+} from "../../src/server/services/memory-maintenance.js";
+import {
+  createMemory,
+  getAllMemories,
+  getArchivedMemories,
+  getMemory,
+} from "../../src/server/services/memory.js";
+import { createTestUser } from "../utils/test-helpers.js";
+import { getTestDb } from "../utils/test-db.js";
+
+/**
+ * Pretend a memory was last referenced some days ago
+ */
+function setLastReferenced(memoryId: string, daysAgo: number): void {
+  getTestDb()
+    .prepare(
+      `UPDATE user_context_items SET last_referenced = datetime('now', '-' || ? || ' days') WHERE id = ?`
+    )
+    .run(daysAgo, memoryId);
+}
+
+describe("Memory Maintenance Service", () => {
+  describe("decayMemories", () => {
+    it("should lower importance of memories not referenced in weeks", () => {
+      const user = createTestUser();
+      const stale = createMemory(user.id, { category: "insight", content: "Old", importance: 3 });
+      const fresh = createMemory(user.id, { category: "insight", content: "New", importance: 3 });
+      setLastReferenced(stale.id, 40);
+
+      expect(decayMemories(user.id)).toBe(1);
+      expect(getMemory(user.id, stale.id)!.importance).toBe(2);
+      expect(getMemory(user.id, fresh.id)!.importance).toBe(3);
+    });
+
+    it("should decay at most once per period and never below 1", () => {
+      const user = createTestUser();
+      const memory = createMemory(user.id, { category: "insight", content: "Old", importance: 2 });
+      setLastReferenced(memory.id, 40);
+
+      decayMemories(user.id);
+      decayMemories(user.id);
+
+      expect(getMemory(user.id, memory.id)!.importance).toBe(1);
+      expect(decayMemories(user.id)).toBe(0);
+    });
+  });
+
+  describe("consolidateMemories", () => {
+    it("should merge near-duplicates in the same category", () => {
+      const user = createTestUser();
+      createMemory(user.id, {
+        category: "distraction",
+        content: "Gets distracted by Slack notifications",
+        importance: 2,
+      });
+      createMemory(user.id, {
+        category: "distraction",
+        content: "Gets distracted by Slack notifications at work",
+        importance: 4,
+      });
+
+      expect(consolidateMemories(user.id)).toBe(1);
+
+      const memories = getAllMemories(user.id);
+      expect(memories).toHaveLength(1);
+      expect(memories[0].content).toBe("Gets distracted by Slack notifications at work");
+      expect(memories[0].importance).toBe(4);
+    });
+
+    it("should not merge across categories or unrelated memories", () => {
+      const user = createTestUser();
+      createMemory(user.id, { category: "goal", content: "Run a marathon" });
+      createMemory(user.id, { category: "win", content: "Run a marathon" });
+      createMemory(user.id, { category: "goal", content: "Learn Spanish" });
+
+      expect(consolidateMemories(user.id)).toBe(0);
+      expect(getAllMemories(user.id)).toHaveLength(3);
+    });
+  });
+
+  describe("archiveStaleProjects", () => {
+    it("should archive project memories that have gone stale", () => {
+      const user = createTestUser();
+      const stale = createMemory(user.id, { category: "project", content: "Old website" });
+      const staleGoal = createMemory(user.id, { category: "goal", content: "Old goal" });
+      createMemory(user.id, { category: "project", content: "Mobile app" });
+      setLastReferenced(stale.id, 70);
+      setLastReferenced(staleGoal.id, 70);
+
+      expect(archiveStaleProjects(user.id)).toBe(1);
+      expect(getArchivedMemories(user.id).map((m) => m.id)).toEqual([stale.id]);
+      expect(getAllMemories(user.id)).toHaveLength(2);
+    });
+  });
+
+  describe("flagMemoryConflicts", () => {
+    it("should flag two different current projects", () => {
+      const user = createTestUser();
+      createMemory(user.id, { category: "project", content: "Currently building a mobile app" });
+      createMemory(user.id, { category: "project", content: "Currently writing a novel" });
+
+      expect(flagMemoryConflicts(user.id)).toBe(1);
+      expect(getMemoryConflicts(user.id)[0].reason).toBe("Both describe the current project");
+    });
+
+    it("should flag a memory and its negation", () => {
+      const user = createTestUser();
+      createMemory(user.id, {
+        category: "preference",
+        content: "Likes check-ins every 15 minutes",
+      });
+      createMemory(user.id, {
+        category: "preference",
+        content: "No longer likes check-ins every 15 minutes",
+      });
+
+      expect(flagMemoryConflicts(user.id)).toBe(1);
+      // Negations are never merged as duplicates
+      expect(consolidateMemories(user.id)).toBe(0);
+    });
+
+    it("should not flag the same pair twice", () => {
+      const user = createTestUser();
+      createMemory(user.id, { category: "project", content: "Currently building a mobile app" });
+      createMemory(user.id, { category: "project", content: "Currently writing a novel" });
+
+      flagMemoryConflicts(user.id);
+      const [conflict] = getMemoryConflicts(user.id);
+      resolveMemoryConflict(user.id, conflict.id);
+
+      expect(flagMemoryConflicts(user.id)).toBe(0);
+    });
+  });
+
+  describe("resolveMemoryConflict", () => {
+    it("should archive the memory that isn't kept", () => {
+      const user = createTestUser();
+      const app = createMemory(user.id, {
+        category: "project",
+        content: "Currently building a mobile app",
+      });
+      const novel = createMemory(user.id, {
+        category: "project",
+        content: "Currently writing a novel",
+      });
+      flagMemoryConflicts(user.id);
+      const [conflict] = getMemoryConflicts(user.id);
+
+      expect(resolveMemoryConflict(user.id, conflict.id, novel.id)).toBe(true);
+      expect(getMemory(user.id, app.id)!.archivedAt).not.toBeNull();
+      expect(getMemory(user.id, novel.id)!.archivedAt).toBeNull();
+      expect(getMemoryConflicts(user.id)).toHaveLength(0);
+      expect(resolveMemoryConflict(user.id, conflict.id)).toBe(false);
+    });
+  });
+
+  describe("runMemoryMaintenance", () => {
+    it("should report what each step did", () => {
+      const user = createTestUser();
+      const stale = createMemory(user.id, {
+        category: "project",
+        content: "Old website",
+        importance: 3,
+      });
+      setLastReferenced(stale.id, 70);
+
+      expect(runMemoryMaintenance(user.id)).toEqual({
+        decayed: 1,
+        merged: 0,
+        archived: 1,
+        conflicts: 0,
+      });
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Memory Service Tests
+ *
+ * Tests for semantic memory ranking and embedding storage.
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  createMemory,
+  updateMemory,
+  searchMemories,
+  getRelevantMemories,
+  getMemorySummary,
+  archiveMemory,
+  restoreMemory,
+} from "../../src/server/services/memory.js";
+import {
+  localEmbeddingProvider,
+  setEmbeddingProvider,
+} from "../../src/server/services/embeddings.js";
+import { createTestUser, createTestContextItem } from "../utils/test-helpers.js";
+import { getTestDb } from "../utils/test-db.js";
+
+function getStoredEmbedding(memoryId: string) {
+  return getTestDb()
+    .prepare(`SELECT embedding, embedding_model FROM user_context_items WHERE id = ?`)
+    .get(memoryId) as { embedding: string | null; embedding_model: string | null };
+}
+
+describe("Memory Service", () => {
+  afterEach(() => {
+    setEmbeddingProvider(localEmbeddingProvider);
+  });
+
+  describe("embeddings", () => {
+    it("should embed memories when they are created", () => {
+      const user = createTestUser();
+      const memory = createMemory(user.id, { category: "project", content: "Billing migration" });
+
+      const stored = getStoredEmbedding(memory.id);
+      expect(stored.embedding_model).toBe(localEmbeddingProvider.id);
+      expect(JSON.parse(stored.embedding!)).toHaveLength(512);
+    });
+
+    it("should re-embed memories when their content changes", () => {
+      const user = createTestUser();
+      const memory = createMemory(user.id, { category: "project", content: "Billing migration" });
+      const before = getStoredEmbedding(memory.id).embedding;
+
+      updateMemory(user.id, memory.id, { content: "Search indexing rewrite" });
+
+      expect(getStoredEmbedding(memory.id).embedding).not.toBe(before);
+    });
+
+    it("should backfill embeddings for older memories when ranking", () => {
+      const user = createTestUser();
+      createTestContextItem(user.id, "distraction", "Gets distracted by Slack");
+
+      searchMemories(user.id, "slack");
+
+      const row = getTestDb()
+        .prepare(`SELECT embedding_model FROM user_context_items WHERE user_id = ?`)
+        .get(user.id) as { embedding_model: string | null };
+      expect(row.embedding_model).toBe(localEmbeddingProvider.id);
+    });
+  });
+
+  describe("searchMemories", () => {
+    it("should find paraphrased memories", () => {
+      const user = createTestUser();
+      createMemory(user.id, { category: "project", content: "Writing a research paper on sleep" });
+      createMemory(user.id, { category: "interest", content: "Likes hiking on weekends" });
+
+      const results = searchMemories(user.id, "essay");
+
+      expect(results.map((m) => m.content)).toEqual(["Writing a research paper on sleep"]);
+    });
+
+    it("should still return exact substring matches", () => {
+      const user = createTestUser();
+      createMemory(user.id, { category: "context", content: "Works at Acme Corp" });
+
+      expect(searchMemories(user.id, "acme")).toHaveLength(1);
+    });
+
+    it("should blend importance into the ranking", () => {
+      const user = createTestUser();
+      createMemory(user.id, {
+        category: "distraction",
+        content: "Slack notifications",
+        importance: 1,
+      });
+      createMemory(user.id, {
+        category: "distraction",
+        content: "Slack notifications during meetings",
+        importance: 5,
+      });
+
+      const results = searchMemories(user.id, "slack notifications");
+
+      expect(results[0].content).toBe("Slack notifications during meetings");
+    });
+  });
+
+  describe("getRelevantMemories", () => {
+    it("should rank memories related to the task first", () => {
+      const user = createTestUser();
+      createMemory(user.id, { category: "interest", content: "Likes hiking on weekends" });
+      createMemory(user.id, { category: "challenge", content: "Struggles to start long essays" });
+
+      const results = getRelevantMemories(user.id, "Draft my history paper");
+
+      expect(results[0].content).toBe("Struggles to start long essays");
+    });
+
+    it("should limit results to five", () => {
+      const user = createTestUser();
+      for (let i = 0; i < 8; i++) {
+        createMemory(user.id, { category: "context", content: `Context item ${i}` });
+      }
+
+      expect(getRelevantMemories(user.id, "anything")).toHaveLength(5);
+    });
+  });
+
+  describe("archiving", () => {
+    it("should exclude archived memories from the summary until restored", () => {
+      const user = createTestUser();
+      const memory = createMemory(user.id, { category: "project", content: "Old website" });
+
+      expect(archiveMemory(user.id, memory.id)).toBe(true);
+      expect(getMemorySummary(user.id).projects).toEqual([]);
+      expect(searchMemories(user.id, "website")).toEqual([]);
+
+      const restored = restoreMemory(user.id, memory.id);
+      expect(restored!.archivedAt).toBeNull();
+      expect(getMemorySummary(user.id).projects).toEqual(["Old website"]);
+    });
+
+    it("should only restore archived memories", () => {
+      const user = createTestUser();
+      const memory = createMemory(user.id, { category: "project", content: "Live" });
+
+      expect(restoreMemory(user.id, memory.id)).toBeNull();
+    });
+  });
+});
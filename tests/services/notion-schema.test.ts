@@ -0,0 +1,125 @@
+/**
+ * Notion Schema Tests
+ *
+ * Tests for guessing property roles and suggesting and checking property maps.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  checkPropertyMap,
+  guessPropertyRole,
+  suggestPropertyMap,
+  type NotionDatabaseSchema,
+} from "../../src/server/services/notion-schema.js";
+import { DEFAULT_PROPERTY_MAPS } from "../../src/server/services/notion.js";
+
+const tasksSchema: NotionDatabaseSchema = {
+  id: "tasks-db",
+  title: "Work",
+  properties: [
+    { name: "Labels", type: "multi_select", role: "select", options: ["Ops"] },
+    { name: "Task", type: "title", role: "title", options: [] },
+    { name: "Effort", type: "select", role: "select", options: ["S", "M", "L"] },
+    {
+      name: "Stage",
+      type: "status",
+      role: "status",
+      options: ["Not started", "Doing", "Complete"],
+    },
+    { name: "Deadline", type: "date", role: "date", options: [] },
+    { name: "Urgency", type: "select", role: "select", options: ["P1", "P2"] },
+  ],
+};
+
+describe("Notion Schema", () => {
+  describe("guessPropertyRole", () => {
+    it("should guess roles from property types", () => {
+      expect(guessPropertyRole("Name", "title")).toBe("title");
+      expect(guessPropertyRole("Done?", "checkbox")).toBe("checkbox");
+      expect(guessPropertyRole("Created", "created_time")).toBe("date");
+      expect(guessPropertyRole("Estimate", "number")).toBeNull();
+    });
+
+    it("should treat selects named like a status as a status", () => {
+      expect(guessPropertyRole("Status", "select")).toBe("status");
+      expect(guessPropertyRole("Priority", "select")).toBe("select");
+    });
+  });
+
+  describe("suggestPropertyMap", () => {
+    it("should map a tasks database with different property names", () => {
+      const { map, missing } = suggestPropertyMap("tasks", tasksSchema);
+
+      expect(missing).toEqual([]);
+      expect(map).toEqual({
+        title: "Task",
+        status: "Stage",
+        statusType: "status",
+        dueDate: "Deadline",
+        priority: "Urgency",
+        createdBy: null,
+        notes: null,
+        todoStatus: "Not started",
+        doneStatus: "Complete",
+        inProgressStatus: "Doing",
+        blockedStatus: null,
+      });
+    });
+
+    it("should leave optional fields empty rather than guess", () => {
+      const { map, missing } = suggestPropertyMap("notes", {
+        id: "notes-db",
+        title: "Notes",
+        properties: [
+          { name: "Title", type: "title", role: "title", options: [] },
+          { name: "Kind", type: "select", role: "select", options: [] },
+        ],
+      });
+
+      expect(missing).toEqual([]);
+      expect(map).toEqual({ title: "Title", date: null, tags: null, source: null });
+    });
+
+    it("should list required fields it couldn't find", () => {
+      const { missing } = suggestPropertyMap("calendar", {
+        id: "cal-db",
+        title: "Reminders",
+        properties: [{ name: "Name", type: "title", role: "title", options: [] }],
+      });
+
+      expect(missing).toEqual(["date"]);
+    });
+  });
+
+  describe("checkPropertyMap", () => {
+    it("should accept a suggested map", () => {
+      const { map } = suggestPropertyMap("tasks", tasksSchema);
+
+      expect(checkPropertyMap("tasks", map, tasksSchema)).toEqual([]);
+    });
+
+    it("should report missing properties, wrong types and unknown options", () => {
+      const problems = checkPropertyMap("tasks", DEFAULT_PROPERTY_MAPS.tasks, {
+        ...tasksSchema,
+        properties: [
+          ...tasksSchema.properties,
+          { name: "Name", type: "rich_text", role: null, options: [] },
+          { name: "Status", type: "status", role: "status", options: ["Open", "Closed"] },
+        ],
+      });
+
+      expect(problems).toEqual([
+        '"Name" is a rich_text property, but title needs title',
+        'No property named "Due Date" (for dueDate)',
+        'No property named "Priority" (for priority)',
+        'No property named "Created By" (for createdBy)',
+        'No property named "Notes" (for notes)',
+        'statusType should be "status" to match "Status"',
+        '"Status" has no "Todo" option',
+        '"Status" has no "Done" option',
+        '"Status" has no "In Progress" option',
+        '"Status" has no "Blocked" option',
+      ]);
+    });
+  });
+});
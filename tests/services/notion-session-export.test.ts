@@ -0,0 +1,285 @@
+/**
+ * Session Notes Export Tests
+ *
+ * Tests for writing finished sessions to the user's Notion notes database,
+ * with the Notion API stubbed out.
+ */
+
+import { describe, it, expect, afterEach, vi } from "vitest";
+import {
+  exportSessionToNotes,
+  getSessionExport,
+  retryFailedSessionExports,
+  MAX_EXPORT_ATTEMPTS,
+  PENDING_EXPORT_TIMEOUT_MINUTES,
+} from "../../src/server/services/notion-session-export.js";
+import { getTestDb } from "../utils/test-db.js";
+import {
+  createTestUser,
+  createTestSession,
+  createTestNotionConnection,
+  stubNotion,
+} from "../utils/test-helpers.js";
+
+const notesSchema = {
+  id: "notes-db",
+  title: [{ plain_text: "Notes" }],
+  properties: {
+    Name: { name: "Name", type: "title" },
+    Tags: { name: "Tags", type: "multi_select", multi_select: { options: [] } },
+    Created: { name: "Created", type: "created_time" },
+    Source: { name: "Source", type: "select", select: { options: [] } },
+  },
+};
+
+// Database retrievals get the notes schema, page creation gets a page and
+// the database has no notes yet
+const notesResponses = {
+  "": notesSchema,
+  "/pages": { id: "note-1", url: "https://notion.so/note-1" },
+  "/query": { results: [] },
+};
+
+const failingPages = {
+  ...notesResponses,
+  "/pages": { object: "error", status: 500, message: "Internal error" },
+};
+
+/**
+ * Pages already in the notes database: found by the database query, each
+ * with a paragraph linking to `link`
+ */
+function existingNotes(notes: Array<{ id: string; url: string; link: string }>) {
+  return Object.fromEntries([
+    ["/query", { results: notes.map(({ id, url }) => ({ id, url })) }],
+    ...notes.map((n) => [
+      `/blocks/${n.id}/children`,
+      {
+        results: [
+          {
+            type: "paragraph",
+            paragraph: { rich_text: [{ text: { content: "Open the session" }, href: n.link }] },
+          },
+        ],
+      },
+    ]),
+  ]);
+}
+
+function pageRequests(fetchMock: ReturnType<typeof stubNotion>) {
+  return fetchMock.mock.calls
+    .filter(([url]) => url.endsWith("/pages"))
+    .map(([, init]) => JSON.parse(init!.body as string));
+}
+
+function createFinishedSession(userId: string) {
+  const session = createTestSession(userId, {
+    declared_task: "Write the quarterly report",
+    duration_planned: 50,
+    status: "completed",
+  });
+  const db = getTestDb();
+  db.prepare(
+    `UPDATE sessions SET ended_at = '2024-03-01 11:00:00', duration_actual = 45, outcome = 'Drafted every section' WHERE id = ?`
+  ).run(session.id);
+  return session;
+}
+
+function sessionLink(sessionId: string) {
+  return `http://localhost:3001/app/sessions/${sessionId}`;
+}
+
+function connectNotes(userId: string) {
+  createTestNotionConnection(userId, {
+    notes_database_id: "notes-db",
+    export_session_notes: true,
+  });
+}
+
+describe("Session Notes Export", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should write the session, its wins and a link back as a note", async () => {
+    const user = createTestUser();
+    connectNotes(user.id);
+    const session = createFinishedSession(user.id);
+    getTestDb()
+      .prepare(
+        `INSERT INTO pending_memories (id, user_id, session_id, category, content, importance, status) VALUES
+          ('m1', ?, ?, 'win', 'Finished the report a day early', 3, 'pending'),
+          ('m2', ?, ?, 'win', 'Wrote the charts section in one go', 2, 'rejected'),
+          ('m3', ?, ?, 'insight', 'Works best with music', 2, 'pending')`
+      )
+      .run(user.id, session.id, user.id, session.id, user.id, session.id);
+    const fetchMock = stubNotion(notesResponses);
+
+    const result = await exportSessionToNotes(user.id, session.id);
+
+    expect(result).toMatchObject({
+      status: "exported",
+      attempts: 1,
+      notion_page_id: "note-1",
+      notion_page_url: "https://notion.so/note-1",
+    });
+
+    const [body] = pageRequests(fetchMock);
+    expect(body.parent).toEqual({ database_id: "notes-db" });
+    expect(body.properties).toEqual({
+      Name: {
+        title: [{ type: "text", text: { content: "Focus session: Write the quarterly report" } }],
+      },
+      Tags: { multi_select: [{ name: "Focus session" }] },
+      Source: { select: { name: "Assistant" } },
+    });
+
+    const text = body.children
+      .map(
+        (block: { paragraph: { rich_text: Array<{ text: { content: string } }> } }) =>
+          block.paragraph.rich_text[0].text.content
+      )
+      .join("\n");
+    expect(text).toContain("Planned: 50 minutes\nActual: 45 minutes");
+    expect(text).toContain("Outcome: Drafted every section");
+    expect(text).toContain("- Finished the report a day early");
+    expect(text).not.toContain("charts section");
+    expect(text).not.toContain("music");
+    expect(body.children.at(-1).paragraph.rich_text[0].text.link.url).toContain(
+      `/app/sessions/${session.id}`
+    );
+  });
+
+  it("should not write a second page when the export runs again", async () => {
+    const user = createTestUser();
+    connectNotes(user.id);
+    const session = createFinishedSession(user.id);
+    const fetchMock = stubNotion(notesResponses);
+
+    await Promise.all([
+      exportSessionToNotes(user.id, session.id),
+      exportSessionToNotes(user.id, session.id),
+    ]);
+    const again = await exportSessionToNotes(user.id, session.id);
+
+    expect(again?.status).toBe("exported");
+    expect(pageRequests(fetchMock)).toHaveLength(1);
+  });
+
+  it("should do nothing unless the user turned exports on", async () => {
+    const user = createTestUser();
+    createTestNotionConnection(user.id, { notes_database_id: "notes-db" });
+    const session = createFinishedSession(user.id);
+    const fetchMock = stubNotion(notesResponses);
+
+    expect(await exportSessionToNotes(user.id, session.id)).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(getSessionExport(session.id)).toBeNull();
+  });
+
+  it("should skip sessions that are still active", async () => {
+    const user = createTestUser();
+    connectNotes(user.id);
+    const session = createTestSession(user.id);
+    const fetchMock = stubNotion(notesResponses);
+
+    expect(await exportSessionToNotes(user.id, session.id)).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  describe("retryFailedSessionExports", () => {
+    it("should retry failed exports until one succeeds", async () => {
+      const user = createTestUser();
+      connectNotes(user.id);
+      const session = createFinishedSession(user.id);
+
+      stubNotion(failingPages);
+      expect(await exportSessionToNotes(user.id, session.id)).toMatchObject({
+        status: "failed",
+        attempts: 1,
+      });
+
+      const fetchMock = stubNotion(notesResponses);
+      expect(await retryFailedSessionExports()).toBe(1);
+      expect(getSessionExport(session.id)).toMatchObject({ status: "exported", attempts: 2 });
+
+      expect(await retryFailedSessionExports()).toBe(0);
+      expect(pageRequests(fetchMock)).toHaveLength(1);
+    });
+
+    it("should take over exports left pending by an export that never finished", async () => {
+      const user = createTestUser();
+      connectNotes(user.id);
+      const stuck = createFinishedSession(user.id);
+      const running = createFinishedSession(user.id);
+      getTestDb()
+        .prepare(
+          `INSERT INTO notion_session_exports (session_id, user_id, status, attempts, claimed_at) VALUES
+            (?, ?, 'pending', 1, datetime('now', ?)),
+            (?, ?, 'pending', 1, datetime('now'))`
+        )
+        .run(
+          stuck.id,
+          user.id,
+          `-${PENDING_EXPORT_TIMEOUT_MINUTES + 1} minutes`,
+          running.id,
+          user.id
+        );
+      const fetchMock = stubNotion(notesResponses);
+
+      expect(await retryFailedSessionExports()).toBe(1);
+      expect(getSessionExport(stuck.id)).toMatchObject({ status: "exported", attempts: 2 });
+      expect(getSessionExport(running.id)).toMatchObject({ status: "pending", attempts: 1 });
+      expect(await exportSessionToNotes(user.id, running.id)).toMatchObject({ status: "pending" });
+      expect(pageRequests(fetchMock)).toHaveLength(1);
+    });
+
+    it("should keep the page an earlier attempt wrote instead of writing another", async () => {
+      const user = createTestUser();
+      connectNotes(user.id);
+      const session = createFinishedSession(user.id);
+
+      stubNotion(failingPages);
+      await exportSessionToNotes(user.id, session.id);
+
+      const fetchMock = stubNotion({
+        ...notesResponses,
+        ...existingNotes([
+          { id: "other-note", url: "https://notion.so/other", link: sessionLink("other") },
+          { id: "lost-note", url: "https://notion.so/lost", link: sessionLink(session.id) },
+        ]),
+      });
+      expect(await retryFailedSessionExports()).toBe(1);
+
+      expect(getSessionExport(session.id)).toMatchObject({
+        status: "exported",
+        notion_page_id: "lost-note",
+        notion_page_url: "https://notion.so/lost",
+      });
+      expect(pageRequests(fetchMock)).toHaveLength(0);
+      const [, query] = fetchMock.mock.calls.find(([url]) => url.endsWith("/query"))!;
+      expect(JSON.parse(query!.body as string).filter).toEqual({
+        property: "Name",
+        title: { equals: "Focus session: Write the quarterly report" },
+      });
+    });
+
+    it("should give up after the last attempt", async () => {
+      const user = createTestUser();
+      connectNotes(user.id);
+      const session = createFinishedSession(user.id);
+      const fetchMock = stubNotion(failingPages);
+
+      await exportSessionToNotes(user.id, session.id);
+      for (let i = 0; i < MAX_EXPORT_ATTEMPTS; i++) {
+        await retryFailedSessionExports();
+      }
+
+      expect(getSessionExport(session.id)).toMatchObject({
+        status: "failed",
+        attempts: MAX_EXPORT_ATTEMPTS,
+      });
+      expect(pageRequests(fetchMock)).toHaveLength(MAX_EXPORT_ATTEMPTS);
+    });
+  });
+});
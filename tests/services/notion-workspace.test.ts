@@ -0,0 +1,145 @@
+/**
+ * Assistant Workspace Tests
+ *
+ * Tests for writing to the assistant's Notion database, with the Notion API
+ * stubbed out.
+ */
+
+import { describe, it, expect, afterEach, vi } from "vitest";
+import {
+  addSelfReminder,
+  addSessionSummaryEntry,
+  addWorkspaceEntry,
+  appendRunningNote,
+} from "../../src/server/services/notion-workspace.js";
+import { getTestDb } from "../utils/test-db.js";
+import {
+  createTestUser,
+  createTestSession,
+  createTestNotionConnection,
+  stubNotion,
+} from "../utils/test-helpers.js";
+
+const createdPage = { id: "entry-1", url: "https://notion.so/entry-1" };
+
+/**
+ * Answer database queries with the given pages and everything else with a
+ * created page
+ */
+function workspaceResponses(queryResults: object[] = []) {
+  return { "": createdPage, "/query": { results: queryResults } };
+}
+
+function requestBody(fetchMock: ReturnType<typeof stubNotion>, call: number) {
+  return JSON.parse(fetchMock.mock.calls[call][1]!.body as string);
+}
+
+describe("Assistant Workspace", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should do nothing until the workspace exists", async () => {
+    const user = createTestUser();
+    createTestNotionConnection(user.id);
+    const fetchMock = stubNotion(workspaceResponses());
+
+    const entry = await addWorkspaceEntry(user.id, {
+      type: "Insight",
+      title: "Prefers mornings",
+      content: "Deep work goes best before noon.",
+    });
+
+    expect(entry).toBeNull();
+    expect(await appendRunningNote(user.id, "Anything")).toBe(false);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("should save reminders with the day to bring them up", async () => {
+    const user = createTestUser();
+    createTestNotionConnection(user.id, { assistant_db_id: "workspace-db" });
+    const fetchMock = stubNotion(workspaceResponses());
+
+    const entry = await addSelfReminder(user.id, "Ask how the launch went", "2024-03-01");
+
+    expect(entry).toEqual(createdPage);
+    const body = requestBody(fetchMock, 0);
+    expect(body.parent).toEqual({ database_id: "workspace-db" });
+    expect(body.properties.Type).toEqual({ select: { name: "Reminder" } });
+    expect(body.properties["Remind On"]).toEqual({ date: { start: "2024-03-01" } });
+
+    const log = getTestDb()
+      .prepare(`SELECT operation, triggered_by FROM notion_api_logs WHERE user_id = ?`)
+      .get(user.id);
+    expect(log).toEqual({ operation: "Add workspace reminder", triggered_by: "assistant_action" });
+  });
+
+  describe("appendRunningNote", () => {
+    it("should start today's running notes page on the first note", async () => {
+      const user = createTestUser();
+      createTestNotionConnection(user.id, { assistant_db_id: "workspace-db" });
+      const fetchMock = stubNotion(workspaceResponses());
+
+      expect(await appendRunningNote(user.id, "Chose Postgres over Mongo")).toBe(true);
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      const body = requestBody(fetchMock, 1);
+      expect(body.properties.Type).toEqual({ select: { name: "Note" } });
+      expect(body.properties.Name.title[0].text.content).toMatch(
+        /^Running notes \d{4}-\d{2}-\d{2}$/
+      );
+    });
+
+    it("should append to the page once it exists", async () => {
+      const user = createTestUser();
+      createTestNotionConnection(user.id, { assistant_db_id: "workspace-db" });
+      const fetchMock = stubNotion(
+        workspaceResponses([{ id: "notes-page", url: "https://notion.so/notes-page" }])
+      );
+
+      expect(await appendRunningNote(user.id, "Moved the demo to Friday")).toBe(true);
+
+      expect(fetchMock.mock.calls[1][0]).toContain("/blocks/notes-page/children");
+    });
+  });
+
+  describe("addSessionSummaryEntry", () => {
+    it("should record a finished session with its conversation summary", async () => {
+      const user = createTestUser();
+      createTestNotionConnection(user.id, { assistant_db_id: "workspace-db" });
+      const session = createTestSession(user.id, {
+        declared_task: "Write the quarterly report",
+        duration_planned: 50,
+        status: "completed",
+      });
+      const db = getTestDb();
+      db.prepare(
+        `UPDATE sessions SET duration_actual = 45, outcome = 'Drafted every section' WHERE id = ?`
+      ).run(session.id);
+      db.prepare(
+        `INSERT INTO session_summaries (id, session_id, summary, messages_summarized) VALUES ('s1', ?, 'They got stuck on the charts but pushed through.', 20)`
+      ).run(session.id);
+      const fetchMock = stubNotion(workspaceResponses());
+
+      expect(await addSessionSummaryEntry(user.id, session.id)).toEqual(createdPage);
+
+      const body = requestBody(fetchMock, 0);
+      expect(body.properties.Type).toEqual({ select: { name: "Session Summary" } });
+      const content = body.properties.Content.rich_text[0].text.content;
+      expect(content).toContain("Task: Write the quarterly report");
+      expect(content).toContain("Time: 45 of 50 planned minutes");
+      expect(content).toContain("Outcome: Drafted every section");
+      expect(content).toContain("stuck on the charts");
+    });
+
+    it("should skip sessions that are still active", async () => {
+      const user = createTestUser();
+      createTestNotionConnection(user.id, { assistant_db_id: "workspace-db" });
+      const session = createTestSession(user.id);
+      const fetchMock = stubNotion(workspaceResponses());
+
+      expect(await addSessionSummaryEntry(user.id, session.id)).toBeNull();
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * OAuth State Tests
+ *
+ * Tests for the database-backed OAuth state store and the Google and Notion
+ * authorization URLs built on it.
+ */
+
+import { describe, it, expect, afterEach, vi } from "vitest";
+import {
+  cleanupExpiredOAuthStates,
+  consumeOAuthState,
+  createOAuthState,
+  getCodeChallenge,
+  isSafeRedirectPath,
+  withQueryParam,
+} from "../../src/server/services/oauth-state.js";
+import {
+  getGoogleAuthUrl,
+  validateOAuthState as validateGoogleState,
+} from "../../src/server/services/google.js";
+import {
+  getNotionAuthUrl,
+  validateOAuthState as validateNotionState,
+} from "../../src/server/services/notion.js";
+import { createTestUser, getTableCount } from "../utils/test-helpers.js";
+
+describe("OAuth State", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("consumeOAuthState", () => {
+    it("should return the state's user and redirect only once", () => {
+      const user = createTestUser();
+      const state = createOAuthState("notion", user.id, { redirectTo: "/app/session" });
+
+      expect(consumeOAuthState("notion", state)).toEqual({
+        userId: user.id,
+        codeVerifier: null,
+        redirectTo: "/app/session",
+      });
+      expect(consumeOAuthState("notion", state)).toBeNull();
+    });
+
+    it("should reject unknown states and states for the other provider", () => {
+      const user = createTestUser();
+      const state = createOAuthState("google", user.id);
+
+      expect(consumeOAuthState("google", "not-a-state")).toBeNull();
+      expect(consumeOAuthState("notion", state)).toBeNull();
+      expect(consumeOAuthState("google", state)?.userId).toBe(user.id);
+    });
+
+    it("should reject expired states", () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2024-03-01T10:00:00Z"));
+      const user = createTestUser();
+      const state = createOAuthState("google", user.id);
+
+      vi.setSystemTime(new Date("2024-03-01T10:11:00Z"));
+
+      expect(consumeOAuthState("google", state)).toBeNull();
+    });
+
+    it("should fall back to settings for missing or off-site redirects", () => {
+      const user = createTestUser();
+      const state = createOAuthState("notion", user.id, { redirectTo: "//evil.example.com" });
+
+      expect(consumeOAuthState("notion", state)?.redirectTo).toBe("/app/settings");
+    });
+  });
+
+  describe("cleanupExpiredOAuthStates", () => {
+    it("should delete only expired states", () => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date("2024-03-01T10:00:00Z"));
+      const user = createTestUser();
+      createOAuthState("google", user.id);
+      vi.setSystemTime(new Date("2024-03-01T10:30:00Z"));
+      createOAuthState("notion", user.id);
+
+      expect(cleanupExpiredOAuthStates()).toBe(1);
+      expect(getTableCount("oauth_states")).toBe(1);
+    });
+  });
+
+  describe("redirect paths", () => {
+    it("should only allow paths within the app", () => {
+      expect(isSafeRedirectPath("/app/session?id=1")).toBe(true);
+      expect(isSafeRedirectPath("//evil.example.com")).toBe(false);
+      expect(isSafeRedirectPath("/\\evil.example.com")).toBe(false);
+      expect(isSafeRedirectPath("https://evil.example.com")).toBe(false);
+      expect(isSafeRedirectPath("app/settings")).toBe(false);
+    });
+
+    it("should add query params to paths with or without a query string", () => {
+      expect(withQueryParam("/app/settings", "google_connected", "true")).toBe(
+        "/app/settings?google_connected=true"
+      );
+      expect(withQueryParam("/app/session?id=1", "notion_connected", "true")).toBe(
+        "/app/session?id=1&notion_connected=true"
+      );
+    });
+  });
+
+  describe("getGoogleAuthUrl", () => {
+    it("should send a PKCE challenge for the verifier stored with the state", () => {
+      const user = createTestUser();
+
+      const url = new URL(getGoogleAuthUrl(user.id, { redirectTo: "/app/briefing" }));
+      const state = validateGoogleState(url.searchParams.get("state")!);
+
+      expect(url.searchParams.get("code_challenge_method")).toBe("S256");
+      expect(state?.userId).toBe(user.id);
+      expect(state?.redirectTo).toBe("/app/briefing");
+      expect(url.searchParams.get("code_challenge")).toBe(getCodeChallenge(state!.codeVerifier!));
+    });
+  });
+
+  describe("getNotionAuthUrl", () => {
+    it("should store a state only the Notion callback accepts", () => {
+      const user = createTestUser();
+
+      const state = new URL(getNotionAuthUrl(user.id)).searchParams.get("state")!;
+
+      expect(validateGoogleState(state)).toBeNull();
+      expect(validateNotionState(state)).toEqual({
+        userId: user.id,
+        codeVerifier: null,
+        redirectTo: "/app/settings",
+      });
+    });
+  });
+});
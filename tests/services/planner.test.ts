@@ -0,0 +1,133 @@
+/**
+ * Session Planner Tests
+ *
+ * Tests for finding free time between calendar events and fitting focus
+ * sessions into it.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  endOfWorkday,
+  findFreeBlocks,
+  findNextEvent,
+  findSessionConflict,
+  suggestSessions,
+} from "../../src/server/services/planner.js";
+import type { CalendarEvent } from "../../src/server/services/google.js";
+
+// Times are local, on 1 March 2024
+const localTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+function at(hour: number, minute = 0): Date {
+  return new Date(2024, 2, 1, hour, minute);
+}
+
+function event(summary: string, start: Date, end: Date): CalendarEvent {
+  return {
+    id: summary,
+    summary,
+    start: { dateTime: start.toISOString() },
+    end: { dateTime: end.toISOString() },
+  };
+}
+
+const holiday: CalendarEvent = {
+  id: "holiday",
+  summary: "Company holiday",
+  start: { date: "2024-03-01" },
+  end: { date: "2024-03-02" },
+};
+
+describe("Session Planner", () => {
+  describe("findFreeBlocks", () => {
+    it("should find the gaps between meetings until the end of the day", () => {
+      const events = [
+        event("Standup", at(9, 30), at(10)),
+        event("Planning", at(11), at(12)),
+        event("1:1", at(11, 30), at(12, 30)),
+      ];
+
+      const blocks = findFreeBlocks(events, at(9), endOfWorkday(at(9), localTimeZone));
+
+      expect(blocks.map((b) => [new Date(b.start), new Date(b.end), b.minutes])).toEqual([
+        [at(9), at(9, 30), 30],
+        [at(10), at(11), 60],
+        [at(12, 30), at(18), 330],
+      ]);
+    });
+
+    it("should ignore all-day events and drop gaps too short for a session", () => {
+      const events = [holiday, event("Call", at(9, 10), at(10))];
+
+      const blocks = findFreeBlocks(events, at(9), at(11));
+
+      expect(blocks).toHaveLength(1);
+      expect(new Date(blocks[0].start)).toEqual(at(10));
+    });
+  });
+
+  describe("endOfWorkday", () => {
+    it("should end the day at 6pm in the user's time zone", () => {
+      const now = new Date("2024-03-01T15:00:00Z");
+
+      expect(endOfWorkday(now, "UTC").toISOString()).toBe("2024-03-01T18:00:00.000Z");
+      expect(endOfWorkday(now, "America/New_York").toISOString()).toBe("2024-03-01T23:00:00.000Z");
+      expect(endOfWorkday(now, "Asia/Kolkata").toISOString()).toBe("2024-03-01T12:30:00.000Z");
+      // Already 2 March in Auckland
+      expect(endOfWorkday(now, "Pacific/Auckland").toISOString()).toBe("2024-03-02T05:00:00.000Z");
+    });
+
+    it("should use the offset in force that evening across a DST change", () => {
+      // US clocks went forward at 2am on 10 March 2024
+      const now = new Date("2024-03-10T05:00:00Z");
+
+      expect(endOfWorkday(now, "America/New_York").toISOString()).toBe("2024-03-10T22:00:00.000Z");
+    });
+  });
+
+  describe("suggestSessions", () => {
+    it("should fill blocks with preferred-length sessions and breaks", () => {
+      const blocks = findFreeBlocks([], at(9), at(10, 10));
+
+      const suggestions = suggestSessions(blocks, 25);
+
+      // The 10 minutes left after the second break are too short for a third
+      expect(suggestions.map((s) => [new Date(s.start), s.minutes])).toEqual([
+        [at(9), 25],
+        [at(9, 30), 25],
+      ]);
+    });
+
+    it("should shorten the last session to fit what's left", () => {
+      const suggestions = suggestSessions(findFreeBlocks([], at(14), at(15)), 50);
+
+      expect(suggestions.map((s) => s.minutes)).toEqual([50]);
+      expect(suggestSessions(findFreeBlocks([], at(14), at(14, 40)), 50)[0].minutes).toBe(40);
+    });
+  });
+
+  describe("findNextEvent and findSessionConflict", () => {
+    const events = [
+      event("Standup", at(9, 30), at(10)),
+      event("Design review", at(14), at(15)),
+      holiday,
+    ];
+
+    it("should find the next timed event", () => {
+      expect(findNextEvent(events, at(10))).toEqual({
+        title: "Design review",
+        start: at(14).toISOString(),
+        minutesUntil: 240,
+      });
+      expect(findNextEvent(events, at(16))).toBeNull();
+    });
+
+    it("should warn when a session would run into the next event", () => {
+      expect(findSessionConflict(events, at(9), 50)).toBe(
+        'Your 50-minute session would run into "Standup", which starts in 30 minutes'
+      );
+      expect(findSessionConflict(events, at(9), 25)).toBeNull();
+      expect(findSessionConflict(events, at(16), 90)).toBeNull();
+    });
+  });
+});
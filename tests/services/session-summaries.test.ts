@@ -0,0 +1,114 @@
+/**
+ * Session Summaries Service Tests
+ *
+ * Tests for folding older turns of long sessions into a rolling summary.
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  getSessionSummary,
+  updateSessionSummary,
+  SUMMARIZE_AFTER_MESSAGES,
+  KEEP_RECENT_MESSAGES,
+} from "../../src/server/services/session-summaries.js";
+import { createTestUser, createTestSession, createTestMessage } from "../utils/test-helpers.js";
+
+const { summaryMock } = vi.hoisted(() => ({
+  summaryMock: vi.fn(),
+}));
+
+vi.mock("../../src/server/services/companion.js", async (importOriginal) => {
+  const original = await importOriginal<typeof import("../../src/server/services/companion.js")>();
+  return {
+    ...original,
+    generateSessionSummary: summaryMock,
+  };
+});
+
+/**
+ * Create a session with a conversation of the given length
+ */
+function createSessionWithMessages(count: number) {
+  const user = createTestUser({ name: "Sam" });
+  const session = createTestSession(user.id, { declared_task: "Write the report" });
+  addMessages(session.id, 0, count);
+  return { user, session };
+}
+
+function addMessages(sessionId: string, from: number, count: number) {
+  for (let i = from; i < from + count; i++) {
+    createTestMessage(sessionId, i % 2 === 0 ? "user" : "assistant", `Message ${i}`);
+  }
+}
+
+describe("Session Summaries Service", () => {
+  afterEach(() => {
+    summaryMock.mockReset();
+  });
+
+  describe("updateSessionSummary", () => {
+    it("should do nothing while the session is short", async () => {
+      const { user, session } = createSessionWithMessages(SUMMARIZE_AFTER_MESSAGES);
+
+      const summary = await updateSessionSummary(user.id, session.id);
+
+      expect(summary).toBeNull();
+      expect(summaryMock).not.toHaveBeenCalled();
+    });
+
+    it("should fold all but the most recent messages into a summary", async () => {
+      summaryMock.mockResolvedValue("They outlined the report.");
+      const total = SUMMARIZE_AFTER_MESSAGES + 1;
+      const { user, session } = createSessionWithMessages(total);
+
+      const summary = await updateSessionSummary(user.id, session.id);
+
+      expect(summary?.summary).toBe("They outlined the report.");
+      expect(summary?.messages_summarized).toBe(total - KEEP_RECENT_MESSAGES);
+
+      const prompt = summaryMock.mock.calls[0][2] as string;
+      expect(prompt).toContain("Sam: Message 0");
+      expect(prompt).not.toContain(`Message ${total - 1}`);
+    });
+
+    it("should extend the previous summary once enough new messages arrive", async () => {
+      summaryMock.mockResolvedValueOnce("First part.").mockResolvedValueOnce("First and second.");
+      const total = SUMMARIZE_AFTER_MESSAGES + 1;
+      const { user, session } = createSessionWithMessages(total);
+      await updateSessionSummary(user.id, session.id);
+
+      // Not enough new messages yet
+      addMessages(session.id, total, 2);
+      await updateSessionSummary(user.id, session.id);
+      expect(summaryMock).toHaveBeenCalledTimes(1);
+
+      addMessages(session.id, total + 2, SUMMARIZE_AFTER_MESSAGES);
+      const summary = await updateSessionSummary(user.id, session.id);
+
+      expect(summaryMock).toHaveBeenCalledTimes(2);
+      expect(summaryMock.mock.calls[1][2]).toContain("First part.");
+      expect(summary?.summary).toBe("First and second.");
+      expect(summary?.messages_summarized).toBe(
+        total + 2 + SUMMARIZE_AFTER_MESSAGES - KEEP_RECENT_MESSAGES
+      );
+    });
+
+    it("should keep the existing summary when the model returns nothing", async () => {
+      summaryMock.mockResolvedValue("   ");
+      const { user, session } = createSessionWithMessages(SUMMARIZE_AFTER_MESSAGES + 1);
+
+      await updateSessionSummary(user.id, session.id);
+
+      expect(getSessionSummary(session.id)).toBeNull();
+    });
+
+    it("should ignore sessions belonging to another user", async () => {
+      const { session } = createSessionWithMessages(SUMMARIZE_AFTER_MESSAGES + 1);
+      const other = createTestUser();
+
+      await updateSessionSummary(other.id, session.id);
+
+      expect(summaryMock).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Token Encryption Tests
+ *
+ * Tests for encrypting OAuth tokens at rest, migrating plaintext rows, key
+ * rotation and keeping tokens out of API logs. tests/setup.ts configures a
+ * "test" key for every test.
+ */
+
+import { describe, it, expect, afterEach, vi } from "vitest";
+import {
+  decryptTokens,
+  encryptPlaintextTokens,
+  encryptTokens,
+  redactSecrets,
+  rotateTokenKeys,
+} from "../../src/server/services/token-encryption.js";
+import {
+  getGoogleConnection,
+  getValidAccessToken,
+  logGoogleApiCall,
+  saveGoogleConnection,
+} from "../../src/server/services/google.js";
+import { getNotionConnection, saveNotionConnection } from "../../src/server/services/notion.js";
+import { getTestDb } from "../utils/test-db.js";
+import {
+  createTestUser,
+  createTestGoogleConnection,
+  createTestNotionConnection,
+} from "../utils/test-helpers.js";
+
+const testKeys = process.env.TOKEN_ENCRYPTION_KEYS!;
+const newKey = `next:${Buffer.alloc(32, 2).toString("base64")}`;
+
+function storedGoogleRow(userId: string) {
+  return getTestDb()
+    .prepare(
+      `SELECT access_token, refresh_token, token_key_id, token_data_key FROM google_connections WHERE user_id = ?`
+    )
+    .get(userId) as {
+    access_token: string;
+    refresh_token: string;
+    token_key_id: string | null;
+    token_data_key: string | null;
+  };
+}
+
+describe("Token Encryption", () => {
+  afterEach(() => {
+    process.env.TOKEN_ENCRYPTION_KEYS = testKeys;
+    vi.unstubAllGlobals();
+  });
+
+  describe("encryptTokens and decryptTokens", () => {
+    it("should round-trip tokens under a per-row data key", () => {
+      const sealed = encryptTokens({ access_token: "secret-a", refresh_token: "secret-r" });
+
+      expect(sealed.token_key_id).toBe("test");
+      expect(sealed.tokens.access_token).not.toContain("secret");
+      expect(decryptTokens(sealed, sealed.tokens)).toEqual({
+        access_token: "secret-a",
+        refresh_token: "secret-r",
+      });
+      expect(encryptTokens({ access_token: "secret-a" }).token_data_key).not.toBe(
+        sealed.token_data_key
+      );
+    });
+
+    it("should reject swapped or tampered values", () => {
+      const sealed = encryptTokens({ access_token: "secret-a", refresh_token: "secret-r" });
+
+      expect(() =>
+        decryptTokens(sealed, {
+          access_token: sealed.tokens.refresh_token,
+          refresh_token: sealed.tokens.access_token,
+        })
+      ).toThrow();
+    });
+
+    it("should store plaintext without a key, and fail clearly on an unknown key", () => {
+      process.env.TOKEN_ENCRYPTION_KEYS = "";
+      const plain = encryptTokens({ access_token: "secret-a" });
+      expect(plain).toEqual({
+        tokens: { access_token: "secret-a" },
+        token_key_id: null,
+        token_data_key: null,
+      });
+
+      process.env.TOKEN_ENCRYPTION_KEYS = testKeys;
+      const sealed = encryptTokens({ access_token: "secret-a" });
+      process.env.TOKEN_ENCRYPTION_KEYS = newKey;
+      expect(() => decryptTokens(sealed, sealed.tokens)).toThrow(
+        'Token encryption key "test" is not in TOKEN_ENCRYPTION_KEYS'
+      );
+    });
+  });
+
+  describe("connections", () => {
+    it("should encrypt Google tokens in the database and decrypt them on read", () => {
+      const user = createTestUser();
+
+      saveGoogleConnection(user.id, "ya29.access", "1//refresh", 3600, "a@b.com", "[]");
+
+      const row = storedGoogleRow(user.id);
+      expect(row.token_key_id).toBe("test");
+      expect(row.access_token).not.toBe("ya29.access");
+      expect(row.refresh_token).not.toBe("1//refresh");
+      expect(getGoogleConnection(user.id)).toMatchObject({
+        access_token: "ya29.access",
+        refresh_token: "1//refresh",
+      });
+    });
+
+    it("should encrypt the Notion token in the database and decrypt it on read", () => {
+      const user = createTestUser();
+      const tokenData = {
+        access_token: "secret_notion",
+        workspace_id: "ws",
+        workspace_name: null,
+        workspace_icon: null,
+        bot_id: "bot",
+      };
+
+      expect(saveNotionConnection(user.id, tokenData).access_token).toBe("secret_notion");
+      saveNotionConnection(user.id, { ...tokenData, access_token: "secret_again" });
+
+      const row = getTestDb()
+        .prepare(`SELECT access_token, token_key_id FROM notion_connections WHERE user_id = ?`)
+        .get(user.id) as { access_token: string; token_key_id: string };
+      expect(row.token_key_id).toBe("test");
+      expect(row.access_token).not.toContain("secret");
+      expect(getNotionConnection(user.id)?.access_token).toBe("secret_again");
+    });
+
+    it("should keep refreshed Google tokens encrypted", async () => {
+      const user = createTestUser();
+      saveGoogleConnection(user.id, "ya29.old", "1//refresh", 0, "a@b.com", "[]");
+      vi.stubGlobal(
+        "fetch",
+        vi.fn(
+          async () =>
+            new Response(JSON.stringify({ access_token: "ya29.new", expires_in: 3600 }), {
+              status: 200,
+            })
+        )
+      );
+
+      expect(await getValidAccessToken(user.id)).toBe("ya29.new");
+
+      expect(storedGoogleRow(user.id).access_token).not.toBe("ya29.new");
+      expect(getGoogleConnection(user.id)).toMatchObject({
+        access_token: "ya29.new",
+        refresh_token: "1//refresh",
+      });
+    });
+  });
+
+  describe("encryptPlaintextTokens", () => {
+    it("should encrypt rows saved before a key was configured", () => {
+      const googleUser = createTestUser();
+      const notionUser = createTestUser();
+      createTestGoogleConnection(googleUser.id);
+      createTestNotionConnection(notionUser.id);
+      saveGoogleConnection(createTestUser().id, "ya29.x", "1//x", 3600, "a@b.com", "[]");
+
+      expect(encryptPlaintextTokens()).toBe(2);
+      expect(encryptPlaintextTokens()).toBe(0);
+
+      expect(storedGoogleRow(googleUser.id).token_key_id).toBe("test");
+      expect(getGoogleConnection(googleUser.id)?.access_token).toBe("fake_access_token");
+      expect(getNotionConnection(notionUser.id)?.access_token).toBeTruthy();
+    });
+  });
+
+  describe("rotateTokenKeys", () => {
+    it("should re-encrypt every row under the new key", () => {
+      const user = createTestUser();
+      saveGoogleConnection(user.id, "ya29.access", "1//refresh", 3600, "a@b.com", "[]");
+
+      process.env.TOKEN_ENCRYPTION_KEYS = `${newKey},${testKeys}`;
+      expect(rotateTokenKeys()).toBe(1);
+
+      process.env.TOKEN_ENCRYPTION_KEYS = newKey;
+      expect(storedGoogleRow(user.id).token_key_id).toBe("next");
+      expect(getGoogleConnection(user.id)?.refresh_token).toBe("1//refresh");
+    });
+  });
+
+  describe("API logs", () => {
+    it("should redact tokens from logged bodies", () => {
+      const user = createTestUser();
+
+      const log = logGoogleApiCall(user.id, {
+        method: "POST",
+        endpoint: "/calendar/v3/users/me/calendarList",
+        request_body: { refresh_token: "1//refresh", grant_type: "refresh_token" },
+        status_code: 200,
+        response_body: { access_token: "ya29.new", expires_in: 3600 },
+        operation: "List calendars",
+        service: "calendar",
+        triggered_by: "user_request",
+      });
+
+      expect(log.request_body).not.toContain("1//refresh");
+      expect(log.response_body).not.toContain("ya29.new");
+      expect(JSON.parse(log.response_body!)).toEqual({
+        access_token: "[redacted]",
+        expires_in: 3600,
+      });
+      expect(redactSecrets({ items: [{ Authorization: "Bearer x", id: 1 }] })).toEqual({
+        items: [{ Authorization: "[redacted]", id: 1 }],
+      });
+    });
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Usage Service Tests
+ *
+ * Tests for recording model usage, rollups and monthly budgets.
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  estimateCost,
+  recordUsage,
+  getUsageSummary,
+  getBudgetStatus,
+  setMonthlyBudget,
+  BUDGET_EXCEEDED_MESSAGE,
+} from "../../src/server/services/usage.js";
+import {
+  createMockProvider,
+  setCompanionProvider,
+} from "../../src/server/services/llm-provider.js";
+import {
+  generateResponse,
+  generateStreamingResponse,
+} from "../../src/server/services/companion.js";
+import { createTestUser, createTestSession, getTableCount } from "../utils/test-helpers.js";
+
+const usage = { inputTokens: 1000, outputTokens: 200, cacheReadTokens: 0, cacheWriteTokens: 0 };
+
+describe("Usage Service", () => {
+  afterEach(() => {
+    setCompanionProvider(null);
+  });
+
+  describe("estimateCost", () => {
+    it("should price known models per million tokens", () => {
+      expect(estimateCost("claude-sonnet-4-20250514", usage)).toBeCloseTo(0.006);
+      expect(
+        estimateCost("claude-sonnet-4-20250514", {
+          inputTokens: 0,
+          outputTokens: 0,
+          cacheReadTokens: 1_000_000,
+          cacheWriteTokens: 0,
+        })
+      ).toBeCloseTo(0.3);
+    });
+
+    it("should treat unknown models as free", () => {
+      expect(estimateCost("mock", usage)).toBe(0);
+    });
+  });
+
+  describe("getUsageSummary", () => {
+    it("should roll up usage per day, session and request type", () => {
+      const user = createTestUser();
+      const sessionA = createTestSession(user.id, { declared_task: "Write report" });
+      const sessionB = createTestSession(user.id);
+      const model = "claude-sonnet-4-20250514";
+
+      recordUsage({
+        userId: user.id,
+        sessionId: sessionA.id,
+        requestType: "chat",
+        model,
+        usage,
+        latencyMs: 900,
+      });
+      recordUsage({
+        userId: user.id,
+        sessionId: sessionA.id,
+        requestType: "chat",
+        model,
+        usage,
+        latencyMs: 700,
+      });
+      recordUsage({
+        userId: user.id,
+        sessionId: sessionB.id,
+        requestType: "greeting",
+        model,
+        usage,
+        latencyMs: 300,
+      });
+
+      const summary = getUsageSummary(user.id);
+
+      expect(summary.totals.requests).toBe(3);
+      expect(summary.totals.inputTokens).toBe(3000);
+      expect(summary.totals.costUsd).toBeCloseTo(0.018);
+      expect(summary.byDay).toHaveLength(1);
+
+      const reportSession = summary.bySession.find((s) => s.sessionId === sessionA.id);
+      expect(reportSession?.requests).toBe(2);
+      expect(reportSession?.task).toBe("Write report");
+
+      expect(summary.byRequestType.map((r) => r.requestType).sort()).toEqual(["chat", "greeting"]);
+    });
+
+    it("should only include the current user's usage", () => {
+      const user = createTestUser();
+      const other = createTestUser();
+      recordUsage({
+        userId: other.id,
+        sessionId: null,
+        requestType: "chat",
+        model: "mock",
+        usage,
+        latencyMs: 1,
+      });
+
+      expect(getUsageSummary(user.id).totals.requests).toBe(0);
+    });
+  });
+
+  describe("budgets", () => {
+    it("should have no limit by default", () => {
+      const user = createTestUser();
+
+      expect(getBudgetStatus(user.id)).toEqual({
+        monthlyBudgetUsd: null,
+        spentThisMonthUsd: 0,
+        remainingUsd: null,
+        exceeded: false,
+      });
+    });
+
+    it("should report the budget as exceeded once spend reaches it", () => {
+      const user = createTestUser();
+      setMonthlyBudget(user.id, 0.01);
+      recordUsage({
+        userId: user.id,
+        sessionId: null,
+        requestType: "chat",
+        model: "claude-sonnet-4-20250514",
+        usage,
+        latencyMs: 1,
+      });
+      expect(getBudgetStatus(user.id).exceeded).toBe(false);
+
+      recordUsage({
+        userId: user.id,
+        sessionId: null,
+        requestType: "chat",
+        model: "claude-sonnet-4-20250514",
+        usage,
+        latencyMs: 1,
+      });
+      const status = getBudgetStatus(user.id);
+
+      expect(status.exceeded).toBe(true);
+      expect(status.remainingUsd).toBe(0);
+    });
+  });
+
+  describe("companion calls", () => {
+    it("should record usage for responses and streams", async () => {
+      setCompanionProvider(createMockProvider(["Sure thing"]));
+      const user = createTestUser();
+      const session = createTestSession(user.id);
+
+      await generateResponse(user.id, session.id, "Hello");
+      let streamed = "";
+      for await (const chunk of generateStreamingResponse(user.id, session.id, "Hello")) {
+        streamed += chunk;
+      }
+      expect(streamed).toBe("Sure thing");
+
+      expect(getTableCount("llm_usage")).toBe(2);
+      const summary = getUsageSummary(user.id);
+      expect(summary.totals.outputTokens).toBeGreaterThan(0);
+    });
+
+    it("should reply with a friendly message once the budget is spent", async () => {
+      setCompanionProvider(createMockProvider(["Sure thing"]));
+      const user = createTestUser();
+      const session = createTestSession(user.id);
+      setMonthlyBudget(user.id, 0);
+
+      expect(await generateResponse(user.id, session.id, "Hello")).toBe(BUDGET_EXCEEDED_MESSAGE);
+
+      let streamed = "";
+      for await (const chunk of generateStreamingResponse(user.id, session.id, "Hello")) {
+        streamed += chunk;
+      }
+      expect(streamed).toBe(BUDGET_EXCEEDED_MESSAGE);
+      expect(getTableCount("llm_usage")).toBe(0);
+    });
+  });
+});
@@ -4,18 +4,30 @@
  * Global setup for all tests. Runs before each test file.
  */
 
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
 import { beforeAll, afterAll, beforeEach } from "vitest";
 import { setupTestDb, teardownTestDb, resetTestDb } from "./utils/test-db.js";
 
 // Set test environment
 process.env.NODE_ENV = "test";
 
+// Emails go to a throwaway outbox rather than data/outbox
+const outboxDir = fs.mkdtempSync(path.join(os.tmpdir(), "body-double-outbox-"));
+process.env.MAIL_TRANSPORT = "file";
+process.env.MAIL_OUTBOX_DIR = outboxDir;
+
+// Encrypt stored OAuth tokens, as production should
+process.env.TOKEN_ENCRYPTION_KEYS = `test:${Buffer.alloc(32, 1).toString("base64")}`;
+
 beforeAll(async () => {
   await setupTestDb();
 });
 
 afterAll(async () => {
   await teardownTestDb();
+  fs.rmSync(outboxDir, { recursive: true, force: true });
 });
 
 beforeEach(async () => {
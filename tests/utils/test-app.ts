@@ -10,6 +10,11 @@ import authRouter from "../../src/server/routes/auth.js";
 import usersRouter from "../../src/server/routes/users.js";
 import sessionsRouter from "../../src/server/routes/sessions.js";
 import chatRouter from "../../src/server/routes/chat.js";
+import memoryRouter from "../../src/server/routes/memory.js";
+import usageRouter from "../../src/server/routes/usage.js";
+import analyticsRouter from "../../src/server/routes/analytics.js";
+import notionRouter from "../../src/server/routes/notion.js";
+import briefingRouter from "../../src/server/routes/briefing.js";
 
 export function createTestApp() {
   const app = express();
@@ -28,6 +33,11 @@ export function createTestApp() {
   app.use("/api/users", usersRouter);
   app.use("/api/sessions", sessionsRouter);
   app.use("/api/chat", chatRouter);
+  app.use("/api/memory", memoryRouter);
+  app.use("/api/usage", usageRouter);
+  app.use("/api/analytics", analyticsRouter);
+  app.use("/api/notion", notionRouter);
+  app.use("/api/briefing", briefingRouter);
 
   // Error handling
   app.use(
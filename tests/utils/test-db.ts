@@ -1,11 +1,12 @@
 /**
  * Test Database Utilities
  *
- * Creates an in-memory SQLite database for testing.
+ * Creates an in-memory SQLite database for testing, built purely from the
+ * migrations so tests run against the same schema deployments get.
  */
 
 import Database from "better-sqlite3";
-import { schema } from "../../src/server/db/schema.js";
+import { migrateUp } from "../../src/server/db/migrator.js";
 import { setTestDb } from "../../src/server/db/index.js";
 
 let testDb: Database.Database | null = null;
@@ -14,7 +15,7 @@ export async function setupTestDb(): Promise<void> {
   // Create in-memory database
   testDb = new Database(":memory:");
   testDb.pragma("foreign_keys = ON");
-  testDb.exec(schema);
+  migrateUp(testDb);
 
   // Set the test database in the db module
   setTestDb(testDb);
@@ -36,6 +37,8 @@ export async function resetTestDb(): Promise<void> {
   // Clear all tables in reverse dependency order (children before parents)
   const tables = [
     // Briefing/alerts system
+    "gmail_seen_messages",
+    "email_rules",
     "background_checks",
     "briefings",
     "alerts",
@@ -43,6 +46,7 @@ export async function resetTestDb(): Promise<void> {
     "google_api_logs",
     "google_connections",
     // Notion integration
+    "notion_session_exports",
     "notion_api_logs",
     "notion_connections",
     // Chat system
@@ -50,9 +54,15 @@ export async function resetTestDb(): Promise<void> {
     "main_chat_messages",
     "side_chats",
     // Core tables
+    "session_intentions",
+    "session_summaries",
+    "llm_usage",
+    "pending_memories",
     "messages",
+    "memory_conflicts",
     "user_context_items",
     "sessions",
+    "oauth_states",
     "auth_sessions",
     "magic_links",
     "users",
@@ -5,6 +5,7 @@
  */
 
 import crypto from "node:crypto";
+import { vi } from "vitest";
 import { getTestDb } from "./test-db.js";
 import type { User, Session, AuthSession } from "../../src/server/db/schema.js";
 
@@ -43,8 +44,8 @@ export function createTestSession(userId: string, overrides: Partial<Session> =
 
   db.prepare(
     `
-    INSERT INTO sessions (id, user_id, declared_task, duration_planned, check_in_frequency, status)
-    VALUES (?, ?, ?, ?, ?, ?)
+    INSERT INTO sessions (id, user_id, declared_task, duration_planned, check_in_frequency, mode, status)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
   `
   ).run(
     id,
@@ -52,6 +53,7 @@ export function createTestSession(userId: string, overrides: Partial<Session> =
     overrides.declared_task || "Test task",
     overrides.duration_planned || 25,
     overrides.check_in_frequency || 15,
+    overrides.mode || "simple_task",
     overrides.status || "active"
   );
 
@@ -255,3 +257,62 @@ export function createTestGoogleConnection(
 
   return { id };
 }
+
+/**
+ * Create a test Notion connection
+ */
+export function createTestNotionConnection(
+  userId: string,
+  overrides: {
+    tasks_database_id?: string | null;
+    tasks_property_map?: object;
+    assistant_db_id?: string;
+    notes_database_id?: string;
+    export_session_notes?: boolean;
+  } = {}
+): { id: string } {
+  const db = getTestDb();
+  const id = crypto.randomUUID();
+
+  db.prepare(
+    `
+    INSERT INTO notion_connections (id, user_id, access_token, workspace_id, bot_id, tasks_database_id, tasks_property_map, assistant_db_id, notes_database_id, export_session_notes)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `
+  ).run(
+    id,
+    userId,
+    "fake_notion_token",
+    "test-workspace",
+    "test-bot",
+    overrides.tasks_database_id === undefined ? "tasks-db" : overrides.tasks_database_id,
+    overrides.tasks_property_map ? JSON.stringify(overrides.tasks_property_map) : null,
+    overrides.assistant_db_id || null,
+    overrides.notes_database_id || null,
+    overrides.export_session_notes ? 1 : 0
+  );
+
+  return { id };
+}
+
+/**
+ * Stub fetch for the Notion API. Each request gets the response for the
+ * longest URL path suffix in the table that matches it (query strings
+ * aside), or the "" entry's. Notion error bodies ({ object: "error" }) are
+ * sent with their status.
+ */
+export function stubNotion(responses: Record<string, object>) {
+  const suffixes = Object.keys(responses).sort((a, b) => b.length - a.length);
+  const fetchMock = vi.fn(async (url: string, _init?: RequestInit) => {
+    const path = new URL(url).pathname;
+    const suffix = suffixes.find((s) => path.endsWith(s));
+    if (suffix === undefined) {
+      throw new Error(`No stubbed Notion response for ${url}`);
+    }
+    const body = responses[suffix] as { object?: string; status?: number };
+    const status = body.object === "error" ? (body.status ?? 500) : 200;
+    return new Response(JSON.stringify(body), { status });
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
@@ -11,6 +11,18 @@ import express from "express";
 import { setupWebSocket } from "../../src/server/websocket.js";
 import { setupTestDb, teardownTestDb, resetTestDb } from "../utils/test-db.js";
 import { createAuthenticatedUser, createTestSession } from "../utils/test-helpers.js";
+import {
+  addSideChatMessage,
+  archiveSideChat,
+  createSideChat,
+  getMainChatMessages,
+  getSideChatMessages,
+  getSideChats,
+} from "../../src/server/services/chats.js";
+import {
+  createMockProvider,
+  setCompanionProvider,
+} from "../../src/server/services/llm-provider.js";
 
 describe("WebSocket Chat", () => {
   let server: http.Server;
@@ -242,6 +254,219 @@ describe("WebSocket Chat", () => {
     });
   });
 
+  describe("Side Chats", () => {
+    afterEach(() => {
+      setCompanionProvider(null);
+    });
+
+    it("should stream a companion reply and save both messages", async () => {
+      setCompanionProvider(createMockProvider(["Let's start with the schema."]));
+      const { user, token } = createAuthenticatedUser();
+      const chat = createSideChat(user.id, { title: "Migration", topic: "Database migration" });
+
+      const ws = new WebSocket(`ws://localhost:${serverPort}/ws?token=${token}`);
+      await waitForMessage(ws); // auth
+
+      ws.send(JSON.stringify({ type: "join_side_chat", sideChatId: chat.id }));
+      const joinMessage = await waitForMessage(ws);
+      expect(joinMessage.type).toBe("join_side_chat");
+      expect(joinMessage.sideChatId).toBe(chat.id);
+
+      ws.send(JSON.stringify({ type: "side_chat_message", content: "Where do I start?" }));
+      const messages = await collectMessages(ws, 7, 2000);
+      const end = messages.find((m) => m.type === "stream_end");
+
+      expect(messages[0]).toEqual({ type: "stream_start", sideChatId: chat.id });
+      expect(end).toEqual({
+        type: "stream_end",
+        sideChatId: chat.id,
+        content: "Let's start with the schema.",
+      });
+
+      const saved = getSideChatMessages(user.id, chat.id)!.messages;
+      expect(saved.map((m) => [m.role, m.content])).toEqual([
+        ["user", "Where do I start?"],
+        ["assistant", "Let's start with the schema."],
+      ]);
+
+      ws.close();
+    });
+
+    it("should reply in the context of the chat's history", async () => {
+      const provider = createMockProvider(["Noted."]);
+      const stream = vi.spyOn(provider, "stream");
+      setCompanionProvider(provider);
+      const { user, token } = createAuthenticatedUser();
+      const chat = createSideChat(user.id, { title: "Trip", topic: "Planning the offsite" });
+      addSideChatMessage(user.id, chat.id, { role: "user", content: "We need a venue" });
+      addSideChatMessage(user.id, chat.id, { role: "assistant", content: "How many people?" });
+
+      const ws = new WebSocket(`ws://localhost:${serverPort}/ws?token=${token}`);
+      await waitForMessage(ws); // auth
+      ws.send(JSON.stringify({ type: "join_side_chat", sideChatId: chat.id }));
+      await waitForMessage(ws); // join
+
+      ws.send(JSON.stringify({ type: "side_chat_message", content: "About twelve" }));
+      await collectMessages(ws, 3, 2000);
+
+      const request = stream.mock.calls[0][0];
+      expect(JSON.stringify(request.system)).toContain("Planning the offsite");
+      expect(request.messages.map((m) => m.role)).toEqual(["user", "assistant", "user"]);
+      expect(request.messages[2].content).toBe("About twelve");
+      expect(request.tracking).toEqual({
+        userId: user.id,
+        sessionId: null,
+        requestType: "side_chat",
+      });
+
+      ws.close();
+    });
+
+    it("should reject joining another user's side chat", async () => {
+      const owner = createAuthenticatedUser();
+      const { token } = createAuthenticatedUser();
+      const chat = createSideChat(owner.user.id, { title: "Private" });
+
+      const ws = new WebSocket(`ws://localhost:${serverPort}/ws?token=${token}`);
+      await waitForMessage(ws); // auth
+
+      ws.send(JSON.stringify({ type: "join_side_chat", sideChatId: chat.id }));
+
+      const message = await waitForMessage(ws);
+      expect(message.type).toBe("error");
+      expect(message.error).toContain("Side chat not found");
+
+      ws.close();
+    });
+
+    it("should reject messages once the side chat is archived", async () => {
+      const { user, token } = createAuthenticatedUser();
+      const chat = createSideChat(user.id, { title: "Done soon" });
+
+      const ws = new WebSocket(`ws://localhost:${serverPort}/ws?token=${token}`);
+      await waitForMessage(ws); // auth
+      ws.send(JSON.stringify({ type: "join_side_chat", sideChatId: chat.id }));
+      await waitForMessage(ws); // join
+
+      archiveSideChat(user.id, chat.id);
+      ws.send(JSON.stringify({ type: "side_chat_message", content: "One more thing" }));
+
+      const message = await waitForMessage(ws);
+      expect(message.type).toBe("error");
+      expect(message.error).toContain("no longer active");
+
+      ws.close();
+    });
+
+    it("should require joining a side chat before sending to it", async () => {
+      const { token } = createAuthenticatedUser();
+
+      const ws = new WebSocket(`ws://localhost:${serverPort}/ws?token=${token}`);
+      await waitForMessage(ws); // auth
+
+      ws.send(JSON.stringify({ type: "side_chat_message", content: "Hello" }));
+
+      const message = await waitForMessage(ws);
+      expect(message.type).toBe("error");
+      expect(message.error).toContain("Not connected to a side chat");
+
+      ws.close();
+    });
+  });
+
+  describe("Main Chat", () => {
+    afterEach(() => {
+      setCompanionProvider(null);
+    });
+
+    it("should reply without an active session and save both messages", async () => {
+      setCompanionProvider(createMockProvider(["Start with the report."]));
+      const { user, token } = createAuthenticatedUser();
+
+      const ws = new WebSocket(`ws://localhost:${serverPort}/ws?token=${token}`);
+      await waitForMessage(ws); // auth
+
+      ws.send(JSON.stringify({ type: "main_chat_message", content: "What's first today?" }));
+      const messages = await collectMessages(ws, 6, 2000);
+
+      expect(messages[0]).toEqual({ type: "stream_start", chat: "main" });
+      expect(messages[messages.length - 1]).toEqual({
+        type: "stream_end",
+        chat: "main",
+        content: "Start with the report.",
+      });
+
+      const saved = getMainChatMessages(user.id).messages;
+      expect(saved.map((m) => [m.role, m.content])).toEqual([
+        ["user", "What's first today?"],
+        ["assistant", "Start with the report."],
+      ]);
+
+      ws.close();
+    });
+
+    it("should spawn a side chat the assistant suggests, without showing the marker", async () => {
+      setCompanionProvider(
+        createMockProvider([
+          "Let's dig in separately.\n[[side_chat: Hiring plan | Planning Q3 hires]]",
+        ])
+      );
+      const { user, token } = createAuthenticatedUser();
+
+      const ws = new WebSocket(`ws://localhost:${serverPort}/ws?token=${token}`);
+      await waitForMessage(ws); // auth
+
+      ws.send(JSON.stringify({ type: "main_chat_message", content: "I need to plan hiring" }));
+      const messages = await collectMessages(ws, 20, 1000);
+
+      const streamed = messages
+        .filter((m) => m.type === "stream_chunk")
+        .map((m) => m.content)
+        .join("");
+      expect(streamed).toBe("Let's dig in separately.");
+      expect(messages.find((m) => m.type === "stream_end").content).toBe(
+        "Let's dig in separately."
+      );
+
+      const [sideChat] = getSideChats(user.id);
+      expect(sideChat.title).toBe("Hiring plan");
+      expect(sideChat.topic).toBe("Planning Q3 hires");
+      expect(messages[messages.length - 1]).toEqual({
+        type: "side_chat_spawned",
+        chat: "main",
+        sideChatId: sideChat.id,
+        content: "Hiring plan",
+      });
+
+      const spawnRecord = getMainChatMessages(user.id).messages.find(
+        (m) => m.spawned_side_chat_id === sideChat.id
+      );
+      expect(spawnRecord?.role).toBe("system");
+
+      ws.close();
+    });
+  });
+
+  describe("Tool Confirmations", () => {
+    it("should reject confirmations with no pending tool call", async () => {
+      const { token } = createAuthenticatedUser();
+
+      const ws = new WebSocket(`ws://localhost:${serverPort}/ws?token=${token}`);
+      await waitForMessage(ws); // auth
+
+      ws.send(JSON.stringify({ type: "tool_confirmation", toolCallId: "nope", approved: true }));
+      const unknown = await waitForMessage(ws);
+      expect(unknown.type).toBe("error");
+      expect(unknown.error).toContain("No pending tool call");
+
+      ws.send(JSON.stringify({ type: "tool_confirmation", toolCallId: "nope" }));
+      const incomplete = await waitForMessage(ws);
+      expect(incomplete.error).toContain("toolCallId and approved are required");
+
+      ws.close();
+    });
+  });
+
   describe("Connection Handling", () => {
     it("should handle WebSocket path correctly", async () => {
       // Connect to the correct path